@@ -4,11 +4,13 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { WorkspaceProvider } from "@/contexts/WorkspaceContext";
 import { ErrorBoundaryWrapper } from "@/components/ui/error-boundary";
 
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
+import SharedView from "./pages/SharedView";
 import { ApiDocumentation } from "./pages/ApiDocumentation";
 
 const queryClient = new QueryClient();
@@ -17,19 +19,22 @@ const App = () => (
   <ErrorBoundaryWrapper showDetails={process.env.NODE_ENV === 'development'}>
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/api-documentation" element={<ApiDocumentation />} />
-              <Route path="/API_DOCUMENTATION" element={<Navigate to="/api-documentation" replace />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
+        <WorkspaceProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/share/:token" element={<SharedView />} />
+                <Route path="/api-documentation" element={<ApiDocumentation />} />
+                <Route path="/API_DOCUMENTATION" element={<Navigate to="/api-documentation" replace />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </WorkspaceProvider>
       </AuthProvider>
     </QueryClientProvider>
   </ErrorBoundaryWrapper>
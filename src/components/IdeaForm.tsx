@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { X, Plus, Tag as TagIcon } from 'lucide-react';
-import { Idea, IdeaStatus, IdeaColor, statusConfig, colorConfig } from '@/types/idea';
+import { Idea, IdeaGroup, IdeaStatus, IdeaColor, statusConfig, colorConfig } from '@/types/idea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,14 +18,17 @@ interface IdeaFormProps {
   onSubmit: (idea: Omit<Idea, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'image_url' | 'original_description'>) => void;
   onUpdate?: (id: string, updates: Partial<Idea>) => void;
   editingIdea?: Idea | null;
+  groups?: IdeaGroup[];
+  defaultGroupId?: string | null;
 }
 
-export const IdeaForm = ({ isOpen, onClose, onSubmit, onUpdate, editingIdea }: IdeaFormProps) => {
+export const IdeaForm = ({ isOpen, onClose, onSubmit, onUpdate, editingIdea, groups = [], defaultGroupId = null }: IdeaFormProps) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [status, setStatus] = useState<IdeaStatus>('idea');
   const [color, setColor] = useState<IdeaColor>('gray');
   const [tags, setTags] = useState<string[]>([]);
+  const [groupId, setGroupId] = useState<string | null>(null);
   const [newTag, setNewTag] = useState('');
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -38,6 +41,7 @@ export const IdeaForm = ({ isOpen, onClose, onSubmit, onUpdate, editingIdea }: I
       setStatus(editingIdea.status);
       setColor(editingIdea.color);
       setTags(editingIdea.tags);
+      setGroupId(editingIdea.groupId ?? null);
       setImagePreview(editingIdea.image_url || null);
     } else {
       setTitle('');
@@ -45,10 +49,11 @@ export const IdeaForm = ({ isOpen, onClose, onSubmit, onUpdate, editingIdea }: I
       setStatus('idea');
       setColor('gray');
       setTags([]);
+      setGroupId(defaultGroupId);
       setImagePreview(null);
     }
     setNewTag('');
-  }, [editingIdea, isOpen]);
+  }, [editingIdea, isOpen, defaultGroupId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -95,6 +100,7 @@ export const IdeaForm = ({ isOpen, onClose, onSubmit, onUpdate, editingIdea }: I
       status,
       color,
       tags,
+      groupId,
       ...(imageUrl && { image_url: imageUrl })
     };
 
@@ -212,6 +218,29 @@ export const IdeaForm = ({ isOpen, onClose, onSubmit, onUpdate, editingIdea }: I
             </div>
           </div>
 
+          {/* Group */}
+          {groups.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Group</Label>
+              <Select
+                value={groupId ?? 'none'}
+                onValueChange={(value) => setGroupId(value === 'none' ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No group</SelectItem>
+                  {groups.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.icon || '📁'} {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Tags */}
           <div className="space-y-2">
             <Label className="text-sm font-medium">Tags</Label>
@@ -1,18 +1,31 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Plus, Grid3x3, List, Search, Trash2, X, CheckSquare } from 'lucide-react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Plus, Grid3x3, List, KanbanSquare, Search, Trash2, X, CheckSquare, Upload, Layers } from 'lucide-react';
 import { useIdeas } from '@/hooks/useIdeas';
 import { UserProfile } from '@/components/UserProfile';
 import { IdeaForm } from '@/components/IdeaForm';
 import { SearchAndFilters } from '@/components/SearchAndFilters';
 import { PremiumIdeaCard } from '@/components/ideas/PremiumIdeaCard';
 import { IdeaPreviewModal } from '@/components/ideas/IdeaPreviewModal';
+import { IdeaBoard } from '@/components/ideas/IdeaBoard';
 import { OnboardingModal } from '@/components/onboarding/OnboardingModal';
-import { Idea } from '@/types/idea';
+import { GroupSidebar } from '@/components/groups/GroupSidebar';
+import { GroupDialog } from '@/components/groups/GroupDialog';
+import { IdeaConflictDialog } from '@/components/ideas/IdeaConflictDialog';
+import { IdeaTrash } from '@/components/ideas/IdeaTrash';
+import { ImportWizard, ImportCandidate } from '@/components/ideas/ImportWizard';
+import { ShareLinkDialog } from '@/components/sharing/ShareLinkDialog';
+import { ToastAction } from '@/components/ui/toast';
+import { Idea, IdeaGroup, groupColorOptions } from '@/types/idea';
+import { canEditWorkspace } from '@/types/workspace';
+import { ShareTarget } from '@/types/share';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { useToast } from '@/hooks/use-toast';
 import { useOnboarding } from '@/hooks/useOnboarding';
+import { useIdeaGroups, IdeaGroupInput } from '@/hooks/useIdeaGroups';
 
 interface UserSettings {
   auto_image_generation: boolean;
@@ -24,6 +37,10 @@ interface UserSettings {
 
 export const IdeaHub = () => {
   const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  // Viewers can browse a shared workspace but not change it
+  const canEdit = canEditWorkspace(currentWorkspace?.role);
+  const canShare = currentWorkspace?.role === 'owner';
   const { toast } = useToast();
   const { 
     isOnboardingOpen, 
@@ -33,25 +50,43 @@ export const IdeaHub = () => {
   const {
     ideas,
     allIdeas,
+    trashedIdeas,
     loading,
+    trashRetentionDays,
     searchQuery,
     setSearchQuery,
+    searchHits,
     statusFilter,
     setStatusFilter,
     selectedTags,
     setSelectedTags,
+    groupFilter,
+    setGroupFilter,
     allTags,
     addIdea,
+    importIdeas,
     updateIdea,
-    deleteIdea
+    deleteIdea,
+    restoreIdea,
+    purgeIdeas,
+    unassignGroup
   } = useIdeas();
+  const { groups, createGroup, updateGroup, deleteGroup } = useIdeaGroups();
 
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingIdea, setEditingIdea] = useState<Idea | null>(null);
   const [previewIdea, setPreviewIdea] = useState<Idea | null>(null);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'board'>('grid');
+  // The sidebar is hidden below lg; small screens open it in a sheet instead
+  const [isGroupsSheetOpen, setIsGroupsSheetOpen] = useState(false);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedIdeas, setSelectedIdeas] = useState<Set<string>>(new Set());
+  const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<IdeaGroup | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [editConflict, setEditConflict] = useState<{ base: Idea; mine: Partial<Idea>; current: Idea } | null>(null);
   const [settings, setSettings] = useState<UserSettings>({
     auto_image_generation: false,
     ai_description_enhancement: false,
@@ -120,19 +155,114 @@ export const IdeaHub = () => {
     });
   };
 
+  const notifyReadOnly = () => {
+    toast({
+      title: "Changes not saved",
+      description: "Your role in this workspace only lets you view ideas.",
+      variant: "destructive",
+    });
+  };
+
   const handleEditIdea = async (id: string, updates: Partial<Idea>) => {
-    await updateIdea(id, updates);
+    const base = editingIdea;
+    const result = await updateIdea(id, updates, { expectedVersion: base?.version });
+    if (result.status === 'conflict' && base) {
+      setEditConflict({ base, mine: updates, current: result.current });
+    } else if (result.status === 'forbidden') {
+      notifyReadOnly();
+    }
     setEditingIdea(null);
   };
 
+  // Save the merged edit against the version it was merged with; if that changed too, merge again
+  const handleResolveConflict = async (merged: Partial<Idea>) => {
+    if (!editConflict) return;
+    const { current } = editConflict;
+    const result = await updateIdea(current.id, merged, { expectedVersion: current.version });
+
+    if (result.status === 'conflict') {
+      setEditConflict({ base: current, mine: merged, current: result.current });
+      toast({
+        title: "Idea changed again",
+        description: "Another change was saved while you were merging. Please review it.",
+      });
+      return;
+    }
+
+    setEditConflict(null);
+    if (result.status === 'forbidden') {
+      notifyReadOnly();
+    } else if (result.status === 'updated') {
+      toast({
+        title: "Changes merged",
+        description: "Your edit was saved on top of the latest version.",
+      });
+    }
+  };
+
+  // Deleted ideas go to the trash; the toast offers to bring them straight back
+  const undoDeleteAction = (ids: string[]) => (
+    <ToastAction altText="Restore the deleted ideas" onClick={() => ids.forEach(id => restoreIdea(id))}>
+      Undo
+    </ToastAction>
+  );
+
   const handleDeleteIdea = async (id: string) => {
     await deleteIdea(id);
     toast({
-      title: "Idea deleted",
-      description: "Your idea has been removed.",
+      title: "Idea moved to trash",
+      description: `It will be deleted for good after ${trashRetentionDays} days.`,
+      action: undoDeleteAction([id]),
     });
   };
 
+  const handleDeletePermanently = async (ids?: string[]) => {
+    await purgeIdeas(ids);
+    toast({
+      title: ids ? "Idea deleted permanently" : "Trash emptied",
+      description: ids ? "The idea cannot be restored." : "All ideas in the trash have been deleted for good.",
+    });
+  };
+
+  // Groups are matched by name, ignoring case; missing ones are created first
+  const handleImport = async (candidates: ImportCandidate[]) => {
+    const groupIds = new Map(groups.map(group => [group.name.toLowerCase(), group.id]));
+    let created = 0;
+
+    for (const name of new Set(candidates.map(idea => idea.group).filter((group): group is string => !!group))) {
+      if (groupIds.has(name.toLowerCase())) continue;
+      const group = await createGroup({ name, color: groupColorOptions[(groups.length + created) % groupColorOptions.length] });
+      if (group) {
+        groupIds.set(name.toLowerCase(), group.id);
+        created++;
+      }
+    }
+
+    const count = await importIdeas(candidates.map(idea => ({
+      title: idea.title,
+      description: idea.description,
+      status: idea.status,
+      tags: idea.tags,
+      color: idea.color ?? 'gray',
+      groupId: idea.group ? groupIds.get(idea.group.toLowerCase()) ?? null : null,
+      createdAt: idea.createdAt,
+    })));
+
+    if (count === candidates.length) {
+      toast({
+        title: "Ideas imported",
+        description: `${count} idea(s) added${created > 0 ? ` and ${created} group(s) created` : ''}.`,
+      });
+    } else {
+      toast({
+        title: "Import incomplete",
+        description: `${count} of ${candidates.length} idea(s) were added. Please try the rest again.`,
+        variant: "destructive",
+      });
+    }
+    return count;
+  };
+
   const openEditForm = (idea: Idea) => {
     setEditingIdea(idea);
     setIsFormOpen(true);
@@ -167,17 +297,80 @@ export const IdeaHub = () => {
   };
 
   const handleBulkDelete = async () => {
-    for (const ideaId of selectedIdeas) {
+    const ids = Array.from(selectedIdeas);
+    for (const ideaId of ids) {
       await deleteIdea(ideaId);
     }
     setSelectedIdeas(new Set());
     setIsSelectionMode(false);
     toast({
-      title: `${selectedIdeas.size} idea(s) deleted`,
-      description: "Selected ideas have been removed.",
+      title: `${ids.length} idea(s) moved to trash`,
+      description: "You can restore them from the trash.",
+      action: undoDeleteAction(ids),
     });
   };
 
+  const openGroupDialog = (group: IdeaGroup | null = null) => {
+    setEditingGroup(group);
+    setIsGroupDialogOpen(true);
+  };
+
+  const closeGroupDialog = () => {
+    setIsGroupDialogOpen(false);
+    setEditingGroup(null);
+  };
+
+  const handleSaveGroup = async (input: IdeaGroupInput) => {
+    if (editingGroup) {
+      await updateGroup(editingGroup.id, input);
+      toast({
+        title: "Group updated",
+        description: `"${input.name}" has been saved.`,
+      });
+    } else {
+      const group = await createGroup(input);
+      if (group) {
+        setGroupFilter(group.id);
+        toast({
+          title: "Group created",
+          description: `"${group.name}" is ready for your ideas.`,
+        });
+      }
+    }
+  };
+
+  const handleDeleteGroup = async (group: IdeaGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Its ideas will be kept and moved to Ungrouped.`)) {
+      return;
+    }
+
+    const deleted = await deleteGroup(group.id);
+    if (deleted) {
+      unassignGroup(group.id);
+      toast({
+        title: "Group deleted",
+        description: `"${group.name}" has been removed.`,
+      });
+    }
+  };
+
+  const hasActiveFilters = searchQuery || statusFilter !== 'all' || selectedTags.length > 0 || groupFilter !== 'all';
+
+  // Shared by the desktop sidebar and the mobile sheet, which closes once a choice is made
+  const renderGroupSidebar = (onDone?: () => void) => (
+    <GroupSidebar
+      groups={groups}
+      ideas={allIdeas}
+      groupFilter={groupFilter}
+      onGroupFilterChange={(filter) => { setGroupFilter(filter); onDone?.(); }}
+      onCreateGroup={() => { openGroupDialog(); onDone?.(); }}
+      onEditGroup={(group) => { openGroupDialog(group); onDone?.(); }}
+      onDeleteGroup={handleDeleteGroup}
+      canEdit={canEdit}
+      onShareGroup={canShare ? (group) => { setShareTarget({ type: 'group', id: group.id, name: group.name }); onDone?.(); } : undefined}
+    />
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
@@ -204,6 +397,11 @@ export const IdeaHub = () => {
               <h1 className="text-xl font-bold bg-gradient-text bg-clip-text text-transparent">
                 Idea Hub
               </h1>
+              {currentWorkspace && !currentWorkspace.isPersonal && (
+                <span className="hidden sm:inline text-sm text-muted-foreground truncate max-w-[12rem]">
+                  / {currentWorkspace.name}{!canEdit && ' (view only)'}
+                </span>
+              )}
             </div>
             
             <div className="flex items-center gap-4">
@@ -224,6 +422,14 @@ export const IdeaHub = () => {
                 >
                   <List className="h-4 w-4" />
                 </Button>
+                <Button
+                  variant={viewMode === 'board' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setViewMode('board')}
+                  className="hidden sm:flex"
+                >
+                  <KanbanSquare className="h-4 w-4" />
+                </Button>
               </div>
               
                {/* Bulk Delete Actions */}
@@ -256,16 +462,49 @@ export const IdeaHub = () => {
                    <Button
                      variant="ghost"
                      size="sm"
-                     onClick={toggleSelectionMode}
-                     className="px-2 sm:px-3 text-xs sm:text-sm"
+                     onClick={() => setIsGroupsSheetOpen(true)}
+                     className="lg:hidden px-2 sm:px-3 text-xs sm:text-sm"
                    >
-                     <CheckSquare className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                     <span className="hidden sm:inline">Select</span>
+                     <Layers className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                     <span className="hidden sm:inline">Groups</span>
                    </Button>
-                   <Button onClick={() => setIsFormOpen(true)} className="shadow-elegant text-xs sm:text-sm px-2 sm:px-3">
-                     <Plus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                     <span className="hidden sm:inline">New </span>Idea
+                   {canEdit && (
+                     <Button
+                       variant="ghost"
+                       size="sm"
+                       onClick={() => setIsImportOpen(true)}
+                       className="px-2 sm:px-3 text-xs sm:text-sm"
+                     >
+                       <Upload className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                       <span className="hidden sm:inline">Import</span>
+                     </Button>
+                   )}
+                   <Button
+                     variant={isTrashOpen ? 'default' : 'ghost'}
+                     size="sm"
+                     onClick={() => setIsTrashOpen(!isTrashOpen)}
+                     className="px-2 sm:px-3 text-xs sm:text-sm"
+                   >
+                     <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                     <span className="hidden sm:inline">Trash </span>{trashedIdeas.length > 0 && `(${trashedIdeas.length})`}
                    </Button>
+                   {canEdit && (
+                     <>
+                       <Button
+                         variant="ghost"
+                         size="sm"
+                         onClick={toggleSelectionMode}
+                         className="px-2 sm:px-3 text-xs sm:text-sm"
+                       >
+                         <CheckSquare className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                         <span className="hidden sm:inline">Select</span>
+                       </Button>
+                       <Button onClick={() => setIsFormOpen(true)} className="shadow-elegant text-xs sm:text-sm px-2 sm:px-3">
+                         <Plus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                         <span className="hidden sm:inline">New </span>Idea
+                       </Button>
+                     </>
+                   )}
                  </div>
                )}
               
@@ -285,57 +524,108 @@ export const IdeaHub = () => {
           selectedTags={selectedTags}
           onTagsChange={setSelectedTags}
           allTags={allTags}
+          groups={groups}
+          groupFilter={groupFilter}
+          onGroupFilterChange={setGroupFilter}
           totalCount={allIdeas.length}
           filteredCount={ideas.length}
         />
       </div>
 
-      {/* Ideas Grid/List */}
-      <main className="container mx-auto px-4 sm:px-6 lg:px-8 pb-12">
-        {ideas.length === 0 ? (
-          <div className="text-center py-16">
-            <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gradient-primary/10 flex items-center justify-center">
-              <Search className="w-12 h-12 text-muted-foreground" />
-            </div>
-            <h2 className="text-2xl font-semibold text-foreground mb-2">
-              {searchQuery || statusFilter !== 'all' || selectedTags.length > 0 
-                ? 'No ideas match your filters' 
-                : 'No ideas yet'
-              }
-            </h2>
-            <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-              {searchQuery || statusFilter !== 'all' || selectedTags.length > 0
-                ? 'Try adjusting your search or filters to find what you\'re looking for.'
-                : 'Start capturing your brilliant app ideas and organize them like never before.'
-              }
-            </p>
-            <Button onClick={() => setIsFormOpen(true)} className="shadow-elegant">
-              <Plus className="h-4 w-4 mr-2" />
-              Create Your First Idea
-            </Button>
-          </div>
-        ) : (
-          <div className={`${
-            viewMode === 'grid' 
-              ? 'columns-1 sm:columns-2 lg:columns-3 xl:columns-4 gap-4' 
-              : 'space-y-4 max-w-4xl mx-auto'
-          }`}>
-            {ideas.map((idea) => (
-              <PremiumIdeaCard
-                key={idea.id}
-                idea={idea}
-                onEdit={openEditForm}
-                onDelete={handleDeleteIdea}
-                onPreview={openPreview}
-                isSelected={selectedIdeas.has(idea.id)}
-                onSelectionToggle={toggleIdeaSelection}
-                isSelectionMode={isSelectionMode}
-                settings={settings}
-              />
-            ))}
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 pb-12 flex gap-6">
+        {/* Group Sidebar */}
+        <aside className="hidden lg:block w-56 flex-shrink-0">
+          <div className="sticky top-24">
+            {renderGroupSidebar()}
           </div>
-        )}
-      </main>
+        </aside>
+
+        <Sheet open={isGroupsSheetOpen} onOpenChange={setIsGroupsSheetOpen}>
+          <SheetContent side="left" className="w-72 overflow-y-auto">
+            <SheetHeader className="sr-only">
+              <SheetTitle>Groups</SheetTitle>
+            </SheetHeader>
+            <div className="pt-6">
+              {renderGroupSidebar(() => setIsGroupsSheetOpen(false))}
+            </div>
+          </SheetContent>
+        </Sheet>
+
+        {/* Ideas Grid/List */}
+        <main className="flex-1 min-w-0">
+          {isTrashOpen ? (
+            <IdeaTrash
+              ideas={trashedIdeas}
+              retentionDays={trashRetentionDays}
+              canEdit={canEdit}
+              onRestore={restoreIdea}
+              onDeletePermanently={handleDeletePermanently}
+              onClose={() => setIsTrashOpen(false)}
+            />
+          ) : ideas.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gradient-primary/10 flex items-center justify-center">
+                <Search className="w-12 h-12 text-muted-foreground" />
+              </div>
+              <h2 className="text-2xl font-semibold text-foreground mb-2">
+                {hasActiveFilters
+                  ? 'No ideas match your filters' 
+                  : 'No ideas yet'
+                }
+              </h2>
+              <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+                {hasActiveFilters
+                  ? 'Try adjusting your search or filters to find what you\'re looking for.'
+                  : 'Start capturing your brilliant app ideas and organize them like never before.'
+                }
+              </p>
+              {canEdit && (
+                <Button onClick={() => setIsFormOpen(true)} className="shadow-elegant">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Idea
+                </Button>
+              )}
+            </div>
+          ) : viewMode === 'board' ? (
+            <IdeaBoard
+              ideas={ideas}
+              onMove={updateIdea}
+              onEdit={openEditForm}
+              onDelete={handleDeleteIdea}
+              onPreview={openPreview}
+              canEdit={canEdit}
+              selectedIdeas={selectedIdeas}
+              onSelectionToggle={toggleIdeaSelection}
+              isSelectionMode={isSelectionMode}
+              searchHits={searchHits}
+              settings={settings}
+            />
+          ) : (
+            <div className={`${
+              viewMode === 'grid' 
+                ? 'columns-1 sm:columns-2 lg:columns-3 xl:columns-4 gap-4' 
+                : 'space-y-4 max-w-4xl mx-auto'
+            }`}>
+              {ideas.map((idea) => (
+                <PremiumIdeaCard
+                  key={idea.id}
+                  idea={idea}
+                  onEdit={openEditForm}
+                  onDelete={handleDeleteIdea}
+                  onPreview={openPreview}
+                  onUpdate={updateIdea}
+                  canEdit={canEdit}
+                  isSelected={selectedIdeas.has(idea.id)}
+                  onSelectionToggle={toggleIdeaSelection}
+                  isSelectionMode={isSelectionMode}
+                  searchHit={searchHits?.get(idea.id)}
+                  settings={settings}
+                />
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
 
       {/* Modals */}
       <IdeaForm
@@ -347,18 +637,47 @@ export const IdeaHub = () => {
           undefined
         }
         editingIdea={editingIdea}
+        groups={groups}
+        defaultGroupId={groupFilter !== 'all' && groupFilter !== 'ungrouped' ? groupFilter : null}
+      />
+
+      <GroupDialog
+        isOpen={isGroupDialogOpen}
+        onClose={closeGroupDialog}
+        onSubmit={handleSaveGroup}
+        editingGroup={editingGroup}
+      />
+
+      <ImportWizard
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        existingIdeas={allIdeas}
+        groups={groups}
+        onImport={handleImport}
+      />
+
+      <IdeaConflictDialog
+        conflict={editConflict}
+        groups={groups}
+        onResolve={handleResolveConflict}
+        onDiscard={() => setEditConflict(null)}
       />
 
        {previewIdea && (
          <IdeaPreviewModal
-           idea={previewIdea}
+           idea={allIdeas.find(idea => idea.id === previewIdea.id) ?? previewIdea}
            isOpen={!!previewIdea}
            onClose={closePreview}
            onEdit={openEditForm}
+           onUpdate={updateIdea}
+           canEdit={canEdit}
+           onShare={canShare ? (idea) => setShareTarget({ type: 'idea', id: idea.id, name: idea.title }) : undefined}
            settings={settings}
          />
        )}
 
+       <ShareLinkDialog target={shareTarget} onClose={() => setShareTarget(null)} />
+
        {/* Onboarding Modal */}
        <OnboardingModal
          isOpen={isOnboardingOpen}
@@ -1,5 +1,5 @@
 import { Search, Filter, X } from 'lucide-react';
-import { IdeaStatus, statusConfig } from '@/types/idea';
+import { IdeaStatus, IdeaGroup, GroupFilter, statusConfig } from '@/types/idea';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +14,9 @@ interface SearchAndFiltersProps {
   selectedTags: string[];
   onTagsChange: (tags: string[]) => void;
   allTags: string[];
+  groups: IdeaGroup[];
+  groupFilter: GroupFilter;
+  onGroupFilterChange: (filter: GroupFilter) => void;
   totalCount: number;
   filteredCount: number;
 }
@@ -26,6 +29,9 @@ export const SearchAndFilters = ({
   selectedTags,
   onTagsChange,
   allTags,
+  groups,
+  groupFilter,
+  onGroupFilterChange,
   totalCount,
   filteredCount
 }: SearchAndFiltersProps) => {
@@ -41,9 +47,16 @@ export const SearchAndFilters = ({
     onSearchChange('');
     onStatusFilterChange('all');
     onTagsChange([]);
+    onGroupFilterChange('all');
   };
 
-  const hasActiveFilters = searchQuery || statusFilter !== 'all' || selectedTags.length > 0;
+  const hasActiveFilters = searchQuery || statusFilter !== 'all' || selectedTags.length > 0 || groupFilter !== 'all';
+
+  const groupLabel = (filter: GroupFilter) => {
+    if (filter === 'ungrouped') return 'Ungrouped';
+    const group = groups.find(g => g.id === filter);
+    return group ? `${group.icon || '📁'} ${group.name}` : 'Unknown group';
+  };
 
   return (
     <div className="space-y-4">
@@ -53,7 +66,7 @@ export const SearchAndFilters = ({
         <Input
           value={searchQuery}
           onChange={(e) => onSearchChange(e.target.value)}
-          placeholder="Search ideas by title or description..."
+          placeholder='Search ideas... use "exact phrase", prefix*, -exclude'
           className="pl-10 h-12 text-base bg-card border-border/50 focus:border-primary"
         />
       </div>
@@ -75,6 +88,24 @@ export const SearchAndFilters = ({
           </SelectContent>
         </Select>
 
+        {/* Group Filter */}
+        {groups.length > 0 && (
+          <Select value={groupFilter} onValueChange={onGroupFilterChange}>
+            <SelectTrigger className="w-[180px] h-9">
+              <SelectValue placeholder="All groups" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Groups</SelectItem>
+              <SelectItem value="ungrouped">Ungrouped</SelectItem>
+              {groups.map((group) => (
+                <SelectItem key={group.id} value={group.id}>
+                  {group.icon || '📁'} {group.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {/* Tags Filter */}
         {allTags.length > 0 && (
           <Popover>
@@ -133,8 +164,19 @@ export const SearchAndFilters = ({
       </div>
 
       {/* Active Filters Display */}
-      {(selectedTags.length > 0 || statusFilter !== 'all') && (
+      {(selectedTags.length > 0 || statusFilter !== 'all' || groupFilter !== 'all') && (
         <div className="flex flex-wrap gap-2">
+          {groupFilter !== 'all' && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              Group: {groupLabel(groupFilter)}
+              <button
+                onClick={() => onGroupFilterChange('all')}
+                className="ml-1 hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
           {statusFilter !== 'all' && (
             <Badge variant="secondary" className="flex items-center gap-1">
               Status: {statusConfig[statusFilter].label}
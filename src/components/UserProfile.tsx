@@ -1,21 +1,40 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { Button } from '@/components/ui/button';
 import { 
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { LogOut, Settings } from 'lucide-react';
+import { Check, LogOut, Plus, Settings, Users, X } from 'lucide-react';
 import { SettingsModal } from '@/components/settings/SettingsModal';
+import { CreateWorkspaceDialog } from '@/components/workspaces/CreateWorkspaceDialog';
+import { WorkspaceSettingsDialog } from '@/components/workspaces/WorkspaceSettingsDialog';
+import { useToast } from '@/hooks/use-toast';
+import { roleConfig } from '@/types/workspace';
 import { useNavigate } from 'react-router-dom';
 
 export const UserProfile = () => {
   const { user, profile, signOut } = useAuth();
+  const {
+    workspaces,
+    currentWorkspace,
+    invitations,
+    switchWorkspace,
+    createWorkspace,
+    acceptInvitation,
+    declineInvitation,
+  } = useWorkspace();
+  const { toast } = useToast();
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isCreateWorkspaceOpen, setIsCreateWorkspaceOpen] = useState(false);
+  const [isWorkspaceSettingsOpen, setIsWorkspaceSettingsOpen] = useState(false);
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -23,6 +42,24 @@ export const UserProfile = () => {
     navigate('/auth');
   };
 
+  const handleCreateWorkspace = async (name: string) => {
+    const workspace = await createWorkspace(name);
+    if (workspace) {
+      setIsCreateWorkspaceOpen(false);
+      toast({ title: "Workspace created", description: `Switched to "${workspace.name}". Invite people from Manage workspace.` });
+    } else {
+      toast({ title: "Workspace not created", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleAcceptInvitation = async (id: string, workspaceName?: string) => {
+    if (await acceptInvitation(id)) {
+      toast({ title: "Invitation accepted", description: `You joined "${workspaceName || 'the workspace'}".` });
+    } else {
+      toast({ title: "Invitation failed", description: "It may have expired or been revoked.", variant: "destructive" });
+    }
+  };
+
   if (!user || !profile) return null;
 
   const initials = profile.display_name 
@@ -42,7 +79,7 @@ export const UserProfile = () => {
             </div>
           </Button>
         </DropdownMenuTrigger>
-        <DropdownMenuContent className="w-56" align="end" forceMount>
+        <DropdownMenuContent className="w-64" align="end" forceMount>
           <DropdownMenuLabel className="font-normal">
             <div className="flex flex-col space-y-1">
               <p className="text-sm font-medium leading-none">
@@ -54,6 +91,58 @@ export const UserProfile = () => {
             </div>
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Workspaces</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={currentWorkspace?.id} onValueChange={switchWorkspace}>
+            {workspaces.map(workspace => (
+              <DropdownMenuRadioItem key={workspace.id} value={workspace.id}>
+                <span className="flex-1 truncate">{workspace.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground">{roleConfig[workspace.role].label}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuItem onClick={() => setIsCreateWorkspaceOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            <span>New workspace…</span>
+          </DropdownMenuItem>
+          {currentWorkspace && (
+            <DropdownMenuItem onClick={() => setIsWorkspaceSettingsOpen(true)}>
+              <Users className="mr-2 h-4 w-4" />
+              <span>Manage workspace…</span>
+            </DropdownMenuItem>
+          )}
+          {invitations.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Invitations</DropdownMenuLabel>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center gap-1 px-2 py-1.5 text-sm">
+                  <span className="flex-1 truncate">
+                    {invitation.workspaceName || 'Workspace'}
+                    <span className="text-xs text-muted-foreground"> · {roleConfig[invitation.role].label}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => handleAcceptInvitation(invitation.id, invitation.workspaceName)}
+                    title="Accept"
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => declineInvitation(invitation.id)}
+                    title="Decline"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
           <DropdownMenuItem onClick={() => setIsSettingsOpen(true)}>
             <Settings className="mr-2 h-4 w-4" />
             <span>Settings</span>
@@ -69,6 +158,18 @@ export const UserProfile = () => {
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
       />
+
+      <CreateWorkspaceDialog
+        isOpen={isCreateWorkspaceOpen}
+        onClose={() => setIsCreateWorkspaceOpen(false)}
+        onSubmit={handleCreateWorkspace}
+      />
+
+      <WorkspaceSettingsDialog
+        workspace={currentWorkspace}
+        isOpen={isWorkspaceSettingsOpen}
+        onClose={() => setIsWorkspaceSettingsOpen(false)}
+      />
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ApiOperation, OpenApiDocument, OpenApiSchema, methodBadgeVariant, resolveSchema, schemaName, schemaType } from '@/types/openapi';
+
+interface ApiEndpointListProps {
+  spec: OpenApiDocument;
+  operations: ApiOperation[];
+}
+
+const SchemaProperties = ({ schema }: { schema: OpenApiSchema }) => (
+  <div className="divide-y rounded-md border text-xs">
+    {Object.entries(schema.properties || {}).map(([name, property]) => (
+      <div key={name} className="flex flex-wrap items-baseline gap-2 p-2">
+        <code className="font-mono">{name}</code>
+        <span className="text-muted-foreground">{schemaType(property)}</span>
+        {schema.required?.includes(name) && <Badge variant="outline" className="text-[10px]">required</Badge>}
+        {property.deprecated && <Badge variant="outline" className="text-[10px]">deprecated</Badge>}
+        {property.description && <span className="text-muted-foreground">— {property.description}</span>}
+      </div>
+    ))}
+  </div>
+);
+
+export const ApiEndpointList = ({ spec, operations }: ApiEndpointListProps) => {
+  return (
+    <div className="space-y-6">
+      {spec.tags.map(tag => (
+        <Card key={tag.name}>
+          <CardHeader>
+            <CardTitle>{tag.name}</CardTitle>
+            {tag.description && <CardDescription>{tag.description}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {operations.filter(operation => operation.tags.includes(tag.name)).map(operation => {
+              const bodySchema = operation.requestBody?.content['application/json']?.schema;
+              const resolvedBody = resolveSchema(spec, bodySchema);
+
+              return (
+                <div key={operation.operationId} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Badge variant={methodBadgeVariant(operation.method)}>{operation.method.toUpperCase()}</Badge>
+                    <code className="text-sm font-mono">{operation.path}</code>
+                    {operation.auth === 'session' ? (
+                      <Badge variant="outline">Session</Badge>
+                    ) : operation['x-required-scope'] && (
+                      <Badge variant="outline" className="font-mono">{operation['x-required-scope']}</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <p>{operation.summary}</p>
+                    {operation.description && <p>{operation.description}</p>}
+                  </div>
+
+                  {operation.parameters.length > 0 && (
+                    <div className="space-y-1">
+                      <span className="text-xs text-muted-foreground">Parameters</span>
+                      <div className="divide-y rounded-md border text-xs">
+                        {operation.parameters.map(parameter => (
+                          <div key={parameter.name} className="flex flex-wrap items-baseline gap-2 p-2">
+                            <code className="font-mono">{parameter.name}</code>
+                            <span className="text-muted-foreground">{parameter.in}, {schemaType(parameter.schema)}</span>
+                            {parameter.required && <Badge variant="outline" className="text-[10px]">required</Badge>}
+                            {parameter.description && <span className="text-muted-foreground">— {parameter.description}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {resolvedBody?.properties && (
+                    <div className="space-y-1">
+                      <span className="text-xs text-muted-foreground">Body ({schemaName(bodySchema) || 'JSON'})</span>
+                      <SchemaProperties schema={resolvedBody} />
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {Object.entries(operation.responses).map(([status, response]) => (
+                      <span key={status} className="rounded bg-muted px-2 py-1" title={response.description}>
+                        <span className={Number(status) < 300 ? 'text-green-600' : 'text-muted-foreground'}>{status}</span>
+                        {' '}{response.description}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
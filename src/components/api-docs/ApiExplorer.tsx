@@ -0,0 +1,374 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle2, Copy, Loader2, Play } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ApiOperation, OpenApiDocument, exampleValue, methodBadgeVariant, schemaType } from '@/types/openapi';
+
+interface ApiExplorerProps {
+  spec: OpenApiDocument;
+  operations: ApiOperation[];
+}
+
+interface ExplorerKey {
+  id: string;
+  name: string;
+  scopes: string[];
+  is_active: boolean;
+}
+
+interface ExplorerResponse {
+  status: number;
+  durationMs: number;
+  headers: [string, string][];
+  body: string;
+}
+
+// Pasted secrets are kept for the browser session only; the API never returns them again
+const MANUAL_KEY = 'manual';
+const secretStorageKey = (keyId: string) => `api-explorer-secret:${keyId}`;
+
+const shownHeaders = ['retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'idempotent-replayed', 'etag'];
+
+export const ApiExplorer = ({ spec, operations }: ApiExplorerProps) => {
+  const { user, session } = useAuth();
+  const { toast } = useToast();
+  const [operationId, setOperationId] = useState(operations[0]?.operationId || '');
+  const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState('');
+  const [apiKeys, setApiKeys] = useState<ExplorerKey[]>([]);
+  const [selectedKeyId, setSelectedKeyId] = useState(MANUAL_KEY);
+  const [secret, setSecret] = useState('');
+  const [sending, setSending] = useState(false);
+  const [response, setResponse] = useState<ExplorerResponse | null>(null);
+
+  const operation = operations.find(item => item.operationId === operationId);
+  const selectedKey = apiKeys.find(key => key.id === selectedKeyId);
+  const requiredScope = operation?.['x-required-scope'];
+  const serverUrl = spec.servers[0]?.url || '';
+
+  useEffect(() => {
+    const fetchKeys = async () => {
+      if (!user || !session?.access_token) {
+        setApiKeys([]);
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke('ai-keys', {
+        headers: { Authorization: `Bearer ${session.access_token}` }
+      });
+
+      if (error) {
+        console.error('Error fetching API keys:', error);
+        return;
+      }
+
+      const activeKeys = (data?.data || []).filter((key: ExplorerKey) => key.is_active);
+      setApiKeys(activeKeys);
+      if (activeKeys.length > 0) setSelectedKeyId(activeKeys[0].id);
+    };
+
+    fetchKeys();
+  }, [user, session?.access_token]);
+
+  useEffect(() => {
+    setSecret(sessionStorage.getItem(secretStorageKey(selectedKeyId)) || '');
+  }, [selectedKeyId]);
+
+  // Start each operation from its defaults and an example body
+  const selectOperation = (id: string) => {
+    const bodySchema = operations.find(item => item.operationId === id)?.requestBody?.content['application/json']?.schema;
+    setOperationId(id);
+    setParamValues({});
+    setResponse(null);
+    setBody(bodySchema ? JSON.stringify(exampleValue(spec, bodySchema), null, 2) : '');
+  };
+
+  const updateSecret = (value: string) => {
+    setSecret(value);
+    if (value) {
+      sessionStorage.setItem(secretStorageKey(selectedKeyId), value);
+    } else {
+      sessionStorage.removeItem(secretStorageKey(selectedKeyId));
+    }
+  };
+
+  const requestUrl = useMemo(() => {
+    if (!operation) return '';
+    const path = operation.parameters
+      .filter(parameter => parameter.in === 'path')
+      .reduce((result, parameter) =>
+        result.replace(`{${parameter.name}}`, encodeURIComponent(paramValues[parameter.name] || `{${parameter.name}}`)), operation.path);
+    const query = new URLSearchParams(
+      operation.parameters
+        .filter(parameter => parameter.in === 'query' && paramValues[parameter.name])
+        .map(parameter => [parameter.name, paramValues[parameter.name]])
+    ).toString();
+    return `${serverUrl}${path}${query ? `?${query}` : ''}`;
+  }, [operation, paramValues, serverUrl]);
+
+  const missingPathParams = operation?.parameters.some(parameter => parameter.in === 'path' && !paramValues[parameter.name]);
+  const canAuthenticate = operation?.auth === 'session' ? !!session?.access_token : !!secret;
+
+  const requestHeaders = (): Record<string, string> => {
+    const headers: Record<string, string> = body ? { 'Content-Type': 'application/json' } : {};
+    operation?.parameters
+      .filter(parameter => parameter.in === 'header' && paramValues[parameter.name])
+      .forEach(parameter => { headers[parameter.name] = paramValues[parameter.name]; });
+    if (operation?.auth === 'session') {
+      headers.Authorization = `Bearer ${session?.access_token}`;
+    } else {
+      headers['x-api-key'] = secret;
+    }
+    return headers;
+  };
+
+  const curlCommand = () => {
+    const headerFlags = Object.entries(requestHeaders()).map(([name, value]) =>
+      ` \\\n  -H "${name}: ${name === 'x-api-key' ? 'iah_your_api_key_here' : name === 'Authorization' ? 'Bearer <access token>' : value}"`
+    );
+    const data = operation?.requestBody && body ? ` \\\n  -d '${body.replace(/'/g, "'\\''")}'` : '';
+    return `curl -X ${operation?.method.toUpperCase()} "${requestUrl}"${headerFlags.join('')}${data}`;
+  };
+
+  const sendRequest = async () => {
+    if (!operation) return;
+
+    if (operation.requestBody && body) {
+      try {
+        JSON.parse(body);
+      } catch {
+        toast({
+          variant: "destructive",
+          title: "Invalid JSON",
+          description: "The request body is not valid JSON"
+        });
+        return;
+      }
+    }
+
+    setSending(true);
+    const startedAt = performance.now();
+
+    try {
+      const result = await fetch(requestUrl, {
+        method: operation.method.toUpperCase(),
+        headers: requestHeaders(),
+        body: operation.requestBody && body ? body : undefined
+      });
+      const text = await result.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show as is
+      }
+
+      setResponse({
+        status: result.status,
+        durationMs: Math.round(performance.now() - startedAt),
+        headers: [...result.headers.entries()].filter(([name]) => shownHeaders.includes(name.toLowerCase())),
+        body: formatted
+      });
+    } catch (error) {
+      console.error('Error sending API request:', error);
+      toast({
+        variant: "destructive",
+        title: "Request failed",
+        description: (error as Error).message || "Could not reach the API"
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const copyCurl = () => {
+    navigator.clipboard.writeText(curlCommand());
+    toast({
+      title: "Copied!",
+      description: "cURL command copied to clipboard",
+    });
+  };
+
+  if (!operation) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Explorer</CardTitle>
+        <CardDescription>
+          Send real requests with one of your API keys. Requests count against the key's rate limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Operation</Label>
+          <Select value={operationId} onValueChange={selectOperation}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {operations.map(item => (
+                <SelectItem key={item.operationId} value={item.operationId}>
+                  <span className="font-mono text-xs mr-2">{item.method.toUpperCase()}</span>
+                  {item.path}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">{operation.summary}</p>
+        </div>
+
+        {operation.auth === 'session' ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {session
+                ? 'Key management uses your signed in session instead of an API key.'
+                : 'Sign in to try the key management endpoints.'}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>API key</Label>
+                <Select value={selectedKeyId} onValueChange={setSelectedKeyId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {apiKeys.map(key => (
+                      <SelectItem key={key.id} value={key.id}>{key.name}</SelectItem>
+                    ))}
+                    <SelectItem value={MANUAL_KEY}>Other key</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="explorer-secret">Secret</Label>
+                <Input
+                  id="explorer-secret"
+                  type="password"
+                  placeholder="iah_..."
+                  value={secret}
+                  onChange={(e) => updateSecret(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Secrets are only shown when a key is created or rotated, so paste it here. It is kept until you close this tab.
+            </p>
+            {selectedKey && (requiredScope ? (
+              selectedKey.scopes.includes(requiredScope) ? (
+                <div className="flex items-center gap-2 text-sm text-green-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  This key has the <code className="font-mono">{requiredScope}</code> scope
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4" />
+                  This key lacks the <code className="font-mono">{requiredScope}</code> scope and will get a 403
+                </div>
+              )
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Scopes are checked for each operation in the batch. This key has: {selectedKey.scopes.join(', ')}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {operation.parameters.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Parameters</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {operation.parameters.map(parameter => (
+                <div key={parameter.name} className="space-y-1">
+                  <Label htmlFor={`param-${parameter.name}`} className="flex items-center gap-2">
+                    <code className="font-mono text-xs">{parameter.name}</code>
+                    {parameter.required && <Badge variant="outline" className="text-[10px]">required</Badge>}
+                  </Label>
+                  {parameter.schema.enum ? (
+                    <Select
+                      value={paramValues[parameter.name] || ''}
+                      onValueChange={(value) => setParamValues(prev => ({ ...prev, [parameter.name]: value }))}
+                    >
+                      <SelectTrigger id={`param-${parameter.name}`}>
+                        <SelectValue placeholder={parameter.schema.default !== undefined ? String(parameter.schema.default) : 'Any'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {parameter.schema.enum.map(value => (
+                          <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      id={`param-${parameter.name}`}
+                      placeholder={parameter.schema.default !== undefined ? String(parameter.schema.default) : schemaType(parameter.schema)}
+                      value={paramValues[parameter.name] || ''}
+                      onChange={(e) => setParamValues(prev => ({ ...prev, [parameter.name]: e.target.value }))}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {operation.requestBody && (
+          <div className="space-y-2">
+            <Label htmlFor="explorer-body">Request body</Label>
+            <Textarea
+              id="explorer-body"
+              className="font-mono text-sm min-h-40"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant={methodBadgeVariant(operation.method)}>{operation.method.toUpperCase()}</Badge>
+            <code className="flex-1 p-2 bg-muted rounded text-xs font-mono break-all">{requestUrl}</code>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={sendRequest} disabled={sending || !canAuthenticate || missingPathParams}>
+              {sending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Send request
+            </Button>
+            <Button variant="outline" onClick={copyCurl}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy as cURL
+            </Button>
+          </div>
+        </div>
+
+        {response && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge variant={response.status < 300 ? 'secondary' : 'destructive'}>{response.status}</Badge>
+              <span className="text-muted-foreground">{response.durationMs} ms</span>
+              {response.headers.map(([name, value]) => (
+                <code key={name} className="text-xs font-mono text-muted-foreground">{name}: {value}</code>
+              ))}
+            </div>
+            <pre className="p-4 bg-muted rounded-lg text-sm font-mono overflow-auto max-h-96">
+              {response.body || '(empty response)'}
+            </pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { IdeaGroup, groupColorOptions, groupIconOptions } from '@/types/idea';
+import { IdeaGroupInput } from '@/hooks/useIdeaGroups';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+
+interface GroupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (input: IdeaGroupInput) => void;
+  editingGroup?: IdeaGroup | null;
+}
+
+export const GroupDialog = ({ isOpen, onClose, onSubmit, editingGroup }: GroupDialogProps) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState(groupColorOptions[0]);
+  const [icon, setIcon] = useState(groupIconOptions[0]);
+
+  useEffect(() => {
+    if (editingGroup) {
+      setName(editingGroup.name);
+      setDescription(editingGroup.description || '');
+      setColor(editingGroup.color);
+      setIcon(editingGroup.icon || groupIconOptions[0]);
+    } else {
+      setName('');
+      setDescription('');
+      setColor(groupColorOptions[0]);
+      setIcon(groupIconOptions[0]);
+    }
+  }, [editingGroup, isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    onSubmit({
+      name: name.trim(),
+      description: description.trim(),
+      color,
+      icon
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">
+            {editingGroup ? 'Edit Group' : 'New Group'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="group-name" className="text-sm font-medium">
+              Name *
+            </Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Mobile apps"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="group-description" className="text-sm font-medium">
+              Description
+            </Label>
+            <Textarea
+              id="group-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What belongs in this group?"
+              className="min-h-[80px] text-sm"
+            />
+          </div>
+
+          {/* Icon */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {groupIconOptions.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setIcon(option)}
+                  className={`w-9 h-9 rounded-md border text-lg transition-all ${
+                    icon === option ? 'ring-2 ring-primary border-primary' : 'border-border hover:bg-muted'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Color */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {groupColorOptions.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  style={{ backgroundColor: option }}
+                  className={`w-8 h-8 rounded-full transition-all ${
+                    color === option ? 'ring-2 ring-offset-2 ring-primary scale-110' : 'hover:scale-105'
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {editingGroup ? 'Save Group' : 'Create Group'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
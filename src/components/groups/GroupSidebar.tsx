@@ -0,0 +1,126 @@
+import { Plus, MoreHorizontal, Edit3, Trash2, Layers, Inbox, Share2 } from 'lucide-react';
+import { Idea, IdeaGroup, GroupFilter } from '@/types/idea';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+interface GroupSidebarProps {
+  groups: IdeaGroup[];
+  ideas: Idea[];
+  groupFilter: GroupFilter;
+  onGroupFilterChange: (filter: GroupFilter) => void;
+  onCreateGroup: () => void;
+  onEditGroup: (group: IdeaGroup) => void;
+  onDeleteGroup: (group: IdeaGroup) => void;
+  // False for workspace viewers, who can filter by groups but not change them
+  canEdit?: boolean;
+  // Only passed to workspace owners
+  onShareGroup?: (group: IdeaGroup) => void;
+}
+
+export const GroupSidebar = ({
+  groups,
+  ideas,
+  groupFilter,
+  onGroupFilterChange,
+  onCreateGroup,
+  onEditGroup,
+  onDeleteGroup,
+  canEdit = true,
+  onShareGroup
+}: GroupSidebarProps) => {
+  const countFor = (groupId: string) => ideas.filter(idea => idea.groupId === groupId).length;
+  const ungroupedCount = ideas.filter(idea => !idea.groupId).length;
+
+  const itemClass = (active: boolean) =>
+    `flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm transition-colors ${
+      active ? 'bg-primary/10 text-foreground font-medium' : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+    }`;
+
+  return (
+    <nav className="space-y-4">
+      <div className="flex items-center justify-between px-3">
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Groups
+        </h2>
+        {canEdit && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={onCreateGroup}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <button className={itemClass(groupFilter === 'all')} onClick={() => onGroupFilterChange('all')}>
+          <Layers className="h-4 w-4" />
+          <span className="flex-1 text-left">All ideas</span>
+          <span className="text-xs">{ideas.length}</span>
+        </button>
+        <button className={itemClass(groupFilter === 'ungrouped')} onClick={() => onGroupFilterChange('ungrouped')}>
+          <Inbox className="h-4 w-4" />
+          <span className="flex-1 text-left">Ungrouped</span>
+          <span className="text-xs">{ungroupedCount}</span>
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {groups.map((group) => (
+          <div key={group.id} className="group relative flex items-center">
+            <button className={itemClass(groupFilter === group.id)} onClick={() => onGroupFilterChange(group.id)}>
+              <span
+                className="flex h-5 w-5 items-center justify-center rounded text-xs"
+                style={{ backgroundColor: `${group.color}33` }}
+              >
+                {group.icon || '📁'}
+              </span>
+              <span className="flex-1 truncate text-left">{group.name}</span>
+              <span className={`text-xs ${canEdit ? 'group-hover:invisible' : ''}`}>{countFor(group.id)}</span>
+            </button>
+            {canEdit && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-1 h-7 w-7 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onEditGroup(group)}>
+                    <Edit3 className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  {onShareGroup && (
+                    <DropdownMenuItem onClick={() => onShareGroup(group)}>
+                      <Share2 className="h-4 w-4 mr-2" />
+                      Share
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem
+                    onClick={() => onDeleteGroup(group)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        ))}
+
+        {canEdit && groups.length === 0 && (
+          <p className="px-3 py-2 text-xs text-muted-foreground">
+            Create a group to organize related ideas together.
+          </p>
+        )}
+      </div>
+    </nav>
+  );
+};
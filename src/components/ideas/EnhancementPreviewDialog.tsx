@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { Sparkles, Check, X, RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Idea, IdeaUpdater } from '@/types/idea';
+import { useDescriptionEnhancement } from '@/hooks/useDescriptionEnhancement';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { DEFAULT_PROMPT_TEMPLATE_ID } from '@/types/ai';
+import { useToast } from '@/hooks/use-toast';
+import { MarkdownContent } from '@/components/ideas/MarkdownContent';
+import { EnhancementSectionKey, composeDescription, enhancementSections, splitEnhancement } from '@/lib/enhancement';
+
+// The last template picked, preselected next time
+const TEMPLATE_STORAGE_KEY = 'enhancement_template_id';
+
+interface EnhancementPreviewDialogProps {
+  idea: Idea;
+  markdown: boolean;
+  developerMode: boolean;
+  onUpdate: IdeaUpdater;
+  onClose: () => void;
+}
+
+// Mounted while an enhancement is in progress: streams the suggestion next to the current
+// description and writes to the idea only when the user accepts all or some of it.
+export const EnhancementPreviewDialog = ({ idea, markdown, developerMode, onUpdate, onClose }: EnhancementPreviewDialogProps) => {
+  const { toast } = useToast();
+  const { text, status, error, template, start, cancel, apply } = useDescriptionEnhancement();
+  const { templates, loading: loadingTemplates } = usePromptTemplates();
+  const [saving, setSaving] = useState(false);
+  const [accepted, setAccepted] = useState<Set<EnhancementSectionKey>>(new Set());
+  // The idea as it was when the dialog opened; live updates must not change what is compared
+  const [request] = useState(() => ({
+    title: idea.title,
+    description: idea.description,
+    tags: idea.tags,
+    version: idea.version,
+    apiKey: developerMode ? sessionStorage.getItem('dev_deepseek_key') : null
+  }));
+  const [chosenTemplateId, setChosenTemplateId] = useState(() => localStorage.getItem(TEMPLATE_STORAGE_KEY) || DEFAULT_PROMPT_TEMPLATE_ID);
+  // A remembered template may have been deleted since
+  const selectedTemplate = templates.find(candidate => candidate.id === chosenTemplateId)
+    ?? templates.find(candidate => candidate.id === DEFAULT_PROMPT_TEMPLATE_ID);
+  const templateId = selectedTemplate?.id ?? null;
+
+  // Starts once the templates are known, and again whenever another one is picked
+  useEffect(() => {
+    if (!loadingTemplates) start({ ...request, templateId });
+  }, [request, templateId, loadingTemplates, start]);
+
+  const chooseTemplate = (id: string) => {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, id);
+    setChosenTemplateId(id);
+    setAccepted(new Set());
+  };
+
+  const blocks = status === 'done' ? splitEnhancement(text) : [];
+  const availableSections = enhancementSections.filter(section => blocks.some(block => block.section === section.key));
+
+  const toggleSection = (key: EnhancementSectionKey, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const reject = () => {
+    cancel();
+    onClose();
+  };
+
+  const accept = async (description: string) => {
+    setSaving(true);
+    try {
+      const result = await apply({ ...idea, description: request.description, version: request.version }, description, template, onUpdate);
+      if (result.status === 'updated') {
+        toast({
+          title: "Description enhanced! ✨",
+          description: "Your idea description has been improved with AI insights.",
+        });
+        onClose();
+      } else if (result.status === 'conflict') {
+        toast({
+          title: "Idea changed",
+          description: "Someone saved this idea while the suggestion was being written. Enhance it again to use the latest version.",
+          variant: "destructive",
+        });
+        onClose();
+      } else if (result.status === 'forbidden') {
+        toast({
+          title: "Changes not saved",
+          description: "Your role in this workspace only lets you view ideas.",
+          variant: "destructive",
+        });
+        onClose();
+      } else {
+        toast({
+          title: "Failed to save",
+          description: "Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && reject()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Enhance "{idea.title}"
+          </DialogTitle>
+          <DialogDescription>
+            Review the suggestion before anything is saved. Accept all of it, only some sections, or reject it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {templates.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Label className="text-sm">Template</Label>
+            <Select value={templateId ?? undefined} onValueChange={chooseTemplate} disabled={saving}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedTemplate?.description && (
+              <span className="text-xs text-muted-foreground">{selectedTemplate.description}</span>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 min-w-0">
+            <h4 className="text-sm font-semibold text-muted-foreground">Current</h4>
+            <div className="rounded-lg border p-4 max-h-[55vh] overflow-y-auto">
+              <MarkdownContent content={request.description} markdown={markdown} className="text-sm" />
+            </div>
+          </div>
+          <div className="space-y-2 min-w-0">
+            <h4 className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+              Enhanced
+              {status === 'streaming' && <span className="text-xs font-normal animate-pulse">Generating...</span>}
+            </h4>
+            <div className="rounded-lg border border-primary/40 bg-primary/5 p-4 max-h-[55vh] overflow-y-auto">
+              {text ? (
+                <MarkdownContent content={text} markdown={markdown} className="text-sm" />
+              ) : status === 'streaming' || status === 'idle' ? (
+                <p className="text-sm text-muted-foreground">Waiting for the first words...</p>
+              ) : null}
+              {status === 'error' && (
+                <p className="text-sm text-destructive">{error || 'Enhancement failed.'} Please check your API configuration.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {availableSections.length > 0 && (
+          <div className="flex flex-wrap items-center gap-4 rounded-lg bg-muted/40 p-3">
+            <span className="text-sm font-medium">Add only these sections:</span>
+            {availableSections.map(section => (
+              <div key={section.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`enhancement-${section.key}`}
+                  checked={accepted.has(section.key)}
+                  onCheckedChange={(checked) => toggleSection(section.key, checked === true)}
+                />
+                <Label htmlFor={`enhancement-${section.key}`} className="text-sm">{section.label}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={reject} disabled={saving}>
+            <X className="h-4 w-4 mr-2" />
+            Reject
+          </Button>
+          {status === 'error' && (
+            <Button variant="outline" onClick={() => start({ ...request, templateId })}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Try Again
+            </Button>
+          )}
+          {availableSections.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => accept(composeDescription(request.description, blocks, accepted))}
+              disabled={saving || accepted.size === 0}
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Accept Selected
+            </Button>
+          )}
+          <Button onClick={() => accept(text)} disabled={saving || status !== 'done'}>
+            <Check className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Accept All'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,20 @@
+import { splitHighlights } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => (
+  <span className={className}>
+    {splitHighlights(text).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5 dark:bg-yellow-500/40">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </span>
+);
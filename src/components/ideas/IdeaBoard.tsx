@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Idea, IdeaSearchHit, IdeaStatus, IdeaUpdater, statusConfig } from '@/types/idea';
+import { Badge } from '@/components/ui/badge';
+import { PremiumIdeaCard } from '@/components/ideas/PremiumIdeaCard';
+import { planBoardMove, sortByPosition } from '@/lib/board';
+
+interface IdeaBoardProps {
+  ideas: Idea[];
+  onMove: IdeaUpdater;
+  onEdit: (idea: Idea) => void;
+  onDelete: (id: string) => void;
+  onPreview: (idea: Idea) => void;
+  // False for workspace viewers, who cannot drag ideas between columns
+  canEdit?: boolean;
+  selectedIdeas: Set<string>;
+  onSelectionToggle: (id: string) => void;
+  isSelectionMode: boolean;
+  searchHits?: Map<string, IdeaSearchHit> | null;
+  settings: {
+    auto_image_generation: boolean;
+    ai_description_enhancement: boolean;
+    markdown_preview: boolean;
+    developer_mode: boolean;
+  };
+}
+
+interface DropTarget {
+  status: IdeaStatus;
+  index: number;
+}
+
+export const IdeaBoard = ({
+  ideas,
+  onMove,
+  onEdit,
+  onDelete,
+  onPreview,
+  canEdit = true,
+  selectedIdeas,
+  onSelectionToggle,
+  isSelectionMode,
+  searchHits,
+  settings
+}: IdeaBoardProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const columns = (Object.keys(statusConfig) as IdeaStatus[]).map(status => ({
+    status,
+    ideas: ideas.filter(idea => idea.status === status).sort(sortByPosition)
+  }));
+
+  const handleDragStart = (e: React.DragEvent, idea: Idea) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', idea.id);
+    setDraggedId(idea.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleCardDragOver = (e: React.DragEvent, status: IdeaStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isBelowMiddle = e.clientY > rect.top + rect.height / 2;
+    const targetIndex = isBelowMiddle ? index + 1 : index;
+    if (dropTarget?.status !== status || dropTarget.index !== targetIndex) {
+      setDropTarget({ status, index: targetIndex });
+    }
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent, status: IdeaStatus, count: number) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: count });
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, status: IdeaStatus) => {
+    e.preventDefault();
+    if (!canEdit) return;
+    const ideaId = e.dataTransfer.getData('text/plain') || draggedId;
+    const target = dropTarget?.status === status ? dropTarget : { status, index: Number.MAX_SAFE_INTEGER };
+    handleDragEnd();
+
+    const idea = ideas.find(i => i.id === ideaId);
+    if (!idea) return;
+
+    const column = columns.find(c => c.status === status)!.ideas;
+    const moves = planBoardMove(column, idea, status, target.index);
+    await Promise.all(moves.map(move => onMove(move.id, move.updates)));
+  };
+
+  const dropIndicator = <div className="h-1 mb-4 rounded-full bg-primary" />;
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map(({ status, ideas: columnIdeas }) => (
+        <div
+          key={status}
+          className={`flex w-72 flex-shrink-0 flex-col rounded-lg border bg-muted/30 ${
+            dropTarget?.status === status ? 'border-primary/50' : 'border-border/50'
+          }`}
+          onDragOver={(e) => handleColumnDragOver(e, status, columnIdeas.length)}
+          onDrop={(e) => handleDrop(e, status)}
+        >
+          <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+            <Badge variant="secondary" className={`${statusConfig[status].color} border-0`}>
+              {statusConfig[status].label}
+            </Badge>
+            <span className="text-xs text-muted-foreground">{columnIdeas.length}</span>
+          </div>
+
+          <div className="flex-1 p-3 min-h-[120px]">
+            {columnIdeas.map((idea, index) => (
+              <div key={idea.id}>
+                {dropTarget?.status === status && dropTarget.index === index && dropIndicator}
+                <div
+                  draggable={canEdit && !isSelectionMode}
+                  onDragStart={(e) => handleDragStart(e, idea)}
+                  onDragEnd={handleDragEnd}
+                  onDragOver={(e) => handleCardDragOver(e, status, index)}
+                  className={draggedId === idea.id ? 'opacity-50' : ''}
+                >
+                  <PremiumIdeaCard
+                    idea={idea}
+                    onEdit={onEdit}
+                    onDelete={onDelete}
+                    onPreview={onPreview}
+                    onUpdate={onMove}
+                    canEdit={canEdit}
+                    isSelected={selectedIdeas.has(idea.id)}
+                    onSelectionToggle={onSelectionToggle}
+                    isSelectionMode={isSelectionMode}
+                    searchHit={searchHits?.get(idea.id)}
+                    settings={settings}
+                  />
+                </div>
+              </div>
+            ))}
+            {dropTarget?.status === status && dropTarget.index >= columnIdeas.length && dropIndicator}
+            {columnIdeas.length === 0 && dropTarget?.status !== status && (
+              <p className="py-6 text-center text-xs text-muted-foreground">
+                {canEdit ? 'Drop ideas here' : 'No ideas'}
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
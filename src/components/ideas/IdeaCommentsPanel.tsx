@@ -0,0 +1,328 @@
+import { useState, useRef } from 'react';
+import { MessageSquare, Reply, Edit3, Trash2, History } from 'lucide-react';
+import { Idea, IdeaComment, IdeaCommentRevision } from '@/types/idea';
+import { useIdeaComments } from '@/hooks/useIdeaComments';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useToast } from '@/hooks/use-toast';
+import { linkMentions, mentionQueryAt, MentionCandidate } from '@/lib/mentions';
+import { MarkdownContent } from '@/components/ideas/MarkdownContent';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface IdeaCommentsPanelProps {
+  idea: Idea;
+  markdown: boolean;
+}
+
+// Replies nest visually up to this depth; deeper replies line up with their parent
+const MAX_INDENT_DEPTH = 3;
+
+const formatDate = (date: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(date);
+};
+
+interface CommentComposerProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  candidates: MentionCandidate[];
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const CommentComposer = ({ initialBody = '', placeholder, submitLabel, candidates, onSubmit, onCancel }: CommentComposerProps) => {
+  const [body, setBody] = useState(initialBody);
+  const [saving, setSaving] = useState(false);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const suggestions = mention
+    ? candidates
+      .filter(candidate => candidate.displayName.toLowerCase().startsWith(mention.query.toLowerCase()))
+      .slice(0, 5)
+    : [];
+
+  const handleChange = (value: string, cursor: number) => {
+    setBody(value);
+    setMention(mentionQueryAt(value, cursor));
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!mention) return;
+
+    const cursor = mention.start + mention.query.length + 1;
+    const inserted = `@${candidate.displayName.trim()} `;
+    setBody(body.slice(0, mention.start) + inserted + body.slice(cursor));
+    setMention(null);
+
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+
+    setSaving(true);
+    try {
+      if (await onSubmit(body)) {
+        setBody('');
+        setMention(null);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape' && mention) {
+              e.preventDefault();
+              setMention(null);
+            } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder={placeholder}
+          className="min-h-[80px]"
+          maxLength={10000}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-2 top-full z-10 mt-1 w-56 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map(candidate => (
+              <button
+                key={candidate.userId}
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(candidate);
+                }}
+                className="w-full truncate rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+              >
+                @{candidate.displayName}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">Markdown supported. Type @ to mention someone.</span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={saving || !body.trim()}>
+            {saving ? 'Saving...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const IdeaCommentsPanel = ({ idea, markdown }: IdeaCommentsPanelProps) => {
+  const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  const { toast } = useToast();
+  const { comments, loading, addComment, editComment, deleteComment, fetchHistory } = useIdeaComments(idea.id);
+  const { members } = useWorkspaceMembers(currentWorkspace?.id ?? null, false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ commentId: string; revisions: IdeaCommentRevision[] } | null>(null);
+
+  const candidates: MentionCandidate[] = members
+    .filter(member => member.displayName?.trim())
+    .map(member => ({ userId: member.userId, displayName: member.displayName! }));
+  const membersById = new Map(members.map(member => [member.userId, member]));
+  const isOwner = currentWorkspace?.role === 'owner';
+
+  const repliesByParent = new Map<string | null, IdeaComment[]>();
+  comments.forEach(comment => {
+    const parentId = comment.parentId && comments.some(c => c.id === comment.parentId) ? comment.parentId : null;
+    repliesByParent.set(parentId, [...(repliesByParent.get(parentId) || []), comment]);
+  });
+
+  const failed = (title: string) => toast({ title, description: "Please try again.", variant: "destructive" });
+
+  const handleAdd = async (body: string, parentId: string | null = null) => {
+    const added = await addComment(body, parentId);
+    if (!added) failed(parentId ? "Reply failed" : "Comment failed");
+    else if (parentId) setReplyingTo(null);
+    return added;
+  };
+
+  const handleEdit = async (id: string, body: string) => {
+    const edited = await editComment(id, body);
+    if (!edited) failed("Edit failed");
+    else setEditingId(null);
+    return edited;
+  };
+
+  const handleDelete = async (comment: IdeaComment) => {
+    if (!confirm('Delete this comment? Replies stay visible.')) return;
+    if (!(await deleteComment(comment.id))) failed("Delete failed");
+  };
+
+  const toggleHistory = async (commentId: string) => {
+    if (history?.commentId === commentId) {
+      setHistory(null);
+      return;
+    }
+    setHistory({ commentId, revisions: await fetchHistory(commentId) });
+  };
+
+  const renderComment = (comment: IdeaComment, depth: number) => {
+    const author = membersById.get(comment.userId);
+    const authorName = author?.displayName || author?.email || 'Former member';
+    const isAuthor = comment.userId === user?.id;
+    const replies = repliesByParent.get(comment.id) || [];
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-6 border-l pl-4' : ''}>
+        <div className="group py-3">
+          <div className="flex items-center gap-2 text-sm">
+            <div
+              className="flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full text-white text-xs font-semibold"
+              style={{ backgroundColor: author?.avatarColor ?? '#9CA3AF' }}
+            >
+              {authorName.charAt(0).toUpperCase()}
+            </div>
+            <span className="font-medium">{authorName}</span>
+            <span className="text-xs text-muted-foreground">{formatDate(comment.createdAt)}</span>
+            {(comment.editedAt || comment.deletedAt) && (
+              <button
+                onClick={() => toggleHistory(comment.id)}
+                className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+              >
+                {comment.deletedAt ? 'deleted' : 'edited'}
+              </button>
+            )}
+          </div>
+
+          <div className="mt-1 pl-8">
+            {comment.deletedAt ? (
+              <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+            ) : editingId === comment.id ? (
+              <CommentComposer
+                initialBody={comment.body}
+                placeholder="Edit your comment"
+                submitLabel="Save"
+                candidates={candidates}
+                onSubmit={(body) => handleEdit(comment.id, body)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <MarkdownContent content={linkMentions(comment.body, candidates)} markdown={markdown} className="text-sm" />
+            )}
+
+            {history?.commentId === comment.id && (
+              <div className="mt-2 space-y-2 rounded-md border bg-muted/30 p-3">
+                <h5 className="flex items-center gap-1 text-xs font-semibold uppercase text-muted-foreground">
+                  <History className="h-3 w-3" />
+                  Earlier versions
+                </h5>
+                {history.revisions.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No earlier versions.</p>
+                ) : history.revisions.map(revision => (
+                  <div key={revision.id} className="text-sm">
+                    <div className="text-xs text-muted-foreground">
+                      {revision.action === 'delete' ? 'Deleted' : 'Replaced'} {formatDate(revision.createdAt)}
+                    </div>
+                    <p className="whitespace-pre-wrap break-words text-muted-foreground">{revision.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!comment.deletedAt && editingId !== comment.id && (
+              <div className="mt-1 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplyingTo(comment.id)}>
+                  <Reply className="h-3 w-3 mr-1" />
+                  Reply
+                </Button>
+                {isAuthor && (
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditingId(comment.id)}>
+                    <Edit3 className="h-3 w-3 mr-1" />
+                    Edit
+                  </Button>
+                )}
+                {(isAuthor || isOwner) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(comment)}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <div className="mt-2">
+                <CommentComposer
+                  placeholder={`Reply to ${authorName}`}
+                  submitLabel="Reply"
+                  candidates={candidates}
+                  onSubmit={(body) => handleAdd(body, comment.id)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  const threads = repliesByParent.get(null) || [];
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <MessageSquare className="h-5 w-5" />
+        Comments
+        {comments.length > 0 && <span className="text-sm font-normal text-muted-foreground">({comments.filter(c => !c.deletedAt).length})</span>}
+      </h3>
+
+      {loading && comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the discussion below.</p>
+      ) : (
+        <div className="divide-y">
+          {threads.map(comment => renderComment(comment, 0))}
+        </div>
+      )}
+
+      <CommentComposer
+        placeholder="Add a comment"
+        submitLabel="Comment"
+        candidates={candidates}
+        onSubmit={(body) => handleAdd(body)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { Idea, IdeaGroup, MergeableIdeaField, statusConfig } from '@/types/idea';
+
+interface IdeaConflictDialogProps {
+  // The idea as it was when editing started, the edit that could not be saved,
+  // and the version someone else saved in the meantime
+  conflict: { base: Idea; mine: Partial<Idea>; current: Idea } | null;
+  groups: IdeaGroup[];
+  onResolve: (merged: Partial<Idea>) => void;
+  onDiscard: () => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const fieldLabels: Record<MergeableIdeaField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  tags: 'Tags',
+  color: 'Color',
+  groupId: 'Group',
+};
+
+const mergeableFields = Object.keys(fieldLabels) as MergeableIdeaField[];
+
+const normalize = (value: unknown) => JSON.stringify(value ?? null);
+const same = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+export const IdeaConflictDialog = ({ conflict, groups, onResolve, onDiscard }: IdeaConflictDialogProps) => {
+  const [choices, setChoices] = useState<Partial<Record<MergeableIdeaField, Side>>>({});
+
+  // Fields where the edit and the saved version disagree. A field only one side changed
+  // defaults to that side; a field both changed defaults to the edit.
+  const differences = useMemo(() => {
+    if (!conflict) return [];
+    const { base, mine, current } = conflict;
+    return mergeableFields
+      .filter(field => mine[field] !== undefined && !same(mine[field], current[field]))
+      .map(field => {
+        const changedByMe = !same(mine[field], base[field]);
+        const changedByThem = !same(current[field], base[field]);
+        return {
+          field,
+          bothChanged: changedByMe && changedByThem,
+          defaultSide: (changedByMe || !changedByThem ? 'mine' : 'theirs') as Side,
+        };
+      });
+  }, [conflict]);
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(differences.map(({ field, defaultSide }) => [field, defaultSide])));
+  }, [differences]);
+
+  if (!conflict) return null;
+
+  const renderValue = (field: MergeableIdeaField, value: unknown) => {
+    switch (field) {
+      case 'status':
+        return statusConfig[value as Idea['status']]?.label ?? String(value);
+      case 'tags':
+        return (value as string[]).length > 0
+          ? <div className="flex flex-wrap gap-1">{(value as string[]).map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}</div>
+          : <span className="text-muted-foreground">No tags</span>;
+      case 'groupId':
+        return groups.find(group => group.id === value)?.name ?? <span className="text-muted-foreground">No group</span>;
+      case 'description':
+        return value
+          ? <p className="whitespace-pre-wrap line-clamp-6">{value as string}</p>
+          : <span className="text-muted-foreground">No description</span>;
+      default:
+        return String(value);
+    }
+  };
+
+  const handleResolve = () => {
+    const merged = { ...conflict.mine };
+    differences.forEach(({ field }) => {
+      if (choices[field] === 'theirs') {
+        Object.assign(merged, { [field]: conflict.current[field] });
+      }
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            This idea was changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved "{conflict.current.title}" at {conflict.current.updatedAt.toLocaleString()}.
+            Pick which version to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        {differences.length === 0 ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            The other change does not touch the fields you edited. Your changes can be saved as they are.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {differences.map(({ field, bothChanged }) => (
+              <div key={field} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h4 className="text-sm font-medium">{fieldLabels[field]}</h4>
+                  {bothChanged && <Badge variant="outline" className="text-amber-600 border-amber-300">Both changed</Badge>}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(['mine', 'theirs'] as Side[]).map(side => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                      className={`rounded-md border p-3 text-left text-sm transition-colors ${
+                        choices[field] === side ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                      }`}
+                    >
+                      <span className="block text-xs text-muted-foreground mb-1">
+                        {side === 'mine' ? 'Your edit' : 'Saved version'}
+                      </span>
+                      {renderValue(field, side === 'mine' ? conflict.mine[field] : conflict.current[field])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onDiscard}>
+            Discard my changes
+          </Button>
+          <Button onClick={handleResolve}>
+            Save merged version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
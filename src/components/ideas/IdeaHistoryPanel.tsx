@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Idea, IdeaRevision, statusConfig } from '@/types/idea';
+import { useIdeaRevisions } from '@/hooks/useIdeaRevisions';
+import { diffLines, diffWords, DiffPart } from '@/lib/diff';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface IdeaHistoryPanelProps {
+  idea: Idea;
+  // Left out for workspace viewers, who can read the history but not restore from it
+  onRestore?: (revision: IdeaRevision) => Promise<void>;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  tags: 'Tags'
+};
+
+const sourceLabels: Record<string, string> = {
+  app: 'Web app',
+  api: 'API'
+};
+
+const DiffView = ({ parts, block = false }: { parts: DiffPart[]; block?: boolean }) => (
+  <div className={block ? 'font-mono text-xs whitespace-pre-wrap break-words' : 'text-sm break-words'}>
+    {parts.map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.op === 'insert'
+            ? 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200'
+            : part.op === 'delete'
+              ? 'bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200'
+              : 'text-muted-foreground'
+        }
+      >
+        {part.value}
+      </span>
+    ))}
+  </div>
+);
+
+export const IdeaHistoryPanel = ({ idea, onRestore }: IdeaHistoryPanelProps) => {
+  const { revisions, loading, refresh } = useIdeaRevisions(idea.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Pick up the revision written by the latest edit
+  useEffect(() => {
+    refresh();
+  }, [idea.updatedAt, refresh]);
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex === -1 ? revisions[0] : revisions[selectedIndex];
+  const previous = selected ? revisions[revisions.indexOf(selected) + 1] : undefined;
+
+  const handleRestore = async (revision: IdeaRevision) => {
+    if (!onRestore) return;
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+      setSelectedId(null);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderChanges = (revision: IdeaRevision, before?: IdeaRevision) => {
+    if (!before) {
+      return <p className="text-sm text-muted-foreground">First recorded version of this idea.</p>;
+    }
+
+    const addedTags = revision.tags.filter(tag => !before.tags.includes(tag));
+    const removedTags = before.tags.filter(tag => !revision.tags.includes(tag));
+
+    return (
+      <div className="space-y-4">
+        {revision.title !== before.title && (
+          <div className="space-y-1">
+            <h5 className="text-xs font-semibold uppercase text-muted-foreground">Title</h5>
+            <DiffView parts={diffWords(before.title, revision.title)} />
+          </div>
+        )}
+        {revision.status !== before.status && (
+          <div className="space-y-1">
+            <h5 className="text-xs font-semibold uppercase text-muted-foreground">Status</h5>
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="outline">{statusConfig[before.status]?.label ?? before.status}</Badge>
+              →
+              <Badge variant="outline">{statusConfig[revision.status]?.label ?? revision.status}</Badge>
+            </div>
+          </div>
+        )}
+        {(addedTags.length > 0 || removedTags.length > 0) && (
+          <div className="space-y-1">
+            <h5 className="text-xs font-semibold uppercase text-muted-foreground">Tags</h5>
+            <div className="flex flex-wrap gap-1">
+              {addedTags.map(tag => (
+                <Badge key={`+${tag}`} variant="outline" className="bg-green-100 dark:bg-green-900/40">+ {tag}</Badge>
+              ))}
+              {removedTags.map(tag => (
+                <Badge key={`-${tag}`} variant="outline" className="bg-red-100 line-through dark:bg-red-900/40">{tag}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+        {revision.description !== before.description && (
+          <div className="space-y-1">
+            <h5 className="text-xs font-semibold uppercase text-muted-foreground">Description</h5>
+            <div className="rounded-md border bg-muted/30 p-3">
+              <DiffView parts={diffLines(before.description, revision.description)} block />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <History className="h-5 w-5" />
+        History
+      </h3>
+
+      {loading && revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No history recorded for this idea yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+          <ScrollArea className="md:h-80 rounded-md border">
+            <div className="p-1">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full rounded px-3 py-2 text-left transition-colors ${
+                    selected?.id === revision.id ? 'bg-primary/10' : 'hover:bg-muted'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">v{revision.version}</span>
+                    {index === 0 && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDate(revision.createdAt)} · {sourceLabels[revision.source] ?? revision.source}
+                  </div>
+                  {revision.changedFields.length > 0 && (
+                    <div className="text-xs text-muted-foreground truncate">
+                      {revision.changedFields.map(field => fieldLabels[field] ?? field).join(', ')}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {selected && (
+            <div className="space-y-4 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">
+                  Changes in v{selected.version}
+                </span>
+                {onRestore && selected.id !== revisions[0].id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(selected)}
+                    disabled={restoringId !== null}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {restoringId === selected.id ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                )}
+              </div>
+              {renderChanges(selected, previous)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
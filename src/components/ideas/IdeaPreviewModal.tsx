@@ -3,18 +3,26 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Edit3, Calendar, Tag, Sparkles, Undo2, ImageIcon } from 'lucide-react';
-import { Idea, statusConfig, colorConfig } from '@/types/idea';
-import ReactMarkdown from 'react-markdown';
+import { Edit3, Calendar, Tag, Sparkles, Undo2, ImageIcon, History, Share2 } from 'lucide-react';
+import { Idea, IdeaRevision, IdeaUpdater, statusConfig, colorConfig } from '@/types/idea';
 import { useToast } from '@/hooks/use-toast';
 import { BannerDisplay } from '@/components/ui/banner-display';
 import { supabase } from '@/integrations/supabase/client';
+import { IdeaHistoryPanel } from '@/components/ideas/IdeaHistoryPanel';
+import { MarkdownContent } from '@/components/ideas/MarkdownContent';
+import { IdeaCommentsPanel } from '@/components/ideas/IdeaCommentsPanel';
+import { EnhancementPreviewDialog } from '@/components/ideas/EnhancementPreviewDialog';
 
 interface IdeaPreviewModalProps {
   idea: Idea | null;
   isOpen: boolean;
   onClose: () => void;
   onEdit: (idea: Idea) => void;
+  onUpdate?: IdeaUpdater;
+  // False for workspace viewers; hides editing, AI actions and restoring old versions
+  canEdit?: boolean;
+  // Only passed to workspace owners
+  onShare?: (idea: Idea) => void;
   settings: {
     auto_image_generation: boolean;
     ai_description_enhancement: boolean;
@@ -28,10 +36,14 @@ export const IdeaPreviewModal = ({
   isOpen, 
   onClose, 
   onEdit, 
+  onUpdate,
+  canEdit = true,
+  onShare,
   settings 
 }: IdeaPreviewModalProps) => {
   const [isEnhancingDescription, setIsEnhancingDescription] = useState(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const { toast } = useToast();
 
   if (!idea) return null;
@@ -49,84 +61,49 @@ export const IdeaPreviewModal = ({
     }).format(new Date(date));
   };
 
-  const enhanceDescription = async () => {
-    if (!settings.ai_description_enhancement) return;
+  const undoEnhancement = async () => {
+    if (!idea.original_description || !onUpdate) return;
     
-    setIsEnhancingDescription(true);
-    try {
-      const apiKey = settings.developer_mode ? sessionStorage.getItem('dev_deepseek_key') : undefined;
-      
-      const { data, error } = await supabase.functions.invoke('enhance-description', {
-        body: { 
-          title: idea.title,
-          description: idea.description,
-          ...(apiKey && { apiKey })
-        }
-      });
+    const result = await onUpdate(idea.id, {
+      description: idea.original_description,
+      original_description: null,
+      enhancementTemplateId: null,
+      enhancementTemplateName: null
+    }, { expectedVersion: idea.version });
 
-      if (error) {
-        console.error('Supabase function error:', error);
-        throw new Error('Failed to enhance prompt. Please check your API configuration.');
-      }
-
-      if (data?.success && data?.enhancedDescription) {
-        const { error: updateError } = await supabase
-          .from('ideas')
-          .update({ 
-            original_description: idea.original_description || idea.description,
-            description: data.enhancedDescription 
-          })
-          .eq('id', idea.id);
-
-        if (updateError) throw updateError;
-
-        toast({
-          title: "Description enhanced! ✨",
-          description: "Your idea description has been improved with AI insights.",
-        });
-        
-        // Refresh the modal data
-        window.location.reload();
-      } else {
-        throw new Error(data?.error || 'Failed to enhance description');
-      }
-    } catch (error: any) {
-      console.error('Error enhancing description:', error);
+    if (result.status === 'updated') {
       toast({
-        title: "Failed to enhance prompt",
-        description: "Please check your API configuration.",
+        title: "Description restored",
+        description: "Your original description has been restored.",
+      });
+    } else {
+      toast({
+        title: "Undo failed",
+        description: result.status === 'conflict' ? "The idea changed in the meantime. Please try again." : "Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsEnhancingDescription(false);
     }
   };
 
-  const undoEnhancement = async () => {
-    if (!idea.original_description) return;
-    
-    try {
-      const { error } = await supabase
-        .from('ideas')
-        .update({ 
-          description: idea.original_description,
-          original_description: null
-        })
-        .eq('id', idea.id);
+  const restoreRevision = async (revision: IdeaRevision) => {
+    if (!onUpdate) return;
 
-      if (error) throw error;
+    try {
+      await onUpdate(idea.id, {
+        title: revision.title,
+        description: revision.description,
+        status: revision.status,
+        tags: revision.tags
+      });
 
       toast({
-        title: "Description restored",
-        description: "Your original description has been restored.",
+        title: `Version ${revision.version} restored`,
+        description: "The restored content has been saved as a new version.",
       });
-      
-      // Refresh the modal data
-      window.location.reload();
     } catch (error) {
-      console.error('Error undoing enhancement:', error);
+      console.error('Error restoring revision:', error);
       toast({
-        title: "Undo failed",
+        title: "Restore failed",
         description: "Please try again.",
         variant: "destructive",
       });
@@ -164,9 +141,6 @@ export const IdeaPreviewModal = ({
           title: "Image generated! 🎨",
           description: "A beautiful image has been created for your idea.",
         });
-        
-        // Refresh the modal data
-        window.location.reload();
       } else {
         throw new Error(data?.error || 'Failed to generate image');
       }
@@ -197,6 +171,42 @@ export const IdeaPreviewModal = ({
                   >
                     {statusStyle.label}
                   </Badge>
+                  {onShare && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onShare(idea)}
+                    >
+                      <Share2 className="h-4 w-4 mr-2" />
+                      Share
+                    </Button>
+                  )}
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onEdit(idea)}
+                    >
+                      <Edit3 className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+            {idea.image_url && (
+              <div className="flex justify-end gap-2">
+                {onShare && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onShare(idea)}
+                  >
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Share
+                  </Button>
+                )}
+                {canEdit && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -205,19 +215,7 @@ export const IdeaPreviewModal = ({
                     <Edit3 className="h-4 w-4 mr-2" />
                     Edit
                   </Button>
-                </div>
-              </div>
-            )}
-            {idea.image_url && (
-              <div className="flex justify-end">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => onEdit(idea)}
-                >
-                  <Edit3 className="h-4 w-4 mr-2" />
-                  Edit
-                </Button>
+                )}
               </div>
             )}
           </DialogHeader>
@@ -250,7 +248,7 @@ export const IdeaPreviewModal = ({
           )}
 
         <div className="space-y-6">
-          {!idea.image_url && settings.auto_image_generation && (
+          {canEdit && !idea.image_url && settings.auto_image_generation && (
             <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
               <ImageIcon className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-muted-foreground mb-4">No image generated yet</p>
@@ -271,14 +269,26 @@ export const IdeaPreviewModal = ({
               <h3 className="text-lg font-semibold">Description</h3>
               <div className="flex items-center gap-2">
                 {idea.original_description && (
-                  <Badge variant="secondary">Enhanced</Badge>
+                  <Badge variant="secondary" title={idea.enhancementTemplateName ? `Enhanced with the "${idea.enhancementTemplateName}" template` : undefined}>
+                    Enhanced{idea.enhancementTemplateName && ` · ${idea.enhancementTemplateName}`}
+                  </Badge>
                 )}
-                {settings.ai_description_enhancement && (
+                {onUpdate && (
+                  <Button
+                    variant={showHistory ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setShowHistory(!showHistory)}
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </Button>
+                )}
+                {canEdit && settings.ai_description_enhancement && (
                   <div className="flex gap-2">
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={enhanceDescription}
+                      onClick={() => setIsEnhancingDescription(true)}
                       disabled={isEnhancingDescription}
                     >
                       <Sparkles className="h-4 w-4 mr-2" />
@@ -299,43 +309,16 @@ export const IdeaPreviewModal = ({
               </div>
             </div>
             
-            <div className="prose prose-gray max-w-none dark:prose-invert prose-headings:text-foreground prose-p:text-muted-foreground prose-strong:text-foreground prose-em:text-muted-foreground prose-code:text-foreground prose-pre:text-foreground prose-blockquote:text-muted-foreground prose-li:text-muted-foreground break-words">
-              {settings.markdown_preview ? (
-                <ReactMarkdown
-                  components={{
-                    h1: ({children}) => <h1 className="text-2xl font-bold mb-4 text-foreground break-words">{children}</h1>,
-                    h2: ({children}) => <h2 className="text-xl font-semibold mb-3 text-foreground break-words">{children}</h2>,
-                    h3: ({children}) => <h3 className="text-lg font-medium mb-2 text-foreground break-words">{children}</h3>,
-                    h4: ({children}) => <h4 className="text-base font-medium mb-2 text-foreground break-words">{children}</h4>,
-                    h5: ({children}) => <h5 className="text-sm font-medium mb-1 text-foreground break-words">{children}</h5>,
-                    h6: ({children}) => <h6 className="text-sm font-medium mb-1 text-foreground break-words">{children}</h6>,
-                    p: ({children}) => <p className="mb-4 text-muted-foreground break-words leading-relaxed">{children}</p>,
-                    strong: ({children}) => <strong className="font-semibold text-foreground">{children}</strong>,
-                    em: ({children}) => <em className="italic text-muted-foreground">{children}</em>,
-                    code: ({children}) => <code className="bg-muted px-2 py-1 rounded text-sm text-foreground font-mono break-words">{children}</code>,
-                    pre: ({children}) => <pre className="bg-muted p-4 rounded-lg overflow-x-auto mb-4 text-sm text-foreground font-mono">{children}</pre>,
-                    blockquote: ({children}) => <blockquote className="border-l-4 border-border pl-4 mb-4 text-muted-foreground italic">{children}</blockquote>,
-                    ul: ({children}) => <ul className="list-disc list-inside mb-4 space-y-2 text-muted-foreground">{children}</ul>,
-                    ol: ({children}) => <ol className="list-decimal list-inside mb-4 space-y-2 text-muted-foreground">{children}</ol>,
-                    li: ({children}) => <li className="text-muted-foreground break-words">{children}</li>,
-                    a: ({children, href}) => <a href={href} className="text-primary hover:underline break-all" target="_blank" rel="noopener noreferrer">{children}</a>,
-                    table: ({children}) => <div className="overflow-x-auto mb-4"><table className="min-w-full border border-border">{children}</table></div>,
-                    thead: ({children}) => <thead className="bg-muted">{children}</thead>,
-                    tbody: ({children}) => <tbody>{children}</tbody>,
-                    tr: ({children}) => <tr className="border-b border-border">{children}</tr>,
-                    th: ({children}) => <th className="px-4 py-2 text-left font-semibold text-foreground">{children}</th>,
-                    td: ({children}) => <td className="px-4 py-2 text-muted-foreground break-words">{children}</td>,
-                    hr: () => <hr className="my-6 border-border" />,
-                  }}
-                >
-                  {idea.description}
-                </ReactMarkdown>
-              ) : (
-                <p className="whitespace-pre-wrap break-words text-muted-foreground leading-relaxed">{idea.description}</p>
-              )}
-            </div>
+            <MarkdownContent content={idea.description} markdown={settings.markdown_preview} />
           </div>
 
+          {showHistory && onUpdate && (
+            <>
+              <Separator />
+              <IdeaHistoryPanel idea={idea} onRestore={canEdit ? restoreRevision : undefined} />
+            </>
+          )}
+
           <Separator />
 
           {/* Tags */}
@@ -372,8 +355,22 @@ export const IdeaPreviewModal = ({
               <span>Updated: {formatDate(idea.updatedAt)}</span>
             </div>
           </div>
+
+          <Separator />
+
+          <IdeaCommentsPanel idea={idea} markdown={settings.markdown_preview} />
         </div>
         </div>
+
+        {isEnhancingDescription && onUpdate && (
+          <EnhancementPreviewDialog
+            idea={idea}
+            markdown={settings.markdown_preview}
+            developerMode={settings.developer_mode}
+            onUpdate={onUpdate}
+            onClose={() => setIsEnhancingDescription(false)}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
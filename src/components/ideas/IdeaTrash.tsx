@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Trash2, RotateCcw, ArrowLeft } from 'lucide-react';
+import { Idea, statusConfig } from '@/types/idea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+interface IdeaTrashProps {
+  ideas: Idea[];
+  retentionDays: number;
+  // False for workspace viewers, who can look through the trash but not restore or purge it
+  canEdit?: boolean;
+  onRestore: (id: string) => Promise<void>;
+  onDeletePermanently: (ids?: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const IdeaTrash = ({ ideas, retentionDays, canEdit = true, onRestore, onDeletePermanently, onClose }: IdeaTrashProps) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  // Days until the purge on load removes the idea for good
+  const daysLeft = (idea: Idea) =>
+    Math.max(Math.ceil((idea.deletedAt!.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS), 0);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (idea: Idea) => {
+    if (!confirm(`Permanently delete "${idea.title}"? This cannot be undone.`)) return;
+    run(idea.id, () => onDeletePermanently([idea.id]));
+  };
+
+  const handleEmpty = () => {
+    if (!confirm(`Permanently delete all ${ideas.length} idea(s) in the trash? This cannot be undone.`)) return;
+    run('all', () => onDeletePermanently());
+  };
+
+  return (
+    <div className="space-y-4 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose} className="px-2">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Trash
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Deleted ideas are kept for {retentionDays} day{retentionDays === 1 ? '' : 's'}, then removed for good.
+            </p>
+          </div>
+        </div>
+        {canEdit && ideas.length > 0 && (
+          <Button variant="destructive" size="sm" onClick={handleEmpty} disabled={busyId !== null}>
+            Empty trash
+          </Button>
+        )}
+      </div>
+
+      {ideas.length === 0 ? (
+        <p className="py-16 text-center text-sm text-muted-foreground">The trash is empty.</p>
+      ) : (
+        <div className="space-y-2">
+          {ideas.map(idea => (
+            <div key={idea.id} className="flex items-center gap-3 rounded-lg border bg-card p-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{idea.title}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {statusConfig[idea.status]?.label ?? idea.status}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Deleted {formatDate(idea.deletedAt!)} · {daysLeft(idea)} day{daysLeft(idea) === 1 ? '' : 's'} left
+                </div>
+              </div>
+              {canEdit && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => run(idea.id, () => onRestore(idea.id))}
+                    disabled={busyId !== null}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(idea)}
+                    disabled={busyId !== null}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,413 @@
+import { useState, useMemo, useRef } from 'react';
+import { Upload, FolderOpen, ArrowLeft, AlertTriangle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Idea, IdeaGroup, IdeaStatus, statusConfig } from '@/types/idea';
+import {
+  CsvField,
+  CsvMapping,
+  CsvTable,
+  ImportedIdea,
+  ImportSource,
+  MarkdownFile,
+  detectImportSource,
+  guessCsvMapping,
+  guessStatus,
+  ideasFromCsv,
+  importSourceLabels,
+  normalizeTitle,
+  parseCsv,
+  parseIdeaHubExport,
+  parseMarkdownFiles,
+  parseTrelloBoard,
+  readZip,
+} from '@/lib/import';
+
+// An imported idea with its status picked, ready to save
+export interface ImportCandidate extends ImportedIdea {
+  status: IdeaStatus;
+}
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingIdeas: Idea[];
+  groups: IdeaGroup[];
+  onImport: (ideas: ImportCandidate[]) => Promise<number>;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const csvFieldLabels: Record<CsvField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  tags: 'Tags',
+  group: 'Group',
+  color: 'Color',
+};
+
+// Select value for fields mapped to no column and ideas without a column
+const NONE = '__none__';
+
+export const ImportWizard = ({ isOpen, onClose, existingIdeas, groups, onImport }: ImportWizardProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const folderInput = useRef<HTMLInputElement | null>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ImportedIdea[]>([]);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvMapping>({});
+  const [statusMap, setStatusMap] = useState<Record<string, IdeaStatus>>({});
+  const [useGroups, setUseGroups] = useState(true);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const imported = useMemo(
+    () => csvTable ? ideasFromCsv(csvTable, csvMapping) : parsed,
+    [csvTable, csvMapping, parsed]
+  );
+
+  const columns = useMemo(
+    () => Array.from(new Set(imported.map(idea => idea.column ?? NONE))),
+    [imported]
+  );
+
+  const groupNames = useMemo(
+    () => Array.from(new Set(imported.map(idea => idea.group).filter((group): group is string => !!group))),
+    [imported]
+  );
+
+  const existingGroupNames = new Set(groups.map(group => group.name.toLowerCase()));
+  const newGroupNames = groupNames.filter(name => !existingGroupNames.has(name.toLowerCase()));
+
+  // Titles already in the hub, and titles that appear earlier in the same file
+  const candidates = useMemo(() => {
+    const seen = new Set(existingIdeas.map(idea => normalizeTitle(idea.title)));
+    return imported.map(idea => {
+      const key = normalizeTitle(idea.title);
+      const duplicate = seen.has(key);
+      seen.add(key);
+      return {
+        ...idea,
+        status: statusMap[idea.column ?? NONE] ?? guessStatus(idea.column),
+        group: useGroups ? idea.group : null,
+        duplicate,
+      };
+    });
+  }, [imported, existingIdeas, statusMap, useGroups]);
+
+  const duplicateCount = candidates.filter(idea => idea.duplicate).length;
+  const toImport = skipDuplicates ? candidates.filter(idea => !idea.duplicate) : candidates;
+
+  const reset = () => {
+    setStep('upload');
+    setSource(null);
+    setFileName('');
+    setParsed([]);
+    setCsvTable(null);
+    setCsvMapping({});
+    setStatusMap({});
+    setUseGroups(true);
+    setSkipDuplicates(true);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const loadIdeas = (nextSource: ImportSource, ideas: ImportedIdea[], name: string) => {
+    setSource(nextSource);
+    setFileName(name);
+    setParsed(ideas);
+    setStatusMap(Object.fromEntries(
+      Array.from(new Set(ideas.map(idea => idea.column ?? NONE)))
+        .map(column => [column, guessStatus(column === NONE ? null : column)])
+    ));
+    setStep('map');
+  };
+
+  const handleFiles = async (fileList: FileList | null, fromFolder = false) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+    setError(null);
+
+    try {
+      const first = files[0];
+
+      if (fromFolder || files.length > 1 || /\.(md|markdown|zip)$/i.test(first.name)) {
+        const markdown: MarkdownFile[] = [];
+        for (const file of files) {
+          if (/\.zip$/i.test(file.name)) {
+            markdown.push(...readZip(new Uint8Array(await file.arrayBuffer())));
+          } else if (/\.(md|markdown)$/i.test(file.name)) {
+            // Paths inside the picked folder, so its subfolders become groups
+            const path = fromFolder ? file.webkitRelativePath.split('/').slice(1).join('/') : file.name;
+            markdown.push({ path, text: await file.text() });
+          }
+        }
+
+        const ideas = parseMarkdownFiles(markdown);
+        if (ideas.length === 0) throw new Error('No Markdown files with ideas were found');
+        loadIdeas('markdown', ideas, fromFolder ? first.webkitRelativePath.split('/')[0] : first.name);
+        return;
+      }
+
+      const text = await first.text();
+      const detected = detectImportSource(first.name, text);
+
+      if (detected === 'csv') {
+        const table = parseCsv(text);
+        if (table.rows.length === 0) throw new Error('The CSV file has no rows');
+        const mapping = guessCsvMapping(table.headers);
+        setCsvTable(table);
+        setCsvMapping(mapping);
+        loadIdeas('csv', ideasFromCsv(table, mapping), first.name);
+      } else if (detected === 'trello') {
+        loadIdeas('trello', parseTrelloBoard(text), first.name);
+      } else if (detected === 'ideahub') {
+        loadIdeas('ideahub', parseIdeaHubExport(text), first.name);
+      } else {
+        throw new Error('Choose a Trello board JSON, an IdeaHub JSON export, a CSV file, or Markdown files');
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setError(error instanceof Error ? error.message : 'The file could not be read');
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+      if (folderInput.current) folderInput.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      await onImport(toImport);
+    } finally {
+      setImporting(false);
+    }
+    reset();
+    onClose();
+  };
+
+  const columnLabel = (column: string) => column === NONE ? 'No status' : column;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Import Ideas
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Bring in ideas from Trello, Notion, Markdown files, a spreadsheet or an IdeaHub export.'}
+            {step === 'map' && `${importSourceLabels[source!]} · ${fileName} · ${imported.length} idea(s) found`}
+            {step === 'preview' && 'Nothing is saved until you import. Check what will be added.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                className="flex flex-col items-center gap-2 rounded-lg border-2 border-dashed p-6 text-sm hover:bg-muted/50 transition-colors"
+              >
+                <Upload className="h-6 w-6 text-muted-foreground" />
+                <span className="font-medium">Choose files</span>
+                <span className="text-xs text-muted-foreground text-center">.json, .csv, .md or a .zip export</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => folderInput.current?.click()}
+                className="flex flex-col items-center gap-2 rounded-lg border-2 border-dashed p-6 text-sm hover:bg-muted/50 transition-colors"
+              >
+                <FolderOpen className="h-6 w-6 text-muted-foreground" />
+                <span className="font-medium">Choose a folder</span>
+                <span className="text-xs text-muted-foreground text-center">Markdown files; subfolders become groups</span>
+              </button>
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              accept=".json,.csv,.md,.markdown,.zip"
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <input
+              ref={(input) => {
+                folderInput.current = input;
+                input?.setAttribute('webkitdirectory', '');
+              }}
+              type="file"
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files, true)}
+            />
+            <ul className="text-xs text-muted-foreground space-y-1 list-disc pl-4">
+              <li><span className="font-medium">Trello:</span> board menu → Print, export and share → Export as JSON. Lists become statuses.</li>
+              <li><span className="font-medium">Notion:</span> Export as Markdown &amp; CSV and pick the .zip, or the database's CSV file.</li>
+              <li><span className="font-medium">CSV:</span> one idea per row with a header row; you pick which column is which.</li>
+            </ul>
+            {error && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-6">
+            {csvTable && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Columns</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(Object.keys(csvFieldLabels) as CsvField[]).map(field => (
+                    <div key={field} className="flex items-center justify-between gap-2">
+                      <Label className="text-sm">{csvFieldLabels[field]}</Label>
+                      <Select
+                        value={csvMapping[field] === undefined ? NONE : String(csvMapping[field])}
+                        onValueChange={(value) => setCsvMapping(prev => ({
+                          ...prev,
+                          [field]: value === NONE ? undefined : Number(value),
+                        }))}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {field !== 'title' && <SelectItem value={NONE}>Not imported</SelectItem>}
+                          {csvTable.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {imported.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Statuses</h4>
+                <p className="text-xs text-muted-foreground">
+                  {source === 'trello' ? 'Each Trello list' : 'Each value'} becomes one of your statuses.
+                </p>
+                <div className="space-y-2">
+                  {columns.map(column => (
+                    <div key={column} className="flex items-center justify-between gap-2">
+                      <span className="text-sm truncate">
+                        {columnLabel(column)}
+                        <span className="text-muted-foreground"> ({imported.filter(idea => (idea.column ?? NONE) === column).length})</span>
+                      </span>
+                      <Select
+                        value={statusMap[column] ?? guessStatus(column === NONE ? null : column)}
+                        onValueChange={(value) => setStatusMap(prev => ({ ...prev, [column]: value as IdeaStatus }))}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(statusConfig).map(([status, config]) => (
+                            <SelectItem key={status} value={status}>{config.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {groupNames.length > 0 && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label className="text-sm">Put ideas into groups</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {groupNames.length - newGroupNames.length > 0 && `${groupNames.length - newGroupNames.length} existing group(s) matched by name. `}
+                    {newGroupNames.length > 0 && `New: ${newGroupNames.join(', ')}`}
+                  </p>
+                </div>
+                <Switch checked={useGroups} onCheckedChange={setUseGroups} />
+              </div>
+            )}
+
+            {imported.length === 0 && (
+              <p className="text-sm text-muted-foreground">No ideas found. Check that a column with titles is picked.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            {duplicateCount > 0 && (
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-300 p-3">
+                <div className="space-y-1">
+                  <Label className="text-sm">Skip duplicates</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {duplicateCount} idea(s) have the same title as an existing idea or an earlier row.
+                  </p>
+                </div>
+                <Switch checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+              </div>
+            )}
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {candidates.map((idea, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center gap-2 rounded-lg border p-2 text-sm ${
+                    idea.duplicate && skipDuplicates ? 'opacity-50' : ''
+                  }`}
+                >
+                  <span className="flex-1 min-w-0 truncate font-medium">{idea.title}</span>
+                  {idea.duplicate && <Badge variant="outline" className="text-amber-600 border-amber-300">Duplicate</Badge>}
+                  {idea.group && <Badge variant="secondary">{idea.group}</Badge>}
+                  {idea.tags.length > 0 && (
+                    <span className="hidden sm:inline text-xs text-muted-foreground truncate max-w-32">{idea.tags.join(', ')}</span>
+                  )}
+                  <Badge variant="outline" className="text-xs">{statusConfig[idea.status].label}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <DialogFooter className="gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => step === 'preview' ? setStep('map') : reset()}
+              disabled={importing}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            {step === 'map' ? (
+              <Button onClick={() => setStep('preview')} disabled={imported.length === 0}>
+                Preview
+              </Button>
+            ) : (
+              <Button onClick={handleImport} disabled={importing || toImport.length === 0}>
+                {importing ? 'Importing...' : `Import ${toImport.length} idea(s)`}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
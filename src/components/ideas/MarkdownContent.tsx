@@ -0,0 +1,50 @@
+import ReactMarkdown, { Components } from 'react-markdown';
+import { MENTION_HREF_PREFIX } from '@/lib/mentions';
+
+interface MarkdownContentProps {
+  content: string;
+  // Off when the user disabled Markdown preview; the text is shown as typed
+  markdown: boolean;
+  className?: string;
+}
+
+const markdownComponents: Components = {
+  h1: ({children}) => <h1 className="text-2xl font-bold mb-4 text-foreground break-words">{children}</h1>,
+  h2: ({children}) => <h2 className="text-xl font-semibold mb-3 text-foreground break-words">{children}</h2>,
+  h3: ({children}) => <h3 className="text-lg font-medium mb-2 text-foreground break-words">{children}</h3>,
+  h4: ({children}) => <h4 className="text-base font-medium mb-2 text-foreground break-words">{children}</h4>,
+  h5: ({children}) => <h5 className="text-sm font-medium mb-1 text-foreground break-words">{children}</h5>,
+  h6: ({children}) => <h6 className="text-sm font-medium mb-1 text-foreground break-words">{children}</h6>,
+  p: ({children}) => <p className="mb-4 text-muted-foreground break-words leading-relaxed">{children}</p>,
+  strong: ({children}) => <strong className="font-semibold text-foreground">{children}</strong>,
+  em: ({children}) => <em className="italic text-muted-foreground">{children}</em>,
+  code: ({children}) => <code className="bg-muted px-2 py-1 rounded text-sm text-foreground font-mono break-words">{children}</code>,
+  pre: ({children}) => <pre className="bg-muted p-4 rounded-lg overflow-x-auto mb-4 text-sm text-foreground font-mono">{children}</pre>,
+  blockquote: ({children}) => <blockquote className="border-l-4 border-border pl-4 mb-4 text-muted-foreground italic">{children}</blockquote>,
+  ul: ({children}) => <ul className="list-disc list-inside mb-4 space-y-2 text-muted-foreground">{children}</ul>,
+  ol: ({children}) => <ol className="list-decimal list-inside mb-4 space-y-2 text-muted-foreground">{children}</ol>,
+  li: ({children}) => <li className="text-muted-foreground break-words">{children}</li>,
+  a: ({children, href}) => href?.startsWith(MENTION_HREF_PREFIX)
+    ? <span className="font-medium text-primary">{children}</span>
+    : <a href={href} className="text-primary hover:underline break-all" target="_blank" rel="noopener noreferrer">{children}</a>,
+  table: ({children}) => <div className="overflow-x-auto mb-4"><table className="min-w-full border border-border">{children}</table></div>,
+  thead: ({children}) => <thead className="bg-muted">{children}</thead>,
+  tbody: ({children}) => <tbody>{children}</tbody>,
+  tr: ({children}) => <tr className="border-b border-border">{children}</tr>,
+  th: ({children}) => <th className="px-4 py-2 text-left font-semibold text-foreground">{children}</th>,
+  td: ({children}) => <td className="px-4 py-2 text-muted-foreground break-words">{children}</td>,
+  hr: () => <hr className="my-6 border-border" />,
+};
+
+// Idea descriptions and comments share this rendering
+export const MarkdownContent = ({ content, markdown, className = '' }: MarkdownContentProps) => (
+  <div className={`prose prose-gray max-w-none dark:prose-invert prose-headings:text-foreground prose-p:text-muted-foreground prose-strong:text-foreground prose-em:text-muted-foreground prose-code:text-foreground prose-pre:text-foreground prose-blockquote:text-muted-foreground prose-li:text-muted-foreground break-words ${className}`}>
+    {markdown ? (
+      <ReactMarkdown components={markdownComponents}>
+        {content}
+      </ReactMarkdown>
+    ) : (
+      <p className="whitespace-pre-wrap break-words text-muted-foreground leading-relaxed">{content}</p>
+    )}
+  </div>
+);
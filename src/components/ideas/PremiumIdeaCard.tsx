@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { Calendar, Tag, MoreHorizontal, ImageIcon, Sparkles, Undo2, Eye } from 'lucide-react';
-import { Idea, statusConfig, colorConfig } from '@/types/idea';
+import { Idea, IdeaSearchHit, IdeaUpdater, statusConfig, colorConfig } from '@/types/idea';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,15 +8,22 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import ReactMarkdown from 'react-markdown';
+import { HighlightedText } from '@/components/ideas/HighlightedText';
+import { EnhancementPreviewDialog } from '@/components/ideas/EnhancementPreviewDialog';
+import { hasHighlights } from '@/lib/search';
 
 interface PremiumIdeaCardProps {
   idea: Idea;
   onEdit: (idea: Idea) => void;
   onDelete: (id: string) => void;
   onPreview: (idea: Idea) => void;
+  onUpdate: IdeaUpdater;
+  // False for workspace viewers; hides the actions that change the idea
+  canEdit?: boolean;
   isSelected?: boolean;
   onSelectionToggle?: (id: string) => void;
   isSelectionMode?: boolean;
+  searchHit?: IdeaSearchHit;
   settings: {
     auto_image_generation: boolean;
     ai_description_enhancement: boolean;
@@ -30,9 +37,12 @@ export const PremiumIdeaCard = ({
   onEdit, 
   onDelete, 
   onPreview,
+  onUpdate,
+  canEdit = true,
   isSelected = false,
   onSelectionToggle,
   isSelectionMode = false,
+  searchHit,
   settings 
 }: PremiumIdeaCardProps) => {
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
@@ -94,9 +104,6 @@ export const PremiumIdeaCard = ({
           title: "Image generated! 🎨",
           description: "A beautiful image has been created for your idea.",
         });
-        
-        // Refresh the page to show the new image
-        window.location.reload();
       } else {
         throw new Error(data?.error || 'Failed to generate image');
       }
@@ -112,89 +119,32 @@ export const PremiumIdeaCard = ({
     }
   };
 
-  const enhanceDescription = async () => {
-    if (!settings.ai_description_enhancement) return;
-    
-    setIsEnhancingDescription(true);
-    try {
-      const apiKey = settings.developer_mode ? sessionStorage.getItem('dev_deepseek_key') : undefined;
-      
-      const { data, error } = await supabase.functions.invoke('enhance-description', {
-        body: { 
-          title: idea.title,
-          description: idea.description,
-          ...(apiKey && { apiKey })
-        }
-      });
-
-      if (error) {
-        console.error('Supabase function error:', error);
-        throw new Error('Failed to enhance prompt. Please check your API configuration.');
-      }
-
-      if (data?.success && data?.enhancedDescription) {
-        // Store original description and update with enhanced one
-        const { error: updateError } = await supabase
-          .from('ideas')
-          .update({ 
-            original_description: idea.original_description || idea.description,
-            description: data.enhancedDescription 
-          })
-          .eq('id', idea.id);
-
-        if (updateError) throw updateError;
-
-        toast({
-          title: "Description enhanced! ✨",
-          description: "Your idea description has been improved with AI insights.",
-        });
-        
-        // Refresh the page to show the enhanced description
-        window.location.reload();
-      } else {
-        throw new Error(data?.error || 'Failed to enhance description');
-      }
-    } catch (error: any) {
-      console.error('Error enhancing description:', error);
-      toast({
-        title: "Failed to enhance prompt",
-        description: "Please check your API configuration.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsEnhancingDescription(false);
-    }
-  };
-
   const undoEnhancement = async () => {
     if (!idea.original_description) return;
     
-    try {
-      const { error } = await supabase
-        .from('ideas')
-        .update({ 
-          description: idea.original_description,
-          original_description: null
-        })
-        .eq('id', idea.id);
-
-      if (error) throw error;
+    const result = await onUpdate(idea.id, {
+      description: idea.original_description,
+      original_description: null,
+      enhancementTemplateId: null,
+      enhancementTemplateName: null
+    }, { expectedVersion: idea.version });
 
+    if (result.status === 'updated') {
       toast({
         title: "Description restored",
         description: "Your original description has been restored.",
       });
-    } catch (error) {
-      console.error('Error undoing enhancement:', error);
+    } else {
       toast({
         title: "Undo failed",
-        description: "Please try again.",
+        description: result.status === 'conflict' ? "The idea changed in the meantime. Please try again." : "Please try again.",
         variant: "destructive",
       });
     }
   };
 
   return (
+    <>
     <Card 
       className={`group relative break-inside-avoid mb-4 cursor-pointer transition-all duration-300 hover:shadow-float hover:-translate-y-1 ${colorStyle.bg} ${colorStyle.border} ${isSelected ? 'ring-2 ring-primary border-primary' : 'border-2'} overflow-hidden`}
       onClick={handleCardClick}
@@ -237,7 +187,7 @@ export const PremiumIdeaCard = ({
           )}
 
           {/* AI Actions Dropdown */}
-          {(settings.auto_image_generation || settings.ai_description_enhancement) && (
+          {canEdit && (settings.auto_image_generation || settings.ai_description_enhancement) && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button
@@ -262,7 +212,7 @@ export const PremiumIdeaCard = ({
                 {settings.ai_description_enhancement && (
                   <>
                     <DropdownMenuItem 
-                      onClick={enhanceDescription}
+                      onClick={() => setIsEnhancingDescription(true)}
                       disabled={isEnhancingDescription}
                     >
                       <Sparkles className="h-4 w-4 mr-2" />
@@ -283,12 +233,16 @@ export const PremiumIdeaCard = ({
 
         {/* Title */}
         <h3 className="text-lg font-semibold text-foreground mb-2 leading-tight break-words overflow-wrap-anywhere">
-          {idea.title}
+          {searchHit ? <HighlightedText text={searchHit.titleHighlight} /> : idea.title}
         </h3>
 
         {/* Description Preview */}
         <div className="text-sm text-muted-foreground mb-4 leading-relaxed">
-          {settings.markdown_preview ? (
+          {searchHit && hasHighlights(searchHit.descriptionHighlight) ? (
+            <p className="break-words overflow-wrap-anywhere whitespace-pre-wrap">
+              <HighlightedText text={searchHit.descriptionHighlight} />
+            </p>
+          ) : settings.markdown_preview ? (
             <div className="prose prose-sm max-w-none dark:prose-invert prose-headings:text-foreground prose-p:text-muted-foreground prose-strong:text-foreground prose-em:text-muted-foreground prose-code:text-foreground prose-pre:text-foreground prose-blockquote:text-muted-foreground prose-li:text-muted-foreground overflow-hidden">
               <ReactMarkdown
                 components={{
@@ -357,12 +311,28 @@ export const PremiumIdeaCard = ({
           <Calendar className="h-3 w-3 mr-1" />
           {formatDate(idea.createdAt)}
           {idea.original_description && (
-            <Badge variant="secondary" className="ml-2 text-xs">
+            <Badge
+              variant="secondary"
+              className="ml-2 text-xs"
+              title={idea.enhancementTemplateName ? `Enhanced with the "${idea.enhancementTemplateName}" template` : undefined}
+            >
               Enhanced
             </Badge>
           )}
         </div>
       </div>
     </Card>
+
+    {/* Outside the card so clicks in the dialog do not open the preview */}
+    {isEnhancingDescription && (
+      <EnhancementPreviewDialog
+        idea={idea}
+        markdown={settings.markdown_preview}
+        developerMode={settings.developer_mode}
+        onUpdate={onUpdate}
+        onClose={() => setIsEnhancingDescription(false)}
+      />
+    )}
+    </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { RefreshCw } from 'lucide-react';
+import { ApiKeyUsage, UsageRange, usageRangeOptions } from '@/types/apiUsage';
+
+interface ApiKeyUsageDialogProps {
+  apiKey: { id: string; name: string; rate_limit_per_hour: number } | null;
+  lastHourCount: number;
+  onClose: () => void;
+  fetchKeyUsage: (apiKeyId: string, hours: number) => Promise<ApiKeyUsage | null>;
+}
+
+const seriesColors = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4'];
+
+const statusColor = (statusCode: number) => {
+  if (statusCode >= 500) return '#EF4444';
+  if (statusCode >= 400) return '#F59E0B';
+  return '#10B981';
+};
+
+// Hourly buckets for the last day, daily buckets for longer ranges
+const bucketStart = (date: Date, range: UsageRange) => {
+  const bucket = new Date(date);
+  bucket.setMinutes(0, 0, 0);
+  if (range !== '24h') bucket.setHours(0);
+  return bucket.getTime();
+};
+
+const formatBucket = (time: number, range: UsageRange) => {
+  return new Date(time).toLocaleString('en-US', range === '24h'
+    ? { hour: 'numeric' }
+    : { month: 'short', day: 'numeric' });
+};
+
+export const ApiKeyUsageDialog = ({ apiKey, lastHourCount, onClose, fetchKeyUsage }: ApiKeyUsageDialogProps) => {
+  const [range, setRange] = useState<UsageRange>('24h');
+  const [usage, setUsage] = useState<ApiKeyUsage | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    if (!apiKey) return;
+    setLoading(true);
+    const hours = usageRangeOptions.find(option => option.value === range)!.hours;
+    setUsage(await fetchKeyUsage(apiKey.id, hours));
+    setLoading(false);
+  }, [apiKey, range, fetchKeyUsage]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const endpoints = useMemo(() => {
+    const totals = new Map<string, number>();
+    usage?.requests.forEach(row => totals.set(row.endpoint, (totals.get(row.endpoint) || 0) + row.requestsCount));
+    return [...totals.entries()]
+      .map(([endpoint, total]) => ({ endpoint, total }))
+      .sort((a, b) => b.total - a.total);
+  }, [usage]);
+
+  const requestsConfig = useMemo(() => {
+    return endpoints.reduce<ChartConfig>((config, { endpoint }, index) => {
+      config[endpoint] = { label: endpoint, color: seriesColors[index % seriesColors.length] };
+      return config;
+    }, {});
+  }, [endpoints]);
+
+  const requestsData = useMemo(() => {
+    const buckets = new Map<number, Record<string, number>>();
+    usage?.requests.forEach(row => {
+      const time = bucketStart(row.windowStart, range);
+      const bucket = buckets.get(time) || { time };
+      bucket[row.endpoint] = (bucket[row.endpoint] || 0) + row.requestsCount;
+      buckets.set(time, bucket);
+    });
+    return [...buckets.values()].sort((a, b) => a.time - b.time);
+  }, [usage, range]);
+
+  const statusData = useMemo(() => {
+    const counts = new Map<number, number>();
+    usage?.statuses.forEach(row => counts.set(row.statusCode, (counts.get(row.statusCode) || 0) + row.requestsCount));
+    return [...counts.entries()]
+      .map(([statusCode, count]) => ({ status: statusCode.toString(), count, fill: statusColor(statusCode) }))
+      .sort((a, b) => a.status.localeCompare(b.status));
+  }, [usage]);
+
+  const totalResponses = statusData.reduce((sum, row) => sum + row.count, 0);
+  const errorResponses = statusData.filter(row => Number(row.status) >= 400).reduce((sum, row) => sum + row.count, 0);
+  const errorRate = totalResponses > 0 ? (errorResponses / totalResponses) * 100 : 0;
+  const totalRequests = endpoints.reduce((sum, row) => sum + row.total, 0);
+  const limitUsed = apiKey ? Math.min(100, (lastHourCount / apiKey.rate_limit_per_hour) * 100) : 0;
+
+  return (
+    <Dialog open={!!apiKey} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Usage</DialogTitle>
+          <DialogDescription>{apiKey?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as UsageRange)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {usageRangeOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={loadUsage} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+          <div className="rounded-md border p-3">
+            <span className="text-muted-foreground">Requests</span>
+            <p className="text-lg font-semibold">{totalRequests.toLocaleString()}</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <span className="text-muted-foreground">Error rate</span>
+            <p className={`text-lg font-semibold ${errorRate >= 5 ? 'text-red-600' : ''}`}>
+              {errorRate.toFixed(1)}%
+            </p>
+          </div>
+          <div className="rounded-md border p-3 space-y-2">
+            <span className="text-muted-foreground">Last hour vs. limit</span>
+            <p className="font-semibold">
+              {lastHourCount.toLocaleString()} / {apiKey?.rate_limit_per_hour.toLocaleString()}
+            </p>
+            <Progress value={limitUsed} className="h-2" />
+          </div>
+        </div>
+
+        {!loading && totalRequests === 0 && totalResponses === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No requests with this key in the selected period.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Requests by endpoint</h4>
+              <ChartContainer config={requestsConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={requestsData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(time) => formatBucket(time, range)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatBucket(payload[0]?.payload.time, range)} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {endpoints.map(({ endpoint }) => (
+                    <Bar key={endpoint} dataKey={endpoint} stackId="requests" fill={`var(--color-${endpoint})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Responses by status code</h4>
+                <ChartContainer config={{ count: { label: 'Responses' } }} className="h-48 w-full aspect-auto">
+                  <BarChart data={statusData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="status" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                    <Bar dataKey="count" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Top endpoints</h4>
+                <div className="divide-y rounded-md border text-sm">
+                  {endpoints.map(({ endpoint, total }) => (
+                    <div key={endpoint} className="flex items-center justify-between p-2">
+                      <span className="font-mono">{endpoint}</span>
+                      <span className="text-muted-foreground">
+                        {total.toLocaleString()} ({((total / totalRequests) * 100).toFixed(0)}%)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -10,36 +10,104 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Copy, Plus, Trash2, Key, Eye, EyeOff, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Copy, Plus, Trash2, Key, Eye, EyeOff, AlertCircle, CheckCircle2, RefreshCw, BarChart3 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useIdeaGroups } from '@/hooks/useIdeaGroups';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useApiUsage } from '@/hooks/useApiUsage';
+import { ApiKeyUsageDialog } from './ApiKeyUsageDialog';
 
 interface ApiKey {
   id: string;
+  workspace_id: string;
   name: string;
-  permissions: string[];
+  scopes: string[];
+  allowed_group_ids?: string[] | null;
+  allowed_tags?: string[] | null;
   rate_limit_per_hour: number;
   usage_count: number;
   last_used_at?: string;
   expires_at?: string;
   is_active: boolean;
+  previous_key_expires_at?: string | null;
+  rotated_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+const scopeOptions = [
+  {
+    resource: 'Ideas',
+    scopes: [
+      { id: 'ideas:read', label: 'Read', description: 'List, search and get ideas' },
+      { id: 'ideas:create', label: 'Create', description: 'Add new ideas' },
+      { id: 'ideas:update', label: 'Update', description: 'Edit existing ideas' },
+      { id: 'ideas:archive', label: 'Archive', description: 'Archive ideas and move them to the trash' },
+      { id: 'ideas:delete', label: 'Delete', description: 'Permanently delete ideas' }
+    ]
+  },
+  {
+    resource: 'Groups',
+    scopes: [
+      { id: 'groups:read', label: 'Read', description: 'List and get groups' },
+      { id: 'groups:write', label: 'Write', description: 'Create, update and delete groups' }
+    ]
+  },
+  {
+    resource: 'Comments',
+    scopes: [
+      { id: 'comments:read', label: 'Read', description: 'List the comments on an idea' }
+    ]
+  },
+  {
+    resource: 'Profile',
+    scopes: [
+      { id: 'profile:read', label: 'Read', description: 'Profile, settings and statistics' }
+    ]
+  }
+];
+
+const allScopes = scopeOptions.flatMap(option => option.scopes.map(scope => scope.id));
+
+const gracePeriodOptions = [
+  { hours: 0, label: 'Immediately' },
+  { hours: 1, label: 'After 1 hour' },
+  { hours: 24, label: 'After 24 hours' },
+  { hours: 72, label: 'After 3 days' },
+  { hours: 168, label: 'After 7 days' }
+];
+
+const scopePresets = [
+  { label: 'Read only', scopes: ['ideas:read', 'groups:read', 'profile:read', 'comments:read'] },
+  { label: 'Full access', scopes: allScopes }
+];
+
 export const ApiKeysManager = () => {
   const { user, session } = useAuth();
   const { toast } = useToast();
+  const { groups } = useIdeaGroups();
+  const { workspaces, currentWorkspace } = useWorkspace();
+  const { fetchKeyUsage, fetchLastHourCounts } = useApiUsage();
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [newApiKey, setNewApiKey] = useState('');
   const [showKey, setShowKey] = useState(false);
+  const [newKeyWasRotated, setNewKeyWasRotated] = useState(false);
+  const [keyToRotate, setKeyToRotate] = useState<ApiKey | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState(24);
+  const [rotating, setRotating] = useState(false);
+  const [lastHourCounts, setLastHourCounts] = useState<Record<string, number>>({});
+  const [usageKey, setUsageKey] = useState<ApiKey | null>(null);
 
   // Form state
   const [formData, setFormData] = useState({
     name: '',
-    permissions: ['read'] as string[],
+    scopes: ['ideas:read'] as string[],
+    allowed_group_ids: [] as string[],
+    allowed_tags: '',
     rate_limit_per_hour: 1000,
     expires_at: ''
   });
@@ -64,6 +132,7 @@ export const ApiKeysManager = () => {
 
       if (data?.data) {
         setApiKeys(data.data);
+        setLastHourCounts(await fetchLastHourCounts());
       } else {
         setApiKeys([]);
       }
@@ -84,16 +153,26 @@ export const ApiKeysManager = () => {
   }, [user]);
 
   const createApiKey = async () => {
-    if (!user || !formData.name.trim()) return;
+    if (!user || !currentWorkspace || !formData.name.trim()) return;
 
     setCreating(true);
     try {
+      // Keys are created in the current workspace, whose groups the form offers
       const payload: any = {
+        workspace_id: currentWorkspace.id,
         name: formData.name.trim(),
-        permissions: formData.permissions,
+        scopes: formData.scopes,
         rate_limit_per_hour: formData.rate_limit_per_hour
       };
 
+      const allowedTags = formData.allowed_tags.split(',').map(tag => tag.trim()).filter(Boolean);
+      if (formData.allowed_group_ids.length > 0) {
+        payload.allowed_group_ids = formData.allowed_group_ids;
+      }
+      if (allowedTags.length > 0) {
+        payload.allowed_tags = allowedTags;
+      }
+
       if (formData.expires_at) {
         payload.expires_at = new Date(formData.expires_at).toISOString();
       }
@@ -110,10 +189,13 @@ export const ApiKeysManager = () => {
       if (error) throw error;
 
       setNewApiKey(data.api_key);
+      setNewKeyWasRotated(false);
       setApiKeys(prev => [data.data, ...prev]);
       setFormData({
         name: '',
-        permissions: ['read'],
+        scopes: ['ideas:read'],
+        allowed_group_ids: [],
+        allowed_tags: '',
         rate_limit_per_hour: 1000,
         expires_at: ''
       });
@@ -134,6 +216,44 @@ export const ApiKeysManager = () => {
     }
   };
 
+  const rotateApiKey = async () => {
+    if (!user || !keyToRotate) return;
+
+    setRotating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke(`ai-keys/${keyToRotate.id}/rotate`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session?.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ grace_period_hours: gracePeriodHours })
+      });
+
+      if (error) throw error;
+
+      setNewApiKey(data.api_key);
+      setNewKeyWasRotated(true);
+      setShowKey(false);
+      setApiKeys(prev => prev.map(key => key.id === data.data.id ? data.data : key));
+      setKeyToRotate(null);
+
+      toast({
+        title: "API Key Rotated",
+        description: data.message
+      });
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Failed to rotate API key"
+      });
+    } finally {
+      setRotating(false);
+    }
+  };
+
   const deleteApiKey = async (keyId: string, keyName: string) => {
     if (!user) return;
 
@@ -207,18 +327,20 @@ export const ApiKeysManager = () => {
     });
   };
 
-  const handlePermissionChange = (permission: string, checked: boolean) => {
-    if (checked) {
-      setFormData(prev => ({
-        ...prev,
-        permissions: [...prev.permissions, permission]
-      }));
-    } else {
-      setFormData(prev => ({
-        ...prev,
-        permissions: prev.permissions.filter(p => p !== permission)
-      }));
-    }
+  const handleScopeChange = (scope: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(s => s !== scope)
+    }));
+  };
+
+  const handleGroupRestrictionChange = (groupId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      allowed_group_ids: checked
+        ? [...prev.allowed_group_ids, groupId]
+        : prev.allowed_group_ids.filter(id => id !== groupId)
+    }));
   };
 
   const formatDate = (dateString: string) => {
@@ -231,15 +353,19 @@ export const ApiKeysManager = () => {
     });
   };
 
-  const getPermissionColor = (permission: string) => {
-    switch (permission) {
+  const getScopeColor = (scope: string) => {
+    switch (scope.split(':')[1]) {
       case 'read': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+      case 'create':
+      case 'update':
       case 'write': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'admin': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'archive': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     }
   };
 
+  const groupName = (groupId: string) => groups.find(group => group.id === groupId)?.name ?? 'Unknown group';
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -271,11 +397,11 @@ export const ApiKeysManager = () => {
               Create API Key
             </Button>
           </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
+          <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create API Key</DialogTitle>
               <DialogDescription>
-                Create a new API key for accessing your ideas programmatically
+                Create a new API key for accessing the ideas in {currentWorkspace?.name ?? 'your workspace'} programmatically
               </DialogDescription>
             </DialogHeader>
             
@@ -291,30 +417,85 @@ export const ApiKeysManager = () => {
               </div>
 
               <div className="space-y-3">
-                <Label>Permissions</Label>
+                <div className="flex items-center justify-between">
+                  <Label>Scopes</Label>
+                  <div className="flex gap-1">
+                    {scopePresets.map(preset => (
+                      <Button
+                        key={preset.label}
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 text-xs"
+                        onClick={() => setFormData(prev => ({ ...prev, scopes: preset.scopes }))}
+                      >
+                        {preset.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {scopeOptions.map(option => (
+                    <div key={option.resource} className="space-y-2">
+                      <span className="text-xs font-semibold uppercase text-muted-foreground">
+                        {option.resource}
+                      </span>
+                      {option.scopes.map(scope => (
+                        <div key={scope.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={scope.id}
+                            checked={formData.scopes.includes(scope.id)}
+                            onCheckedChange={(checked) => handleScopeChange(scope.id, checked as boolean)}
+                          />
+                          <div className="flex flex-col">
+                            <label htmlFor={scope.id} className="text-sm font-medium">
+                              {scope.label}
+                            </label>
+                            <span className="text-xs text-muted-foreground">
+                              {scope.description}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {groups.length > 0 && (
                 <div className="space-y-2">
-                  {[
-                    { id: 'read', label: 'Read', description: 'Get ideas and profile' },
-                    { id: 'write', label: 'Write', description: 'Create, update, delete ideas' },
-                    { id: 'admin', label: 'Admin', description: 'Full access to all operations' }
-                  ].map(permission => (
-                    <div key={permission.id} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={permission.id}
-                        checked={formData.permissions.includes(permission.id)}
-                        onCheckedChange={(checked) => handlePermissionChange(permission.id, checked as boolean)}
-                      />
-                      <div className="flex flex-col">
-                        <label htmlFor={permission.id} className="text-sm font-medium">
-                          {permission.label}
+                  <Label>Limit to Groups (Optional)</Label>
+                  <div className="max-h-32 space-y-2 overflow-y-auto">
+                    {groups.map(group => (
+                      <div key={group.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`group-${group.id}`}
+                          checked={formData.allowed_group_ids.includes(group.id)}
+                          onCheckedChange={(checked) => handleGroupRestrictionChange(group.id, checked as boolean)}
+                        />
+                        <label htmlFor={`group-${group.id}`} className="text-sm">
+                          {group.icon || '📁'} {group.name}
                         </label>
-                        <span className="text-xs text-muted-foreground">
-                          {permission.description}
-                        </span>
                       </div>
-                    </div>
-                  ))}
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Leave empty to allow every group and ungrouped ideas
+                  </p>
                 </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="allowed-tags">Limit to Tags (Optional)</Label>
+                <Input
+                  id="allowed-tags"
+                  placeholder="research, public"
+                  value={formData.allowed_tags}
+                  onChange={(e) => setFormData(prev => ({ ...prev, allowed_tags: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated; the key only sees ideas with at least one of these tags
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -362,7 +543,7 @@ export const ApiKeysManager = () => {
               </Button>
               <Button 
                 onClick={createApiKey} 
-                disabled={creating || !formData.name.trim() || formData.permissions.length === 0}
+                disabled={creating || !formData.name.trim() || formData.scopes.length === 0}
               >
                 {creating ? "Creating..." : "Create API Key"}
               </Button>
@@ -377,10 +558,11 @@ export const ApiKeysManager = () => {
           <CheckCircle2 className="h-4 w-4 text-green-600" />
           <AlertDescription className="space-y-2">
             <p className="font-medium text-green-800 dark:text-green-200">
-              API Key Created Successfully!
+              {newKeyWasRotated ? 'API Key Rotated Successfully!' : 'API Key Created Successfully!'}
             </p>
             <p className="text-sm text-green-700 dark:text-green-300">
               Please copy and save this API key now. You won't be able to see it again.
+              {newKeyWasRotated && ' Update your integrations before the previous key stops working.'}
             </p>
             <div className="flex items-center space-x-2 mt-2">
               <code className="flex-1 p-2 bg-green-100 dark:bg-green-900 rounded text-sm font-mono">
@@ -445,6 +627,21 @@ export const ApiKeysManager = () => {
                     </CardDescription>
                   </div>
                   <div className="flex items-center space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setUsageKey(apiKey)}>
+                      <BarChart3 className="w-4 h-4 mr-2" />
+                      Usage
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setGracePeriodHours(24);
+                        setKeyToRotate(apiKey);
+                      }}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Rotate
+                    </Button>
                     <Button
                       size="sm"
                       variant={apiKey.is_active ? "destructive" : "default"}
@@ -465,21 +662,42 @@ export const ApiKeysManager = () => {
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="flex flex-wrap gap-2">
-                  {apiKey.permissions.map(permission => (
+                  {apiKey.scopes.map(scope => (
                     <Badge 
-                      key={permission} 
-                      className={getPermissionColor(permission)}
+                      key={scope} 
+                      className={getScopeColor(scope)}
                       variant="secondary"
                     >
-                      {permission}
+                      {scope}
                     </Badge>
                   ))}
                 </div>
+
+                {workspaces.length > 1 && (
+                  <p className="text-sm text-muted-foreground">
+                    Workspace: {workspaces.find(workspace => workspace.id === apiKey.workspace_id)?.name ?? 'No longer a member'}
+                  </p>
+                )}
+
+                {(apiKey.allowed_group_ids || apiKey.allowed_tags) && (
+                  <p className="text-sm text-muted-foreground">
+                    Limited to
+                    {apiKey.allowed_group_ids && <> groups: {apiKey.allowed_group_ids.map(groupName).join(', ')}</>}
+                    {apiKey.allowed_group_ids && apiKey.allowed_tags && ';'}
+                    {apiKey.allowed_tags && <> tags: {apiKey.allowed_tags.join(', ')}</>}
+                  </p>
+                )}
                 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                  <div>
+                  <div className="space-y-1">
                     <span className="text-muted-foreground">Rate Limit</span>
-                    <p className="font-medium">{apiKey.rate_limit_per_hour.toLocaleString()}/hour</p>
+                    <p className="font-medium">
+                      {(lastHourCounts[apiKey.id] || 0).toLocaleString()} / {apiKey.rate_limit_per_hour.toLocaleString()} this hour
+                    </p>
+                    <Progress
+                      value={Math.min(100, ((lastHourCounts[apiKey.id] || 0) / apiKey.rate_limit_per_hour) * 100)}
+                      className="h-1.5"
+                    />
                   </div>
                   <div>
                     <span className="text-muted-foreground">Usage</span>
@@ -499,6 +717,15 @@ export const ApiKeysManager = () => {
                   </div>
                 </div>
 
+                {apiKey.previous_key_expires_at && new Date(apiKey.previous_key_expires_at) > new Date() && (
+                  <Alert>
+                    <RefreshCw className="h-4 w-4" />
+                    <AlertDescription>
+                      Rotated {formatDate(apiKey.rotated_at!)}. The previous key keeps working until {formatDate(apiKey.previous_key_expires_at)}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {apiKey.expires_at && new Date(apiKey.expires_at) <= new Date() && (
                   <Alert variant="destructive">
                     <AlertCircle className="h-4 w-4" />
@@ -513,6 +740,60 @@ export const ApiKeysManager = () => {
         </div>
       )}
 
+      <ApiKeyUsageDialog
+        apiKey={usageKey}
+        lastHourCount={usageKey ? lastHourCounts[usageKey.id] || 0 : 0}
+        onClose={() => setUsageKey(null)}
+        fetchKeyUsage={fetchKeyUsage}
+      />
+
+      {/* Rotate Dialog */}
+      <Dialog open={!!keyToRotate} onOpenChange={(open) => !open && setKeyToRotate(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rotate API Key</DialogTitle>
+            <DialogDescription>
+              Issue a new secret for "{keyToRotate?.name}". Its scopes, limits and usage history are kept.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="grace-period">Previous key stops working</Label>
+            <Select
+              value={gracePeriodHours.toString()}
+              onValueChange={(value) => setGracePeriodHours(parseInt(value))}
+            >
+              <SelectTrigger id="grace-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {gracePeriodOptions.map(option => (
+                  <SelectItem key={option.hours} value={option.hours.toString()}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Choose "Immediately" if the key has leaked. A key that is still in a grace period from an earlier rotation loses that older secret right away.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setKeyToRotate(null)}
+              disabled={rotating}
+            >
+              Cancel
+            </Button>
+            <Button onClick={rotateApiKey} disabled={rotating}>
+              {rotating ? "Rotating..." : "Rotate Key"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Documentation Link */}
       <Card>
         <CardContent className="pt-6">
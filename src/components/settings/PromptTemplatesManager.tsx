@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, Pencil, Plus, Trash2 } from 'lucide-react';
+import { PromptTemplate, promptTemplateVariables } from '@/types/ai';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { useToast } from '@/hooks/use-toast';
+
+const emptyForm = { name: '', description: '', systemPrompt: '', userPrompt: '' };
+
+export const PromptTemplatesManager = () => {
+  const { toast } = useToast();
+  const { templates, loading, createTemplate, updateTemplate, deleteTemplate } = usePromptTemplates();
+  const [showDialog, setShowDialog] = useState(false);
+  // The template being edited; null while creating one
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [formData, setFormData] = useState(emptyForm);
+
+  const isValid = formData.name.trim() !== '' && formData.systemPrompt.trim() !== '' && formData.userPrompt.trim() !== '';
+
+  const openCreate = (source?: PromptTemplate) => {
+    setEditing(null);
+    setFormData(source ? {
+      name: `${source.name} (copy)`,
+      description: source.description || '',
+      systemPrompt: source.systemPrompt,
+      userPrompt: source.userPrompt
+    } : emptyForm);
+    setShowDialog(true);
+  };
+
+  const openEdit = (template: PromptTemplate) => {
+    setEditing(template);
+    setFormData({
+      name: template.name,
+      description: template.description || '',
+      systemPrompt: template.systemPrompt,
+      userPrompt: template.userPrompt
+    });
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    const input = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      systemPrompt: formData.systemPrompt.trim(),
+      userPrompt: formData.userPrompt.trim()
+    };
+
+    setSaving(true);
+    const saved = editing ? await updateTemplate(editing.id, input) : await createTemplate(input);
+    setSaving(false);
+
+    if (!saved) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to ${editing ? 'update' : 'create'} template`
+      });
+      return;
+    }
+
+    setShowDialog(false);
+    toast({
+      title: editing ? "Template Updated" : "Template Created",
+      description: "Pick it when enhancing a description"
+    });
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Ideas already enhanced with it keep their descriptions.`)) {
+      return;
+    }
+
+    if (await deleteTemplate(template.id)) {
+      toast({
+        title: "Template Deleted",
+        description: `"${template.name}" has been removed`
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-8 bg-muted rounded"></div>
+        <div className="h-24 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Prompts can use {promptTemplateVariables.map((variable, index) => (
+            <span key={variable}>
+              {index > 0 && ', '}
+              <code className="text-xs bg-muted px-1 rounded">{variable}</code>
+            </span>
+          ))}
+        </p>
+        <Button variant="outline" onClick={() => openCreate()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        {templates.map(template => (
+          <Card key={template.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <span className="truncate">{template.name}</span>
+                    {template.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                  </CardTitle>
+                  {template.description && (
+                    <CardDescription>{template.description}</CardDescription>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button size="sm" variant="outline" onClick={() => openCreate(template)} title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  {!template.builtIn && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => openEdit(template)} title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(template)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <pre className="p-2 bg-muted rounded text-xs font-mono whitespace-pre-wrap line-clamp-4">
+                {template.userPrompt}
+              </pre>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Template' : 'New Template'}</DialogTitle>
+            <DialogDescription>
+              The system prompt sets the writer's role; the user prompt asks for the enhancement.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                placeholder="Investor pitch"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description (Optional)</Label>
+              <Input
+                id="template-description"
+                placeholder="Problem, solution, market size and ask"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-system-prompt">System Prompt</Label>
+              <Textarea
+                id="template-system-prompt"
+                rows={4}
+                value={formData.systemPrompt}
+                onChange={(e) => setFormData(prev => ({ ...prev, systemPrompt: e.target.value }))}
+                maxLength={10000}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-user-prompt">User Prompt</Label>
+              <Textarea
+                id="template-user-prompt"
+                rows={8}
+                placeholder={'Rewrite this idea as an investor pitch:\n\nTitle: {{title}}\nTags: {{tags}}\n\n{{description}}'}
+                value={formData.userPrompt}
+                onChange={(e) => setFormData(prev => ({ ...prev, userPrompt: e.target.value }))}
+                maxLength={10000}
+                className="font-mono text-sm"
+              />
+              {formData.userPrompt.trim() && !formData.userPrompt.includes('{{description}}') && (
+                <p className="text-xs text-muted-foreground">
+                  Without {'{{description}}'} the model will not see the current description.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowDialog(false)}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !isValid}>
+              {saving ? "Saving..." : editing ? "Save Changes" : "Create Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -9,12 +9,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Settings, Palette, Code2, Sparkles, Brain, AlertTriangle, BookOpen, Key } from 'lucide-react';
+import { Settings, Palette, Code2, Sparkles, Brain, AlertTriangle, BookOpen, Key, Webhook, Download, FileText } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { SUPABASE_URL, supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { useOnboarding } from '@/hooks/useOnboarding';
 import { ApiKeysManager } from './ApiKeysManager';
+import { WebhooksManager } from './WebhooksManager';
+import { PromptTemplatesManager } from './PromptTemplatesManager';
+import { IdeaHubClient, ExportFormat } from '@/sdk';
+import { AiProvider, aiProviderOptions } from '@/types/ai';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -27,10 +32,23 @@ interface UserSettings {
   markdown_preview: boolean;
   developer_mode: boolean;
   theme: string;
+  trash_retention_days: number;
+  ai_provider: AiProvider;
+  ai_model: string | null;
+  ai_base_url: string | null;
 }
 
+const trashRetentionOptions = [7, 14, 30, 60, 90];
+
+const exportOptions: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'json', label: 'JSON', description: 'Ideas, groups, settings and image URLs' },
+  { format: 'csv', label: 'CSV', description: 'One row per idea, for spreadsheets' },
+  { format: 'markdown', label: 'Markdown', description: 'A zip with one file per idea' }
+];
+
 export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
+  const { currentWorkspace } = useWorkspace();
   const { toast } = useToast();
   const { resetOnboarding } = useOnboarding();
   const [settings, setSettings] = useState<UserSettings>({
@@ -38,9 +56,15 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
     ai_description_enhancement: false,
     markdown_preview: true,
     developer_mode: false,
-    theme: 'system'
+    theme: 'system',
+    trash_retention_days: 30,
+    ai_provider: 'deepseek',
+    ai_model: null,
+    ai_base_url: null
   });
+  const [aiEndpoint, setAiEndpoint] = useState({ model: '', baseUrl: '' });
   const [isLoading, setIsLoading] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
   const [devApiKeys, setDevApiKeys] = useState({
     googleAI: '',
     deepseek: ''
@@ -70,9 +94,14 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
           ai_description_enhancement: data.ai_description_enhancement,
           markdown_preview: data.markdown_preview,
           developer_mode: data.developer_mode,
-          theme: data.theme
+          theme: data.theme,
+          trash_retention_days: data.trash_retention_days,
+          ai_provider: data.ai_provider as AiProvider,
+          ai_model: data.ai_model,
+          ai_base_url: data.ai_base_url
         };
         setSettings(loadedSettings);
+        setAiEndpoint({ model: data.ai_model ?? '', baseUrl: data.ai_base_url ?? '' });
         
         // Apply theme on load
         const root = window.document.documentElement;
@@ -141,7 +170,7 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
     }
   };
 
-  const handleSettingChange = (key: keyof UserSettings, value: boolean | string) => {
+  const handleSettingChange = (key: keyof UserSettings, value: boolean | string | number) => {
     // Apply theme changes immediately
     if (key === 'theme') {
       const root = window.document.documentElement;
@@ -161,6 +190,54 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
     saveSettings({ [key]: value });
   };
 
+  // Switching provider clears the model and base URL, which rarely carry over between vendors
+  const handleProviderChange = (provider: AiProvider) => {
+    setAiEndpoint({ model: '', baseUrl: '' });
+    saveSettings({ ai_provider: provider, ai_model: null, ai_base_url: null });
+  };
+
+  const saveAiEndpoint = () => {
+    const baseUrl = aiEndpoint.baseUrl.trim();
+    if (baseUrl && !/^https?:\/\/\S+$/i.test(baseUrl)) {
+      toast({
+        title: "Invalid base URL",
+        description: "Use an http:// or https:// address.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveSettings({ ai_model: aiEndpoint.model.trim() || null, ai_base_url: baseUrl || null });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!session?.access_token) return;
+
+    setExportingFormat(format);
+    try {
+      const client = new IdeaHubClient({ baseUrl: `${SUPABASE_URL}/functions/v1`, accessToken: session.access_token });
+      const file = await client.ideas.export(format, { workspaceId: currentWorkspace?.id });
+
+      const extension = format === 'markdown' ? 'zip' : format;
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(file);
+      link.download = `ideahub-export-${new Date().toISOString().slice(0, 10)}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Error exporting ideas:', error);
+      toast({
+        title: "Export failed",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const selectedProvider = aiProviderOptions.find(option => option.value === settings.ai_provider) ?? aiProviderOptions[0];
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -205,9 +282,63 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                     disabled={isLoading}
                   />
                  </div>
+
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label className="text-base">Keep Deleted Ideas</Label>
+                    <div className="text-sm text-muted-foreground">
+                      How long deleted ideas stay in the trash of workspaces you created before they are removed for good
+                    </div>
+                  </div>
+                  <Select
+                    value={String(settings.trash_retention_days)}
+                    onValueChange={(value) => handleSettingChange('trash_retention_days', Number(value))}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {trashRetentionOptions.map(days => (
+                        <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                </CardContent>
              </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Download className="h-5 w-5" />
+                  Export Data
+                </CardTitle>
+                <CardDescription>
+                  Download all ideas in {currentWorkspace?.name ?? 'your workspace'}. Ideas in the trash are not included.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {exportOptions.map(({ format, label, description }) => (
+                  <div key={format} className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label className="text-base">{label}</Label>
+                      <div className="text-sm text-muted-foreground">{description}</div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleExport(format)}
+                      disabled={exportingFormat !== null}
+                    >
+                      {exportingFormat === format ? 'Exporting...' : 'Export'}
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
              <Card>
                <CardHeader>
                  <CardTitle className="flex items-center gap-2">
@@ -287,6 +418,78 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                   />
                 </div>
 
+                {settings.ai_description_enhancement && (
+                  <>
+                    <Separator />
+
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="space-y-0.5">
+                          <Label className="text-base">Text Generation Provider</Label>
+                          <div className="text-sm text-muted-foreground">
+                            {selectedProvider.description}
+                          </div>
+                        </div>
+                        <Select
+                          value={settings.ai_provider}
+                          onValueChange={(value) => handleProviderChange(value as AiProvider)}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {aiProviderOptions.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="ai-model">Model</Label>
+                          <Input
+                            id="ai-model"
+                            placeholder={selectedProvider.defaultModel}
+                            value={aiEndpoint.model}
+                            onChange={(e) => setAiEndpoint(prev => ({ ...prev, model: e.target.value }))}
+                            maxLength={200}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="ai-base-url">Base URL</Label>
+                          <Input
+                            id="ai-base-url"
+                            placeholder={selectedProvider.defaultBaseUrl ?? selectedProvider.exampleBaseUrl}
+                            value={aiEndpoint.baseUrl}
+                            onChange={(e) => setAiEndpoint(prev => ({ ...prev, baseUrl: e.target.value }))}
+                            maxLength={500}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="text-xs text-muted-foreground">
+                          {selectedProvider.defaultBaseUrl
+                            ? 'Leave empty to use the defaults shown.'
+                            : `A base URL is required, for example ${selectedProvider.exampleBaseUrl}.`}
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={saveAiEndpoint}
+                          disabled={isLoading || (
+                            aiEndpoint.model.trim() === (settings.ai_model ?? '') &&
+                            aiEndpoint.baseUrl.trim() === (settings.ai_base_url ?? '')
+                          )}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  </>
+                )}
+
                 {(settings.auto_image_generation || settings.ai_description_enhancement) && (
                   <div className="p-4 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
                     <div className="flex items-start gap-3">
@@ -304,6 +507,23 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                 )}
               </CardContent>
             </Card>
+
+            {settings.ai_description_enhancement && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    Prompt Templates
+                  </CardTitle>
+                  <CardDescription>
+                    Choose how descriptions are enhanced. Start from a built-in preset or write your own.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PromptTemplatesManager />
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           <TabsContent value="appearance" className="space-y-6">
@@ -356,6 +576,21 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                 <ApiKeysManager />
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Webhook className="h-5 w-5" />
+                  Webhooks
+                </CardTitle>
+                <CardDescription>
+                  Push idea lifecycle events to other tools as they happen.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WebhooksManager />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="developer" className="space-y-6">
@@ -419,16 +654,16 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                       </div>
 
                       <div className="space-y-2">
-                        <Label htmlFor="deepseek-key">Deepseek API Key</Label>
+                        <Label htmlFor="deepseek-key">Text Generation API Key</Label>
                         <Input
                           id="deepseek-key"
                           type="password"
-                          placeholder="Enter your Deepseek API key"
+                          placeholder="Enter your API key for the text generation provider"
                           value={devApiKeys.deepseek}
                           onChange={(e) => setDevApiKeys(prev => ({ ...prev, deepseek: e.target.value }))}
                         />
                         <div className="text-xs text-muted-foreground">
-                          Used for description enhancement. Get your key from Deepseek.
+                          Used for description enhancement with the provider chosen under AI Features.
                         </div>
                       </div>
 
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { Webhook, WebhookDelivery } from '@/types/webhook';
+import { useToast } from '@/hooks/use-toast';
+
+interface WebhookDeliveriesDialogProps {
+  webhook: Webhook | null;
+  onClose: () => void;
+  fetchDeliveries: (webhookId: string) => Promise<WebhookDelivery[]>;
+  redeliver: (deliveryId: string) => Promise<WebhookDelivery | null>;
+}
+
+const statusStyles: Record<WebhookDelivery['status'], string> = {
+  success: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+export const WebhookDeliveriesDialog = ({ webhook, onClose, fetchDeliveries, redeliver }: WebhookDeliveriesDialogProps) => {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    if (!webhook) return;
+    setLoading(true);
+    setDeliveries(await fetchDeliveries(webhook.id));
+    setLoading(false);
+  }, [webhook, fetchDeliveries]);
+
+  useEffect(() => {
+    setExpandedId(null);
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    const result = await redeliver(delivery.id);
+    setRedeliveringId(null);
+
+    if (!result) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to redeliver webhook"
+      });
+      return;
+    }
+
+    setDeliveries(prev => [result, ...prev]);
+    setExpandedId(result.id);
+    toast({
+      title: result.status === 'success' ? "Redelivered" : "Redelivery failed",
+      description: result.status === 'success'
+        ? `Endpoint responded with HTTP ${result.responseStatus}`
+        : result.error || "The endpoint did not accept the delivery; it will be retried"
+    });
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recent Deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={loadDeliveries} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <ScrollArea className="h-96 rounded-md border">
+          {deliveries.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              {loading ? 'Loading deliveries...' : 'No deliveries yet. Create or edit an idea to trigger one.'}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="p-3 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <button
+                      className="flex flex-1 items-center gap-3 text-left min-w-0"
+                      onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                    >
+                      <Badge variant="secondary" className={statusStyles[delivery.status]}>
+                        {delivery.status}
+                      </Badge>
+                      <span className="font-mono text-sm truncate">{delivery.event}</span>
+                      <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                        {formatDate(delivery.createdAt)}
+                      </span>
+                    </button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRedeliver(delivery)}
+                      disabled={redeliveringId !== null}
+                    >
+                      <RotateCcw className={`w-4 h-4 ${redeliveringId === delivery.id ? 'animate-spin' : ''}`} />
+                    </Button>
+                  </div>
+
+                  {expandedId === delivery.id && (
+                    <div className="space-y-2 text-xs">
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <span className="text-muted-foreground">Response</span>
+                          <p className="font-medium">{delivery.responseStatus ?? '—'}</p>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">Attempts</span>
+                          <p className="font-medium">{delivery.attempts}</p>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">
+                            {delivery.status === 'pending' ? 'Next attempt' : 'Delivered'}
+                          </span>
+                          <p className="font-medium">
+                            {delivery.status === 'pending'
+                              ? (delivery.nextAttemptAt ? formatDate(delivery.nextAttemptAt) : '—')
+                              : (delivery.deliveredAt ? formatDate(delivery.deliveredAt) : '—')}
+                          </p>
+                        </div>
+                      </div>
+                      {delivery.error && (
+                        <p className="text-destructive">{delivery.error}</p>
+                      )}
+                      <div>
+                        <span className="text-muted-foreground">Payload</span>
+                        <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted p-2 font-mono">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </div>
+                      {delivery.responseBody && (
+                        <div>
+                          <span className="text-muted-foreground">Response body</span>
+                          <pre className="mt-1 max-h-32 overflow-auto rounded bg-muted p-2 font-mono whitespace-pre-wrap break-all">
+                            {delivery.responseBody}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Copy, Plus, Trash2, Webhook as WebhookIcon, Eye, EyeOff, History } from 'lucide-react';
+import { Webhook, WebhookEvent, webhookEventOptions } from '@/types/webhook';
+import { useWebhooks } from '@/hooks/useWebhooks';
+import { useToast } from '@/hooks/use-toast';
+import { WebhookDeliveriesDialog } from './WebhookDeliveriesDialog';
+
+const allEvents = webhookEventOptions.map(option => option.value);
+
+export const WebhooksManager = () => {
+  const { toast } = useToast();
+  const { webhooks, loading, createWebhook, updateWebhook, deleteWebhook, fetchDeliveries, redeliver } = useWebhooks();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [revealedSecrets, setRevealedSecrets] = useState<Set<string>>(new Set());
+  const [deliveriesFor, setDeliveriesFor] = useState<Webhook | null>(null);
+
+  // Form state
+  const [formData, setFormData] = useState({
+    url: '',
+    description: '',
+    events: allEvents as WebhookEvent[]
+  });
+
+  const isValidUrl = (() => {
+    try {
+      return new URL(formData.url).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  })();
+
+  const handleCreate = async () => {
+    if (!isValidUrl || formData.events.length === 0) return;
+
+    setCreating(true);
+    const webhook = await createWebhook({
+      url: formData.url.trim(),
+      description: formData.description.trim() || undefined,
+      events: formData.events
+    });
+    setCreating(false);
+
+    if (!webhook) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to create webhook"
+      });
+      return;
+    }
+
+    setFormData({ url: '', description: '', events: allEvents });
+    setShowCreateDialog(false);
+    setRevealedSecrets(prev => new Set(prev).add(webhook.id));
+    toast({
+      title: "Webhook Created",
+      description: "Use the signing secret to verify deliveries"
+    });
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log will be removed too.`)) {
+      return;
+    }
+
+    if (await deleteWebhook(webhook.id)) {
+      toast({
+        title: "Webhook Deleted",
+        description: "The endpoint will no longer receive events"
+      });
+    }
+  };
+
+  const handleEventChange = (event: WebhookEvent, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }));
+  };
+
+  const toggleSecret = (id: string) => {
+    setRevealedSecrets(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied!",
+      description: "Signing secret copied to clipboard"
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-8 bg-muted rounded"></div>
+        <div className="h-24 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Webhooks</h3>
+          <p className="text-sm text-muted-foreground">
+            Get notified at your own endpoints when ideas change
+          </p>
+        </div>
+        <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+          <DialogTrigger asChild>
+            <Button variant="outline">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Webhook
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Add Webhook</DialogTitle>
+              <DialogDescription>
+                We'll send a signed POST request to this URL for each selected event
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">Payload URL</Label>
+                <Input
+                  id="webhook-url"
+                  placeholder="https://example.com/hooks/ideahub"
+                  value={formData.url}
+                  onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                />
+                {formData.url && !isValidUrl && (
+                  <p className="text-xs text-destructive">Enter a valid https:// URL</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description (Optional)</Label>
+                <Input
+                  id="webhook-description"
+                  placeholder="Sync to project tracker"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label>Events</Label>
+                <div className="space-y-2">
+                  {webhookEventOptions.map(option => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`event-${option.value}`}
+                        checked={formData.events.includes(option.value)}
+                        onCheckedChange={(checked) => handleEventChange(option.value, checked as boolean)}
+                      />
+                      <div className="flex flex-col">
+                        <label htmlFor={`event-${option.value}`} className="text-sm font-medium">
+                          {option.label}
+                        </label>
+                        <span className="text-xs text-muted-foreground">
+                          {option.description}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setShowCreateDialog(false)}
+                disabled={creating}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={creating || !isValidUrl || formData.events.length === 0}
+              >
+                {creating ? "Adding..." : "Add Webhook"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {webhooks.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-8">
+            <WebhookIcon className="w-12 h-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">No Webhooks</h3>
+            <p className="text-sm text-muted-foreground text-center">
+              Add a webhook to push idea changes to other tools instead of polling the API
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {webhooks.map(webhook => (
+            <Card key={webhook.id} className={`${!webhook.isActive ? 'opacity-60' : ''}`}>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base font-mono truncate">{webhook.url}</CardTitle>
+                    {webhook.description && (
+                      <CardDescription>{webhook.description}</CardDescription>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={webhook.isActive}
+                      onCheckedChange={(checked) => updateWebhook(webhook.id, { isActive: checked })}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => setDeliveriesFor(webhook)}>
+                      <History className="w-4 h-4 mr-2" />
+                      Deliveries
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(webhook)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {webhook.events.map(event => (
+                    <Badge key={event} variant="secondary" className="font-mono">
+                      {event}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <span className="text-sm text-muted-foreground">Signing secret</span>
+                  <div className="flex items-center space-x-2">
+                    <code className="flex-1 p-2 bg-muted rounded text-sm font-mono truncate">
+                      {revealedSecrets.has(webhook.id) ? webhook.secret : '•'.repeat(32)}
+                    </code>
+                    <Button size="sm" variant="outline" onClick={() => toggleSecret(webhook.id)}>
+                      {revealedSecrets.has(webhook.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => copyToClipboard(webhook.secret)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <WebhookDeliveriesDialog
+        webhook={deliveriesFor}
+        onClose={() => setDeliveriesFor(null)}
+        fetchDeliveries={fetchDeliveries}
+        redeliver={redeliver}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { Copy, Link2, Lock, Eye, Ban } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useShareLinks } from '@/hooks/useShareLinks';
+import { useToast } from '@/hooks/use-toast';
+import { ShareLink, ShareTarget, expiryOptions, isShareLinkActive, shareLinkUrl } from '@/types/share';
+
+interface ShareLinkDialogProps {
+  target: ShareTarget | null;
+  onClose: () => void;
+}
+
+const formatDate = (date: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  }).format(date);
+};
+
+const linkStatus = (link: ShareLink) => {
+  if (link.revokedAt) return 'Revoked';
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) return 'Expired';
+  return link.expiresAt ? `Expires ${formatDate(link.expiresAt)}` : 'No expiry';
+};
+
+export const ShareLinkDialog = ({ target, onClose }: ShareLinkDialogProps) => {
+  const { toast } = useToast();
+  const { links, loading, createLink, revokeLink } = useShareLinks(target);
+  const [expiry, setExpiry] = useState<string>('never');
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setExpiry('never');
+      setPassword('');
+    }
+  }, [target]);
+
+  if (!target) return null;
+
+  const copyLink = (link: ShareLink) => {
+    navigator.clipboard.writeText(shareLinkUrl(link.token));
+    toast({
+      title: "Copied!",
+      description: "Share link copied to clipboard"
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const days = expiryOptions.find(option => option.value === expiry)?.days ?? null;
+    setCreating(true);
+    try {
+      const link = await createLink({
+        password,
+        expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null
+      });
+
+      if (link) {
+        copyLink(link);
+        setPassword('');
+      } else {
+        toast({ title: "Link not created", description: "Only workspace owners can share.", variant: "destructive" });
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) return;
+    if (!(await revokeLink(link.id))) {
+      toast({ title: "Revoke failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Share "{target.name}"</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this {target.type === 'idea' ? 'idea' : 'group and its ideas'} without an account. They cannot make changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-password" className="text-sm font-medium">Password (optional)</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="No password"
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={creating} className="w-full">
+              <Link2 className="h-4 w-4 mr-2" />
+              {creating ? 'Creating...' : 'Create and copy link'}
+            </Button>
+          </form>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Links</h4>
+            {loading && links.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Loading links...</p>
+            ) : links.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing has been shared yet.</p>
+            ) : links.map(link => {
+              const active = isShareLinkActive(link);
+              return (
+                <div key={link.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className={`text-sm font-mono truncate ${active ? '' : 'text-muted-foreground line-through'}`}>
+                      /share/{link.token.slice(0, 12)}…
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant={active ? 'secondary' : 'outline'}>{linkStatus(link)}</Badge>
+                      {link.hasPassword && (
+                        <span className="flex items-center gap-1"><Lock className="h-3 w-3" />Password</span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Eye className="h-3 w-3" />
+                        {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                        {link.lastViewedAt && `, last ${formatDate(link.lastViewedAt)}`}
+                      </span>
+                    </div>
+                  </div>
+                  {active && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => copyLink(link)} className="px-2">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(link)}
+                        className="px-2 text-destructive hover:text-destructive"
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react';
+import { Mail, Trash2, UserMinus, LogOut } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { useToast } from '@/hooks/use-toast';
+import { Workspace, WorkspaceRole, roleConfig } from '@/types/workspace';
+
+interface WorkspaceSettingsDialogProps {
+  workspace: Workspace | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const roles = Object.keys(roleConfig) as WorkspaceRole[];
+
+export const WorkspaceSettingsDialog = ({ workspace, isOpen, onClose }: WorkspaceSettingsDialogProps) => {
+  const { user } = useAuth();
+  const { renameWorkspace, deleteWorkspace, leaveWorkspace } = useWorkspace();
+  const { toast } = useToast();
+  const isOwner = workspace?.role === 'owner';
+  const { members, invitations, invite, revokeInvitation, updateRole, removeMember } = useWorkspaceMembers(
+    isOpen ? workspace?.id ?? null : null,
+    isOwner
+  );
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+
+  useEffect(() => {
+    if (isOpen && workspace) {
+      setName(workspace.name);
+      setInviteEmail('');
+      setInviteRole('editor');
+    }
+  }, [isOpen, workspace]);
+
+  if (!workspace) return null;
+
+  const handleRename = async () => {
+    if (!name.trim() || name.trim() === workspace.name) return;
+    if (await renameWorkspace(workspace.id, name)) {
+      toast({ title: "Workspace renamed", description: `It is now called "${name.trim()}".` });
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    if (members.some(member => member.email.toLowerCase() === inviteEmail.trim().toLowerCase())) {
+      toast({ title: "Already a member", description: `${inviteEmail.trim()} is already in this workspace.` });
+      return;
+    }
+
+    if (await invite(inviteEmail, inviteRole)) {
+      toast({
+        title: "Invitation created",
+        description: `${inviteEmail.trim()} will see it after signing in with that email.`,
+      });
+      setInviteEmail('');
+    } else {
+      toast({ title: "Invitation failed", description: "Check the email address and try again.", variant: "destructive" });
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: WorkspaceRole) => {
+    if (!(await updateRole(userId, role))) {
+      toast({ title: "Role not changed", description: "A workspace needs at least one owner.", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async (userId: string, label: string) => {
+    if (!confirm(`Remove ${label} from "${workspace.name}"?`)) return;
+    if (!(await removeMember(userId))) {
+      toast({ title: "Member not removed", description: "A workspace needs at least one owner.", variant: "destructive" });
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm(`Leave "${workspace.name}"? You will lose access to its ideas.`)) return;
+    if (await leaveWorkspace(workspace.id)) {
+      onClose();
+      toast({ title: "Left workspace", description: `You are no longer a member of "${workspace.name}".` });
+    } else {
+      toast({ title: "Could not leave", description: "Make someone else an owner first.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${workspace.name}" with all its ideas and groups for every member? This cannot be undone.`)) return;
+    if (await deleteWorkspace(workspace.id)) {
+      onClose();
+      toast({ title: "Workspace deleted", description: `"${workspace.name}" has been removed.` });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Workspace Settings</DialogTitle>
+          <DialogDescription>
+            You are {roleConfig[workspace.role].label.toLowerCase()} of this workspace. {roleConfig[workspace.role].description}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="workspace-settings-name" className="text-sm font-medium">Name</Label>
+            <div className="flex gap-2">
+              <Input
+                id="workspace-settings-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                disabled={!isOwner}
+              />
+              {isOwner && (
+                <Button variant="outline" onClick={handleRename} disabled={!name.trim() || name.trim() === workspace.name}>
+                  Save
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Members */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Members</h4>
+            {members.map(member => {
+              const label = member.displayName || member.email;
+              return (
+                <div key={member.userId} className="flex items-center gap-3">
+                  <div
+                    className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full text-white text-xs font-semibold"
+                    style={{ backgroundColor: member.avatarColor }}
+                  >
+                    {label.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {label}
+                      {member.userId === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                  </div>
+                  {isOwner ? (
+                    <>
+                      <Select value={member.role} onValueChange={(value) => handleRoleChange(member.userId, value as WorkspaceRole)}>
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map(role => (
+                            <SelectItem key={role} value={role}>{roleConfig[role].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {member.userId !== user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(member.userId, label)}
+                          className="px-2 text-destructive hover:text-destructive"
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <Badge variant="outline">{roleConfig[member.role].label}</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Invitations */}
+          {isOwner && !workspace.isPersonal && (
+            <>
+              <Separator />
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Invite People</h4>
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <Input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="name@example.com"
+                    required
+                  />
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as WorkspaceRole)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map(role => (
+                        <SelectItem key={role} value={role}>{roleConfig[role].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" disabled={!inviteEmail.trim()}>
+                    <Mail className="h-4 w-4 mr-2" />
+                    Invite
+                  </Button>
+                </form>
+                <p className="text-xs text-muted-foreground">
+                  Invitations are valid for 14 days. People see them in their profile menu after signing in with the invited email.
+                </p>
+                {invitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate">{invitation.email}</span>
+                    <Badge variant="secondary">{roleConfig[invitation.role].label}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      until {invitation.expiresAt.toLocaleDateString()}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => revokeInvitation(invitation.id)} className="px-2">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* Leave / delete */}
+          {!workspace.isPersonal && (
+            <>
+              <Separator />
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={handleLeave}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Leave Workspace
+                </Button>
+                {isOwner && (
+                  <Button variant="destructive" onClick={handleDelete}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Workspace
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
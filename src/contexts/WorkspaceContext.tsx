@@ -0,0 +1,257 @@
+import { useEffect, useState, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { WorkspaceContext } from '@/hooks/useWorkspace';
+import { Workspace, WorkspaceInvitation, WorkspaceRole } from '@/types/workspace';
+
+// The last workspace a user picked, per user so shared browsers do not mix them up
+const currentWorkspaceKey = (userId: string) => `ideahub_workspace:${userId}`;
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+export const WorkspaceProvider = ({ children }: WorkspaceProviderProps) => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([]);
+      setInvitations([]);
+      setCurrentWorkspaceId(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [memberships, pending] = await Promise.all([
+        supabase
+          .from('workspace_members')
+          .select('role, workspaces(id, name, is_personal, created_at)')
+          .eq('user_id', user.id),
+        supabase
+          .from('workspace_invitations')
+          .select('id, workspace_id, email, role, expires_at, workspaces(name)')
+          .eq('email', (user.email || '').toLowerCase())
+          .gt('expires_at', new Date().toISOString())
+      ]);
+
+      if (memberships.error) {
+        console.error('Error fetching workspaces:', memberships.error);
+        return;
+      }
+      if (pending.error) {
+        console.error('Error fetching workspace invitations:', pending.error);
+      }
+
+      // Personal workspace first, then the shared ones by name
+      const loaded: Workspace[] = memberships.data
+        .filter(membership => membership.workspaces)
+        .map(membership => ({
+          id: membership.workspaces!.id,
+          name: membership.workspaces!.name,
+          isPersonal: membership.workspaces!.is_personal,
+          role: membership.role as WorkspaceRole,
+          createdAt: new Date(membership.workspaces!.created_at),
+        }))
+        .sort((a, b) => Number(b.isPersonal) - Number(a.isPersonal) || a.name.localeCompare(b.name));
+
+      setWorkspaces(loaded);
+      setInvitations((pending.data || []).map(invitation => ({
+        id: invitation.id,
+        workspaceId: invitation.workspace_id,
+        workspaceName: invitation.workspaces?.name,
+        email: invitation.email,
+        role: invitation.role as WorkspaceRole,
+        expiresAt: new Date(invitation.expires_at),
+      })));
+
+      setCurrentWorkspaceId(prev => {
+        const preferred = prev ?? localStorage.getItem(currentWorkspaceKey(user.id));
+        return loaded.some(workspace => workspace.id === preferred)
+          ? preferred
+          : loaded.find(workspace => workspace.isPersonal)?.id ?? loaded[0]?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    setCurrentWorkspaceId(null);
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const switchWorkspace = useCallback((id: string) => {
+    if (!user) return;
+    localStorage.setItem(currentWorkspaceKey(user.id), id);
+    setCurrentWorkspaceId(id);
+  }, [user]);
+
+  const createWorkspace = useCallback(async (name: string) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase.rpc('create_workspace', { p_name: name.trim() });
+
+      if (error) {
+        console.error('Error creating workspace:', error);
+        return null;
+      }
+
+      const workspace: Workspace = {
+        id: data.id,
+        name: data.name,
+        isPersonal: data.is_personal,
+        role: 'owner',
+        createdAt: new Date(data.created_at),
+      };
+      setWorkspaces(prev => [...prev, workspace]);
+      switchWorkspace(workspace.id);
+      return workspace;
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      return null;
+    }
+  }, [user, switchWorkspace]);
+
+  const renameWorkspace = useCallback(async (id: string, name: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspaces')
+        .update({ name: name.trim() })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error renaming workspace:', error);
+        return false;
+      }
+
+      setWorkspaces(prev => prev.map(workspace =>
+        workspace.id === id ? { ...workspace, name: name.trim() } : workspace
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error renaming workspace:', error);
+      return false;
+    }
+  }, []);
+
+  // Drop a workspace the user no longer belongs to and fall back to their personal one
+  const forgetWorkspace = useCallback((id: string) => {
+    setWorkspaces(prev => prev.filter(workspace => workspace.id !== id));
+    setCurrentWorkspaceId(prev => prev === id
+      ? workspaces.find(workspace => workspace.isPersonal)?.id ?? null
+      : prev);
+  }, [workspaces]);
+
+  // Deletes the workspace with all its ideas and groups; personal workspaces cannot be deleted
+  const deleteWorkspace = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspaces')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting workspace:', error);
+        return false;
+      }
+
+      forgetWorkspace(id);
+      return true;
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      return false;
+    }
+  }, [forgetWorkspace]);
+
+  // Fails for the last owner, who has to hand over ownership or delete the workspace
+  const leaveWorkspace = useCallback(async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error leaving workspace:', error);
+        return false;
+      }
+
+      forgetWorkspace(id);
+      return true;
+    } catch (error) {
+      console.error('Error leaving workspace:', error);
+      return false;
+    }
+  }, [user, forgetWorkspace]);
+
+  const acceptInvitation = useCallback(async (id: string) => {
+    try {
+      const { data: workspaceId, error } = await supabase.rpc('accept_workspace_invitation', { p_invitation_id: id });
+
+      if (error) {
+        console.error('Error accepting invitation:', error);
+        return false;
+      }
+
+      await fetchWorkspaces();
+      switchWorkspace(workspaceId);
+      return true;
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      return false;
+    }
+  }, [fetchWorkspaces, switchWorkspace]);
+
+  const declineInvitation = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_invitations')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error declining invitation:', error);
+        return false;
+      }
+
+      setInvitations(prev => prev.filter(invitation => invitation.id !== id));
+      return true;
+    } catch (error) {
+      console.error('Error declining invitation:', error);
+      return false;
+    }
+  }, []);
+
+  const value = {
+    workspaces,
+    currentWorkspace: workspaces.find(workspace => workspace.id === currentWorkspaceId) ?? null,
+    invitations,
+    loading,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    leaveWorkspace,
+    acceptInvitation,
+    declineInvitation,
+  };
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OpenApiDocument } from '@/types/openapi';
+import { supabase } from '@/integrations/supabase/client';
+
+// The OpenAPI document published by the api-spec function; needs no sign in
+export const useApiSpec = () => {
+  const [spec, setSpec] = useState<OpenApiDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSpec = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('api-spec', { method: 'GET' });
+
+      if (error) {
+        console.error('Error fetching API spec:', error);
+        setError(error.message || 'Failed to load the API specification');
+        return;
+      }
+
+      setSpec(data as OpenApiDocument);
+    } catch (error) {
+      console.error('Error fetching API spec:', error);
+      setError('Failed to load the API specification');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSpec();
+  }, [fetchSpec]);
+
+  return {
+    spec,
+    loading,
+    error,
+    refetch: fetchSpec
+  };
+};
@@ -0,0 +1,81 @@
+import { useCallback } from 'react';
+import { ApiKeyUsage, ApiRequestCount } from '@/types/apiUsage';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const useApiUsage = () => {
+  const { user } = useAuth();
+
+  // Request volume and status codes of one key since the given number of hours ago
+  const fetchKeyUsage = useCallback(async (apiKeyId: string, hours: number): Promise<ApiKeyUsage | null> => {
+    if (!user) return null;
+
+    const since = new Date(Date.now() - hours * HOUR_MS).toISOString();
+
+    try {
+      const [requestsResult, statusesResult] = await Promise.all([
+        supabase.rpc('get_api_usage', { p_since: since, p_api_key_id: apiKeyId }),
+        supabase
+          .from('api_usage_stats')
+          .select('endpoint, status_code, window_start, requests_count')
+          .eq('api_key_id', apiKeyId)
+          .gte('window_start', since)
+          .order('window_start', { ascending: true })
+      ]);
+
+      if (requestsResult.error || statusesResult.error) {
+        console.error('Error fetching API usage:', requestsResult.error || statusesResult.error);
+        return null;
+      }
+
+      return {
+        requests: requestsResult.data.map((row): ApiRequestCount => ({
+          apiKeyId: row.api_key_id,
+          endpoint: row.endpoint,
+          windowStart: new Date(row.window_start),
+          requestsCount: Number(row.requests_count),
+        })),
+        statuses: statusesResult.data.map(row => ({
+          endpoint: row.endpoint,
+          statusCode: row.status_code,
+          windowStart: new Date(row.window_start),
+          requestsCount: row.requests_count,
+        })),
+      };
+    } catch (error) {
+      console.error('Error fetching API usage:', error);
+      return null;
+    }
+  }, [user]);
+
+  // Requests per key over the last hour, to compare against each key's hourly rate limit
+  const fetchLastHourCounts = useCallback(async (): Promise<Record<string, number>> => {
+    if (!user) return {};
+
+    try {
+      const { data, error } = await supabase.rpc('get_api_usage', {
+        p_since: new Date(Date.now() - HOUR_MS).toISOString()
+      });
+
+      if (error) {
+        console.error('Error fetching API usage:', error);
+        return {};
+      }
+
+      return data.reduce<Record<string, number>>((counts, row) => {
+        counts[row.api_key_id] = (counts[row.api_key_id] || 0) + Number(row.requests_count);
+        return counts;
+      }, {});
+    } catch (error) {
+      console.error('Error fetching API usage:', error);
+      return {};
+    }
+  }, [user]);
+
+  return {
+    fetchKeyUsage,
+    fetchLastHourCounts
+  };
+};
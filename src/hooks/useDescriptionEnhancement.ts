@@ -0,0 +1,112 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { readServerSentEvents } from '@/lib/enhancement';
+import { Idea, IdeaUpdateResult, IdeaUpdater } from '@/types/idea';
+
+export type EnhancementStatus = 'idle' | 'streaming' | 'done' | 'error';
+
+// The template the server used, as reported when the stream finishes
+export interface EnhancementTemplate {
+  id: string | null;
+  name: string;
+}
+
+interface EnhancementRequest {
+  title: string;
+  description: string;
+  tags?: string[];
+  // A prompt_templates id; the server's default prompt when unset
+  templateId?: string | null;
+  // Developer mode key for the chosen provider
+  apiKey?: string | null;
+}
+
+// Streams an enhanced description from enhance-description. Nothing is saved until apply.
+export const useDescriptionEnhancement = () => {
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<EnhancementStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [template, setTemplate] = useState<EnhancementTemplate | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const start = useCallback(async ({ title, description, tags, templateId, apiKey }: EnhancementRequest) => {
+    cancel();
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setText('');
+    setError(null);
+    setTemplate(null);
+    setStatus('streaming');
+
+    try {
+      // Through the app's Supabase client, which knows the project URL and the session
+      const { data: response, error: invokeError } = await supabase.functions.invoke<Response>('enhance-description', {
+        headers: { Accept: 'text/event-stream' },
+        body: { title, description, tags, templateId, stream: true, ...(apiKey && { apiKey }) },
+      });
+
+      if (abort.signal.aborted) {
+        await response?.body?.cancel();
+        return;
+      }
+      if (invokeError || !response?.body) {
+        const body = await invokeError?.context?.json?.().catch(() => null);
+        throw new Error(body?.error || invokeError?.message || 'Enhancement failed');
+      }
+
+      for await (const { event, data } of readServerSentEvents(response.body, abort.signal)) {
+        if (event === 'delta' && typeof data.text === 'string') {
+          setText(prev => prev + data.text);
+        } else if (event === 'error') {
+          throw new Error(typeof data.error === 'string' ? data.error : 'Enhancement failed');
+        } else if (event === 'done') {
+          setTemplate((data.template as EnhancementTemplate | undefined) ?? null);
+          setStatus('done');
+          return;
+        }
+      }
+
+      if (abort.signal.aborted) return;
+      throw new Error('The enhancement stopped before it finished');
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      console.error('Error enhancing description:', error);
+      setError(error instanceof Error ? error.message : 'Enhancement failed');
+      setStatus('error');
+    } finally {
+      if (abortRef.current === abort) abortRef.current = null;
+    }
+  }, [cancel]);
+
+  // Saves through updateIdea, so the write only applies to the version the suggestion was made
+  // for. Keeps the first pre-enhancement text so Undo still restores what the user wrote, and
+  // records which template produced the new one.
+  const apply = useCallback((
+    idea: Pick<Idea, 'id' | 'description' | 'original_description' | 'version'>,
+    description: string,
+    usedTemplate: EnhancementTemplate | null,
+    update: IdeaUpdater
+  ): Promise<IdeaUpdateResult> => update(idea.id, {
+    original_description: idea.original_description || idea.description,
+    description,
+    enhancementTemplateId: usedTemplate?.id ?? null,
+    enhancementTemplateName: usedTemplate?.name ?? null
+  }, { expectedVersion: idea.version }), []);
+
+  return {
+    text,
+    status,
+    error,
+    template,
+    start,
+    cancel,
+    apply
+  };
+};
@@ -0,0 +1,193 @@
+import { useState, useCallback, useEffect } from 'react';
+import { IdeaComment, IdeaCommentRevision } from '@/types/idea';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+const formatComment = (comment: Tables<'idea_comments'>): IdeaComment => ({
+  id: comment.id,
+  ideaId: comment.idea_id,
+  parentId: comment.parent_id,
+  userId: comment.user_id,
+  body: comment.body,
+  mentionedUserIds: comment.mentioned_user_ids,
+  createdAt: new Date(comment.created_at),
+  editedAt: comment.edited_at ? new Date(comment.edited_at) : null,
+  deletedAt: comment.deleted_at ? new Date(comment.deleted_at) : null,
+});
+
+const formatCommentRevision = (revision: Tables<'idea_comment_revisions'>): IdeaCommentRevision => ({
+  id: revision.id,
+  commentId: revision.comment_id,
+  body: revision.body,
+  action: revision.action as IdeaCommentRevision['action'],
+  createdAt: new Date(revision.created_at),
+});
+
+// Replace or add a comment, keeping the list in posting order
+const upsertComment = (comments: IdeaComment[], comment: IdeaComment) =>
+  [...comments.filter(existing => existing.id !== comment.id), comment]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+export const useIdeaComments = (ideaId: string | null) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<IdeaComment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Oldest first, replies included; the UI builds the threads
+  const fetchComments = useCallback(async () => {
+    if (!ideaId) {
+      setComments([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('idea_comments')
+        .select('*')
+        .eq('idea_id', ideaId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching comments:', error);
+        return;
+      }
+
+      setComments(data.map(formatComment));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [ideaId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  // Show comments from other members as they are posted
+  useEffect(() => {
+    if (!ideaId) return;
+
+    const channel = supabase
+      .channel(`idea_comments:${ideaId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'idea_comments', filter: `idea_id=eq.${ideaId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const id = (payload.old as Partial<Tables<'idea_comments'>>).id;
+            setComments(prev => prev.filter(comment => comment.id !== id));
+          } else {
+            setComments(prev => upsertComment(prev, formatComment(payload.new as Tables<'idea_comments'>)));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [ideaId]);
+
+  const addComment = useCallback(async (body: string, parentId: string | null = null) => {
+    if (!user || !ideaId) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('idea_comments')
+        .insert({ idea_id: ideaId, parent_id: parentId, user_id: user.id, body: body.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding comment:', error);
+        return false;
+      }
+
+      setComments(prev => upsertComment(prev, formatComment(data)));
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      return false;
+    }
+  }, [user, ideaId]);
+
+  // The previous body is kept in the comment's history
+  const editComment = useCallback(async (id: string, body: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('idea_comments')
+        .update({ body: body.trim() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error editing comment:', error);
+        return false;
+      }
+
+      setComments(prev => upsertComment(prev, formatComment(data)));
+      return true;
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      return false;
+    }
+  }, []);
+
+  // Deleted comments keep their place in the thread; their text moves to the history
+  const deleteComment = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('idea_comments')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error deleting comment:', error);
+        return false;
+      }
+
+      setComments(prev => upsertComment(prev, formatComment(data)));
+      return true;
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      return false;
+    }
+  }, []);
+
+  // Earlier bodies of a comment, newest first
+  const fetchHistory = useCallback(async (commentId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('idea_comment_revisions')
+        .select('*')
+        .eq('comment_id', commentId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching comment history:', error);
+        return [];
+      }
+
+      return data.map(formatCommentRevision);
+    } catch (error) {
+      console.error('Error fetching comment history:', error);
+      return [];
+    }
+  }, []);
+
+  return {
+    comments,
+    loading,
+    addComment,
+    editComment,
+    deleteComment,
+    fetchHistory,
+    refresh: fetchComments
+  };
+};
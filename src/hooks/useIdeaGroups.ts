@@ -0,0 +1,155 @@
+import { useState, useCallback, useEffect } from 'react';
+import { IdeaGroup } from '@/types/idea';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
+
+export type IdeaGroupInput = Pick<IdeaGroup, 'name' | 'color'> & Partial<Pick<IdeaGroup, 'description' | 'icon'>>;
+
+const formatGroup = (group: Tables<'idea_groups'>): IdeaGroup => ({
+  id: group.id,
+  userId: group.user_id,
+  name: group.name,
+  description: group.description || undefined,
+  color: group.color,
+  icon: group.icon || undefined,
+  createdAt: new Date(group.created_at),
+  updatedAt: new Date(group.updated_at),
+});
+
+export const useIdeaGroups = () => {
+  const { user } = useAuth();
+  const { currentWorkspace, loading: workspacesLoading } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const [groups, setGroups] = useState<IdeaGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Fetch groups from Supabase
+  const fetchGroups = useCallback(async () => {
+    if (!user || !workspaceId) {
+      setGroups([]);
+      setLoading(workspacesLoading);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('idea_groups')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching idea groups:', error);
+        return;
+      }
+
+      setGroups(data.map(formatGroup));
+    } catch (error) {
+      console.error('Error fetching idea groups:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, workspaceId, workspacesLoading]);
+
+  useEffect(() => {
+    setLoading(true);
+    setGroups([]);
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const createGroup = useCallback(async (input: IdeaGroupInput) => {
+    if (!user || !workspaceId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('idea_groups')
+        .insert({
+          user_id: user.id,
+          workspace_id: workspaceId,
+          name: input.name,
+          description: input.description ?? null,
+          color: input.color,
+          icon: input.icon ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating idea group:', error);
+        return null;
+      }
+
+      const group = formatGroup(data);
+      setGroups(prev => [...prev, group].sort((a, b) => a.name.localeCompare(b.name)));
+      return group;
+    } catch (error) {
+      console.error('Error creating idea group:', error);
+      return null;
+    }
+  }, [user, workspaceId]);
+
+  const updateGroup = useCallback(async (id: string, updates: Partial<IdeaGroupInput>) => {
+    if (!user || !workspaceId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('idea_groups')
+        .update({
+          name: updates.name,
+          description: updates.description,
+          color: updates.color,
+          icon: updates.icon,
+        })
+        .eq('id', id)
+        .eq('workspace_id', workspaceId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating idea group:', error);
+        return;
+      }
+
+      const group = formatGroup(data);
+      setGroups(prev => prev
+        .map(existing => existing.id === id ? group : existing)
+        .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      console.error('Error updating idea group:', error);
+    }
+  }, [user, workspaceId]);
+
+  const deleteGroup = useCallback(async (id: string) => {
+    if (!user || !workspaceId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('idea_groups')
+        .delete()
+        .eq('id', id)
+        .eq('workspace_id', workspaceId);
+
+      if (error) {
+        console.error('Error deleting idea group:', error);
+        return false;
+      }
+
+      setGroups(prev => prev.filter(group => group.id !== id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting idea group:', error);
+      return false;
+    }
+  }, [user, workspaceId]);
+
+  return {
+    groups,
+    loading,
+    createGroup,
+    updateGroup,
+    deleteGroup
+  };
+};
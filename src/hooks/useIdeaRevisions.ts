@@ -0,0 +1,60 @@
+import { useState, useCallback, useEffect } from 'react';
+import { IdeaRevision } from '@/types/idea';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+const formatRevision = (revision: Tables<'idea_revisions'>): IdeaRevision => ({
+  id: revision.id,
+  ideaId: revision.idea_id,
+  version: revision.version,
+  title: revision.title,
+  description: revision.description || '',
+  status: revision.status as IdeaRevision['status'],
+  tags: revision.tags || [],
+  changedFields: revision.changed_fields,
+  source: revision.source,
+  createdAt: new Date(revision.created_at),
+});
+
+export const useIdeaRevisions = (ideaId: string | null, enabled = true) => {
+  const [revisions, setRevisions] = useState<IdeaRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Newest first
+  const fetchRevisions = useCallback(async () => {
+    if (!ideaId || !enabled) {
+      setRevisions([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('idea_revisions')
+        .select('*')
+        .eq('idea_id', ideaId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching idea revisions:', error);
+        return;
+      }
+
+      setRevisions(data.map(formatRevision));
+    } catch (error) {
+      console.error('Error fetching idea revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [ideaId, enabled]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  return {
+    revisions,
+    loading,
+    refresh: fetchRevisions
+  };
+};
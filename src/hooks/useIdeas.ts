@@ -1,29 +1,56 @@
-import { useState, useCallback, useEffect } from 'react';
-import { Idea, IdeaStatus, IdeaColor } from '@/types/idea';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Idea, IdeaStatus, IdeaColor, IdeaSearchHit, GroupFilter, IdeaUpdateResult } from '@/types/idea';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { HIGHLIGHT_START, HIGHLIGHT_END } from '@/lib/search';
+import { scheduleWebhookDispatch } from '@/lib/webhooks';
+import { applyIdeaChange, formatIdea, mergeIdeas } from '@/lib/ideas';
+
+// Rows per insert when importing
+const IMPORT_CHUNK_SIZE = 200;
 
 export const useIdeas = () => {
   const { user } = useAuth();
-  const [allIdeas, setAllIdeas] = useState<Idea[]>([]);
+  const { currentWorkspace, loading: workspacesLoading } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  // Every idea in the current workspace, including the trash
+  const [savedIdeas, setSavedIdeas] = useState<Idea[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<IdeaStatus | 'all'>('all');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [groupFilter, setGroupFilter] = useState<GroupFilter>('all');
+  const [searchResults, setSearchResults] = useState<{ query: string; hits: Map<string, IdeaSearchHit> } | null>(null);
+  // Days the workspace keeps its trash, set by whoever created it
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
 
-  // Fetch ideas from Supabase
+  // Fetch ideas from Supabase, purging trashed ideas past the retention period first
   const fetchIdeas = async () => {
-    if (!user) {
-      setAllIdeas([]);
-      setLoading(false);
+    if (!user || !workspaceId) {
+      setSavedIdeas([]);
+      setLoading(workspacesLoading);
       return;
     }
 
     try {
+      const { error: purgeError } = await supabase.rpc('purge_trashed_ideas', { p_workspace_id: workspaceId });
+      if (purgeError) {
+        console.error('Error purging trash:', purgeError);
+      }
+
+      const { data: retentionDays, error: retentionError } = await supabase.rpc('trash_retention_days', { p_workspace_id: workspaceId });
+      if (retentionError) {
+        console.error('Error fetching trash retention:', retentionError);
+      } else if (retentionDays) {
+        setTrashRetentionDays(retentionDays);
+      }
+
       const { data, error } = await supabase
         .from('ideas')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('workspace_id', workspaceId)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -31,21 +58,7 @@ export const useIdeas = () => {
         return;
       }
 
-      const formattedIdeas: Idea[] = data.map(idea => ({
-        id: idea.id,
-        userId: idea.user_id,
-        title: idea.title,
-        description: idea.description || '',
-        status: idea.status as Idea['status'],
-        tags: idea.tags || [],
-        color: idea.color as Idea['color'],
-        image_url: idea.image_url,
-        original_description: idea.original_description,
-        createdAt: new Date(idea.created_at),
-        updatedAt: new Date(idea.updated_at),
-      }));
-
-      setAllIdeas(formattedIdeas);
+      setSavedIdeas(data.map(formatIdea));
     } catch (error) {
       console.error('Error fetching ideas:', error);
     } finally {
@@ -53,34 +66,120 @@ export const useIdeas = () => {
     }
   };
 
+  // Groups belong to a workspace, so a group filter does not carry over a switch
   useEffect(() => {
+    setLoading(true);
+    setSavedIdeas([]);
+    setGroupFilter('all');
     fetchIdeas();
-  }, [user]);
+  }, [user, workspaceId, workspacesLoading]);
+
+  // Pick up changes made in other tabs, on other devices and through the API
+  useEffect(() => {
+    if (!user || !workspaceId) return;
+
+    const channel = supabase
+      .channel(`ideas:${workspaceId}`)
+      .on<Tables<'ideas'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ideas', filter: `workspace_id=eq.${workspaceId}` },
+        (payload) => {
+          setSavedIdeas(prev => applyIdeaChange(prev, payload));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, workspaceId]);
+
+  const allIdeas = useMemo(() => savedIdeas
+    .filter(idea => !idea.deletedAt)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()), [savedIdeas]);
+
+  const trashedIdeas = useMemo(() => savedIdeas
+    .filter(idea => idea.deletedAt)
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime()), [savedIdeas]);
+
+  // Ranked full-text search runs on the server; re-run it when ideas change
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!user || !workspaceId || !query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_ideas', {
+        p_workspace_id: workspaceId,
+        p_query: query,
+        p_start_sel: HIGHLIGHT_START,
+        p_stop_sel: HIGHLIGHT_END,
+      });
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error searching ideas:', error);
+        setSearchResults(null);
+        return;
+      }
 
-  // Filter ideas based on search and filters
+      setSearchResults({
+        query,
+        hits: new Map(data.map(hit => [hit.id, {
+          rank: hit.rank,
+          titleHighlight: hit.title_highlight,
+          descriptionHighlight: hit.description_highlight,
+        }])),
+      });
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, user, workspaceId, allIdeas]);
+
+  // Filter ideas based on search and filters. Until server results arrive
+  // (or if the search call fails) fall back to a simple substring match.
+  const normalizedQuery = searchQuery.trim().toLowerCase();
+  const searchHits = searchResults && searchResults.query === searchQuery.trim() ? searchResults.hits : null;
   const filteredIdeas = allIdeas.filter(idea => {
-    const matchesSearch = idea.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         idea.description.toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesSearch = !normalizedQuery || (searchHits
+      ? searchHits.has(idea.id)
+      : idea.title.toLowerCase().includes(normalizedQuery) ||
+        idea.description.toLowerCase().includes(normalizedQuery));
     const matchesStatus = statusFilter === 'all' || idea.status === statusFilter;
     const matchesTags = selectedTags.length === 0 || 
                        selectedTags.some(tag => idea.tags.includes(tag));
+    const matchesGroup = groupFilter === 'all' ||
+                        (groupFilter === 'ungrouped' ? !idea.groupId : idea.groupId === groupFilter);
     
-    return matchesSearch && matchesStatus && matchesTags;
+    return matchesSearch && matchesStatus && matchesTags && matchesGroup;
   });
 
+  if (normalizedQuery && searchHits) {
+    filteredIdeas.sort((a, b) => searchHits.get(b.id)!.rank - searchHits.get(a.id)!.rank);
+  }
+
   const addIdea = useCallback(async (newIdea: Omit<Idea, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'image_url' | 'original_description'>) => {
-    if (!user) return;
+    if (!user || !workspaceId) return;
 
     try {
       const { data, error } = await supabase
         .from('ideas')
         .insert({
           user_id: user.id,
+          workspace_id: workspaceId,
           title: newIdea.title,
           description: newIdea.description,
           status: newIdea.status,
           tags: newIdea.tags,
           color: newIdea.color,
+          group_id: newIdea.groupId ?? null,
         })
         .select()
         .single();
@@ -90,31 +189,69 @@ export const useIdeas = () => {
         return;
       }
 
-      const formattedIdea: Idea = {
-        id: data.id,
-        userId: data.user_id,
-        title: data.title,
-        description: data.description || '',
-        status: data.status as Idea['status'],
-        tags: data.tags || [],
-        color: data.color as Idea['color'],
-        image_url: data.image_url,
-        original_description: data.original_description,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at),
-      };
-
-      setAllIdeas(prev => [formattedIdea, ...prev]);
+      const formattedIdea = formatIdea(data);
+
+      setSavedIdeas(prev => mergeIdeas(prev, [formattedIdea]));
+      scheduleWebhookDispatch();
     } catch (error) {
       console.error('Error adding idea:', error);
     }
-  }, [user]);
+  }, [user, workspaceId]);
+
+  // Insert many ideas at once, keeping their original creation dates. Returns how many were saved.
+  const importIdeas = useCallback(async (newIdeas: (Omit<Idea, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'image_url' | 'original_description'> & { createdAt?: Date | null })[]) => {
+    if (!user || !workspaceId) return 0;
 
-  const updateIdea = useCallback(async (id: string, updates: Partial<Idea>) => {
-    if (!user) return;
+    const imported: Idea[] = [];
 
     try {
-      const { data, error } = await supabase
+      for (let i = 0; i < newIdeas.length; i += IMPORT_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('ideas')
+          .insert(newIdeas.slice(i, i + IMPORT_CHUNK_SIZE).map(idea => ({
+            user_id: user.id,
+            workspace_id: workspaceId,
+            title: idea.title,
+            description: idea.description,
+            status: idea.status,
+            tags: idea.tags,
+            color: idea.color,
+            group_id: idea.groupId ?? null,
+            ...(idea.createdAt ? { created_at: idea.createdAt.toISOString() } : {}),
+          })))
+          .select();
+
+        if (error) {
+          console.error('Error importing ideas:', error);
+          break;
+        }
+
+        imported.push(...data.map(formatIdea));
+      }
+    } catch (error) {
+      console.error('Error importing ideas:', error);
+    }
+
+    if (imported.length > 0) {
+      setSavedIdeas(prev => mergeIdeas(prev, imported));
+      scheduleWebhookDispatch();
+    }
+
+    return imported.length;
+  }, [user, workspaceId]);
+
+  // With expectedVersion the update only applies if nobody saved the idea since that
+  // version was read; otherwise the current version is returned for merging. Ideas the
+  // user may read but not change come back as forbidden.
+  const updateIdea = useCallback(async (
+    id: string,
+    updates: Partial<Idea>,
+    options: { expectedVersion?: string } = {}
+  ): Promise<IdeaUpdateResult> => {
+    if (!user || !workspaceId) return { status: 'failed' };
+
+    try {
+      let query = supabase
         .from('ideas')
         .update({
           title: updates.title,
@@ -122,75 +259,169 @@ export const useIdeas = () => {
           status: updates.status,
           tags: updates.tags,
           color: updates.color,
+          group_id: updates.groupId,
+          board_position: updates.boardPosition,
+          original_description: updates.original_description,
+          enhancement_template_id: updates.enhancementTemplateId,
+          enhancement_template_name: updates.enhancementTemplateName,
         })
         .eq('id', id)
-        .eq('user_id', user.id)
-        .select()
-        .single();
+        .eq('workspace_id', workspaceId);
+
+      if (options.expectedVersion) {
+        query = query.eq('updated_at', options.expectedVersion);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
 
       if (error) {
         console.error('Error updating idea:', error);
-        return;
+        return { status: 'failed' };
       }
 
-      const formattedIdea: Idea = {
-        id: data.id,
-        userId: data.user_id,
-        title: data.title,
-        description: data.description || '',
-        status: data.status as Idea['status'],
-        tags: data.tags || [],
-        color: data.color as Idea['color'],
-        image_url: data.image_url,
-        original_description: data.original_description,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at),
-      };
-
-      setAllIdeas(prev => prev.map(idea => 
-        idea.id === id ? formattedIdea : idea
-      ));
+      if (!data) {
+        const { data: current, error: currentError } = await supabase
+          .from('ideas')
+          .select('*')
+          .eq('id', id)
+          .eq('workspace_id', workspaceId)
+          .maybeSingle();
+
+        if (currentError || !current) {
+          console.error('Error updating idea:', currentError || 'Idea not found');
+          return { status: 'failed' };
+        }
+
+        // Unchanged since the expected version, so RLS refused the write rather than a newer save
+        if (!options.expectedVersion || current.updated_at === options.expectedVersion) {
+          return { status: 'forbidden' };
+        }
+
+        const currentIdea = formatIdea(current);
+        setSavedIdeas(prev => mergeIdeas(prev, [currentIdea]));
+        return { status: 'conflict', current: currentIdea };
+      }
+
+      const formattedIdea = formatIdea(data);
+
+      setSavedIdeas(prev => mergeIdeas(prev, [formattedIdea]));
+      scheduleWebhookDispatch();
+      return { status: 'updated', idea: formattedIdea };
     } catch (error) {
       console.error('Error updating idea:', error);
+      return { status: 'failed' };
     }
-  }, [user]);
+  }, [user, workspaceId]);
 
+  // Move an idea to the trash; it can be restored until the trash is purged
   const deleteIdea = useCallback(async (id: string) => {
-    if (!user) return;
+    if (!user || !workspaceId) return;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('ideas')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', id)
-        .eq('user_id', user.id);
+        .eq('workspace_id', workspaceId)
+        .select()
+        .single();
 
       if (error) {
         console.error('Error deleting idea:', error);
         return;
       }
 
-      setAllIdeas(prev => prev.filter(idea => idea.id !== id));
+      setSavedIdeas(prev => mergeIdeas(prev, [formatIdea(data)]));
+      scheduleWebhookDispatch();
     } catch (error) {
       console.error('Error deleting idea:', error);
     }
-  }, [user]);
+  }, [user, workspaceId]);
+
+  const restoreIdea = useCallback(async (id: string) => {
+    if (!user || !workspaceId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('ideas')
+        .update({ deleted_at: null })
+        .eq('id', id)
+        .eq('workspace_id', workspaceId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error restoring idea:', error);
+        return;
+      }
+
+      setSavedIdeas(prev => mergeIdeas(prev, [formatIdea(data)]));
+      scheduleWebhookDispatch();
+    } catch (error) {
+      console.error('Error restoring idea:', error);
+    }
+  }, [user, workspaceId]);
+
+  // Permanently delete trashed ideas: the given ones, or the whole trash
+  const purgeIdeas = useCallback(async (ids?: string[]) => {
+    if (!user || !workspaceId) return;
+
+    try {
+      let query = supabase
+        .from('ideas')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .not('deleted_at', 'is', null);
+
+      if (ids) {
+        query = query.in('id', ids);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        console.error('Error deleting ideas permanently:', error);
+        return;
+      }
+
+      setSavedIdeas(prev => prev.filter(idea => !idea.deletedAt || (ids && !ids.includes(idea.id))));
+    } catch (error) {
+      console.error('Error deleting ideas permanently:', error);
+    }
+  }, [user, workspaceId]);
+
+  // Drop a deleted group from local state; the database sets group_id to null
+  const unassignGroup = useCallback((groupId: string) => {
+    setSavedIdeas(prev => prev.map(idea =>
+      idea.groupId === groupId ? { ...idea, groupId: null } : idea
+    ));
+    setGroupFilter(prev => prev === groupId ? 'all' : prev);
+  }, []);
 
   const allTags = Array.from(new Set(allIdeas.flatMap(idea => idea.tags))).sort();
 
   return {
     ideas: filteredIdeas,
     allIdeas,
+    trashedIdeas,
     loading,
+    trashRetentionDays,
     searchQuery,
     setSearchQuery,
+    searchHits,
     statusFilter,
     setStatusFilter,
     selectedTags,
     setSelectedTags,
+    groupFilter,
+    setGroupFilter,
     allTags,
     addIdea,
+    importIdeas,
     updateIdea,
-    deleteIdea
+    deleteIdea,
+    restoreIdea,
+    purgeIdeas,
+    unassignGroup
   };
 };
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { useState, useCallback, useEffect } from 'react';
+import { PromptTemplate } from '@/types/ai';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'name' | 'systemPrompt' | 'userPrompt'> & Partial<Pick<PromptTemplate, 'description'>>;
+
+const formatPromptTemplate = (template: Tables<'prompt_templates'>): PromptTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || undefined,
+  systemPrompt: template.system_prompt,
+  userPrompt: template.user_prompt,
+  builtIn: template.user_id === null,
+  createdAt: new Date(template.created_at),
+  updatedAt: new Date(template.updated_at),
+});
+
+// Built-in presets first, then the user's own templates by name
+const sortTemplates = (templates: PromptTemplate[]) =>
+  [...templates].sort((a, b) => Number(b.builtIn) - Number(a.builtIn) || a.name.localeCompare(b.name));
+
+export const usePromptTemplates = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // RLS returns the built-in presets and the user's own templates
+  const fetchTemplates = useCallback(async () => {
+    if (!user) {
+      setTemplates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*');
+
+      if (error) {
+        console.error('Error fetching prompt templates:', error);
+        return;
+      }
+
+      setTemplates(sortTemplates(data.map(formatPromptTemplate)));
+    } catch (error) {
+      console.error('Error fetching prompt templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const createTemplate = useCallback(async (input: PromptTemplateInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({
+          user_id: user.id,
+          name: input.name,
+          description: input.description || null,
+          system_prompt: input.systemPrompt,
+          user_prompt: input.userPrompt,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating prompt template:', error);
+        return null;
+      }
+
+      const template = formatPromptTemplate(data);
+      setTemplates(prev => sortTemplates([...prev, template]));
+      return template;
+    } catch (error) {
+      console.error('Error creating prompt template:', error);
+      return null;
+    }
+  }, [user]);
+
+  const updateTemplate = useCallback(async (id: string, updates: Partial<PromptTemplateInput>) => {
+    if (!user) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .update({
+          name: updates.name,
+          description: updates.description === undefined ? undefined : updates.description || null,
+          system_prompt: updates.systemPrompt,
+          user_prompt: updates.userPrompt,
+        })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating prompt template:', error);
+        return false;
+      }
+
+      const template = formatPromptTemplate(data);
+      setTemplates(prev => sortTemplates(prev.map(existing => existing.id === id ? template : existing)));
+      return true;
+    } catch (error) {
+      console.error('Error updating prompt template:', error);
+      return false;
+    }
+  }, [user]);
+
+  // Ideas enhanced with the template keep its name; only the link to it is cleared
+  const deleteTemplate = useCallback(async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('prompt_templates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting prompt template:', error);
+        return false;
+      }
+
+      setTemplates(prev => prev.filter(template => template.id !== id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting prompt template:', error);
+      return false;
+    }
+  }, [user]);
+
+  return {
+    templates,
+    loading,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate
+  };
+};
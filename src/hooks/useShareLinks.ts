@@ -0,0 +1,112 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { ShareLink, ShareTarget } from '@/types/share';
+
+type ShareLinkRow = Omit<
+  Tables<'share_links'>,
+  'password_hash' | 'failed_password_attempts' | 'password_locked_until' | 'workspace_id' | 'created_by'
+>;
+
+// The password hash never leaves the database
+const SHARE_LINK_COLUMNS = 'id, token, idea_id, group_id, has_password, expires_at, revoked_at, view_count, last_viewed_at, created_at';
+
+const formatShareLink = (link: ShareLinkRow): ShareLink => ({
+  id: link.id,
+  token: link.token,
+  ideaId: link.idea_id,
+  groupId: link.group_id,
+  hasPassword: link.has_password,
+  expiresAt: link.expires_at ? new Date(link.expires_at) : null,
+  revokedAt: link.revoked_at ? new Date(link.revoked_at) : null,
+  viewCount: link.view_count,
+  lastViewedAt: link.last_viewed_at ? new Date(link.last_viewed_at) : null,
+  createdAt: new Date(link.created_at),
+});
+
+// Share links of one idea or group, newest first. Only workspace owners see and create them.
+export const useShareLinks = (target: ShareTarget | null) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchLinks = useCallback(async () => {
+    if (!target) {
+      setLinks([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('share_links')
+        .select(SHARE_LINK_COLUMNS)
+        .eq(target.type === 'idea' ? 'idea_id' : 'group_id', target.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching share links:', error);
+        return;
+      }
+
+      setLinks(data.map(formatShareLink));
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [target]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const createLink = useCallback(async (options: { password?: string; expiresAt?: Date | null }) => {
+    if (!target) return null;
+
+    try {
+      const { data, error } = await supabase.rpc('create_share_link', {
+        ...(target.type === 'idea' ? { p_idea_id: target.id } : { p_group_id: target.id }),
+        p_password: options.password || undefined,
+        p_expires_at: options.expiresAt?.toISOString(),
+      });
+
+      if (error) {
+        console.error('Error creating share link:', error);
+        return null;
+      }
+
+      const link = formatShareLink(data);
+      setLinks(prev => [link, ...prev]);
+      return link;
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      return null;
+    }
+  }, [target]);
+
+  // Revoked links stay listed with their view counts but no longer open
+  const revokeLink = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase.rpc('revoke_share_link', { p_id: id });
+
+      if (error) {
+        console.error('Error revoking share link:', error);
+        return false;
+      }
+
+      setLinks(prev => prev.map(link => link.id === id ? formatShareLink(data) : link));
+      return true;
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      return false;
+    }
+  }, []);
+
+  return {
+    links,
+    loading,
+    createLink,
+    revokeLink,
+    refresh: fetchLinks
+  };
+};
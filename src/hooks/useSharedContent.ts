@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SharedContent } from '@/types/share';
+
+// The idea or group behind a share link, for visitors without an account. Each successful
+// load counts as a view, so the password form only loads again when it is submitted.
+export const useSharedContent = (token: string | undefined) => {
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchContent = useCallback(async (password?: string) => {
+    if (!token) {
+      setContent(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_shared_content', {
+        p_token: token,
+        p_password: password,
+        p_referrer: document.referrer || undefined,
+      });
+
+      if (error) {
+        console.error('Error fetching shared content:', error);
+        setContent(null);
+        return;
+      }
+
+      setContent(data as unknown as SharedContent | null);
+    } catch (error) {
+      console.error('Error fetching shared content:', error);
+      setContent(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchContent();
+  }, [fetchContent]);
+
+  return {
+    content,
+    loading,
+    unlock: fetchContent
+  };
+};
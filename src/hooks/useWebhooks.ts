@@ -0,0 +1,208 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Webhook, WebhookDelivery, WebhookEvent, WebhookDeliveryStatus } from '@/types/webhook';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type WebhookInput = Pick<Webhook, 'url' | 'events'> & Partial<Pick<Webhook, 'description' | 'isActive'>>;
+
+const formatWebhook = (webhook: Tables<'webhooks'>): Webhook => ({
+  id: webhook.id,
+  url: webhook.url,
+  description: webhook.description || undefined,
+  events: webhook.events as WebhookEvent[],
+  secret: webhook.secret,
+  isActive: webhook.is_active,
+  createdAt: new Date(webhook.created_at),
+  updatedAt: new Date(webhook.updated_at),
+});
+
+const formatDelivery = (delivery: Tables<'webhook_deliveries'>): WebhookDelivery => ({
+  id: delivery.id,
+  webhookId: delivery.webhook_id,
+  event: delivery.event as WebhookEvent,
+  payload: delivery.payload,
+  status: delivery.status as WebhookDeliveryStatus,
+  attempts: delivery.attempts,
+  nextAttemptAt: delivery.next_attempt_at ? new Date(delivery.next_attempt_at) : undefined,
+  responseStatus: delivery.response_status ?? undefined,
+  responseBody: delivery.response_body || undefined,
+  error: delivery.error || undefined,
+  createdAt: new Date(delivery.created_at),
+  deliveredAt: delivery.delivered_at ? new Date(delivery.delivered_at) : undefined,
+});
+
+export const useWebhooks = () => {
+  const { user } = useAuth();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Fetch webhooks from Supabase
+  const fetchWebhooks = useCallback(async () => {
+    if (!user) {
+      setWebhooks([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching webhooks:', error);
+        return;
+      }
+
+      setWebhooks(data.map(formatWebhook));
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const createWebhook = useCallback(async (input: WebhookInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .insert({
+          user_id: user.id,
+          url: input.url,
+          description: input.description ?? null,
+          events: input.events,
+          is_active: input.isActive ?? true,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating webhook:', error);
+        return null;
+      }
+
+      const webhook = formatWebhook(data);
+      setWebhooks(prev => [webhook, ...prev]);
+      return webhook;
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      return null;
+    }
+  }, [user]);
+
+  const updateWebhook = useCallback(async (id: string, updates: Partial<WebhookInput>) => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .update({
+          url: updates.url,
+          description: updates.description,
+          events: updates.events,
+          is_active: updates.isActive,
+        })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating webhook:', error);
+        return;
+      }
+
+      const webhook = formatWebhook(data);
+      setWebhooks(prev => prev.map(existing => existing.id === id ? webhook : existing));
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+    }
+  }, [user]);
+
+  const deleteWebhook = useCallback(async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('webhooks')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting webhook:', error);
+        return false;
+      }
+
+      setWebhooks(prev => prev.filter(webhook => webhook.id !== id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      return false;
+    }
+  }, [user]);
+
+  // Newest first; the log is capped so busy endpoints stay quick to browse
+  const fetchDeliveries = useCallback(async (webhookId: string, limit = 50) => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('webhook_id', webhookId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        return [];
+      }
+
+      return data.map(formatDelivery);
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return [];
+    }
+  }, [user]);
+
+  // Send a past delivery again; the result is logged as a new delivery
+  const redeliver = useCallback(async (deliveryId: string) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase.functions.invoke('webhook-dispatch', {
+        body: { delivery_id: deliveryId }
+      });
+
+      if (error) {
+        console.error('Error redelivering webhook:', error);
+        return null;
+      }
+
+      return formatDelivery(data.data);
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      return null;
+    }
+  }, [user]);
+
+  return {
+    webhooks,
+    loading,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    fetchDeliveries,
+    redeliver
+  };
+};
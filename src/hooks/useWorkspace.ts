@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import { Workspace, WorkspaceInvitation } from '@/types/workspace';
+
+// Kept apart from WorkspaceProvider so that module only exports a component
+export interface WorkspaceContextType {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  // Pending invitations sent to the signed-in user's email
+  invitations: WorkspaceInvitation[];
+  loading: boolean;
+  switchWorkspace: (id: string) => void;
+  createWorkspace: (name: string) => Promise<Workspace | null>;
+  renameWorkspace: (id: string, name: string) => Promise<boolean>;
+  deleteWorkspace: (id: string) => Promise<boolean>;
+  leaveWorkspace: (id: string) => Promise<boolean>;
+  acceptInvitation: (id: string) => Promise<boolean>;
+  declineInvitation: (id: string) => Promise<boolean>;
+}
+
+export const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
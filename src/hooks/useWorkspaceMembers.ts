@@ -0,0 +1,181 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/types/workspace';
+
+// Members of a workspace and, for owners, the invitations that are still open
+export const useWorkspaceMembers = (workspaceId: string | null, isOwner: boolean) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMembers = useCallback(async () => {
+    if (!user || !workspaceId) {
+      setMembers([]);
+      setInvitations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [memberResult, invitationResult] = await Promise.all([
+        supabase.rpc('get_workspace_members', { p_workspace_id: workspaceId }),
+        isOwner
+          ? supabase
+            .from('workspace_invitations')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .order('created_at', { ascending: true })
+          : null
+      ]);
+
+      if (memberResult.error) {
+        console.error('Error fetching workspace members:', memberResult.error);
+        return;
+      }
+      if (invitationResult?.error) {
+        console.error('Error fetching workspace invitations:', invitationResult.error);
+      }
+
+      setMembers(memberResult.data.map(member => ({
+        userId: member.user_id,
+        role: member.role as WorkspaceRole,
+        displayName: member.display_name,
+        email: member.email,
+        avatarColor: member.avatar_color,
+        joinedAt: new Date(member.joined_at),
+      })));
+      setInvitations((invitationResult?.data || []).map(invitation => ({
+        id: invitation.id,
+        workspaceId: invitation.workspace_id,
+        email: invitation.email,
+        role: invitation.role as WorkspaceRole,
+        expiresAt: new Date(invitation.expires_at),
+      })));
+    } catch (error) {
+      console.error('Error fetching workspace members:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, workspaceId, isOwner]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  // Re-inviting an email replaces its open invitation, so the role and expiry are fresh
+  const invite = useCallback(async (email: string, role: WorkspaceRole) => {
+    if (!user || !workspaceId) return false;
+
+    try {
+      const normalizedEmail = email.trim().toLowerCase();
+      await supabase
+        .from('workspace_invitations')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('email', normalizedEmail);
+
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .insert({ workspace_id: workspaceId, email: normalizedEmail, role, invited_by: user.id })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error inviting to workspace:', error);
+        return false;
+      }
+
+      setInvitations(prev => [
+        ...prev.filter(invitation => invitation.email !== normalizedEmail),
+        {
+          id: data.id,
+          workspaceId: data.workspace_id,
+          email: data.email,
+          role: data.role as WorkspaceRole,
+          expiresAt: new Date(data.expires_at),
+        },
+      ]);
+      return true;
+    } catch (error) {
+      console.error('Error inviting to workspace:', error);
+      return false;
+    }
+  }, [user, workspaceId]);
+
+  const revokeInvitation = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_invitations')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error revoking invitation:', error);
+        return;
+      }
+
+      setInvitations(prev => prev.filter(invitation => invitation.id !== id));
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+    }
+  }, []);
+
+  // Fails when it would leave the workspace without an owner
+  const updateRole = useCallback(async (userId: string, role: WorkspaceRole) => {
+    if (!workspaceId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error changing member role:', error);
+        return false;
+      }
+
+      setMembers(prev => prev.map(member => member.userId === userId ? { ...member, role } : member));
+      return true;
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      return false;
+    }
+  }, [workspaceId]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    if (!workspaceId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error removing member:', error);
+        return false;
+      }
+
+      setMembers(prev => prev.filter(member => member.userId !== userId));
+      return true;
+    } catch (error) {
+      console.error('Error removing member:', error);
+      return false;
+    }
+  }, [workspaceId]);
+
+  return {
+    members,
+    invitations,
+    loading,
+    invite,
+    revokeInvitation,
+    updateRole,
+    removeMember,
+  };
+};
@@ -14,8 +14,46 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_idempotency_keys: {
+        Row: {
+          created_at: string
+          endpoint: string
+          expires_at: string
+          idempotency_key: string
+          request_hash: string
+          response_body: string | null
+          response_headers: Json | null
+          response_status: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          endpoint: string
+          expires_at?: string
+          idempotency_key: string
+          request_hash: string
+          response_body?: string | null
+          response_headers?: Json | null
+          response_status?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          endpoint?: string
+          expires_at?: string
+          idempotency_key?: string
+          request_hash?: string
+          response_body?: string | null
+          response_headers?: Json | null
+          response_status?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       api_keys: {
         Row: {
+          allowed_group_ids: string[] | null
+          allowed_tags: string[] | null
           created_at: string
           expires_at: string | null
           id: string
@@ -24,12 +62,19 @@ export type Database = {
           last_used_at: string | null
           name: string
           permissions: string[]
+          previous_key_expires_at: string | null
+          previous_key_hash: string | null
           rate_limit_per_hour: number
+          rotated_at: string | null
+          scopes: string[]
           updated_at: string
           usage_count: number
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          allowed_group_ids?: string[] | null
+          allowed_tags?: string[] | null
           created_at?: string
           expires_at?: string | null
           id?: string
@@ -38,12 +83,19 @@ export type Database = {
           last_used_at?: string | null
           name: string
           permissions?: string[]
+          previous_key_expires_at?: string | null
+          previous_key_hash?: string | null
           rate_limit_per_hour?: number
+          rotated_at?: string | null
+          scopes?: string[]
           updated_at?: string
           usage_count?: number
           user_id: string
+          workspace_id?: string
         }
         Update: {
+          allowed_group_ids?: string[] | null
+          allowed_tags?: string[] | null
           created_at?: string
           expires_at?: string | null
           id?: string
@@ -52,12 +104,25 @@ export type Database = {
           last_used_at?: string | null
           name?: string
           permissions?: string[]
+          previous_key_expires_at?: string | null
+          previous_key_hash?: string | null
           rate_limit_per_hour?: number
+          rotated_at?: string | null
+          scopes?: string[]
           updated_at?: string
           usage_count?: number
           user_id?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       api_rate_limits: {
         Row: {
@@ -94,6 +159,124 @@ export type Database = {
           },
         ]
       }
+      api_usage_stats: {
+        Row: {
+          api_key_id: string
+          endpoint: string
+          requests_count: number
+          status_code: number
+          window_start: string
+        }
+        Insert: {
+          api_key_id: string
+          endpoint: string
+          requests_count?: number
+          status_code: number
+          window_start: string
+        }
+        Update: {
+          api_key_id?: string
+          endpoint?: string
+          requests_count?: number
+          status_code?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_usage_stats_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_comment_revisions: {
+        Row: {
+          action: string
+          body: string
+          comment_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          action: string
+          body: string
+          comment_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          action?: string
+          body?: string
+          comment_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_comment_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "idea_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_comments: {
+        Row: {
+          body: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          idea_id: string
+          mentioned_user_ids: string[]
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          idea_id: string
+          mentioned_user_ids?: string[]
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          idea_id?: string
+          mentioned_user_ids?: string[]
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_comments_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "idea_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       idea_groups: {
         Row: {
           color: string
@@ -104,6 +287,7 @@ export type Database = {
           name: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           color?: string
@@ -114,6 +298,7 @@ export type Database = {
           name: string
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
           color?: string
@@ -124,53 +309,137 @@ export type Database = {
           name?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "idea_groups_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_revisions: {
+        Row: {
+          changed_fields: string[]
+          created_at: string
+          description: string | null
+          id: string
+          idea_id: string
+          source: string
+          status: string
+          tags: string[] | null
+          title: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          changed_fields?: string[]
+          created_at?: string
+          description?: string | null
+          id?: string
+          idea_id: string
+          source?: string
+          status: string
+          tags?: string[] | null
+          title: string
+          user_id: string
+          version: number
+        }
+        Update: {
+          changed_fields?: string[]
+          created_at?: string
+          description?: string | null
+          id?: string
+          idea_id?: string
+          source?: string
+          status?: string
+          tags?: string[] | null
+          title?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_revisions_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ideas: {
         Row: {
+          board_position: number | null
           color: string
           created_at: string
+          deleted_at: string | null
           description: string | null
+          enhancement_template_id: string | null
+          enhancement_template_name: string | null
           group_id: string | null
           id: string
           image_url: string | null
           original_description: string | null
+          search_vector: unknown | null
           status: string
           tags: string[] | null
           title: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          board_position?: number | null
           color?: string
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          enhancement_template_id?: string | null
+          enhancement_template_name?: string | null
           group_id?: string | null
           id?: string
           image_url?: string | null
           original_description?: string | null
+          search_vector?: never
           status?: string
           tags?: string[] | null
           title: string
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
+          board_position?: number | null
           color?: string
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          enhancement_template_id?: string | null
+          enhancement_template_name?: string | null
           group_id?: string | null
           id?: string
           image_url?: string | null
           original_description?: string | null
+          search_vector?: never
           status?: string
           tags?: string[] | null
           title?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "ideas_enhancement_template_id_fkey"
+            columns: ["enhancement_template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ideas_group_id_fkey"
             columns: ["group_id"]
@@ -178,6 +447,13 @@ export type Database = {
             referencedRelation: "idea_groups"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ideas_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -207,39 +483,376 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          system_prompt: string
+          updated_at: string
+          user_id: string | null
+          user_prompt: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          system_prompt: string
+          updated_at?: string
+          user_id?: string | null
+          user_prompt: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          system_prompt?: string
+          updated_at?: string
+          user_id?: string | null
+          user_prompt?: string
+        }
+        Relationships: []
+      }
+      share_link_views: {
+        Row: {
+          id: string
+          referrer: string | null
+          share_link_id: string
+          viewed_at: string
+        }
+        Insert: {
+          id?: string
+          referrer?: string | null
+          share_link_id: string
+          viewed_at?: string
+        }
+        Update: {
+          id?: string
+          referrer?: string | null
+          share_link_id?: string
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_link_views_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          failed_password_attempts: number
+          group_id: string | null
+          has_password: boolean
+          id: string
+          idea_id: string | null
+          last_viewed_at: string | null
+          password_hash: string | null
+          password_locked_until: string | null
+          revoked_at: string | null
+          token: string
+          view_count: number
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          failed_password_attempts?: number
+          group_id?: string | null
+          id?: string
+          idea_id?: string | null
+          last_viewed_at?: string | null
+          password_hash?: string | null
+          password_locked_until?: string | null
+          revoked_at?: string | null
+          token?: string
+          view_count?: number
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          failed_password_attempts?: number
+          group_id?: string | null
+          id?: string
+          idea_id?: string | null
+          last_viewed_at?: string | null
+          password_hash?: string | null
+          password_locked_until?: string | null
+          revoked_at?: string | null
+          token?: string
+          view_count?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "idea_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "share_links_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "share_links_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_settings: {
         Row: {
+          ai_base_url: string | null
           ai_description_enhancement: boolean | null
+          ai_model: string | null
+          ai_provider: string
           auto_image_generation: boolean | null
           created_at: string
           developer_mode: boolean | null
           id: string
           markdown_preview: boolean | null
           theme: string | null
+          trash_retention_days: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          ai_base_url?: string | null
           ai_description_enhancement?: boolean | null
+          ai_model?: string | null
+          ai_provider?: string
           auto_image_generation?: boolean | null
           created_at?: string
           developer_mode?: boolean | null
           id?: string
           markdown_preview?: boolean | null
           theme?: string | null
+          trash_retention_days?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          ai_base_url?: string | null
           ai_description_enhancement?: boolean | null
+          ai_model?: string | null
+          ai_provider?: string
           auto_image_generation?: boolean | null
           created_at?: string
           developer_mode?: boolean | null
           id?: string
           markdown_preview?: boolean | null
           theme?: string | null
+          trash_retention_days?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          event: string
+          id: string
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          user_id: string
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event: string
+          id?: string
+          next_attempt_at?: string | null
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          user_id: string
+          webhook_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event?: string
+          id?: string
+          next_attempt_at?: string | null
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          user_id?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          created_at: string
+          description: string | null
+          events: string[]
+          id: string
+          is_active: boolean
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          secret?: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workspace_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          updated_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_personal: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_personal?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_personal?: boolean
+          name?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -248,18 +861,199 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_workspace_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      apply_idea_batch: {
+        Args: {
+          p_atomic?: boolean
+          p_operations: Json
+          p_user_id: string
+          p_workspace_id: string
+        }
+        Returns: Json
+      }
       check_rate_limit: {
         Args: { p_api_key_id: string; p_endpoint: string; p_rate_limit: number }
         Returns: boolean
       }
+      claim_idempotency_key: {
+        Args: {
+          p_endpoint: string
+          p_key: string
+          p_request_hash: string
+          p_user_id: string
+        }
+        Returns: {
+          outcome: string
+          response_body: string
+          response_headers: Json
+          response_status: number
+        }[]
+      }
+      claim_webhook_deliveries: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          event: string
+          id: string
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          user_id: string
+          webhook_id: string
+        }[]
+      }
+      confirmed_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      consume_rate_limit: {
+        Args: {
+          p_api_key_id: string
+          p_endpoint: string
+          p_rate_limit: number
+          p_weight?: number
+        }
+        Returns: {
+          allowed: boolean
+          reset_at: string
+          used_count: number
+        }[]
+      }
+      create_share_link: {
+        Args: {
+          p_expires_at?: string
+          p_group_id?: string
+          p_idea_id?: string
+          p_password?: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          failed_password_attempts: number
+          group_id: string | null
+          has_password: boolean
+          id: string
+          idea_id: string | null
+          last_viewed_at: string | null
+          password_hash: string | null
+          password_locked_until: string | null
+          revoked_at: string | null
+          token: string
+          view_count: number
+          workspace_id: string
+        }
+      }
+      create_workspace: {
+        Args: { p_name: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_personal: boolean
+          name: string
+          updated_at: string
+        }
+      }
       generate_api_key: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_api_usage: {
+        Args: { p_api_key_id?: string; p_since: string }
+        Returns: {
+          api_key_id: string
+          endpoint: string
+          requests_count: number
+          window_start: string
+        }[]
+      }
+      get_shared_content: {
+        Args: { p_password?: string; p_referrer?: string; p_token: string }
+        Returns: Json
+      }
+      get_workspace_members: {
+        Args: { p_workspace_id: string }
+        Returns: {
+          avatar_color: string
+          display_name: string | null
+          email: string
+          joined_at: string
+          role: string
+          user_id: string
+        }[]
+      }
       hash_api_key: {
         Args: { key: string }
         Returns: string
       }
+      idea_search_vector: {
+        Args: { p_description: string; p_tags: string[]; p_title: string }
+        Returns: unknown
+      }
+      parse_idea_search_query: {
+        Args: { p_query: string }
+        Returns: unknown
+      }
+      purge_trashed_ideas: {
+        Args: { p_workspace_id: string }
+        Returns: number
+      }
+      record_api_usage: {
+        Args: { p_api_key_id: string; p_endpoint: string; p_status_code: number }
+        Returns: undefined
+      }
+      revoke_share_link: {
+        Args: { p_id: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          failed_password_attempts: number
+          group_id: string | null
+          has_password: boolean
+          id: string
+          idea_id: string | null
+          last_viewed_at: string | null
+          password_hash: string | null
+          password_locked_until: string | null
+          revoked_at: string | null
+          token: string
+          view_count: number
+          workspace_id: string
+        }
+      }
+      search_ideas: {
+        Args: {
+          p_limit?: number
+          p_query: string
+          p_start_sel?: string
+          p_stop_sel?: string
+          p_workspace_id: string
+        }
+        Returns: {
+          description_highlight: string
+          id: string
+          rank: number
+          title_highlight: string
+        }[]
+      }
+      shared_idea_json: {
+        Args: { i: Database["public"]["Tables"]["ideas"]["Row"] }
+        Returns: Json
+      }
+      trash_retention_days: {
+        Args: { p_workspace_id: string }
+        Returns: number
+      }
       validate_api_key: {
         Args: { key: string }
         Returns: {
@@ -270,6 +1064,10 @@ export type Database = {
           user_id: string
         }[]
       }
+      workspace_role: {
+        Args: { p_workspace_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Idea } from '@/types/idea';
+import { planBoardMove, sortByPosition } from './board';
+
+function idea(id: string, overrides: Partial<Idea> = {}): Idea {
+  return {
+    id,
+    userId: 'user',
+    title: id,
+    description: '',
+    status: 'idea',
+    tags: [],
+    color: 'yellow',
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const a = idea('a', { boardPosition: 1024 });
+const b = idea('b', { boardPosition: 2048 });
+const c = idea('c', { boardPosition: 3072 });
+
+describe('sortByPosition', () => {
+  it('puts unpositioned ideas first, newest on top, then orders by position', () => {
+    const older = idea('older', { createdAt: new Date('2026-10-02T00:00:00Z') });
+    const newer = idea('newer', { createdAt: new Date('2026-10-03T00:00:00Z') });
+
+    expect([c, older, a, newer].sort(sortByPosition).map(i => i.id)).toEqual(['newer', 'older', 'a', 'c']);
+  });
+});
+
+describe('planBoardMove', () => {
+  it('moves an idea to another column between two others', () => {
+    const moved = idea('moved', { status: 'research', boardPosition: 1024 });
+
+    expect(planBoardMove([a, b], moved, 'idea', 1)).toEqual([
+      { id: 'moved', updates: { status: 'idea', boardPosition: 1536 } },
+    ]);
+  });
+
+  it('places an idea before the first or after the last one', () => {
+    const moved = idea('moved', { status: 'research' });
+
+    expect(planBoardMove([a, b], moved, 'idea', 0)).toEqual([
+      { id: 'moved', updates: { status: 'idea', boardPosition: 0 } },
+    ]);
+    expect(planBoardMove([a, b], moved, 'idea', Number.MAX_SAFE_INTEGER)).toEqual([
+      { id: 'moved', updates: { status: 'idea', boardPosition: 3072 } },
+    ]);
+    expect(planBoardMove([], moved, 'idea', 0)).toEqual([
+      { id: 'moved', updates: { status: 'idea', boardPosition: 1024 } },
+    ]);
+  });
+
+  it('reorders within a column, accounting for the card it leaves behind', () => {
+    expect(planBoardMove([a, b, c], a, 'idea', 2)).toEqual([
+      { id: 'a', updates: { status: 'idea', boardPosition: 2560 } },
+    ]);
+  });
+
+  it('does nothing when an idea is dropped where it already is', () => {
+    expect(planBoardMove([a, b, c], b, 'idea', 1)).toEqual([]);
+    expect(planBoardMove([a, b, c], b, 'idea', 2)).toEqual([]);
+  });
+
+  it('numbers the whole column once while it contains unpositioned ideas', () => {
+    const fresh = idea('fresh');
+    const moved = idea('moved', { status: 'research' });
+
+    expect(planBoardMove([fresh, b], moved, 'idea', 1)).toEqual([
+      { id: 'fresh', updates: { boardPosition: 1024 } },
+      { id: 'moved', updates: { status: 'idea', boardPosition: 2048 } },
+      { id: 'b', updates: { boardPosition: 3072 } },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { Idea, IdeaStatus } from '@/types/idea';
+
+export const POSITION_STEP = 1024;
+
+export interface BoardMove {
+  id: string;
+  updates: Pick<Partial<Idea>, 'status' | 'boardPosition'>;
+}
+
+// Ideas without a saved position (new or never dragged) sort first, newest on top
+export const sortByPosition = (a: Idea, b: Idea) => {
+  const aPos = a.boardPosition ?? null;
+  const bPos = b.boardPosition ?? null;
+  if (aPos === null && bPos === null) return b.createdAt.getTime() - a.createdAt.getTime();
+  if (aPos === null) return -1;
+  if (bPos === null) return 1;
+  return aPos - bPos;
+};
+
+// The updates that drop an idea at targetIndex of a column, which is given sorted by
+// position and may already contain the idea. Empty when the drop changes nothing.
+export function planBoardMove(column: Idea[], idea: Idea, status: IdeaStatus, targetIndex: number): BoardMove[] {
+  const sourceIndex = column.findIndex(i => i.id === idea.id);
+  const others = column.filter(i => i.id !== idea.id);
+  // Dropping below itself shifts the target index once the card is removed
+  const index = Math.min(
+    sourceIndex !== -1 && sourceIndex < targetIndex ? targetIndex - 1 : targetIndex,
+    others.length
+  );
+
+  if (sourceIndex === index && idea.status === status) return [];
+
+  // Renumber the whole column once if it still contains unpositioned ideas
+  if (others.some(i => i.boardPosition == null)) {
+    const ordered = [...others.slice(0, index), idea, ...others.slice(index)];
+    return ordered.flatMap((item, i): BoardMove[] => {
+      const boardPosition = (i + 1) * POSITION_STEP;
+      if (item.id === idea.id) {
+        return [{ id: item.id, updates: { status, boardPosition } }];
+      }
+      return item.boardPosition === boardPosition ? [] : [{ id: item.id, updates: { boardPosition } }];
+    });
+  }
+
+  const prev = others[index - 1]?.boardPosition;
+  const next = others[index]?.boardPosition;
+  let boardPosition: number;
+  if (prev == null && next == null) {
+    boardPosition = POSITION_STEP;
+  } else if (prev == null) {
+    boardPosition = next - POSITION_STEP;
+  } else if (next == null) {
+    boardPosition = prev + POSITION_STEP;
+  } else {
+    boardPosition = (prev + next) / 2;
+  }
+
+  return [{ id: idea.id, updates: { status, boardPosition } }];
+}
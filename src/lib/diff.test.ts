@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffWords } from './diff';
+
+describe('diffWords', () => {
+  it('marks the words that changed', () => {
+    expect(diffWords('Voice notes app', 'Voice memo app')).toEqual([
+      { op: 'equal', value: 'Voice ' },
+      { op: 'delete', value: 'notes' },
+      { op: 'insert', value: 'memo' },
+      { op: 'equal', value: ' app' },
+    ]);
+  });
+
+  it('handles empty text on either side', () => {
+    expect(diffWords('', 'New title')).toEqual([{ op: 'insert', value: 'New title' }]);
+    expect(diffWords('Old title', '')).toEqual([{ op: 'delete', value: 'Old title' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('compares whole lines and keeps their line breaks', () => {
+    expect(diffLines('# Idea\nFirst\nSecond\n', '# Idea\nSecond\nThird\n')).toEqual([
+      { op: 'equal', value: '# Idea\n' },
+      { op: 'delete', value: 'First\n' },
+      { op: 'equal', value: 'Second\n' },
+      { op: 'insert', value: 'Third\n' },
+    ]);
+  });
+
+  it('treats a last line without a break as a different line', () => {
+    expect(diffLines('One\nTwo', 'One\nTwo\n')).toEqual([
+      { op: 'equal', value: 'One\n' },
+      { op: 'delete', value: 'Two' },
+      { op: 'insert', value: 'Two\n' },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  value: string;
+}
+
+// Longest-common-subsequence diff over two token arrays
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffOp, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.value += value;
+    } else {
+      parts.push({ op, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', before[i]);
+      i++;
+    } else {
+      push('insert', after[j]);
+      j++;
+    }
+  }
+  while (i < rows) push('delete', before[i++]);
+  while (j < cols) push('insert', after[j++]);
+
+  return parts;
+}
+
+// Line-level diff, suited to markdown descriptions
+export function diffLines(before: string, after: string): DiffPart[] {
+  const split = (text: string) => text ? text.match(/[^\n]*\n|[^\n]+$/g) ?? [] : [];
+  return diffTokens(split(before), split(after));
+}
+
+// Word-level diff, suited to short fields such as titles
+export function diffWords(before: string, after: string): DiffPart[] {
+  const split = (text: string) => text ? text.match(/\s+|[^\s]+/g) ?? [] : [];
+  return diffTokens(split(before), split(after));
+}
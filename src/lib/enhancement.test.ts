@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { composeDescription, readServerSentEvents, splitEnhancement } from './enhancement';
+
+const enhanced = [
+  'A short summary.',
+  '',
+  '## Key Features',
+  '- Voice capture',
+  '',
+  '## Target Market',
+  'Busy founders',
+  '',
+  '## Implementation Roadmap',
+  '1. Prototype',
+].join('\n');
+
+function stream(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('splitEnhancement', () => {
+  it('splits at the headings and matches them to sections', () => {
+    expect(splitEnhancement(enhanced)).toEqual([
+      { section: null, content: 'A short summary.' },
+      { section: 'features', content: '## Key Features\n- Voice capture' },
+      { section: 'market', content: '## Target Market\nBusy founders' },
+      { section: 'roadmap', content: '## Implementation Roadmap\n1. Prototype' },
+    ]);
+  });
+
+  it('keeps a single top-level title with the text before the sections', () => {
+    const blocks = splitEnhancement(`# Voice notes\n\nIntro\n\n${enhanced.split('\n').slice(2).join('\n')}`);
+
+    expect(blocks.map(block => block.section)).toEqual([null, 'features', 'market', 'roadmap']);
+    expect(blocks[0].content).toBe('# Voice notes\n\nIntro');
+  });
+
+  it('does not split inside code blocks', () => {
+    const blocks = splitEnhancement('## Features\n```md\n## Market\n```\n## Other notes\nText');
+
+    expect(blocks).toEqual([
+      { section: 'features', content: '## Features\n```md\n## Market\n```' },
+      { section: null, content: '## Other notes\nText' },
+    ]);
+  });
+
+  it('returns text without headings as one block', () => {
+    expect(splitEnhancement('Just a paragraph')).toEqual([{ section: null, content: 'Just a paragraph' }]);
+  });
+});
+
+describe('composeDescription', () => {
+  it('appends only the accepted sections to the original', () => {
+    const blocks = splitEnhancement(enhanced);
+
+    expect(composeDescription('Original idea', blocks, new Set(['features', 'roadmap']))).toBe(
+      'Original idea\n\n## Key Features\n- Voice capture\n\n## Implementation Roadmap\n1. Prototype'
+    );
+    expect(composeDescription('  ', blocks, new Set(['market']))).toBe('## Target Market\nBusy founders');
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('parses events split across chunks', async () => {
+    const events = [];
+    for await (const event of readServerSentEvents(stream([
+      'data: {"delta":"Hel',
+      'lo"}\n\nevent: done\ndata: {"text":',
+      '"Hello"}\n\n',
+      ': keep-alive\n\n',
+    ]))) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: 'message', data: { delta: 'Hello' } },
+      { event: 'done', data: { text: 'Hello' } },
+    ]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const abort = new AbortController();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: {"delta":"Hel"}\n\n'));
+      },
+    });
+
+    const events = [];
+    for await (const event of readServerSentEvents(body, abort.signal)) {
+      events.push(event);
+      abort.abort();
+    }
+
+    expect(events).toEqual([{ event: 'message', data: { delta: 'Hel' } }]);
+  });
+});
@@ -0,0 +1,93 @@
+// Helpers for AI-enhanced descriptions: reading the streamed response and splitting the result
+// into sections that can be accepted one by one.
+
+export type EnhancementSectionKey = 'features' | 'market' | 'roadmap';
+
+export interface EnhancementBlock {
+  // Null for the text before the first heading and headings that match no section
+  section: EnhancementSectionKey | null;
+  content: string;
+}
+
+// The enhancement prompt asks for these topics; headings are matched loosely
+export const enhancementSections: { key: EnhancementSectionKey; label: string; pattern: RegExp }[] = [
+  { key: 'features', label: 'Features', pattern: /feature/i },
+  { key: 'market', label: 'Market', pattern: /market|audience|monetiz|competit/i },
+  { key: 'roadmap', label: 'Roadmap', pattern: /roadmap|implementation|technical|development/i },
+];
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.+?)\s*#*\s*$/;
+
+// Split at the shallowest heading level used more than once, so a single "# Title" on top
+// does not swallow the sections below it. Code blocks are never split.
+export function splitEnhancement(markdown: string): EnhancementBlock[] {
+  const lines = markdown.split('\n');
+  const headings: { index: number; level: number; title: string }[] = [];
+  let inCode = false;
+
+  lines.forEach((line, index) => {
+    if (line.trimStart().startsWith('```')) inCode = !inCode;
+    const match = inCode ? null : HEADING_PATTERN.exec(line);
+    if (match) headings.push({ index, level: match[1].length, title: match[2] });
+  });
+
+  const levels = [1, 2, 3].filter(level => headings.filter(heading => heading.level === level).length > 1);
+  const splitLevel = levels[0] ?? Math.min(...headings.map(heading => heading.level));
+  const splits = headings.filter(heading => heading.level === splitLevel);
+
+  const blocks: EnhancementBlock[] = [];
+  const intro = lines.slice(0, splits[0]?.index ?? lines.length).join('\n').trim();
+  if (intro) blocks.push({ section: null, content: intro });
+
+  splits.forEach((heading, i) => {
+    const content = lines.slice(heading.index, splits[i + 1]?.index ?? lines.length).join('\n').trim();
+    const section = enhancementSections.find(candidate => candidate.pattern.test(heading.title))?.key ?? null;
+    blocks.push({ section, content });
+  });
+
+  return blocks;
+}
+
+// The original description followed by the accepted sections, in the order they were generated
+export function composeDescription(original: string, blocks: EnhancementBlock[], accepted: Set<EnhancementSectionKey>) {
+  return [
+    original.trim(),
+    ...blocks.filter(block => block.section && accepted.has(block.section)).map(block => block.content)
+  ].filter(Boolean).join('\n\n');
+}
+
+// Events of a text/event-stream response body, as { event, data } with data parsed as JSON.
+// Aborting the signal cancels the body, which ends the events.
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const stop = () => reader.cancel().catch(() => undefined);
+  let buffer = '';
+
+  if (signal?.aborted) stop();
+  signal?.addEventListener('abort', stop);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() ?? '';
+
+      for (const message of messages) {
+        let event = 'message';
+        const data: string[] = [];
+        message.split('\n').forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        });
+        if (data.length > 0) yield { event, data: JSON.parse(data.join('\n')) as Record<string, unknown> };
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Tables } from '@/integrations/supabase/types';
+import { applyIdeaChange, formatIdea } from './ideas';
+
+function row(id: string, overrides: Partial<Tables<'ideas'>> = {}): Tables<'ideas'> {
+  return {
+    id,
+    user_id: 'user',
+    workspace_id: 'workspace',
+    title: id,
+    description: null,
+    status: 'idea',
+    tags: null,
+    color: 'yellow',
+    image_url: null,
+    original_description: null,
+    enhancement_template_id: null,
+    enhancement_template_name: null,
+    group_id: null,
+    board_position: null,
+    search_vector: null,
+    created_at: '2026-10-19T10:00:00.000000+00:00',
+    updated_at: '2026-10-19T10:00:00.000000+00:00',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+function change(eventType: 'INSERT' | 'UPDATE' | 'DELETE', record: Tables<'ideas'>) {
+  return {
+    schema: 'public',
+    table: 'ideas',
+    commit_timestamp: record.updated_at,
+    errors: [],
+    eventType,
+    new: eventType === 'DELETE' ? {} : record,
+    old: eventType === 'INSERT' ? {} : record,
+  } as RealtimePostgresChangesPayload<Tables<'ideas'>>;
+}
+
+const held = [formatIdea(row('a')), formatIdea(row('b'))];
+
+describe('applyIdeaChange', () => {
+  it('adds inserted ideas', () => {
+    const ideas = applyIdeaChange(held, change('INSERT', row('c', { tags: ['api'] })));
+
+    expect(ideas.map(idea => idea.id)).toEqual(['a', 'b', 'c']);
+    expect(ideas[2]).toMatchObject({ tags: ['api'], description: '' });
+  });
+
+  it('replaces updated ideas, including moves to the trash', () => {
+    const ideas = applyIdeaChange(held, change('UPDATE', row('a', {
+      title: 'Renamed',
+      updated_at: '2026-10-19T11:00:00.000000+00:00',
+      deleted_at: '2026-10-19T11:00:00.000000+00:00',
+    })));
+
+    expect(ideas[0]).toMatchObject({ id: 'a', title: 'Renamed', version: '2026-10-19T11:00:00.000000+00:00' });
+    expect(ideas[0].deletedAt).toEqual(new Date('2026-10-19T11:00:00Z'));
+  });
+
+  it('keeps a newer copy when an older event arrives late', () => {
+    const newer = applyIdeaChange(held, change('UPDATE', row('a', { title: 'Newer', updated_at: '2026-10-19T12:00:00+00:00' })));
+
+    const ideas = applyIdeaChange(newer, change('UPDATE', row('a', { title: 'Older', updated_at: '2026-10-19T11:00:00+00:00' })));
+
+    expect(ideas[0].title).toBe('Newer');
+  });
+
+  it('removes deleted ideas', () => {
+    expect(applyIdeaChange(held, change('DELETE', row('b'))).map(idea => idea.id)).toEqual(['a']);
+  });
+});
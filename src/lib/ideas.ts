@@ -0,0 +1,45 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Idea } from '@/types/idea';
+import { Tables } from '@/integrations/supabase/types';
+
+// Map a database row to the Idea shape used by the UI
+export const formatIdea = (idea: Tables<'ideas'>): Idea => ({
+  id: idea.id,
+  userId: idea.user_id,
+  title: idea.title,
+  description: idea.description || '',
+  status: idea.status as Idea['status'],
+  tags: idea.tags || [],
+  color: idea.color as Idea['color'],
+  image_url: idea.image_url,
+  original_description: idea.original_description,
+  enhancementTemplateId: idea.enhancement_template_id,
+  enhancementTemplateName: idea.enhancement_template_name,
+  groupId: idea.group_id,
+  boardPosition: idea.board_position,
+  createdAt: new Date(idea.created_at),
+  updatedAt: new Date(idea.updated_at),
+  version: idea.updated_at,
+  deletedAt: idea.deleted_at ? new Date(idea.deleted_at) : null,
+});
+
+// Merge saved ideas into the ones held, trashed or not. A copy newer than the saved one is
+// kept, since a realtime event can arrive after the response to a later write.
+export const mergeIdeas = (held: Idea[], saved: Idea[]) => {
+  const byId = new Map(held.map(idea => [idea.id, idea]));
+  saved.forEach(idea => {
+    const current = byId.get(idea.id);
+    if (!current || current.updatedAt <= idea.updatedAt) {
+      byId.set(idea.id, idea);
+    }
+  });
+  return Array.from(byId.values());
+};
+
+// Apply a realtime change of the ideas table to the ideas held
+export const applyIdeaChange = (held: Idea[], change: RealtimePostgresChangesPayload<Tables<'ideas'>>) => {
+  if (change.eventType === 'DELETE') {
+    return held.filter(idea => idea.id !== change.old.id);
+  }
+  return mergeIdeas(held, [formatIdea(change.new)]);
+};
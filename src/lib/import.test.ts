@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import {
+  detectImportSource,
+  guessCsvMapping,
+  guessStatus,
+  ideasFromCsv,
+  normalizeTitle,
+  parseCsv,
+  parseIdeaHubExport,
+  parseMarkdownFiles,
+  parseTrelloBoard,
+  readZip,
+} from './import';
+
+describe('guessStatus', () => {
+  it('matches status keys, labels and common column names', () => {
+    expect(guessStatus('launched')).toBe('launched');
+    expect(guessStatus('Researching')).toBe('research');
+    expect(guessStatus('In Progress')).toBe('progress');
+    expect(guessStatus('Doing')).toBe('progress');
+    expect(guessStatus('Shipped')).toBe('launched');
+    expect(guessStatus("Won't do")).toBe('archived');
+  });
+
+  it('starts anything else as an idea', () => {
+    expect(guessStatus('Backlog')).toBe('idea');
+    expect(guessStatus(null)).toBe('idea');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted commas, quotes, line breaks and a BOM', () => {
+    const table = parseCsv('\uFEFFTitle,Notes\r\n"Voice notes, but better","She said ""hi""\nthen left"\r\nSecond,\r\n\r\n');
+
+    expect(table.headers).toEqual(['Title', 'Notes']);
+    expect(table.rows).toEqual([
+      ['Voice notes, but better', 'She said "hi"\nthen left'],
+      ['Second', ''],
+    ]);
+  });
+
+  it('keeps a last row without a trailing newline', () => {
+    expect(parseCsv('a,b\n1,2').rows).toEqual([['1', '2']]);
+  });
+});
+
+describe('ideasFromCsv', () => {
+  it('guesses the mapping from the header names', () => {
+    expect(guessCsvMapping(['Name', 'Details', 'Stage', 'Labels', 'Project', 'Colour'])).toEqual({
+      title: 0, description: 1, status: 2, tags: 3, group: 4, color: 5,
+    });
+    expect(guessCsvMapping(['Something', 'Else'])).toEqual({ title: 0 });
+  });
+
+  it('reads ideas through the mapping and skips rows without a title', () => {
+    const table = parseCsv([
+      'title,description,status,tags,group,color,created_at',
+      "'=SUM(1),Formula-looking title,Doing,\"audio; mobile, audio\",Side projects,Blue,2026-10-01T09:00:00Z",
+      ',No title,,,,,',
+    ].join('\n'));
+
+    const ideas = ideasFromCsv(table, guessCsvMapping(table.headers));
+
+    expect(ideas).toEqual([{
+      title: '=SUM(1)',
+      description: 'Formula-looking title',
+      column: 'Doing',
+      tags: ['audio', 'mobile'],
+      color: 'blue',
+      group: 'Side projects',
+      createdAt: new Date('2026-10-01T09:00:00Z'),
+    }]);
+  });
+});
+
+describe('parseTrelloBoard', () => {
+  const board = {
+    name: 'Roadmap ',
+    lists: [
+      { id: 'l1', name: 'Doing' },
+      { id: 'l2', name: 'Old', closed: true },
+    ],
+    cards: [
+      { id: '5f5e1000aaaaaaaaaaaaaaaa', name: ' Voice notes ', desc: 'Record', idList: 'l1', labels: [{ name: 'audio', color: 'sky' }, { color: 'red' }] },
+      { id: '5f5e1000bbbbbbbbbbbbbbbb', name: 'Archived card', idList: 'l1', closed: true },
+      { id: '5f5e1000cccccccccccccccc', name: 'In archived list', idList: 'l2' },
+    ],
+  };
+
+  it('reads open cards with their list, labels and creation time', () => {
+    expect(parseTrelloBoard(JSON.stringify(board))).toEqual([{
+      title: 'Voice notes',
+      description: 'Record',
+      column: 'Doing',
+      tags: ['audio', 'red'],
+      color: 'blue',
+      group: 'Roadmap',
+      createdAt: new Date(0x5f5e1000 * 1000),
+    }]);
+  });
+
+  it('rejects other JSON', () => {
+    expect(() => parseTrelloBoard('{"ideas":[]}')).toThrow('This is not a Trello board export');
+  });
+});
+
+describe('parseIdeaHubExport', () => {
+  it('reads ideas from our JSON archive with their group names', () => {
+    const archive = {
+      version: 1,
+      ideas: [
+        { title: 'Voice notes', description: null, status: 'research', tags: ['audio'], color: 'green', group_id: 'g1', created_at: '2026-10-01T09:00:00Z' },
+        { title: '  ', description: '', status: 'idea', tags: null, color: 'gray', group_id: null, created_at: '' },
+      ],
+      groups: [{ id: 'g1', name: 'Side projects' }],
+    };
+
+    expect(parseIdeaHubExport(JSON.stringify(archive))).toEqual([{
+      title: 'Voice notes',
+      description: '',
+      column: 'research',
+      tags: ['audio'],
+      color: 'green',
+      group: 'Side projects',
+      createdAt: new Date('2026-10-01T09:00:00Z'),
+    }]);
+  });
+
+  it('rejects other JSON', () => {
+    expect(() => parseIdeaHubExport('{"cards":[]}')).toThrow('This is not an IdeaHub export');
+  });
+});
+
+describe('parseMarkdownFiles', () => {
+  it('reads front matter as written by our Markdown export', () => {
+    const [idea] = parseMarkdownFiles([{
+      path: 'ideas/voice-notes.md',
+      text: '---\ntitle: "Voice notes"\nstatus: launched\ntags: ["audio","mobile"]\ncolor: "purple"\ngroup: "Side projects"\ncreated_at: 2026-10-01T09:00:00+00:00\n---\n\n# Voice notes\n\nRecord a thought\n',
+    }]);
+
+    expect(idea).toEqual({
+      title: 'Voice notes',
+      description: 'Record a thought',
+      column: 'launched',
+      tags: ['audio', 'mobile'],
+      color: 'purple',
+      group: 'Side projects',
+      createdAt: new Date('2026-10-01T09:00:00Z'),
+    });
+  });
+
+  it('reads Notion pages with their property lines and folder', () => {
+    const [idea] = parseMarkdownFiles([{
+      path: 'Ideas 0123456789abcdef0123456789abcdef/Voice notes 0123456789abcdef0123456789abcdef.md',
+      text: '# Voice notes\n\nStatus: In progress\nTags: audio, mobile\n\nRecord a thought\n',
+    }]);
+
+    expect(idea).toMatchObject({
+      title: 'Voice notes',
+      description: 'Record a thought',
+      column: 'In progress',
+      tags: ['audio', 'mobile'],
+      group: 'Ideas',
+    });
+  });
+
+  it('falls back to the file name for a title', () => {
+    expect(parseMarkdownFiles([{ path: 'notes/Plain idea.md', text: 'Just text' }])[0]).toMatchObject({
+      title: 'Plain idea',
+      description: 'Just text',
+      group: 'notes',
+    });
+  });
+});
+
+describe('readZip', () => {
+  it('returns the Markdown files and skips everything else', () => {
+    const zip = zipSync({
+      'ideas/one.md': strToU8('# One'),
+      'ideas/image.png': strToU8('png'),
+      '__MACOSX/ideas/._one.md': strToU8('fork'),
+    });
+
+    expect(readZip(zip)).toEqual([{ path: 'ideas/one.md', text: '# One' }]);
+  });
+});
+
+describe('detectImportSource', () => {
+  it('goes by the extension and, for JSON, the contents', () => {
+    expect(detectImportSource('ideas.CSV')).toBe('csv');
+    expect(detectImportSource('notion-export.zip')).toBe('markdown');
+    expect(detectImportSource('board.json', '{"cards":[],"lists":[]}')).toBe('trello');
+    expect(detectImportSource('ideahub-export.json', '{"ideas":[]}')).toBe('ideahub');
+    expect(detectImportSource('other.json', '{"items":[]}')).toBeNull();
+    expect(detectImportSource('broken.json', '{')).toBeNull();
+    expect(detectImportSource('photo.png')).toBeNull();
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('ignores case and extra whitespace', () => {
+    expect(normalizeTitle('  Voice   Notes ')).toBe(normalizeTitle('voice notes'));
+  });
+});
@@ -0,0 +1,360 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { IdeaColor, IdeaStatus, colorConfig, statusConfig } from '@/types/idea';
+
+export type ImportSource = 'trello' | 'markdown' | 'csv' | 'ideahub';
+
+export const importSourceLabels: Record<ImportSource, string> = {
+  trello: 'Trello board',
+  markdown: 'Markdown / Notion',
+  csv: 'CSV',
+  ideahub: 'IdeaHub export',
+};
+
+// An idea read from an import file, before its column is mapped to a status
+export interface ImportedIdea {
+  title: string;
+  description: string;
+  // The Trello list, CSV value or status property the idea came from
+  column: string | null;
+  tags: string[];
+  color: IdeaColor | null;
+  // Board, folder or group name, matched to a group by name on import
+  group: string | null;
+  createdAt: Date | null;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type CsvField = 'title' | 'description' | 'status' | 'tags' | 'group' | 'color';
+
+// Column index for each field; unmapped fields are left out
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+export interface MarkdownFile {
+  path: string;
+  text: string;
+}
+
+const isStatus = (value: string): value is IdeaStatus => value in statusConfig;
+const isColor = (value: string): value is IdeaColor => value in colorConfig;
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const splitTags = (value: string) => Array.from(new Set(value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean)));
+
+// Compared to spot ideas that already exist or appear twice in one file
+export const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Best guess at the status for a list or column name; anything unknown starts as an idea
+export function guessStatus(column: string | null): IdeaStatus {
+  const name = (column || '').trim().toLowerCase();
+  if (isStatus(name)) return name;
+
+  // Labels such as "🔬 Researching", without the emoji
+  const label = Object.entries(statusConfig).find(([, config]) => config.label.replace(/^\S+\s/, '').toLowerCase() === name);
+  if (label) return label[0] as IdeaStatus;
+
+  if (/archiv|abandon|dropped|rejected|won'?t/.test(name)) return 'archived';
+  if (/launch|done|shipped|complete|released|live|finished/.test(name)) return 'launched';
+  if (/progress|doing|wip|develop|building|active|started/.test(name)) return 'progress';
+  if (/research|investigat|explor|validat|review|discovery/.test(name)) return 'research';
+  return 'idea';
+}
+
+// RFC 4180 CSV: quoted cells may hold commas, quotes ("") and line breaks
+export function parseCsv(text: string): CsvTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter(row => row.some(value => value.trim() !== ''));
+  return { headers: headers.map(header => header.trim()), rows };
+}
+
+const csvFieldHeaders: Record<CsvField, RegExp> = {
+  title: /^(title|name|idea|summary|card name)$/i,
+  description: /^(description|notes?|body|details|content|card description)$/i,
+  status: /^(status|stage|state|list|list name|column)$/i,
+  tags: /^(tags?|labels?|categor(y|ies))$/i,
+  group: /^(group|board|board name|project|folder)$/i,
+  color: /^colou?r$/i,
+};
+
+// Map columns to fields by their header names
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {};
+  (Object.keys(csvFieldHeaders) as CsvField[]).forEach(field => {
+    const index = headers.findIndex(header => csvFieldHeaders[field].test(header));
+    if (index !== -1) mapping[field] = index;
+  });
+
+  if (mapping.title === undefined && headers.length > 0) mapping.title = 0;
+  return mapping;
+}
+
+export function ideasFromCsv({ headers, rows }: CsvTable, mapping: CsvMapping): ImportedIdea[] {
+  const createdIndex = headers.findIndex(header => /^(created|created_at|created at|date)$/i.test(header));
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows
+    .map(row => {
+      // Undo the apostrophe our CSV export puts before cells that look like formulas
+      const title = cell(row, 'title').replace(/^'(?=[=+\-@])/, '');
+      const color = cell(row, 'color').toLowerCase();
+      return {
+        title,
+        description: cell(row, 'description').replace(/^'(?=[=+\-@])/, ''),
+        column: cell(row, 'status') || null,
+        tags: splitTags(cell(row, 'tags')),
+        color: isColor(color) ? color : null,
+        group: cell(row, 'group') || null,
+        createdAt: createdIndex === -1 ? null : parseDate(row[createdIndex]),
+      };
+    })
+    .filter(idea => idea.title);
+}
+
+// Trello label colors that have no IdeaHub counterpart
+const trelloColors: Record<string, IdeaColor> = {
+  red: 'pink',
+  sky: 'blue',
+  lime: 'green',
+  black: 'gray',
+};
+
+interface TrelloBoard {
+  name?: string;
+  lists?: { id: string; name: string; closed?: boolean }[];
+  cards?: {
+    id: string;
+    name: string;
+    desc?: string;
+    idList: string;
+    closed?: boolean;
+    labels?: { name?: string; color?: string | null }[];
+  }[];
+}
+
+// A board exported from Trello's Menu → Print, export and share → Export as JSON.
+// Archived cards and cards in archived lists are left out.
+export function parseTrelloBoard(text: string): ImportedIdea[] {
+  const board = JSON.parse(text) as TrelloBoard;
+  if (!Array.isArray(board.cards) || !Array.isArray(board.lists)) {
+    throw new Error('This is not a Trello board export');
+  }
+
+  const lists = new Map(board.lists.map(list => [list.id, list]));
+
+  return board.cards
+    .filter(card => !card.closed && !lists.get(card.idList)?.closed && card.name?.trim())
+    .map(card => {
+      const labels = card.labels || [];
+      const labelColor = labels.find(label => label.color)?.color || '';
+      const color = trelloColors[labelColor] ?? labelColor;
+      // Trello ids start with the card's creation time in seconds, in hex
+      const created = parseInt(card.id.slice(0, 8), 16);
+
+      return {
+        title: card.name.trim(),
+        description: card.desc || '',
+        column: lists.get(card.idList)?.name ?? null,
+        tags: Array.from(new Set(labels.map(label => label.name?.trim() || label.color || '').filter(Boolean))),
+        color: isColor(color) ? color : null,
+        group: board.name?.trim() || null,
+        createdAt: isNaN(created) ? null : new Date(created * 1000),
+      };
+    });
+}
+
+interface IdeaHubArchive {
+  version?: number;
+  ideas?: {
+    title: string;
+    description: string | null;
+    status: string;
+    tags: string[] | null;
+    color: string;
+    group_id: string | null;
+    created_at: string;
+  }[];
+  groups?: { id: string; name: string }[] | null;
+}
+
+// The JSON archive from Settings → Export Data or GET /ai-ideas/export
+export function parseIdeaHubExport(text: string): ImportedIdea[] {
+  const archive = JSON.parse(text) as IdeaHubArchive;
+  if (!Array.isArray(archive.ideas)) {
+    throw new Error('This is not an IdeaHub export');
+  }
+
+  const groupNames = new Map((archive.groups || []).map(group => [group.id, group.name]));
+
+  return archive.ideas
+    .filter(idea => idea.title?.trim())
+    .map(idea => ({
+      title: idea.title.trim(),
+      description: idea.description || '',
+      column: idea.status,
+      tags: idea.tags || [],
+      color: isColor(idea.color) ? idea.color : null,
+      group: idea.group_id ? groupNames.get(idea.group_id) ?? null : null,
+      createdAt: parseDate(idea.created_at),
+    }));
+}
+
+// The .md files in a zip, skipping macOS resource forks
+export function readZip(data: Uint8Array): MarkdownFile[] {
+  const entries = unzipSync(data, {
+    filter: file => /\.(md|markdown)$/i.test(file.name) && !file.name.startsWith('__MACOSX/'),
+  });
+
+  return Object.entries(entries).map(([path, content]) => ({ path, text: strFromU8(content) }));
+}
+
+// Notion appends a 32 character id to exported file and folder names
+const stripNotionId = (name: string) => name.replace(/\s+[0-9a-f]{32}$/i, '').trim();
+
+// Front matter values are plain scalars or JSON, which is how our Markdown export writes them
+function parseFrontMatterValue(value: string): unknown {
+  const trimmed = value.trim();
+  if (/^["[{]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+  return trimmed.replace(/^'(.*)'$/, '$1');
+}
+
+function parseMarkdownFile({ path, text }: MarkdownFile): ImportedIdea | null {
+  const segments = path.split('/').filter(Boolean);
+  const fileName = stripNotionId(segments[segments.length - 1].replace(/\.(md|markdown)$/i, ''));
+  const folder = segments.length > 1 ? stripNotionId(segments[segments.length - 2]) : null;
+
+  let body = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const properties: Record<string, unknown> = {};
+  let hasFrontMatter = false;
+
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    hasFrontMatter = true;
+    frontMatter[1].split('\n').forEach(line => {
+      const match = line.match(/^([\w-]+):\s*(.*)$/);
+      if (match) properties[match[1].toLowerCase()] = parseFrontMatterValue(match[2]);
+    });
+    body = body.slice(frontMatter[0].length);
+  }
+
+  let title = typeof properties.title === 'string' ? properties.title : '';
+  const heading = body.match(/^\s*#\s+(.+)\n?/);
+  if (heading) {
+    title = title || heading[1].trim();
+    body = body.slice(heading[0].length);
+  }
+
+  // Notion database pages list their properties as "Name: value" lines under the title
+  if (!hasFrontMatter && heading) {
+    const block = body.match(/^\s*((?:[^\n:]{1,40}: [^\n]*\n)+)/);
+    if (block) {
+      block[1].trim().split('\n').forEach(line => {
+        const index = line.indexOf(': ');
+        properties[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 2).trim();
+      });
+      body = body.slice(block[0].length);
+    }
+  }
+
+  title = (title || fileName).trim();
+  if (!title) return null;
+
+  const rawTags = properties.tags ?? properties.labels ?? properties.tag;
+  const tags = Array.isArray(rawTags)
+    ? rawTags.map(String).map(tag => tag.trim()).filter(Boolean)
+    : typeof rawTags === 'string' ? splitTags(rawTags) : [];
+  const color = String(properties.color ?? '').toLowerCase();
+  const status = properties.status ?? properties.stage;
+  const group = properties.group ?? properties.project;
+
+  return {
+    title,
+    description: body.trim(),
+    column: typeof status === 'string' && status ? status : null,
+    tags,
+    color: isColor(color) ? color : null,
+    // Our export keeps the group in front matter; otherwise the folder names it
+    group: typeof group === 'string' && group
+      ? group
+      : !hasFrontMatter && folder ? folder : null,
+    createdAt: parseDate(properties.created_at ?? properties.created),
+  };
+}
+
+// Markdown files from a folder, a Notion export or our own Markdown export
+export function parseMarkdownFiles(files: MarkdownFile[]): ImportedIdea[] {
+  return files
+    .map(parseMarkdownFile)
+    .filter((idea): idea is ImportedIdea => idea !== null);
+}
+
+// Work out what kind of file was picked from its name and, for JSON, its contents
+export function detectImportSource(fileName: string, text?: string): ImportSource | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv')) return 'csv';
+  if (/\.(md|markdown|zip)$/.test(name)) return 'markdown';
+  if (!name.endsWith('.json') || text === undefined) return null;
+
+  try {
+    const data = JSON.parse(text);
+    if (Array.isArray(data?.cards) && Array.isArray(data?.lists)) return 'trello';
+    if (Array.isArray(data?.ideas)) return 'ideahub';
+  } catch {
+    return null;
+  }
+  return null;
+}
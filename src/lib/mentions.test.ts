@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { MENTION_HREF_PREFIX, linkMentions, mentionQueryAt } from './mentions';
+
+const members = [
+  { userId: 'u1', displayName: 'Ann' },
+  { userId: 'u2', displayName: 'Ann Lee' },
+  { userId: 'u3', displayName: 'José' },
+];
+
+describe('linkMentions', () => {
+  it('links mentions to the member, preferring the longest name', () => {
+    expect(linkMentions('Thanks @ann lee and @Ann!', members)).toBe(
+      `Thanks [@Ann Lee](${MENTION_HREF_PREFIX}u2) and [@Ann](${MENTION_HREF_PREFIX}u1)!`
+    );
+  });
+
+  it('handles names with accents and leaves mentions inside words alone', () => {
+    expect(linkMentions('@José, mail me at ann@Ann.dev', members)).toBe(
+      `[@José](${MENTION_HREF_PREFIX}u3), mail me at ann@Ann.dev`
+    );
+    expect(linkMentions('@Annie is not a member', members)).toBe('@Annie is not a member');
+  });
+
+  it('leaves code spans and blocks as they are', () => {
+    const body = 'See `@Ann` and\n```\n@Ann\n```\nthen @Ann';
+
+    expect(linkMentions(body, members)).toBe(
+      `See \`@Ann\` and\n\`\`\`\n@Ann\n\`\`\`\nthen [@Ann](${MENTION_HREF_PREFIX}u1)`
+    );
+  });
+
+  it('returns the body unchanged without candidates', () => {
+    expect(linkMentions('Hi @Ann', [])).toBe('Hi @Ann');
+  });
+});
+
+describe('mentionQueryAt', () => {
+  it('finds the name being typed before the cursor', () => {
+    expect(mentionQueryAt('Hi @An', 6)).toEqual({ start: 3, query: 'An' });
+    expect(mentionQueryAt('@', 1)).toEqual({ start: 0, query: '' });
+  });
+
+  it('ignores addresses and finished mentions', () => {
+    expect(mentionQueryAt('ann@example', 11)).toBeNull();
+    expect(mentionQueryAt('Hi @Ann there', 13)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+// @mentions name a workspace member by display name. The database resolves them the same
+// way when a comment is saved: "@" plus the whole display name, not inside a longer word.
+
+export interface MentionCandidate {
+  userId: string;
+  displayName: string;
+}
+
+// Links to this prefix are mentions rather than real links
+export const MENTION_HREF_PREFIX = '#mention-';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Code spans and blocks are left alone so mentions inside them stay plain text
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/;
+
+// Longest names first so "@Ann Lee" wins over "@Ann"
+function mentionPattern(candidates: MentionCandidate[]) {
+  const names = candidates
+    .map(candidate => candidate.displayName.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+
+  return names.length > 0
+    ? new RegExp(`(^|[^\\p{L}\\p{N}_])@(${names.join('|')})(?=$|[^\\p{L}\\p{N}_])`, 'giu')
+    : null;
+}
+
+// Turn mentions into Markdown links to MENTION_HREF_PREFIX so they can be styled when rendered
+export function linkMentions(body: string, candidates: MentionCandidate[]): string {
+  const pattern = mentionPattern(candidates);
+  if (!pattern) return body;
+
+  const byName = new Map(candidates.map(candidate => [candidate.displayName.trim().toLowerCase(), candidate]));
+
+  return body
+    .split(CODE_PATTERN)
+    .map((part, index) => index % 2 === 1 ? part : part.replace(pattern, (match, before: string, name: string) => {
+      const candidate = byName.get(name.toLowerCase());
+      return candidate ? `${before}[@${candidate.displayName.trim()}](${MENTION_HREF_PREFIX}${candidate.userId})` : match;
+    }))
+    .join('');
+}
+
+// The partial name being typed after an @ right before the cursor, if any
+export function mentionQueryAt(text: string, cursor: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, cursor));
+  return match ? { start: cursor - match[2].length - 1, query: match[2] } : null;
+}
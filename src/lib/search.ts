@@ -0,0 +1,35 @@
+// Markers that search_ideas wraps around matched terms. Control characters never
+// appear in idea text, so highlights can be rendered without parsing HTML.
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export function splitHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({ text: rest.slice(start + 1, end === -1 ? undefined : end), highlighted: true });
+    rest = end === -1 ? '' : rest.slice(end + 1);
+  }
+
+  return segments;
+}
+
+export function hasHighlights(text: string): boolean {
+  return text.includes(HIGHLIGHT_START);
+}
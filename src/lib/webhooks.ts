@@ -0,0 +1,19 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const DISPATCH_DELAY_MS = 1000;
+
+let dispatchTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Deliveries are queued by a database trigger; this asks webhook-dispatch to send them.
+// Bursts of edits (e.g. renumbering a board column) are coalesced into one request.
+export function scheduleWebhookDispatch() {
+  if (dispatchTimer) clearTimeout(dispatchTimer);
+
+  dispatchTimer = setTimeout(async () => {
+    dispatchTimer = null;
+    const { error } = await supabase.functions.invoke('webhook-dispatch', { body: {} });
+    if (error) {
+      console.error('Error dispatching webhooks:', error);
+    }
+  }, DISPATCH_DELAY_MS);
+}
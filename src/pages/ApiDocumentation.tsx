@@ -1,5 +1,5 @@
-import { useEffect, useState } from 'react';
-import { ArrowLeft, ExternalLink, Copy, CheckCircle2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { ArrowLeft, ExternalLink, Copy, CheckCircle2, Loader2, FileJson } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -7,11 +7,28 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import { useApiSpec } from '@/hooks/useApiSpec';
+import { listOperations } from '@/types/openapi';
+import { ApiEndpointList } from '@/components/api-docs/ApiEndpointList';
+import { ApiExplorer } from '@/components/api-docs/ApiExplorer';
 
 export const ApiDocumentation = () => {
   const [copiedCode, setCopiedCode] = useState<string>('');
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { spec, loading: specLoading, error: specError, refetch: refetchSpec } = useApiSpec();
+
+  const operations = useMemo(() => spec ? listOperations(spec) : [], [spec]);
+
+  // Which API key operations each scope unlocks, as listed in the spec
+  const scopeOperations = useMemo(() => {
+    const byScope = new Map<string, string[]>();
+    operations.forEach(operation => {
+      const scope = operation['x-required-scope'];
+      if (scope) byScope.set(scope, [...(byScope.get(scope) || []), `${operation.method.toUpperCase()} ${operation.path}`]);
+    });
+    return [...byScope.entries()];
+  }, [operations]);
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -78,6 +95,20 @@ export const ApiDocumentation = () => {
               </div>
             </div>
 
+            <div>
+              <h4 className="font-medium mb-2">OpenAPI Specification</h4>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`${baseUrl}/api-spec`} target="_blank" rel="noopener noreferrer">
+                  <FileJson className="w-4 h-4 mr-2" />
+                  openapi.json
+                  <ExternalLink className="w-3 h-3 ml-1" />
+                </a>
+              </Button>
+              <p className="text-sm text-muted-foreground mt-2">
+                OpenAPI 3.1, generated from the API's own validation rules. Import it into Postman or a client generator.
+              </p>
+            </div>
+
             <Alert>
               <AlertDescription>
                 <strong>Authentication Required:</strong> All API endpoints require an API key. 
@@ -89,8 +120,9 @@ export const ApiDocumentation = () => {
 
         {/* API Tabs */}
         <Tabs defaultValue="endpoints" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="endpoints">Endpoints</TabsTrigger>
+            <TabsTrigger value="explorer">Explorer</TabsTrigger>
             <TabsTrigger value="authentication">Auth</TabsTrigger>
             <TabsTrigger value="examples">Examples</TabsTrigger>
             <TabsTrigger value="sdks">SDKs</TabsTrigger>
@@ -98,98 +130,35 @@ export const ApiDocumentation = () => {
 
           {/* Endpoints Tab */}
           <TabsContent value="endpoints" className="space-y-6">
-            {/* Ideas Management */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Ideas Management</CardTitle>
-                <CardDescription>
-                  CRUD operations for your ideas
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {[
-                  {
-                    method: "GET",
-                    endpoint: "/ai-ideas",
-                    description: "Get all ideas with optional filtering",
-                    params: ["status", "limit", "offset", "search"]
-                  },
-                  {
-                    method: "GET",
-                    endpoint: "/ai-ideas/{id}",
-                    description: "Get a specific idea by ID"
-                  },
-                  {
-                    method: "POST",
-                    endpoint: "/ai-ideas",
-                    description: "Create a new idea",
-                    body: true
-                  },
-                  {
-                    method: "PUT",
-                    endpoint: "/ai-ideas/{id}",
-                    description: "Update an existing idea",
-                    body: true
-                  },
-                  {
-                    method: "DELETE",
-                    endpoint: "/ai-ideas/{id}",
-                    description: "Archive an idea (soft delete)"
-                  }
-                ].map((endpoint, index) => (
-                  <div key={index} className="border rounded-lg p-4">
-                    <div className="flex items-center gap-3 mb-2">
-                      <Badge 
-                        variant={
-                          endpoint.method === 'GET' ? 'secondary' :
-                          endpoint.method === 'POST' ? 'default' :
-                          endpoint.method === 'PUT' ? 'outline' : 'destructive'
-                        }
-                      >
-                        {endpoint.method}
-                      </Badge>
-                      <code className="text-sm font-mono">{endpoint.endpoint}</code>
-                    </div>
-                    <p className="text-sm text-muted-foreground mb-3">
-                      {endpoint.description}
-                    </p>
-                    {endpoint.params && (
-                      <div className="text-xs">
-                        <span className="text-muted-foreground">Query params:</span>
-                        <div className="flex gap-2 mt-1">
-                          {endpoint.params.map(param => (
-                            <code key={param} className="bg-muted px-1 rounded">
-                              {param}
-                            </code>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+            {specLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : spec ? (
+              <ApiEndpointList spec={spec} operations={operations} />
+            ) : (
+              <Alert variant="destructive">
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  {specError || 'Failed to load the API specification'}
+                  <Button size="sm" variant="outline" onClick={refetchSpec}>Retry</Button>
+                </AlertDescription>
+              </Alert>
+            )}
+          </TabsContent>
 
-            {/* User Profile */}
-            <Card>
-              <CardHeader>
-                <CardTitle>User Profile</CardTitle>
-                <CardDescription>
-                  Access user profile and statistics
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="border rounded-lg p-4">
-                  <div className="flex items-center gap-3 mb-2">
-                    <Badge variant="secondary">GET</Badge>
-                    <code className="text-sm font-mono">/ai-profile</code>
-                  </div>
-                  <p className="text-sm text-muted-foreground">
-                    Get user profile, settings, and idea statistics
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+          {/* Explorer Tab */}
+          <TabsContent value="explorer" className="space-y-6">
+            {spec ? (
+              <ApiExplorer spec={spec} operations={operations} />
+            ) : specLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Alert variant="destructive">
+                <AlertDescription>{specError || 'Failed to load the API specification'}</AlertDescription>
+              </Alert>
+            )}
           </TabsContent>
 
           {/* Authentication Tab */}
@@ -223,26 +192,17 @@ export const ApiDocumentation = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <h4 className="font-medium">Permission Levels</h4>
+                  <h4 className="font-medium">Scopes</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Each key is granted scopes when it is created. Requests outside them get a 403.
+                  </p>
                   <div className="space-y-2">
-                    <div className="flex items-center gap-2">
-                      <Badge variant="secondary">read</Badge>
-                      <span className="text-sm text-muted-foreground">
-                        Get ideas and profile information
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Badge variant="default">write</Badge>
-                      <span className="text-sm text-muted-foreground">
-                        Create, update, and delete ideas (includes read)
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Badge variant="destructive">admin</Badge>
-                      <span className="text-sm text-muted-foreground">
-                        Full access to all operations
-                      </span>
-                    </div>
+                    {scopeOperations.map(([scope, endpoints]) => (
+                      <div key={scope} className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary" className="font-mono">{scope}</Badge>
+                        <span className="text-sm text-muted-foreground">{endpoints.join(', ')}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </CardContent>
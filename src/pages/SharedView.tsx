@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Lightbulb, Lock, Calendar } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { BannerDisplay } from '@/components/ui/banner-display';
+import { MarkdownContent } from '@/components/ideas/MarkdownContent';
+import { useSharedContent } from '@/hooks/useSharedContent';
+import { statusConfig } from '@/types/idea';
+import { SharedIdea } from '@/types/share';
+
+const formatDate = (date: string) => {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  }).format(new Date(date));
+};
+
+// One shared idea, read-only
+const SharedIdeaView = ({ idea }: { idea: SharedIdea }) => {
+  const statusStyle = statusConfig[idea.status] ?? statusConfig.idea;
+
+  return (
+    <article className="overflow-hidden rounded-xl border bg-card shadow-elegant">
+      {idea.image_url && (
+        <BannerDisplay
+          images={idea.image_url}
+          alt={idea.title}
+          aspectRatio="21/9"
+          className="w-full rounded-none"
+        />
+      )}
+      <div className="space-y-6 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <h1 className="text-2xl sm:text-3xl font-bold break-words">{idea.title}</h1>
+          <Badge variant="secondary" className={`${statusStyle.color} border-0 flex-shrink-0`}>
+            {statusStyle.label}
+          </Badge>
+        </div>
+
+        {idea.description && <MarkdownContent content={idea.description} markdown={true} />}
+
+        {idea.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {idea.tags.map(tag => (
+              <Badge key={tag} variant="outline" className="bg-muted/50">{tag}</Badge>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Calendar className="h-4 w-4" />
+          <span>Updated {formatDate(idea.updated_at)}</span>
+        </div>
+      </div>
+    </article>
+  );
+};
+
+const SharedView = () => {
+  const { token } = useParams<{ token: string }>();
+  const { content, loading, unlock } = useSharedContent(token);
+  const [password, setPassword] = useState('');
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) unlock(password);
+  };
+
+  const renderContent = () => {
+    if (loading && !content) {
+      return <p className="text-center text-muted-foreground">Loading...</p>;
+    }
+
+    if (!content) {
+      return (
+        <div className="text-center max-w-md mx-auto">
+          <h1 className="text-2xl font-bold mb-2">This link is not available</h1>
+          <p className="text-muted-foreground">It may have expired or been revoked by its owner.</p>
+        </div>
+      );
+    }
+
+    if ('password_required' in content) {
+      return (
+        <form onSubmit={handleUnlock} className="max-w-sm mx-auto space-y-4 text-center">
+          <div className="w-12 h-12 mx-auto rounded-full bg-muted flex items-center justify-center">
+            <Lock className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold">Password required</h1>
+          <p className="text-muted-foreground">Enter the password you were given to view this page.</p>
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+          />
+          {content.invalid_password && (
+            <p className="text-sm text-destructive">That password is not correct.</p>
+          )}
+          {content.too_many_attempts && (
+            <p className="text-sm text-destructive">Too many wrong passwords. Try again in 15 minutes.</p>
+          )}
+          <Button type="submit" className="w-full" disabled={loading || !password}>
+            {loading ? 'Checking...' : 'View'}
+          </Button>
+        </form>
+      );
+    }
+
+    if ('idea' in content) {
+      return <SharedIdeaView idea={content.idea} />;
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <span
+            className="flex h-10 w-10 items-center justify-center rounded-lg text-xl"
+            style={{ backgroundColor: `${content.group.color}33` }}
+          >
+            {content.group.icon || '📁'}
+          </span>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold break-words">{content.group.name}</h1>
+            {content.group.description && <p className="text-muted-foreground">{content.group.description}</p>}
+          </div>
+        </div>
+        {content.ideas.length === 0 ? (
+          <p className="text-muted-foreground">There are no ideas in this group yet.</p>
+        ) : content.ideas.map(idea => (
+          <SharedIdeaView key={idea.id} idea={idea} />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b bg-background/80 backdrop-blur">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center gap-2">
+          <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center">
+            <Lightbulb className="w-4 h-4 text-white" />
+          </div>
+          <span className="font-semibold">Idea Hub</span>
+          <Badge variant="outline" className="ml-2">Shared, read-only</Badge>
+        </div>
+      </header>
+      <main className="container mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-10">
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default SharedView;
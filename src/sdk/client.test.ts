@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { IdeaHubClient } from './client';
+
+describe('IdeaHubClient', () => {
+  it('needs the base URL of the project it talks to', () => {
+    expect(() => new IdeaHubClient({ apiKey: 'iah_test' } as never)).toThrow('needs a baseUrl');
+  });
+
+  it('sends requests below the base URL, with or without a trailing slash', async () => {
+    const urls: string[] = [];
+    const client = new IdeaHubClient({
+      baseUrl: 'https://project.supabase.co/functions/v1/',
+      apiKey: 'iah_test',
+      fetch: (async (url: string | URL | Request) => {
+        urls.push(String(url));
+        return new Response(JSON.stringify({ data: { id: 'profile' } }), { headers: { 'Content-Type': 'application/json' } });
+      }) as typeof fetch,
+    });
+
+    await client.profile.get();
+
+    expect(urls).toEqual(['https://project.supabase.co/functions/v1/ai-profile']);
+  });
+});
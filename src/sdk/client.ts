@@ -0,0 +1,303 @@
+import { createApiError, IdeaHubNetworkError, RateLimitError } from './errors';
+import type {
+  ApiErrorBody,
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyUpdate,
+  ApiKeyWithSecret,
+  BatchOperation,
+  BatchResponse,
+  ExportFormat,
+  Idea,
+  IdeaComment,
+  IdeaInput,
+  IdeaPage,
+  IdeaSearchHit,
+  IdeaUpdate,
+  ListIdeasParams,
+  Profile,
+  RateLimitInfo,
+} from './types';
+
+export interface IdeaHubClientOptions {
+  // The project's functions endpoint, https://<project-ref>.supabase.co/functions/v1
+  baseUrl: string;
+  // For ideas and profile; created under Settings → API Keys
+  apiKey?: string;
+  // A signed in user's session token, for key management and exports
+  accessToken?: string;
+  // How often a request rejected with 429 is retried before RateLimitError is thrown
+  maxRetries?: number;
+  // Longest Retry-After the client waits out; longer waits throw straight away
+  maxRetryDelaySeconds?: number;
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  auth?: 'apiKey' | 'session';
+  // Download the body as a Blob instead of parsing it as JSON
+  responseType?: 'json' | 'blob';
+}
+
+export interface IdempotentRequestOptions {
+  // Repeats with the same key and body within 24 hours return the first response
+  // instead of creating the ideas again
+  idempotencyKey?: string;
+}
+
+export interface ConditionalRequestOptions {
+  // Only update if the idea is still at this version: an idea read earlier, or its ETag.
+  // Otherwise PreconditionFailedError is thrown with the current version.
+  ifMatch?: Idea | string;
+}
+
+// An idea's ETag is its updated_at in quotes
+export const ideaETag = (idea: Pick<Idea, 'updated_at'>) => `"${idea.updated_at}"`;
+
+const ifMatchHeaders = ({ ifMatch }: ConditionalRequestOptions) => {
+  if (!ifMatch) return undefined;
+  return { 'If-Match': typeof ifMatch === 'string' ? ifMatch : ideaETag(ifMatch) };
+};
+
+const idempotencyHeaders = (options: IdempotentRequestOptions) =>
+  options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toQueryValue = (value: string | Date | undefined) => value instanceof Date ? value.toISOString() : value;
+
+// Client for the IdeaHub API. Every method throws an IdeaHubApiError subclass on failure.
+export class IdeaHubClient {
+  private readonly options: Required<Omit<IdeaHubClientOptions, 'apiKey' | 'accessToken'>> & Pick<IdeaHubClientOptions, 'apiKey' | 'accessToken'>;
+
+  // From the X-RateLimit-* headers of the latest API key request
+  rateLimit: RateLimitInfo | null = null;
+
+  constructor(options: IdeaHubClientOptions) {
+    if (!options?.baseUrl) {
+      throw new TypeError('IdeaHubClient needs a baseUrl, such as https://<project-ref>.supabase.co/functions/v1');
+    }
+
+    this.options = {
+      maxRetries: 3,
+      maxRetryDelaySeconds: 60,
+      fetch: globalThis.fetch.bind(globalThis),
+      ...options,
+      baseUrl: options.baseUrl.replace(/\/+$/, ''),
+    };
+  }
+
+  readonly ideas = {
+    list: (params: ListIdeasParams = {}) => {
+      return this.request<IdeaPage>('/ai-ideas', { query: this.ideaListQuery(params) });
+    },
+
+    get: async (ideaId: string) => {
+      return (await this.request<{ data: Idea }>(`/ai-ideas/${encodeURIComponent(ideaId)}`)).data;
+    },
+
+    create: async (input: IdeaInput, options: IdempotentRequestOptions = {}) => {
+      return (await this.request<{ data: Idea }>('/ai-ideas', { method: 'POST', body: input, headers: idempotencyHeaders(options) })).data;
+    },
+
+    update: async (ideaId: string, updates: IdeaUpdate, options: ConditionalRequestOptions = {}) => {
+      return (await this.request<{ data: Idea }>(`/ai-ideas/${encodeURIComponent(ideaId)}`, {
+        method: 'PUT',
+        body: updates,
+        headers: ifMatchHeaders(options),
+      })).data;
+    },
+
+    archive: (ideaId: string) => {
+      return this.ideas.update(ideaId, { status: 'archived' });
+    },
+
+    // Moves the idea to the trash; permanent deletes it for good and needs the ideas:delete scope
+    delete: async (ideaId: string, options: { permanent?: boolean } = {}) => {
+      return (await this.request<{ data: Idea }>(`/ai-ideas/${encodeURIComponent(ideaId)}`, {
+        method: 'DELETE',
+        query: options.permanent ? { permanent: 'true' } : undefined,
+      })).data;
+    },
+
+    // Oldest first; needs the comments:read scope as well as ideas:read
+    comments: async (ideaId: string, options: { includeHistory?: boolean } = {}) => {
+      return (await this.request<{ data: IdeaComment[] }>(`/ai-ideas/${encodeURIComponent(ideaId)}/comments`, {
+        query: options.includeHistory ? { include_history: 'true' } : undefined,
+      })).data;
+    },
+
+    // Atomic batches throw if any operation fails; partial ones report per operation
+    batch: (operations: BatchOperation[], mode: 'atomic' | 'partial' = 'atomic', options: IdempotentRequestOptions = {}) => {
+      return this.request<BatchResponse>('/ai-ideas/batch', { method: 'POST', body: { mode, operations }, headers: idempotencyHeaders(options) });
+    },
+
+    // A file with every idea outside the trash; sent with the session token when there is no API key.
+    // API keys export their own workspace, sessions the given one or the personal workspace.
+    export: (format: ExportFormat = 'json', options: { workspaceId?: string } = {}) => {
+      return this.request<Blob>('/ai-ideas/export', {
+        query: { format, workspace_id: options.workspaceId },
+        auth: this.options.apiKey ? 'apiKey' : 'session',
+        responseType: 'blob',
+      });
+    },
+
+    // Every page of a listing, following cursors (or offsets for searches)
+    pages: (params: ListIdeasParams = {}) => this.ideaPages(params),
+
+    // Every idea matching the filters, one at a time
+    iterate: (params: ListIdeasParams = {}) => this.iterateIdeas(params),
+  };
+
+  readonly profile = {
+    get: async () => {
+      return (await this.request<{ data: Profile }>('/ai-profile')).data;
+    },
+  };
+
+  readonly keys = {
+    list: async () => {
+      return (await this.request<{ data: ApiKey[] }>('/ai-keys', { auth: 'session' })).data;
+    },
+
+    get: async (keyId: string) => {
+      return (await this.request<{ data: ApiKey }>(`/ai-keys/${encodeURIComponent(keyId)}`, { auth: 'session' })).data;
+    },
+
+    create: (input: ApiKeyInput) => {
+      return this.request<ApiKeyWithSecret>('/ai-keys', { method: 'POST', body: input, auth: 'session' });
+    },
+
+    update: async (keyId: string, updates: ApiKeyUpdate) => {
+      return (await this.request<{ data: ApiKey }>(`/ai-keys/${encodeURIComponent(keyId)}`, { method: 'PUT', body: updates, auth: 'session' })).data;
+    },
+
+    delete: async (keyId: string) => {
+      await this.request<{ message: string }>(`/ai-keys/${encodeURIComponent(keyId)}`, { method: 'DELETE', auth: 'session' });
+    },
+
+    rotate: (keyId: string, gracePeriodHours?: number) => {
+      return this.request<ApiKeyWithSecret>(`/ai-keys/${encodeURIComponent(keyId)}/rotate`, {
+        method: 'POST',
+        body: gracePeriodHours === undefined ? {} : { grace_period_hours: gracePeriodHours },
+        auth: 'session',
+      });
+    },
+  };
+
+  private ideaListQuery(params: ListIdeasParams): Record<string, string | undefined> {
+    return {
+      limit: params.limit?.toString(),
+      offset: params.offset?.toString(),
+      cursor: params.cursor,
+      search: params.search,
+      status: params.status,
+      tag: params.tags?.join(','),
+      color: params.color,
+      group_id: params.group_id,
+      created_after: toQueryValue(params.created_after),
+      created_before: toQueryValue(params.created_before),
+      updated_after: toQueryValue(params.updated_after),
+      updated_before: toQueryValue(params.updated_before),
+      sort: params.sort,
+      order: params.order,
+      count: params.count,
+    };
+  }
+
+  private async *ideaPages(params: ListIdeasParams): AsyncGenerator<IdeaPage> {
+    let next: ListIdeasParams = params;
+
+    while (true) {
+      const page = await this.ideas.list(next);
+      yield page;
+
+      if (page.meta.next_cursor) {
+        next = { ...params, offset: undefined, cursor: page.meta.next_cursor };
+      } else if (params.search && page.meta.offset !== null && page.meta.total !== null
+        && page.meta.offset + page.meta.count < page.meta.total && page.meta.count > 0) {
+        // Search results are ranked rather than sorted, so they page by offset
+        next = { ...params, offset: page.meta.offset + page.meta.count };
+      } else {
+        return;
+      }
+    }
+  }
+
+  private async *iterateIdeas(params: ListIdeasParams): AsyncGenerator<Idea | IdeaSearchHit> {
+    for await (const page of this.ideaPages(params)) {
+      yield* page.data;
+    }
+  }
+
+  private async request<T>(path: string, { method = 'GET', query, body, headers: extraHeaders, auth = 'apiKey', responseType = 'json' }: RequestOptions = {}): Promise<T> {
+    const url = new URL(`${this.options.baseUrl}${path}`);
+    Object.entries(query || {}).forEach(([name, value]) => {
+      if (value !== undefined && value !== '') url.searchParams.set(name, value);
+    });
+
+    const headers: Record<string, string> = { ...(body === undefined ? {} : { 'Content-Type': 'application/json' }), ...extraHeaders };
+    if (auth === 'session') {
+      if (!this.options.accessToken) throw new Error('An accessToken is required for this endpoint');
+      headers.Authorization = `Bearer ${this.options.accessToken}`;
+    } else {
+      if (!this.options.apiKey) throw new Error('An apiKey is required for this endpoint');
+      headers['x-api-key'] = this.options.apiKey;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.options.fetch(url.toString(), {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+      } catch (error) {
+        throw new IdeaHubNetworkError(`Could not reach ${url.origin}`, error);
+      }
+
+      this.readRateLimit(response);
+
+      if (response.ok && responseType === 'blob') {
+        return await response.blob() as T;
+      }
+
+      if (response.ok) {
+        try {
+          return await response.json() as T;
+        } catch (error) {
+          throw new IdeaHubNetworkError(`Invalid JSON in response from ${path}`, error);
+        }
+      }
+
+      const retryAfter = Number(response.headers.get('Retry-After')) || null;
+      const errorBody = await response.json().catch(() => undefined) as ApiErrorBody | undefined;
+      const error = createApiError(response.status, errorBody, retryAfter);
+
+      const canRetry = error instanceof RateLimitError
+        && attempt < this.options.maxRetries
+        && (retryAfter ?? 1) <= this.options.maxRetryDelaySeconds;
+      if (!canRetry) throw error;
+
+      await sleep((retryAfter ?? 1) * 1000);
+    }
+  }
+
+  private readRateLimit(response: Response) {
+    const limit = response.headers.get('X-RateLimit-Limit');
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) return;
+
+    this.rateLimit = {
+      limit: Number(limit),
+      remaining: Number(remaining),
+      resetAt: new Date(Number(reset) * 1000),
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import type { ApiErrorBody, Idea } from './types';
+
+// Thrown for every non-2xx response; status-specific subclasses below
+export class IdeaHubApiError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+  readonly body?: unknown;
+
+  constructor(status: number, body: ApiErrorBody | undefined) {
+    super(body?.error || `Request failed with status ${status}`);
+    this.name = 'IdeaHubApiError';
+    this.status = status;
+    this.details = body?.details;
+    this.body = body;
+  }
+
+  // Validation messages, when the function returned a list of them
+  get messages(): string[] {
+    return Array.isArray(this.details) ? this.details.filter((item): item is string => typeof item === 'string') : [this.message];
+  }
+}
+
+export class ValidationError extends IdeaHubApiError {
+  name = 'ValidationError';
+}
+
+export class AuthenticationError extends IdeaHubApiError {
+  name = 'AuthenticationError';
+}
+
+export class PermissionError extends IdeaHubApiError {
+  name = 'PermissionError';
+}
+
+export class NotFoundError extends IdeaHubApiError {
+  name = 'NotFoundError';
+}
+
+export class ConflictError extends IdeaHubApiError {
+  name = 'ConflictError';
+}
+
+// An If-Match update lost to a newer version; the body carries the current idea
+export class PreconditionFailedError extends IdeaHubApiError {
+  name = 'PreconditionFailedError';
+
+  get current(): Idea | undefined {
+    return (this.body as { data?: Idea } | undefined)?.data;
+  }
+}
+
+export class RateLimitError extends IdeaHubApiError {
+  name = 'RateLimitError';
+  // Seconds to wait before retrying, from the Retry-After header
+  retryAfter: number | null = null;
+}
+
+// Network failures and responses that are not JSON
+export class IdeaHubNetworkError extends Error {
+  name = 'IdeaHubNetworkError';
+
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+  }
+}
+
+const errorClasses: Record<number, typeof IdeaHubApiError> = {
+  400: ValidationError,
+  401: AuthenticationError,
+  403: PermissionError,
+  404: NotFoundError,
+  409: ConflictError,
+  412: PreconditionFailedError,
+  429: RateLimitError,
+};
+
+export function createApiError(status: number, body: ApiErrorBody | undefined, retryAfter: number | null) {
+  const ErrorClass = errorClasses[status] || IdeaHubApiError;
+  const error = new ErrorClass(status, body);
+  if (error instanceof RateLimitError) error.retryAfter = retryAfter;
+  return error;
+}
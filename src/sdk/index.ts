@@ -0,0 +1,18 @@
+// Typed client for the IdeaHub public API (ai-ideas, ai-profile and ai-keys).
+//
+//   const client = new IdeaHubClient({ baseUrl: 'https://<project-ref>.supabase.co/functions/v1', apiKey: 'iah_...' });
+//   for await (const idea of client.ideas.iterate({ status: 'research' })) { ... }
+export { IdeaHubClient, ideaETag } from './client';
+export type { IdeaHubClientOptions, IdempotentRequestOptions, ConditionalRequestOptions } from './client';
+export {
+  IdeaHubApiError,
+  IdeaHubNetworkError,
+  ValidationError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
+  PreconditionFailedError,
+  RateLimitError,
+} from './errors';
+export type * from './types';
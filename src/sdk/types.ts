@@ -0,0 +1,175 @@
+// Relative rather than through the @ alias, so the published declarations resolve it
+import type { Database } from '../integrations/supabase/types';
+
+type Tables = Database['public']['Tables'];
+
+export type IdeaStatus = 'idea' | 'research' | 'progress' | 'launched' | 'archived';
+
+export type ApiScope =
+  | 'ideas:read'
+  | 'ideas:create'
+  | 'ideas:update'
+  | 'ideas:archive'
+  | 'ideas:delete'
+  | 'groups:read'
+  | 'groups:write'
+  | 'profile:read'
+  | 'comments:read';
+
+// Ideas as the API returns them; the search vector is never exposed
+export type Idea = Omit<Tables['ideas']['Row'], 'search_vector'>;
+
+export type IdeaInput = Pick<
+  Tables['ideas']['Insert'],
+  'title' | 'description' | 'tags' | 'color' | 'group_id' | 'image_url' | 'board_position'
+> & { status?: IdeaStatus };
+
+// Any of the input fields, but at least one; fields left out keep their stored values
+export type IdeaUpdate = {
+  [K in keyof IdeaInput]-?: Required<Pick<IdeaInput, K>> & Partial<IdeaInput>;
+}[keyof IdeaInput];
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+// Ideas returned by a search, ranked and with the matches highlighted
+export interface IdeaSearchHit extends Idea {
+  rank: number;
+  highlight: {
+    title: string;
+    description: string;
+  };
+}
+
+export interface ListIdeasParams {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  search?: string;
+  status?: IdeaStatus;
+  tags?: string[];
+  color?: string;
+  // A group ID, or 'ungrouped'
+  group_id?: string;
+  created_after?: string | Date;
+  created_before?: string | Date;
+  updated_after?: string | Date;
+  updated_before?: string | Date;
+  sort?: 'created_at' | 'updated_at' | 'title' | 'status';
+  order?: 'asc' | 'desc';
+  count?: 'exact' | 'estimated' | 'none';
+}
+
+export interface ListMeta {
+  limit: number;
+  offset: number | null;
+  count: number;
+  total: number | null;
+  sort?: string;
+  order?: string;
+  next_cursor?: string | null;
+  prev_cursor?: string | null;
+}
+
+export interface IdeaPage {
+  data: (Idea | IdeaSearchHit)[];
+  meta: ListMeta;
+}
+
+export type BatchOperation =
+  | { op: 'create'; data: IdeaInput }
+  | { op: 'update'; id: string; data: IdeaUpdate }
+  | { op: 'archive'; id: string };
+
+export interface BatchOperationResult {
+  index: number;
+  op: BatchOperation['op'];
+  status: number;
+  id?: string;
+  data?: Idea;
+  error?: string;
+  details?: string[];
+}
+
+export interface BatchResponse {
+  data: BatchOperationResult[];
+  meta: {
+    mode: 'atomic' | 'partial';
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+}
+
+export interface CommentUser {
+  user_id: string;
+  display_name: string | null;
+}
+
+// Comments as the API returns them; deleted ones keep their place without a body
+export interface IdeaComment {
+  id: string;
+  idea_id: string;
+  parent_id: string | null;
+  author: CommentUser;
+  body: string | null;
+  mentions: CommentUser[];
+  created_at: string;
+  updated_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  history?: { body: string; action: 'edit' | 'delete'; created_at: string }[];
+}
+
+export interface Profile {
+  user_id: string;
+  profile: Pick<Tables['profiles']['Row'], 'display_name' | 'avatar_color' | 'created_at'>;
+  settings: Partial<Pick<Tables['user_settings']['Row'], 'theme' | 'auto_image_generation' | 'ai_description_enhancement' | 'markdown_preview'>>;
+  statistics: {
+    ideas: Partial<Record<IdeaStatus, number>> & { total?: number };
+  };
+  api_info: {
+    workspace_id: string;
+    role: 'owner' | 'editor' | 'viewer';
+    scopes: ApiScope[];
+    allowed_group_ids: string[] | null;
+    allowed_tags: string[] | null;
+    rate_limit_per_hour: number;
+  };
+}
+
+// API keys as the key management endpoints return them; hashes are never exposed
+export type ApiKey = Omit<Tables['api_keys']['Row'], 'key_hash' | 'previous_key_hash' | 'permissions' | 'user_id'> & {
+  scopes: ApiScope[];
+};
+
+export interface ApiKeyInput {
+  name: string;
+  // Defaults to the personal workspace; fixed once the key exists
+  workspace_id?: string;
+  scopes?: ApiScope[];
+  allowed_group_ids?: string[] | null;
+  allowed_tags?: string[] | null;
+  rate_limit_per_hour?: number;
+  expires_at?: string | null;
+}
+
+export type ApiKeyUpdate = Partial<Omit<ApiKeyInput, 'workspace_id'>> & { is_active?: boolean };
+
+// Returned when a key is created or rotated; the secret is not shown again
+export interface ApiKeyWithSecret {
+  data: ApiKey;
+  api_key: string;
+  message: string;
+}
+
+// The { error, details } body every function returns on failure
+export interface ApiErrorBody {
+  error: string;
+  details?: unknown;
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
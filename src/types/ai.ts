@@ -0,0 +1,54 @@
+export type AiProvider = 'deepseek' | 'openai-compatible' | 'ollama';
+
+// Mirrors the defaults in supabase/functions/_shared/ai.ts
+export const aiProviderOptions: {
+  value: AiProvider;
+  label: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl: string | null;
+  // Shown as the placeholder when there is no default
+  exampleBaseUrl?: string;
+}[] = [
+  {
+    value: 'deepseek',
+    label: 'DeepSeek',
+    description: 'The hosted DeepSeek API',
+    defaultModel: 'deepseek-chat',
+    defaultBaseUrl: 'https://api.deepseek.com'
+  },
+  {
+    value: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    description: 'Any server with a /chat/completions endpoint, such as OpenAI, OpenRouter or vLLM',
+    defaultModel: 'gpt-4o-mini',
+    defaultBaseUrl: null,
+    exampleBaseUrl: 'https://api.openai.com/v1'
+  },
+  {
+    value: 'ollama',
+    label: 'Ollama',
+    description: 'A self-hosted Ollama server at a public address the edge functions can reach; private addresses need the operator to allow them',
+    defaultModel: 'llama3.1',
+    defaultBaseUrl: null,
+    exampleBaseUrl: 'https://ollama.example.com'
+  },
+];
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  // May use {{title}}, {{description}} and {{tags}}
+  userPrompt: string;
+  // Presets shipped with the app; they cannot be edited or deleted
+  builtIn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const promptTemplateVariables = ['{{title}}', '{{description}}', '{{tags}}'];
+
+// The preset enhance-description falls back to when no template is chosen
+export const DEFAULT_PROMPT_TEMPLATE_ID = '00000000-0000-4000-8000-000000000001';
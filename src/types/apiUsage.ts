@@ -0,0 +1,28 @@
+export type UsageRange = '24h' | '7d' | '30d';
+
+// Requests counted by the rate limiter, per endpoint and hour
+export interface ApiRequestCount {
+  apiKeyId: string;
+  endpoint: string;
+  windowStart: Date;
+  requestsCount: number;
+}
+
+// Responses per endpoint, status code and hour
+export interface ApiStatusCount {
+  endpoint: string;
+  statusCode: number;
+  windowStart: Date;
+  requestsCount: number;
+}
+
+export interface ApiKeyUsage {
+  requests: ApiRequestCount[];
+  statuses: ApiStatusCount[];
+}
+
+export const usageRangeOptions: { value: UsageRange; label: string; hours: number }[] = [
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 24 * 7 },
+  { value: '30d', label: 'Last 30 days', hours: 24 * 30 },
+];
@@ -10,8 +10,85 @@ export interface Idea {
   updatedAt: Date;
   image_url?: string;
   original_description?: string;
+  // The prompt template behind the current enhanced description
+  enhancementTemplateId?: string | null;
+  enhancementTemplateName?: string | null;
+  groupId?: string | null;
+  boardPosition?: number | null;
+  // Raw updated_at, compared on conditional updates (Date drops the microseconds)
+  version?: string;
+  // Set while the idea is in the trash
+  deletedAt?: Date | null;
 }
 
+// Fields the conflict dialog lets the user pick between their edit and the saved version
+export type MergeableIdeaField = 'title' | 'description' | 'status' | 'tags' | 'color' | 'groupId';
+
+export type IdeaUpdateResult =
+  | { status: 'updated'; idea: Idea }
+  | { status: 'conflict'; current: Idea }
+  // RLS let the user read the idea but not change it, e.g. as a viewer
+  | { status: 'forbidden' }
+  | { status: 'failed' };
+
+export type IdeaUpdater = (
+  id: string,
+  updates: Partial<Idea>,
+  options?: { expectedVersion?: string }
+) => Promise<IdeaUpdateResult>;
+
+export interface IdeaGroup {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  color: string;
+  icon?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IdeaRevision {
+  id: string;
+  ideaId: string;
+  version: number;
+  title: string;
+  description: string;
+  status: IdeaStatus;
+  tags: string[];
+  changedFields: string[];
+  source: string;
+  createdAt: Date;
+}
+
+export interface IdeaComment {
+  id: string;
+  ideaId: string;
+  parentId: string | null;
+  userId: string;
+  body: string;
+  mentionedUserIds: string[];
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+export interface IdeaCommentRevision {
+  id: string;
+  commentId: string;
+  body: string;
+  action: 'edit' | 'delete';
+  createdAt: Date;
+}
+
+export interface IdeaSearchHit {
+  rank: number;
+  titleHighlight: string;
+  descriptionHighlight: string;
+}
+
+export type GroupFilter = string | 'all' | 'ungrouped';
+
 export type IdeaStatus = 'idea' | 'research' | 'progress' | 'launched' | 'archived';
 
 export type IdeaColor = 'yellow' | 'blue' | 'green' | 'pink' | 'purple' | 'orange' | 'gray';
@@ -32,4 +109,8 @@ export const colorConfig = {
   purple: { bg: 'bg-purple-100 hover:bg-purple-200', border: 'border-purple-200' },
   orange: { bg: 'bg-orange-100 hover:bg-orange-200', border: 'border-orange-200' },
   gray: { bg: 'bg-card hover:bg-card-hover', border: 'border-border' }
-};
\ No newline at end of file
+};
+
+export const groupColorOptions = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'];
+
+export const groupIconOptions = ['📁', '💡', '🚀', '🎯', '🧪', '💼', '🎨', '🛠️', '📱', '🌐', '🎮', '📚'];
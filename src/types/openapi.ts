@@ -0,0 +1,144 @@
+// The parts of the OpenAPI 3.1 document served by the api-spec function that the
+// documentation page and API explorer read
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  description?: string;
+  format?: string;
+  enum?: (string | number)[];
+  default?: unknown;
+  deprecated?: boolean;
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: OpenApiSchema;
+}
+
+export interface OpenApiResponse {
+  description: string;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content: Record<string, { schema: OpenApiSchema }> };
+  security: Record<string, string[]>[];
+  'x-required-scope'?: string;
+  responses: Record<string, OpenApiResponse>;
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export type OpenApiPathItem = Partial<Record<HttpMethod, OpenApiOperation>> & {
+  parameters?: OpenApiParameter[];
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers: { url: string }[];
+  tags: { name: string; description?: string }[];
+  paths: Record<string, OpenApiPathItem>;
+  components: {
+    securitySchemes: Record<string, { type: string; description?: string }>;
+    schemas: Record<string, OpenApiSchema>;
+  };
+}
+
+// An operation with its path and method, and path-level parameters merged in
+export interface ApiOperation extends OpenApiOperation {
+  path: string;
+  method: HttpMethod;
+  parameters: OpenApiParameter[];
+  auth: 'apiKey' | 'session';
+}
+
+export const httpMethods: HttpMethod[] = ['get', 'post', 'put', 'delete'];
+
+export const listOperations = (spec: OpenApiDocument): ApiOperation[] => {
+  return Object.entries(spec.paths).flatMap(([path, item]) =>
+    httpMethods
+      .filter(method => item[method])
+      .map(method => {
+        const operation = item[method]!;
+        return {
+          ...operation,
+          path,
+          method,
+          parameters: [...(item.parameters || []), ...(operation.parameters || [])],
+          auth: operation.security.some(requirement => 'bearerAuth' in requirement) ? 'session' as const : 'apiKey' as const,
+        };
+      })
+  );
+};
+
+// Follow a local $ref into components.schemas
+export const resolveSchema = (spec: OpenApiDocument, schema: OpenApiSchema | undefined): OpenApiSchema | undefined => {
+  if (!schema?.$ref) return schema;
+  return spec.components.schemas[schema.$ref.replace('#/components/schemas/', '')];
+};
+
+// Schema name of a $ref, for display
+export const schemaName = (schema: OpenApiSchema | undefined) => schema?.$ref?.split('/').pop();
+
+// Short type description of a schema, e.g. "string | null" or "Idea[]"
+export const schemaType = (schema: OpenApiSchema | undefined): string => {
+  if (!schema) return 'any';
+  if (schema.$ref) return schemaName(schema)!;
+  if (schema.enum) return schema.enum.join(' | ');
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type || 'any'];
+  return types.map(type => type === 'array' ? `${schemaType(schema.items)}[]` : type).join(' | ');
+};
+
+export const methodBadgeVariant = (method: HttpMethod) => {
+  if (method === 'get') return 'secondary' as const;
+  if (method === 'post') return 'default' as const;
+  if (method === 'put') return 'outline' as const;
+  return 'destructive' as const;
+};
+
+// Starting value for a request body in the explorer: required properties and those with
+// defaults, filled with their default, first enum value or an empty value of their type
+export const exampleValue = (spec: OpenApiDocument, schema: OpenApiSchema | undefined, depth = 0): unknown => {
+  const resolved = resolveSchema(spec, schema);
+  if (!resolved || depth > 3) return null;
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.enum) return resolved.enum[0];
+
+  const type = Array.isArray(resolved.type) ? resolved.type[0] : resolved.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(resolved.properties || {})
+          .filter(([name, property]) => resolved.required?.includes(name) || resolveSchema(spec, property)?.default !== undefined)
+          .map(([name, property]) => [name, exampleValue(spec, property, depth + 1)])
+      );
+    case 'array':
+      return resolved.items && resolveSchema(spec, resolved.items)?.type === 'object'
+        ? [exampleValue(spec, resolved.items, depth + 1)]
+        : [];
+    case 'integer':
+    case 'number':
+      return resolved.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return '';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,56 @@
+import { IdeaColor, IdeaStatus } from './idea';
+
+// What a share link points at: one idea or one group with its ideas
+export type ShareTarget =
+  | { type: 'idea'; id: string; name: string }
+  | { type: 'group'; id: string; name: string };
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  ideaId: string | null;
+  groupId: string | null;
+  hasPassword: boolean;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SharedIdea {
+  id: string;
+  title: string;
+  description: string;
+  status: IdeaStatus;
+  tags: string[];
+  color: IdeaColor;
+  image_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SharedGroup {
+  name: string;
+  description: string | null;
+  color: string;
+  icon: string | null;
+}
+
+// What get_shared_content returns for a link that is still valid
+export type SharedContent =
+  | { password_required: true; invalid_password?: boolean; too_many_attempts?: boolean }
+  | { idea: SharedIdea }
+  | { group: SharedGroup; ideas: SharedIdea[] };
+
+export const expiryOptions = [
+  { value: 'never', label: 'Never', days: null },
+  { value: '1', label: 'In 1 day', days: 1 },
+  { value: '7', label: 'In 7 days', days: 7 },
+  { value: '30', label: 'In 30 days', days: 30 }
+] as const;
+
+export const shareLinkUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const isShareLinkActive = (link: ShareLink) =>
+  !link.revokedAt && (!link.expiresAt || link.expiresAt.getTime() > Date.now());
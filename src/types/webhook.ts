@@ -0,0 +1,44 @@
+export type WebhookEvent =
+  | 'idea.created'
+  | 'idea.updated'
+  | 'idea.status_changed'
+  | 'idea.archived'
+  | 'idea.trashed'
+  | 'idea.restored';
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export const webhookEventOptions: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: 'idea.created', label: 'Idea created', description: 'A new idea was added' },
+  { value: 'idea.updated', label: 'Idea updated', description: 'Any field of an idea changed' },
+  { value: 'idea.status_changed', label: 'Status changed', description: 'An idea moved to a different status' },
+  { value: 'idea.archived', label: 'Idea archived', description: 'An idea was moved to archived' },
+  { value: 'idea.trashed', label: 'Idea trashed', description: 'An idea was moved to the trash' },
+  { value: 'idea.restored', label: 'Idea restored', description: 'An idea was restored from the trash' },
+];
@@ -0,0 +1,37 @@
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  // The signed-in user's role in the workspace
+  role: WorkspaceRole;
+  createdAt: Date;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  displayName: string | null;
+  email: string;
+  avatarColor: string;
+  joinedAt: Date;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspaceId: string;
+  // Only known for invitations sent to the signed-in user
+  workspaceName?: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: Date;
+}
+
+export const roleConfig: Record<WorkspaceRole, { label: string; description: string }> = {
+  owner: { label: 'Owner', description: 'Manages the workspace, its members and invitations' },
+  editor: { label: 'Editor', description: 'Creates, edits and deletes ideas and groups' },
+  viewer: { label: 'Viewer', description: 'Can view ideas and groups and comment on ideas' }
+};
+
+export const canEditWorkspace = (role: WorkspaceRole | undefined) => role === 'owner' || role === 'editor';
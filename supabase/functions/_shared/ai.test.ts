@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiProviderError, createAiProvider } from './ai.ts';
+
+let env: Record<string, string>;
+let requests: { url: string; headers: Record<string, string>; body: Record<string, unknown> }[];
+
+beforeEach(() => {
+  env = { DEEPSEEK_API_KEY: 'operator-deepseek', OPENAI_COMPATIBLE_API_KEY: 'operator-openai' };
+  requests = [];
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } });
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    requests.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) });
+    return new Response(JSON.stringify({
+      choices: [{ message: { content: 'Enhanced' } }],
+      message: { content: 'Enhanced' }
+    }));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const messages = [{ role: 'user' as const, content: 'Improve this' }];
+
+function rejection(config: Parameters<typeof createAiProvider>[0]) {
+  try {
+    createAiProvider(config);
+  } catch (error) {
+    return error as AiProviderError;
+  }
+  throw new Error('Expected createAiProvider to throw');
+}
+
+describe('createAiProvider', () => {
+  it('sends the operator key to the default DeepSeek URL', async () => {
+    const provider = createAiProvider({});
+
+    expect(await provider.complete(messages)).toBe('Enhanced');
+    expect(requests[0].url).toBe('https://api.deepseek.com/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer operator-deepseek');
+    expect(requests[0].body.model).toBe('deepseek-chat');
+  });
+
+  it('prefers the key the user sent', async () => {
+    await createAiProvider({ apiKey: 'user-key' }).complete(messages);
+
+    expect(requests[0].headers.Authorization).toBe('Bearer user-key');
+  });
+
+  it('withholds the operator key from a custom base URL', async () => {
+    await createAiProvider({ provider: 'openai-compatible', baseUrl: 'https://llm.example.com/v1' }).complete(messages);
+
+    expect(requests[0].url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBeUndefined();
+  });
+
+  it('requires the user key for a custom DeepSeek base URL', () => {
+    const error = rejection({ provider: 'deepseek', baseUrl: 'https://attacker.example.com' });
+
+    expect(error).toBeInstanceOf(AiProviderError);
+    expect(error.status).toBe(400);
+  });
+
+  it('never sends the operator key to a custom base URL', async () => {
+    await createAiProvider({ provider: 'openai-compatible', baseUrl: 'https://llm.example.com/v1/', apiKey: 'user-key' })
+      .complete(messages);
+
+    expect(requests[0].url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer user-key');
+  });
+
+  it('sends the operator key to allowed hosts', async () => {
+    env.AI_ALLOWED_HOSTS = 'llm.example.com, other.example.com';
+
+    await createAiProvider({ provider: 'openai-compatible', baseUrl: 'https://LLM.example.com/v1' }).complete(messages);
+
+    expect(requests[0].headers.Authorization).toBe('Bearer operator-openai');
+  });
+
+  it.each([
+    'http://localhost:11434',
+    'http://127.0.0.1:8080',
+    'http://2130706433',
+    'http://10.0.0.5',
+    'http://172.20.1.1',
+    'http://192.168.1.10',
+    'http://169.254.169.254/latest',
+    'http://metadata.google.internal',
+    'http://[::1]:11434',
+    'http://[::ffff:127.0.0.1]',
+    'http://[fd00::1]',
+    'http://[fe80::1]'
+  ])('refuses the private address %s', baseUrl => {
+    const error = rejection({ provider: 'openai-compatible', baseUrl, apiKey: 'user-key' });
+
+    expect(error.status).toBe(400);
+    expect(error.message).toContain('private address');
+  });
+
+  it('asks for a base URL for Ollama', () => {
+    expect(rejection({ provider: 'ollama' }).message).toContain('Set a base URL for the Ollama');
+  });
+
+  it('reaches an Ollama server on a private host once the host is allowed', async () => {
+    expect(rejection({ provider: 'ollama', baseUrl: 'http://localhost:11434' }).status).toBe(400);
+
+    env.AI_ALLOWED_HOSTS = 'localhost';
+    const provider = createAiProvider({ provider: 'ollama', baseUrl: 'http://localhost:11434' });
+
+    expect(await provider.complete(messages)).toBe('Enhanced');
+    expect(requests[0].url).toBe('http://localhost:11434/api/chat');
+  });
+
+  it('rejects base URLs that are not http or https', () => {
+    expect(rejection({ provider: 'openai-compatible', baseUrl: 'file:///etc/passwd', apiKey: 'user-key' }).status).toBe(400);
+    expect(rejection({ provider: 'openai-compatible', baseUrl: 'not a url', apiKey: 'user-key' }).status).toBe(400);
+  });
+
+  it('asks for a base URL when the OpenAI-compatible provider has none', () => {
+    expect(rejection({ provider: 'openai-compatible' }).message).toContain('Set a base URL');
+  });
+});
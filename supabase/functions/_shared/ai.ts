@@ -0,0 +1,243 @@
+// Text generation behind one interface, so functions do not depend on a vendor. Each user picks
+// a provider, model and base URL in Settings; unset fields fall back to the provider's defaults.
+// The operator's keys only go to the default base URLs and to hosts listed in AI_ALLOWED_HOSTS
+// (comma separated); other URLs get the user's key or none, and may not be private addresses.
+// Ollama has no default URL: a server on the functions' own localhost is never reachable.
+
+import { isPrivateHost } from './hosts.ts';
+
+export const AI_PROVIDERS = ['deepseek', 'openai-compatible', 'ollama'] as const;
+
+export type AiProviderName = typeof AI_PROVIDERS[number];
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Stops the request to the provider, e.g. when the client goes away mid-stream
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  name: AiProviderName;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  // The same completion, yielded in pieces as the provider generates them
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string>;
+}
+
+export interface AiProviderConfig {
+  provider?: string | null;
+  model?: string | null;
+  baseUrl?: string | null;
+  // A key sent by the user in developer mode; otherwise the provider's environment variable
+  apiKey?: string | null;
+}
+
+// Errors worth showing to the user as they are, such as a missing key or an unreachable endpoint
+export class AiProviderError extends Error {
+  constructor(message: string, public readonly status = 502) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
+
+const DEFAULTS: Record<AiProviderName, { model: string; baseUrl: string | null; keyEnv: string | null }> = {
+  deepseek: { model: 'deepseek-chat', baseUrl: 'https://api.deepseek.com', keyEnv: 'DEEPSEEK_API_KEY' },
+  'openai-compatible': { model: 'gpt-4o-mini', baseUrl: null, keyEnv: 'OPENAI_COMPATIBLE_API_KEY' },
+  ollama: { model: 'llama3.1', baseUrl: null, keyEnv: null }
+};
+
+const LABELS: Record<AiProviderName, string> = {
+  deepseek: 'Deepseek',
+  'openai-compatible': 'OpenAI-compatible provider',
+  ollama: 'Ollama'
+};
+
+const isProviderName = (value: unknown): value is AiProviderName =>
+  typeof value === 'string' && (AI_PROVIDERS as readonly string[]).includes(value);
+
+// Hosts the operator trusts with their keys, including private ones such as a local Ollama server
+function allowedHosts() {
+  return (Deno.env.get('AI_ALLOWED_HOSTS') ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function normalizeBaseUrl(value: string) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new AiProviderError('The AI base URL is not a valid URL', 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new AiProviderError('The AI base URL must use http or https', 400);
+  }
+  return url.toString().replace(/\/+$/, '');
+}
+
+async function post(url: string, body: unknown, headers: Record<string, string>, label: string, signal?: AbortSignal) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      // A redirect could lead to an address the base URL checks would have refused
+      redirect: 'error',
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`${label} request failed:`, error);
+    throw new AiProviderError(`Could not reach ${label} at ${new URL(url).origin}`);
+  }
+
+  if (!response.ok) {
+    console.error(`${label} API error:`, await response.text());
+    throw new AiProviderError(`${label} API error: ${response.status}`);
+  }
+
+  return response;
+}
+
+// Non-empty lines of a streamed response body
+async function* readLines(response: Response) {
+  if (!response.body) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+  if (buffer.trim()) yield buffer.trim();
+}
+
+// POST {baseUrl}/chat/completions, which DeepSeek, OpenAI and most hosted vendors accept
+function openAiCompatibleProvider(name: AiProviderName, label: string, baseUrl: string, model: string, apiKey: string | null): AiProvider {
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  return {
+    name,
+    model,
+    async complete(messages, { temperature = 0.7, maxTokens = 2000, signal } = {}) {
+      const response = await post(
+        `${baseUrl}/chat/completions`,
+        { model, messages, temperature, max_tokens: maxTokens },
+        headers,
+        label,
+        signal
+      );
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new AiProviderError(`${label} returned no text`);
+      }
+      return content;
+    },
+    // Server-sent events: "data: {json}" per chunk, then "data: [DONE]"
+    async *stream(messages, { temperature = 0.7, maxTokens = 2000, signal } = {}) {
+      const response = await post(
+        `${baseUrl}/chat/completions`,
+        { model, messages, temperature, max_tokens: maxTokens, stream: true },
+        headers,
+        label,
+        signal
+      );
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+      }
+    }
+  };
+}
+
+// POST {baseUrl}/api/chat on an Ollama server, which needs no key
+function ollamaProvider(baseUrl: string, model: string): AiProvider {
+  return {
+    name: 'ollama',
+    model,
+    async complete(messages, { temperature = 0.7, maxTokens = 2000, signal } = {}) {
+      const response = await post(
+        `${baseUrl}/api/chat`,
+        { model, messages, stream: false, options: { temperature, num_predict: maxTokens } },
+        {},
+        'Ollama',
+        signal
+      );
+      const data = await response.json();
+      const content = data.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new AiProviderError('Ollama returned no text');
+      }
+      return content;
+    },
+    // Newline-delimited JSON, one object per chunk, the last with done: true
+    async *stream(messages, { temperature = 0.7, maxTokens = 2000, signal } = {}) {
+      const response = await post(
+        `${baseUrl}/api/chat`,
+        { model, messages, stream: true, options: { temperature, num_predict: maxTokens } },
+        {},
+        'Ollama',
+        signal
+      );
+      for await (const line of readLines(response)) {
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new AiProviderError(`Ollama error: ${chunk.error}`);
+        const delta = chunk.message?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+        if (chunk.done) return;
+      }
+    }
+  };
+}
+
+export function createAiProvider(config: AiProviderConfig = {}): AiProvider {
+  const name = isProviderName(config.provider) ? config.provider : 'deepseek';
+  const defaults = DEFAULTS[name];
+  const model = config.model?.trim() || defaults.model;
+  const baseUrlSetting = config.baseUrl?.trim() || defaults.baseUrl;
+
+  if (!baseUrlSetting) {
+    throw new AiProviderError(`Set a base URL for the ${LABELS[name]} in Settings`, 400);
+  }
+  const baseUrl = normalizeBaseUrl(baseUrlSetting);
+  const host = new URL(baseUrl).hostname.toLowerCase();
+  const isAllowedHost = allowedHosts().includes(host);
+  const isDefaultUrl = defaults.baseUrl !== null && baseUrl === normalizeBaseUrl(defaults.baseUrl);
+
+  if (!isAllowedHost && isPrivateHost(host)) {
+    throw new AiProviderError(`The AI base URL points to a private address; ${host} has to be added to AI_ALLOWED_HOSTS`, 400);
+  }
+  // Other hosts get the user's key or none at all, which keyless self-hosted servers accept
+  const trustedUrl = isAllowedHost || isDefaultUrl;
+  const envKey = trustedUrl && defaults.keyEnv ? Deno.env.get(defaults.keyEnv) : undefined;
+  const apiKey = config.apiKey || envKey || null;
+
+  switch (name) {
+    case 'deepseek':
+      if (!apiKey) {
+        throw trustedUrl
+          ? new AiProviderError('Deepseek API key not configured', 500)
+          : new AiProviderError('A custom Deepseek base URL needs your own API key unless its host is in AI_ALLOWED_HOSTS', 400);
+      }
+      return openAiCompatibleProvider(name, LABELS[name], baseUrl, model, apiKey);
+    case 'openai-compatible':
+      return openAiCompatibleProvider(name, LABELS[name], baseUrl, model, apiKey);
+    case 'ollama':
+      return ollamaProvider(baseUrl, model);
+  }
+}
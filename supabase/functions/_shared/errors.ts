@@ -0,0 +1,3 @@
+// Thrown when the API key of a request is malformed, unknown, inactive or expired.
+// Function handlers answer it with 401 instead of the generic 500.
+export class ApiKeyError extends Error {}
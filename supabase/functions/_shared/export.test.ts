@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EXPORT_PAGE_SIZE, ExportData, loadExportData, renderExport } from './export.ts';
+
+const idea = (overrides: Partial<ExportData['ideas'][number]> = {}): ExportData['ideas'][number] => ({
+  id: '6f1c0c7e-0000-4000-8000-000000000001',
+  group_id: null,
+  title: 'Voice notes to ideas',
+  description: 'Record a thought, get an idea card',
+  status: 'research',
+  tags: ['audio', 'mobile'],
+  color: 'blue',
+  image_url: null,
+  board_position: 1,
+  created_at: '2026-10-01T09:00:00+00:00',
+  updated_at: '2026-10-02T09:00:00+00:00',
+  ...overrides
+});
+
+const group = {
+  id: 'group-1',
+  name: 'Side projects',
+  description: null,
+  color: 'green',
+  icon: null,
+  created_at: '2026-09-01T09:00:00+00:00',
+  updated_at: '2026-09-01T09:00:00+00:00'
+};
+
+const exportedAt = new Date('2026-10-19T12:00:00Z');
+
+describe('renderExport', () => {
+  it('writes a versioned JSON archive', () => {
+    const data: ExportData = { ideas: [idea()], groups: [group], settings: { theme: 'dark' } };
+    const file = renderExport('json', data, exportedAt);
+
+    expect(file.filename).toBe('ideahub-export-2026-10-19.json');
+    expect(file.contentType).toBe('application/json');
+    expect(JSON.parse(file.body as string)).toEqual({
+      version: 1,
+      exported_at: '2026-10-19T12:00:00.000Z',
+      ...data
+    });
+  });
+
+  it('writes one CSV row per idea with group names', () => {
+    const file = renderExport('csv', { ideas: [idea({ group_id: 'group-1' })], groups: [group], settings: null }, exportedAt);
+    const [header, row] = (file.body as string).split('\r\n');
+
+    expect(file.filename).toBe('ideahub-export-2026-10-19.csv');
+    expect(header).toBe('id,title,description,status,tags,color,group,image_url,created_at,updated_at');
+    expect(row).toBe('6f1c0c7e-0000-4000-8000-000000000001,Voice notes to ideas,"Record a thought, get an idea card",'
+      + 'research,audio; mobile,blue,Side projects,,2026-10-01T09:00:00+00:00,2026-10-02T09:00:00+00:00');
+  });
+
+  it('quotes CSV cells and neutralises formulas', () => {
+    const file = renderExport('csv', {
+      ideas: [idea({ title: '=HYPERLINK("x")', description: 'Line one\nsaid "hi", twice' })],
+      groups: null,
+      settings: null
+    }, exportedAt);
+
+    expect(file.body).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(file.body).toContain('"Line one\nsaid ""hi"", twice"');
+  });
+
+  it('zips one Markdown file with front matter per idea', () => {
+    const file = renderExport('markdown', {
+      ideas: [
+        idea({ group_id: 'group-1' }),
+        idea({ id: 'abcdef12-0000-4000-8000-000000000002', description: null })
+      ],
+      groups: [group],
+      settings: null
+    }, exportedAt);
+
+    expect(file.filename).toBe('ideahub-export-2026-10-19.zip');
+    expect(file.contentType).toBe('application/zip');
+
+    const files = unzipSync(file.body as Uint8Array);
+    expect(Object.keys(files)).toEqual(['ideas/voice-notes-to-ideas.md', 'ideas/voice-notes-to-ideas-abcdef12.md']);
+
+    const first = strFromU8(files['ideas/voice-notes-to-ideas.md']);
+    expect(first).toContain('title: "Voice notes to ideas"\nstatus: research\ntags: ["audio","mobile"]');
+    expect(first).toContain('group: "Side projects"');
+    expect(first).toContain('# Voice notes to ideas\n\nRecord a thought, get an idea card\n');
+  });
+});
+
+// Answers each ranged query with that slice of the table, like PostgREST below max_rows
+function fakeSupabase(tables: Record<string, unknown[]>) {
+  const ranges: [string, number, number][] = [];
+  const client = {
+    from(table: string) {
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        is: () => builder,
+        in: () => builder,
+        overlaps: () => builder,
+        order: () => builder,
+        range: async (from: number, to: number) => {
+          ranges.push([table, from, to]);
+          return { data: tables[table].slice(from, to + 1), error: null };
+        }
+      };
+      return builder;
+    }
+  };
+  return { client: client as unknown as SupabaseClient, ranges };
+}
+
+describe('loadExportData', () => {
+  it('reads every page until a short one comes back', async () => {
+    const ideas = Array.from({ length: EXPORT_PAGE_SIZE * 2 + 5 }, (_, i) => idea({ id: `idea-${i}` }));
+    const { client, ranges } = fakeSupabase({ ideas, idea_groups: [group] });
+
+    const data = await loadExportData(client, 'user', 'workspace', null, { groups: true, settings: false });
+
+    expect(data.ideas).toHaveLength(ideas.length);
+    expect(data.ideas.at(-1)?.id).toBe(`idea-${ideas.length - 1}`);
+    expect(data.groups).toEqual([group]);
+    expect(ranges.filter(([table]) => table === 'ideas').map(([, from]) => from))
+      .toEqual([0, EXPORT_PAGE_SIZE, EXPORT_PAGE_SIZE * 2]);
+  });
+});
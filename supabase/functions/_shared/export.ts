@@ -0,0 +1,218 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { strToU8, zipSync } from 'https://esm.sh/fflate@0.8.2';
+import type { KeyAccess } from './scopes.ts';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Bumped when the layout of the JSON archive changes
+const ARCHIVE_VERSION = 1;
+
+const EXPORT_IDEA_COLUMNS = 'id, group_id, title, description, status, tags, color, image_url, board_position, created_at, updated_at';
+
+interface ExportIdea {
+  id: string;
+  group_id: string | null;
+  title: string;
+  description: string | null;
+  status: string;
+  tags: string[] | null;
+  color: string;
+  image_url: string | null;
+  board_position: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ExportGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string;
+  icon: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExportData {
+  ideas: ExportIdea[];
+  // Left out when the caller may not read them
+  groups: ExportGroup[] | null;
+  settings: Record<string, unknown> | null;
+}
+
+export interface ExportFile {
+  body: string | Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+// PostgREST returns at most max_rows rows per request, so exports read page by page
+export const EXPORT_PAGE_SIZE = 1000;
+
+// Every row of a query, requesting pages until one comes back short. The query has to be
+// ordered by a unique key so rows do not move between pages.
+async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[]; error: unknown }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await page(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+// Load everything an export of a workspace holds, with the exporting user's settings. Ideas in
+// the trash are left out, and an API key only exports the ideas and groups it is limited to;
+// without a key (a signed-in user) nothing is.
+export async function loadExportData(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string,
+  access: KeyAccess | null,
+  include: { groups: boolean; settings: boolean }
+): Promise<ExportData> {
+  const ideaPage = (from: number, to: number) => {
+    let query = supabase
+      .from('ideas')
+      .select(EXPORT_IDEA_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+    if (access?.allowed_group_ids) query = query.in('group_id', access.allowed_group_ids);
+    if (access?.allowed_tags) query = query.overlaps('tags', access.allowed_tags);
+    return query.range(from, to);
+  };
+
+  const groupPage = (from: number, to: number) => {
+    let query = supabase
+      .from('idea_groups')
+      .select('id, name, description, color, icon, created_at, updated_at')
+      .eq('workspace_id', workspaceId)
+      .order('name', { ascending: true })
+      .order('id', { ascending: true });
+    if (access?.allowed_group_ids) query = query.in('id', access.allowed_group_ids);
+    return query.range(from, to);
+  };
+
+  const [ideas, groups, settings] = await Promise.all([
+    fetchAllRows(ideaPage),
+    include.groups ? fetchAllRows(groupPage) : null,
+    include.settings
+      ? supabase
+        .from('user_settings')
+        .select('theme, auto_image_generation, ai_description_enhancement, markdown_preview, trash_retention_days, ai_provider, ai_model, ai_base_url')
+        .eq('user_id', userId)
+        .maybeSingle()
+      : null
+  ]);
+
+  const error = ideas.error || groups?.error || settings?.error;
+  if (error) {
+    console.error('Export query error:', error);
+    throw new Error('Failed to load ideas for export');
+  }
+
+  return {
+    ideas: ideas.data as ExportIdea[],
+    groups: groups ? groups.data as ExportGroup[] : null,
+    settings: settings ? settings.data ?? {} : null
+  };
+}
+
+// Quote a CSV cell when needed. Cells that a spreadsheet would run as a formula get a leading
+// apostrophe so opening an export cannot execute anything.
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(data: ExportData): string {
+  const groupNames = new Map((data.groups || []).map(group => [group.id, group.name]));
+  const header = ['id', 'title', 'description', 'status', 'tags', 'color', 'group', 'image_url', 'created_at', 'updated_at'];
+  const rows = data.ideas.map(idea => [
+    idea.id,
+    idea.title,
+    idea.description,
+    idea.status,
+    (idea.tags || []).join('; '),
+    idea.color,
+    idea.group_id ? groupNames.get(idea.group_id) ?? idea.group_id : '',
+    idea.image_url,
+    idea.created_at,
+    idea.updated_at
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// JSON strings are valid YAML scalars, so front matter values are written with JSON.stringify
+function toMarkdown(idea: ExportIdea, groupName: string | undefined): string {
+  const frontMatter = [
+    `title: ${JSON.stringify(idea.title)}`,
+    `status: ${idea.status}`,
+    `tags: ${JSON.stringify(idea.tags || [])}`,
+    `color: ${JSON.stringify(idea.color)}`,
+    ...(groupName ? [`group: ${JSON.stringify(groupName)}`] : []),
+    ...(idea.image_url ? [`image_url: ${JSON.stringify(idea.image_url)}`] : []),
+    `created_at: ${idea.created_at}`,
+    `updated_at: ${idea.updated_at}`,
+    `id: ${idea.id}`
+  ];
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n# ${idea.title}\n\n${idea.description || ''}\n`;
+}
+
+function markdownFilename(idea: ExportIdea, used: Set<string>): string {
+  const slug = idea.title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'idea';
+
+  const name = used.has(slug) ? `${slug}-${idea.id.slice(0, 8)}` : slug;
+  used.add(name);
+  return `ideas/${name}.md`;
+}
+
+function toMarkdownZip(data: ExportData): Uint8Array {
+  const groupNames = new Map((data.groups || []).map(group => [group.id, group.name]));
+  const used = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+
+  for (const idea of data.ideas) {
+    const groupName = idea.group_id ? groupNames.get(idea.group_id) : undefined;
+    files[markdownFilename(idea, used)] = strToU8(toMarkdown(idea, groupName));
+  }
+
+  return zipSync(files);
+}
+
+export function renderExport(format: ExportFormat, data: ExportData, exportedAt = new Date()): ExportFile {
+  const basename = `ideahub-export-${exportedAt.toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'csv':
+      return { body: toCsv(data), contentType: 'text/csv; charset=utf-8', filename: `${basename}.csv` };
+    case 'markdown':
+      return { body: toMarkdownZip(data), contentType: 'application/zip', filename: `${basename}.zip` };
+    default:
+      return {
+        body: JSON.stringify({
+          version: ARCHIVE_VERSION,
+          exported_at: exportedAt.toISOString(),
+          ideas: data.ideas,
+          groups: data.groups,
+          settings: data.settings
+        }, null, 2),
+        contentType: 'application/json',
+        filename: `${basename}.json`
+      };
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateHost } from './hosts.ts';
+
+const hostOf = (url: string) => new URL(url).hostname;
+
+describe('isPrivateHost', () => {
+  it.each([
+    'https://localhost/hooks',
+    'https://api.localhost',
+    'https://printer.local',
+    'https://metadata.google.internal',
+    'https://127.0.0.1',
+    'https://2130706433',
+    'https://10.0.0.5',
+    'https://100.64.0.1',
+    'https://169.254.169.254/latest',
+    'https://172.31.255.255',
+    'https://192.168.1.10',
+    'https://[::1]',
+    'https://[::ffff:127.0.0.1]',
+    'https://[fd00::1]',
+    'https://[fe80::1]',
+  ])('flags %s', url => {
+    expect(isPrivateHost(hostOf(url))).toBe(true);
+  });
+
+  it.each([
+    'https://example.com/hooks',
+    'https://hooks.zapier.com',
+    'https://8.8.8.8',
+    'https://172.32.0.1',
+    'https://[2606:4700::1111]',
+  ])('lets %s through', url => {
+    expect(isPrivateHost(hostOf(url))).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+// Loopback, private, link-local and similar addresses that should not be reachable from user
+// settings such as AI base URLs and webhook endpoints. URL parsing already turns shorthand IPv4
+// forms such as 2130706433 into dotted quads.
+export function isPrivateHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+
+  if (host.startsWith('[')) {
+    const ipv6 = host.slice(1, -1);
+    // Unspecified, loopback, IPv4-mapped, unique local (fc00::/7) and link-local (fe80::/10)
+    return ipv6 === '::' || ipv6 === '::1' || ipv6.startsWith('::ffff:') || /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6);
+  }
+
+  return false;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { REPLAYED_HEADER, withIdempotency } from './idempotency.ts';
+
+interface StoredKey {
+  request_hash: string;
+  response_status: number | null;
+  response_body: string | null;
+  response_headers: Record<string, string> | null;
+}
+
+// Keeps api_idempotency_keys in memory and answers claim_idempotency_key like the SQL function
+function fakeSupabase() {
+  const keys = new Map<string, StoredKey>();
+  const id = (filters: Record<string, string>) =>
+    `${filters.user_id}|${filters.endpoint}|${filters.idempotency_key}`;
+
+  const filtered = (run: (key: string) => void) => {
+    const filters: Record<string, string> = {};
+    const chain = {
+      eq(column: string, value: string) {
+        filters[column] = value;
+        if (Object.keys(filters).length === 3) {
+          run(id(filters));
+          return Promise.resolve({ error: null });
+        }
+        return chain;
+      }
+    };
+    return chain;
+  };
+
+  const client = {
+    rpc(_name: string, args: Record<string, string>) {
+      const key = id({ user_id: args.p_user_id, endpoint: args.p_endpoint, idempotency_key: args.p_key });
+      const existing = keys.get(key);
+      let data;
+      if (!existing) {
+        keys.set(key, { request_hash: args.p_request_hash, response_status: null, response_body: null, response_headers: null });
+        data = { outcome: 'claimed', response_status: null, response_body: null, response_headers: null };
+      } else if (existing.request_hash !== args.p_request_hash) {
+        data = { outcome: 'mismatch', response_status: null, response_body: null, response_headers: null };
+      } else if (existing.response_status === null) {
+        data = { outcome: 'in_progress', response_status: null, response_body: null, response_headers: null };
+      } else {
+        data = { outcome: 'replay', ...existing };
+      }
+      return { single: async () => ({ data, error: null }) };
+    },
+    from() {
+      return {
+        update: (values: Partial<StoredKey>) =>
+          filtered(key => keys.set(key, { ...keys.get(key)!, ...values })),
+        delete: () => filtered(key => keys.delete(key))
+      };
+    }
+  };
+
+  return { client: client as unknown as SupabaseClient, keys };
+}
+
+const cors = { 'Access-Control-Allow-Origin': '*' };
+
+function post(body: string, key?: string) {
+  return new Request('https://example.test/ai-ideas', {
+    method: 'POST',
+    body,
+    headers: key === undefined ? {} : { 'Idempotency-Key': key }
+  });
+}
+
+function createdHandler(calls: { count: number }) {
+  return async () => {
+    calls.count++;
+    return new Response(JSON.stringify({ data: { id: `idea-${calls.count}` } }), {
+      status: 201,
+      headers: { ...cors, 'Content-Type': 'application/json', ETag: `"v${calls.count}"` }
+    });
+  };
+}
+
+describe('withIdempotency', () => {
+  it('runs the handler every time without a key', async () => {
+    const { client } = fakeSupabase();
+    const calls = { count: 0 };
+
+    await withIdempotency(client, post('{}'), 'user', 'POST /ai-ideas', '{}', cors, createdHandler(calls));
+    await withIdempotency(client, post('{}'), 'user', 'POST /ai-ideas', '{}', cors, createdHandler(calls));
+
+    expect(calls.count).toBe(2);
+  });
+
+  it('replays the first response with its headers', async () => {
+    const { client } = fakeSupabase();
+    const calls = { count: 0 };
+    const body = '{"title":"Idea"}';
+
+    const first = await withIdempotency(client, post(body, 'k1'), 'user', 'POST /ai-ideas', body, cors, createdHandler(calls));
+    const replay = await withIdempotency(client, post(body, 'k1'), 'user', 'POST /ai-ideas', body, cors, createdHandler(calls));
+
+    expect(calls.count).toBe(1);
+    expect(replay.status).toBe(201);
+    expect(await replay.json()).toEqual(await first.json());
+    expect(replay.headers.get('ETag')).toBe('"v1"');
+    expect(replay.headers.get('Content-Type')).toBe('application/json');
+    expect(replay.headers.get(REPLAYED_HEADER)).toBe('true');
+    expect(first.headers.get(REPLAYED_HEADER)).toBeNull();
+  });
+
+  it('rejects a reused key with a different body', async () => {
+    const { client } = fakeSupabase();
+    const calls = { count: 0 };
+
+    await withIdempotency(client, post('{"a":1}', 'k1'), 'user', 'POST /ai-ideas', '{"a":1}', cors, createdHandler(calls));
+    const response = await withIdempotency(client, post('{"a":2}', 'k1'), 'user', 'POST /ai-ideas', '{"a":2}', cors, createdHandler(calls));
+
+    expect(response.status).toBe(422);
+    expect(calls.count).toBe(1);
+  });
+
+  it('reports a key whose first request has not finished', async () => {
+    const { client } = fakeSupabase();
+    let concurrent: Response | undefined;
+
+    await withIdempotency(client, post('{}', 'k1'), 'user', 'POST /ai-ideas', '{}', cors, async () => {
+      concurrent = await withIdempotency(client, post('{}', 'k1'), 'user', 'POST /ai-ideas', '{}', cors, createdHandler({ count: 0 }));
+      return new Response('{}', { status: 201 });
+    });
+
+    expect(concurrent?.status).toBe(409);
+    expect(concurrent?.headers.get('Retry-After')).toBe('1');
+  });
+
+  it('frees the key after a server error so a retry runs again', async () => {
+    const { client, keys } = fakeSupabase();
+    const failing = async () => new Response('{"error":"boom"}', { status: 500 });
+
+    const response = await withIdempotency(client, post('{}', 'k1'), 'user', 'POST /ai-ideas', '{}', cors, failing);
+
+    expect(response.status).toBe(500);
+    expect(keys.size).toBe(0);
+  });
+
+  it('rejects empty and overlong keys', async () => {
+    const { client } = fakeSupabase();
+    const calls = { count: 0 };
+
+    const empty = await withIdempotency(client, post('{}', ''), 'user', 'POST /ai-ideas', '{}', cors, createdHandler(calls));
+    const long = await withIdempotency(client, post('{}', 'k'.repeat(256)), 'user', 'POST /ai-ideas', '{}', cors, createdHandler(calls));
+
+    expect(empty.status).toBe(400);
+    expect(long.status).toBe(400);
+    expect(calls.count).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyClaim {
+  outcome: 'claimed' | 'replay' | 'mismatch' | 'in_progress';
+  response_status: number | null;
+  response_body: string | null;
+  response_headers: Record<string, string> | null;
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Run a POST handler at most once per Idempotency-Key. The first response (unless it is a
+// 5xx, which the client should be able to retry) is stored with its headers for 24 hours and
+// replayed for repeats; a repeat with a different body is rejected. Requests without the header run as usual.
+export async function withIdempotency(
+  supabase: SupabaseClient,
+  req: Request,
+  userId: string,
+  endpoint: string,
+  body: string,
+  corsHeaders: Record<string, string>,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = req.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) return handler();
+
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return new Response(
+      JSON.stringify({ error: `${IDEMPOTENCY_HEADER} must be 1 to ${MAX_KEY_LENGTH} characters` }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  const { data: claim, error: claimError } = await supabase
+    .rpc('claim_idempotency_key', {
+      p_user_id: userId,
+      p_endpoint: endpoint,
+      p_key: key,
+      p_request_hash: await sha256(body)
+    })
+    .single<IdempotencyClaim>();
+
+  if (claimError) {
+    console.error('Idempotency claim error:', claimError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to check idempotency key' }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+
+  switch (claim.outcome) {
+    case 'replay': {
+      // Responses stored before headers were kept fall back to the JSON defaults
+      const headers = new Headers(claim.response_headers ?? jsonHeaders);
+      headers.set(REPLAYED_HEADER, 'true');
+      return new Response(claim.response_body, { status: claim.response_status!, headers });
+    }
+    case 'mismatch':
+      return new Response(
+        JSON.stringify({ error: `${IDEMPOTENCY_HEADER} was already used for a request with a different body` }),
+        { status: 422, headers: jsonHeaders }
+      );
+    case 'in_progress':
+      return new Response(
+        JSON.stringify({ error: `A request with this ${IDEMPOTENCY_HEADER} is still being processed` }),
+        { status: 409, headers: { ...jsonHeaders, 'Retry-After': '1' } }
+      );
+  }
+
+  // Free the key so a retry runs the request again
+  const release = async () => {
+    const { error } = await supabase
+      .from('api_idempotency_keys')
+      .delete()
+      .eq('user_id', userId)
+      .eq('endpoint', endpoint)
+      .eq('idempotency_key', key);
+    if (error) console.error('Idempotency release error:', error);
+  };
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await release();
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await release();
+    return response;
+  }
+
+  const { error: saveError } = await supabase
+    .from('api_idempotency_keys')
+    .update({
+      response_status: response.status,
+      response_body: await response.clone().text(),
+      response_headers: Object.fromEntries(response.headers)
+    })
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint)
+    .eq('idempotency_key', key);
+
+  if (saveError) {
+    console.error('Idempotency save error:', saveError);
+  }
+
+  return response;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildOpenApiDocument } from './openapi.ts';
+
+const document = buildOpenApiDocument('https://example.supabase.co/functions/v1');
+const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+type Operation = { operationId?: string; security?: unknown };
+
+const operations = Object.entries(document.paths).flatMap(([path, item]) =>
+  methods
+    .filter(method => method in item)
+    .map(method => ({ path, method, operation: (item as Record<string, Operation>)[method] }))
+);
+
+function refs(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(refs);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, child]) => (key === '$ref' ? [child as string] : refs(child)));
+  }
+  return [];
+}
+
+describe('buildOpenApiDocument', () => {
+  it('describes the server it was built for', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.servers).toEqual([{ url: 'https://example.supabase.co/functions/v1' }]);
+  });
+
+  it('only refers to components it defines', () => {
+    const resolve = (ref: string) => ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], document);
+
+    expect(refs(document).filter(ref => resolve(ref) === undefined)).toEqual([]);
+  });
+
+  it('gives every operation a unique id and a security requirement', () => {
+    const ids = operations.map(({ operation }) => operation.operationId);
+
+    expect(ids.every(Boolean)).toBe(true);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(operations.filter(({ operation }) => !operation.security).map(({ path, method }) => `${method} ${path}`)).toEqual([]);
+  });
+
+  it('publishes the validation schemas without their error messages', () => {
+    const schemas = document.components.schemas as Record<string, { required?: string[]; minProperties?: number }>;
+
+    expect(JSON.stringify(document)).not.toContain('x-errors');
+    expect(schemas.IdeaInput.required).toEqual(['title']);
+    expect(schemas.IdeaUpdate.required).toBeUndefined();
+    expect(schemas.IdeaUpdate.minProperties).toBe(1);
+  });
+
+  it('uses the update schema for idea updates', () => {
+    const put = (document.paths['/ai-ideas/{idea_id}'] as Record<string, { requestBody?: unknown }>).put;
+
+    expect(refs(put.requestBody)).toEqual(['#/components/schemas/IdeaUpdate']);
+  });
+});
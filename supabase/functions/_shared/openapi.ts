@@ -0,0 +1,622 @@
+import { API_SCOPES } from './scopes.ts';
+import { EXPORT_FORMATS } from './export.ts';
+import {
+  ApiKeyInputSchema,
+  GroupInputSchema,
+  IDEA_COUNT_MODES,
+  IDEA_SORT_FIELDS,
+  IDEA_STATUSES,
+  IdeaInputSchema,
+  IdeaUpdateSchema,
+  JsonSchema,
+  publicSchema,
+} from './schemas.ts';
+
+// OpenAPI 3.1 description of the public API, built from the same schemas the functions
+// validate with so the published contract cannot drift from the implementation.
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: unknown) => ({ 'application/json': { schema } });
+
+const dataResponse = (description: string, schema: unknown) => ({
+  description,
+  content: json({ type: 'object', properties: { data: schema } })
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: json(ref('Error'))
+});
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { $ref: '#/components/headers/X-RateLimit-Limit' },
+  'X-RateLimit-Remaining': { $ref: '#/components/headers/X-RateLimit-Remaining' },
+  'X-RateLimit-Reset': { $ref: '#/components/headers/X-RateLimit-Reset' }
+};
+
+// Responses every API key authenticated operation can give
+const apiKeyErrors = {
+  401: errorResponse('Missing, invalid, expired or inactive API key'),
+  403: errorResponse('The key lacks the required scope or is limited to other groups or tags'),
+  429: {
+    description: 'Hourly rate limit exceeded',
+    headers: {
+      'Retry-After': { description: 'Seconds until the limit resets', schema: { type: 'integer' } },
+      ...rateLimitHeaders
+    },
+    content: json(ref('Error'))
+  },
+  500: errorResponse('Unexpected server error')
+};
+
+function withHeaders(response: unknown, headers: Record<string, unknown>) {
+  const { headers: existing, ...rest } = response as { headers?: Record<string, unknown> };
+  return { ...rest, headers: { ...existing, ...headers } };
+}
+
+// Responses carrying the idea's version
+const versioned = (response: unknown) => withHeaders(response, {
+  ETag: { $ref: '#/components/headers/ETag' }
+});
+
+// An API key operation; the required scope is listed on its security requirement.
+// Batches check scopes per operation and pass null.
+function apiKeyOperation(
+  scope: string | null,
+  operation: { summary: string; tags: string[]; [key: string]: unknown },
+  responses: Record<string, unknown>
+) {
+  const success = Object.fromEntries(
+    Object.entries(responses).map(([status, response]) =>
+      [status, Number(status) < 300 ? withHeaders(response, rateLimitHeaders) : response])
+  );
+  return {
+    ...operation,
+    security: [{ apiKey: scope ? [scope] : [] }],
+    ...(scope ? { 'x-required-scope': scope } : {}),
+    responses: { ...success, ...apiKeyErrors }
+  };
+}
+
+// An operation of the key management API, which takes the signed in user's session
+function sessionOperation(
+  operation: { summary: string; tags: string[]; [key: string]: unknown },
+  responses: Record<string, unknown>
+) {
+  return {
+    ...operation,
+    security: [{ bearerAuth: [] }],
+    responses: { ...responses, 401: errorResponse('Missing or invalid session'), 500: errorResponse('Unexpected server error') }
+  };
+}
+
+const pathId = (name: string, description: string) => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string', format: 'uuid' }
+});
+
+const query = (name: string, schema: JsonSchema, description: string) => ({
+  name,
+  in: 'query',
+  required: false,
+  description,
+  schema
+});
+
+const body = (schema: unknown) => ({ required: true, content: json(schema) });
+
+const idempotencyKey = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  required: false,
+  description: 'Repeats with the same key and body within 24 hours get the original response instead of running again',
+  schema: { type: 'string', minLength: 1, maxLength: 255 }
+};
+
+const ifMatch = {
+  name: 'If-Match',
+  in: 'header',
+  required: false,
+  description: 'ETag of the version the change is based on; the update fails with 412 if the idea changed since',
+  schema: { type: 'string' }
+};
+
+const idempotencyErrors = {
+  409: errorResponse('A request with this Idempotency-Key is still being processed'),
+  422: errorResponse('The Idempotency-Key was already used with a different body')
+};
+
+const ideaListParameters = [
+  query('limit', { type: 'integer', minimum: 1, maximum: 100, default: 50 }, 'Page size'),
+  query('offset', { type: 'integer', minimum: 0, default: 0 }, 'Ideas to skip; ignored when a cursor is given'),
+  query('cursor', { type: 'string' }, 'next_cursor or prev_cursor from a previous page'),
+  query('search', { type: 'string' }, 'Full-text search, ranked by relevance'),
+  query('status', { type: 'string', enum: IDEA_STATUSES }, 'Only ideas with this status'),
+  query('tag', { type: 'string' }, 'Comma separated; ideas with any of these tags'),
+  query('color', { type: 'string' }, 'Only ideas with this hex color'),
+  query('group_id', { type: 'string' }, 'Group ID, or "ungrouped"'),
+  query('created_after', { type: 'string', format: 'date-time' }, 'Inclusive lower bound'),
+  query('created_before', { type: 'string', format: 'date-time' }, 'Exclusive upper bound'),
+  query('updated_after', { type: 'string', format: 'date-time' }, 'Inclusive lower bound'),
+  query('updated_before', { type: 'string', format: 'date-time' }, 'Exclusive upper bound'),
+  query('sort', { type: 'string', enum: IDEA_SORT_FIELDS, default: 'updated_at' }, 'Sort field'),
+  query('order', { type: 'string', enum: ['asc', 'desc'], default: 'desc' }, 'Sort direction'),
+  query('count', { type: 'string', enum: IDEA_COUNT_MODES, default: 'exact' }, 'How meta.total is computed')
+];
+
+const timestamps = {
+  created_at: { type: 'string', format: 'date-time' },
+  updated_at: { type: 'string', format: 'date-time' }
+};
+
+const ideaInput = publicSchema(IdeaInputSchema);
+const ideaUpdate = publicSchema(IdeaUpdateSchema);
+const groupInput = publicSchema(GroupInputSchema);
+const apiKeyInput = publicSchema(ApiKeyInputSchema);
+const { workspace_id: _workspaceId, ...apiKeyUpdateProperties } = apiKeyInput.properties!;
+
+const schemas = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      details: {}
+    }
+  },
+  IdeaInput: ideaInput,
+  IdeaUpdate: ideaUpdate,
+  Idea: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      user_id: { type: 'string', format: 'uuid', description: 'Who created the idea' },
+      workspace_id: { type: 'string', format: 'uuid' },
+      ...ideaInput.properties,
+      original_description: { type: ['string', 'null'] },
+      enhancement_template_id: { type: ['string', 'null'], format: 'uuid', description: 'Prompt template that produced the enhanced description' },
+      enhancement_template_name: { type: ['string', 'null'] },
+      ...timestamps,
+      deleted_at: { type: ['string', 'null'], format: 'date-time', description: 'When the idea was moved to the trash' }
+    }
+  },
+  IdeaList: {
+    type: 'object',
+    properties: {
+      data: { type: 'array', items: ref('Idea') },
+      meta: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer' },
+          offset: { type: ['integer', 'null'] },
+          count: { type: 'integer' },
+          total: { type: ['integer', 'null'] },
+          sort: { type: 'string' },
+          order: { type: 'string' },
+          next_cursor: { type: ['string', 'null'] },
+          prev_cursor: { type: ['string', 'null'] }
+        }
+      }
+    }
+  },
+  IdeaBatch: {
+    type: 'object',
+    required: ['operations'],
+    properties: {
+      mode: { type: 'string', enum: ['atomic', 'partial'], default: 'atomic' },
+      operations: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 100,
+        items: {
+          type: 'object',
+          required: ['op'],
+          properties: {
+            op: { type: 'string', enum: ['create', 'update', 'archive'] },
+            id: { type: 'string', format: 'uuid', description: 'Required for update and archive' },
+            data: { ...ref('IdeaUpdate'), description: 'Create needs the fields of IdeaInput, including title; update changes only the fields given' }
+          }
+        }
+      }
+    }
+  },
+  IdeaBatchResult: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            op: { type: 'string' },
+            status: { type: 'integer' },
+            id: { type: 'string', format: 'uuid' },
+            error: { type: 'string' }
+          }
+        }
+      },
+      meta: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string' },
+          total: { type: 'integer' },
+          succeeded: { type: 'integer' },
+          failed: { type: 'integer' }
+        }
+      }
+    }
+  },
+  GroupInput: groupInput,
+  GroupUpdate: { ...groupInput, required: [] },
+  Group: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      user_id: { type: 'string', format: 'uuid', description: 'Who created the group' },
+      workspace_id: { type: 'string', format: 'uuid' },
+      ...groupInput.properties,
+      ...timestamps
+    }
+  },
+  IdeaComment: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      idea_id: { type: 'string', format: 'uuid' },
+      parent_id: { type: ['string', 'null'], format: 'uuid', description: 'The comment this one replies to' },
+      author: ref('CommentUser'),
+      body: { type: ['string', 'null'], description: 'Markdown; null once the comment is deleted' },
+      mentions: { type: 'array', items: ref('CommentUser') },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+      edited_at: { type: ['string', 'null'], format: 'date-time' },
+      deleted_at: { type: ['string', 'null'], format: 'date-time' },
+      history: {
+        type: 'array',
+        description: 'Earlier bodies, newest first; only with include_history=true',
+        items: {
+          type: 'object',
+          properties: {
+            body: { type: 'string' },
+            action: { type: 'string', enum: ['edit', 'delete'] },
+            created_at: { type: 'string', format: 'date-time' }
+          }
+        }
+      }
+    }
+  },
+  CommentUser: {
+    type: 'object',
+    properties: {
+      user_id: { type: 'string', format: 'uuid' },
+      display_name: { type: ['string', 'null'] }
+    }
+  },
+  Profile: {
+    type: 'object',
+    properties: {
+      user_id: { type: 'string', format: 'uuid' },
+      profile: { type: 'object' },
+      settings: { type: 'object' },
+      statistics: { type: 'object' },
+      api_info: {
+        type: 'object',
+        properties: {
+          workspace_id: { type: 'string', format: 'uuid' },
+          role: { type: 'string', enum: ['owner', 'editor', 'viewer'], description: 'Write scopes only apply to owners and editors' },
+          scopes: { type: 'array', items: { type: 'string', enum: API_SCOPES } },
+          allowed_group_ids: { type: ['array', 'null'], items: { type: 'string' } },
+          allowed_tags: { type: ['array', 'null'], items: { type: 'string' } },
+          rate_limit_per_hour: { type: 'integer' }
+        }
+      }
+    }
+  },
+  ApiKeyInput: apiKeyInput,
+  ApiKeyUpdate: { ...apiKeyInput, required: [], properties: { ...apiKeyUpdateProperties, is_active: { type: 'boolean' } } },
+  ApiKey: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      ...apiKeyInput.properties,
+      usage_count: { type: 'integer' },
+      last_used_at: { type: ['string', 'null'], format: 'date-time' },
+      is_active: { type: 'boolean' },
+      previous_key_expires_at: { type: ['string', 'null'], format: 'date-time' },
+      rotated_at: { type: ['string', 'null'], format: 'date-time' },
+      ...timestamps
+    }
+  },
+  ApiKeyWithSecret: {
+    type: 'object',
+    properties: {
+      data: ref('ApiKey'),
+      api_key: { type: 'string', description: 'The secret; only returned once' },
+      message: { type: 'string' }
+    }
+  }
+};
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AI Ideas Hub API',
+      version: '1.0.0',
+      description: 'Manage ideas, groups and API keys. API keys are created in Settings and sent in the x-api-key header. '
+        + 'Each key works in one workspace; write scopes stop applying while its owner is a viewer there.'
+    },
+    servers: [{ url: serverUrl }],
+    tags: [
+      { name: 'Ideas' },
+      { name: 'Groups' },
+      { name: 'Profile' },
+      { name: 'API Keys', description: 'Requires a signed in session rather than an API key' }
+    ],
+    paths: {
+      '/ai-ideas': {
+        get: apiKeyOperation('ideas:read', {
+          operationId: 'listIdeas',
+          summary: 'List ideas',
+          tags: ['Ideas'],
+          parameters: ideaListParameters
+        }, {
+          200: { description: 'A page of ideas', content: json(ref('IdeaList')) },
+          400: errorResponse('Invalid query parameters')
+        }),
+        post: apiKeyOperation('ideas:create', {
+          operationId: 'createIdea',
+          summary: 'Create an idea',
+          tags: ['Ideas'],
+          parameters: [idempotencyKey],
+          requestBody: body(ref('IdeaInput'))
+        }, {
+          201: versioned(dataResponse('The created idea', ref('Idea'))),
+          400: errorResponse('Validation failed'),
+          ...idempotencyErrors
+        })
+      },
+      '/ai-ideas/batch': {
+        post: apiKeyOperation(null, {
+          operationId: 'batchIdeas',
+          summary: 'Create, update or archive up to 100 ideas',
+          description: 'Each operation needs the scope of its kind and counts once against the rate limit. '
+            + 'Atomic batches apply all operations or none; partial batches report a status per operation.',
+          tags: ['Ideas'],
+          parameters: [idempotencyKey],
+          requestBody: body(ref('IdeaBatch'))
+        }, {
+          200: { description: 'Per operation results', content: json(ref('IdeaBatchResult')) },
+          400: { description: 'Invalid batch, or an atomic batch with a failing operation', content: json(ref('IdeaBatchResult')) },
+          409: { description: 'Writing the batch failed, or its Idempotency-Key is still being processed', content: json(ref('IdeaBatchResult')) },
+          422: idempotencyErrors[422]
+        })
+      },
+      '/ai-ideas/export': {
+        get: apiKeyOperation('ideas:read', {
+          operationId: 'exportIdeas',
+          summary: 'Export all ideas',
+          description: 'Downloads every idea of the key\'s workspace outside the trash as a file. The JSON archive also holds groups '
+            + '(with groups:read) and settings (with profile:read); markdown is a zip with one file per idea.',
+          tags: ['Ideas'],
+          parameters: [query('format', { type: 'string', enum: EXPORT_FORMATS, default: 'json' }, 'File format')]
+        }, {
+          200: {
+            description: 'The export, sent as an attachment',
+            content: {
+              'application/json': { schema: { type: 'object' } },
+              'text/csv': { schema: { type: 'string' } },
+              'application/zip': { schema: { type: 'string', contentMediaType: 'application/zip' } }
+            }
+          },
+          400: errorResponse('Unknown format')
+        })
+      },
+      '/ai-ideas/{idea_id}': {
+        parameters: [pathId('idea_id', 'Idea ID')],
+        get: apiKeyOperation('ideas:read', {
+          operationId: 'getIdea',
+          summary: 'Get an idea',
+          tags: ['Ideas']
+        }, {
+          200: versioned(dataResponse('The idea', ref('Idea'))),
+          404: errorResponse('Idea not found')
+        }),
+        put: apiKeyOperation('ideas:update', {
+          operationId: 'updateIdea',
+          summary: 'Update an idea',
+          description: 'Setting status to archived also requires ideas:archive.',
+          tags: ['Ideas'],
+          parameters: [ifMatch],
+          requestBody: body(ref('IdeaUpdate'))
+        }, {
+          200: versioned(dataResponse('The updated idea', ref('Idea'))),
+          400: errorResponse('Validation failed'),
+          404: errorResponse('Idea not found'),
+          412: versioned({
+            description: 'The idea changed since the If-Match version; the body holds the current version',
+            content: json({ type: 'object', properties: { error: { type: 'string' }, data: ref('Idea') } })
+          })
+        }),
+        delete: apiKeyOperation('ideas:archive', {
+          operationId: 'deleteIdea',
+          summary: 'Delete an idea',
+          description: 'Moves the idea to the trash, where it can be restored in the web app until it is purged. ' +
+            'With permanent=true the idea is deleted for good, which also requires ideas:delete.',
+          tags: ['Ideas'],
+          parameters: [query('permanent', { type: 'boolean', default: false }, 'Delete the idea for good instead of moving it to the trash')]
+        }, {
+          200: {
+            description: 'The deleted idea',
+            content: json({ type: 'object', properties: { data: ref('Idea'), message: { type: 'string' } } })
+          },
+          404: errorResponse('Idea not found')
+        })
+      },
+      '/ai-ideas/{idea_id}/comments': {
+        parameters: [pathId('idea_id', 'Idea ID')],
+        get: apiKeyOperation('comments:read', {
+          operationId: 'listIdeaComments',
+          summary: "List an idea's comments",
+          description: 'Oldest first; replies point at their parent through parent_id. Also requires ideas:read.',
+          tags: ['Ideas'],
+          parameters: [query('include_history', { type: 'boolean', default: false }, 'Include the earlier bodies of edited and deleted comments')]
+        }, {
+          200: dataResponse('The comments', { type: 'array', items: ref('IdeaComment') }),
+          404: errorResponse('Idea not found')
+        })
+      },
+      '/ai-groups': {
+        get: apiKeyOperation('groups:read', {
+          operationId: 'listGroups',
+          summary: 'List groups',
+          tags: ['Groups']
+        }, {
+          200: dataResponse('All groups', { type: 'array', items: ref('Group') })
+        }),
+        post: apiKeyOperation('groups:write', {
+          operationId: 'createGroup',
+          summary: 'Create a group',
+          tags: ['Groups'],
+          requestBody: body(ref('GroupInput'))
+        }, {
+          201: dataResponse('The created group', ref('Group')),
+          400: errorResponse('Validation failed')
+        })
+      },
+      '/ai-groups/{group_id}': {
+        parameters: [pathId('group_id', 'Group ID')],
+        get: apiKeyOperation('groups:read', {
+          operationId: 'getGroup',
+          summary: 'Get a group',
+          tags: ['Groups']
+        }, {
+          200: dataResponse('The group', ref('Group')),
+          404: errorResponse('Group not found')
+        }),
+        put: apiKeyOperation('groups:write', {
+          operationId: 'updateGroup',
+          summary: 'Update a group',
+          tags: ['Groups'],
+          requestBody: body(ref('GroupUpdate'))
+        }, {
+          200: dataResponse('The updated group', ref('Group')),
+          400: errorResponse('Validation failed'),
+          404: errorResponse('Group not found')
+        }),
+        delete: apiKeyOperation('groups:write', {
+          operationId: 'deleteGroup',
+          summary: 'Delete a group',
+          description: 'Ideas in the group are kept and become ungrouped.',
+          tags: ['Groups']
+        }, {
+          200: dataResponse('The deleted group', ref('Group')),
+          404: errorResponse('Group not found')
+        })
+      },
+      '/ai-profile': {
+        get: apiKeyOperation('profile:read', {
+          operationId: 'getProfile',
+          summary: 'Get the key owner\'s profile and idea statistics',
+          tags: ['Profile']
+        }, {
+          200: dataResponse('The profile', ref('Profile')),
+          404: errorResponse('Profile not found')
+        })
+      },
+      '/ai-keys': {
+        get: sessionOperation({
+          operationId: 'listApiKeys',
+          summary: 'List API keys',
+          tags: ['API Keys']
+        }, {
+          200: dataResponse('All API keys', { type: 'array', items: ref('ApiKey') })
+        }),
+        post: sessionOperation({
+          operationId: 'createApiKey',
+          summary: 'Create an API key',
+          tags: ['API Keys'],
+          requestBody: body(ref('ApiKeyInput'))
+        }, {
+          201: { description: 'The created key and its secret', content: json(ref('ApiKeyWithSecret')) },
+          400: errorResponse('Validation failed')
+        })
+      },
+      '/ai-keys/{key_id}': {
+        parameters: [pathId('key_id', 'API key ID')],
+        get: sessionOperation({
+          operationId: 'getApiKey',
+          summary: 'Get an API key',
+          tags: ['API Keys']
+        }, {
+          200: dataResponse('The API key', ref('ApiKey')),
+          404: errorResponse('API key not found')
+        }),
+        put: sessionOperation({
+          operationId: 'updateApiKey',
+          summary: 'Update an API key',
+          tags: ['API Keys'],
+          requestBody: body(ref('ApiKeyUpdate'))
+        }, {
+          200: dataResponse('The updated API key', ref('ApiKey')),
+          400: errorResponse('Validation failed'),
+          404: errorResponse('API key not found')
+        }),
+        delete: sessionOperation({
+          operationId: 'deleteApiKey',
+          summary: 'Delete an API key',
+          tags: ['API Keys']
+        }, {
+          200: { description: 'The key was deleted', content: json({ type: 'object', properties: { message: { type: 'string' } } }) },
+          404: errorResponse('API key not found')
+        })
+      },
+      '/ai-keys/{key_id}/rotate': {
+        parameters: [pathId('key_id', 'API key ID')],
+        post: sessionOperation({
+          operationId: 'rotateApiKey',
+          summary: 'Issue a new secret, keeping the old one valid for a grace period',
+          tags: ['API Keys'],
+          requestBody: {
+            required: false,
+            content: json({
+              type: 'object',
+              properties: { grace_period_hours: { type: 'number', minimum: 0, maximum: 168, default: 24 } }
+            })
+          }
+        }, {
+          200: { description: 'The rotated key and its new secret', content: json(ref('ApiKeyWithSecret')) },
+          400: errorResponse('Invalid grace period'),
+          404: errorResponse('API key not found'),
+          409: errorResponse('The key was rotated concurrently')
+        })
+      }
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-api-key',
+          description: `Scopes: ${API_SCOPES.join(', ')}`
+        },
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Supabase session access token of the signed in user'
+        }
+      },
+      headers: {
+        ETag: { description: 'Version of the idea: its updated_at in quotes. Send it back in If-Match.', schema: { type: 'string' } },
+        'X-RateLimit-Limit': { description: 'Requests allowed per hour for this key', schema: { type: 'integer' } },
+        'X-RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+        'X-RateLimit-Reset': { description: 'Unix time in seconds when the window resets', schema: { type: 'integer' } }
+      },
+      schemas
+    }
+  };
+}
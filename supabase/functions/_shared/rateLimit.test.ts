@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { checkRateLimit, rateLimitHeaders, retryAfterSeconds } from './rateLimit.ts';
+
+function fakeSupabase(result: { data: unknown; error: unknown }) {
+  const calls: { name: string; args: Record<string, unknown> }[] = [];
+  const client = {
+    rpc(name: string, args: Record<string, unknown>) {
+      calls.push({ name, args });
+      return { single: async () => result };
+    }
+  };
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('checkRateLimit', () => {
+  it('consumes the weight and reports what is left', async () => {
+    const { client, calls } = fakeSupabase({
+      data: { allowed: true, used_count: 40, reset_at: '2026-10-19T13:00:00Z' },
+      error: null
+    });
+
+    const status = await checkRateLimit(client, 'key', 'ai-ideas', 100, 5);
+
+    expect(calls).toEqual([{
+      name: 'consume_rate_limit',
+      args: { p_api_key_id: 'key', p_endpoint: 'ai-ideas', p_rate_limit: 100, p_weight: 5 }
+    }]);
+    expect(status).toEqual({ allowed: true, limit: 100, remaining: 60, resetAt: new Date('2026-10-19T13:00:00Z') });
+  });
+
+  it('never reports a negative remainder', async () => {
+    const { client } = fakeSupabase({
+      data: { allowed: false, used_count: 130, reset_at: '2026-10-19T13:00:00Z' },
+      error: null
+    });
+
+    const status = await checkRateLimit(client, 'key', 'ai-ideas', 100);
+
+    expect(status.allowed).toBe(false);
+    expect(status.remaining).toBe(0);
+  });
+
+  it('fails when the counter cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeSupabase({ data: null, error: { message: 'down' } });
+
+    await expect(checkRateLimit(client, 'key', 'ai-ideas', 100)).rejects.toThrow('Rate limiting failed');
+  });
+});
+
+describe('rate limit headers', () => {
+  const status = { allowed: false, limit: 100, remaining: 0, resetAt: new Date('2026-10-19T13:00:00.500Z') };
+
+  it('reports the limit, the remainder and the reset time in epoch seconds', () => {
+    expect(rateLimitHeaders(status)).toEqual({
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(Math.ceil(Date.parse('2026-10-19T13:00:00.500Z') / 1000))
+    });
+  });
+
+  it('asks clients to wait until the window resets, and at least a second', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:58:00Z'));
+    expect(retryAfterSeconds(status)).toBe(121);
+
+    vi.setSystemTime(new Date('2026-10-19T13:05:00Z'));
+    expect(retryAfterSeconds(status)).toBe(1);
+  });
+});
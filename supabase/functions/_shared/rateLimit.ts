@@ -0,0 +1,51 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Count the request against the key's hourly limit and report what is left.
+// A weight above 1 makes one request count as several, e.g. for batches.
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  apiKeyId: string,
+  endpoint: string,
+  rateLimit: number,
+  weight = 1
+): Promise<RateLimitStatus> {
+  const { data, error } = await supabase
+    .rpc('consume_rate_limit', {
+      p_api_key_id: apiKeyId,
+      p_endpoint: endpoint,
+      p_rate_limit: rateLimit,
+      p_weight: weight
+    })
+    .single<{ allowed: boolean; used_count: number; reset_at: string }>();
+
+  if (error || !data) {
+    console.error('Rate limit check error:', error);
+    throw new Error('Rate limiting failed');
+  }
+
+  return {
+    allowed: data.allowed,
+    limit: rateLimit,
+    remaining: Math.max(0, rateLimit - data.used_count),
+    resetAt: new Date(data.reset_at)
+  };
+}
+
+export function retryAfterSeconds(status: RateLimitStatus): number {
+  return Math.max(1, Math.ceil((status.resetAt.getTime() - Date.now()) / 1000));
+}
+
+export function rateLimitHeaders(status: RateLimitStatus): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': status.limit.toString(),
+    'X-RateLimit-Remaining': status.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(status.resetAt.getTime() / 1000).toString()
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ApiKeyInputSchema, GroupInputSchema, IdeaInputSchema, IdeaUpdateSchema, publicSchema, validateSchema } from './schemas.ts';
+
+describe('validateSchema', () => {
+  it('accepts a valid idea', () => {
+    expect(validateSchema(IdeaInputSchema, {
+      title: 'Voice notes to ideas',
+      description: null,
+      status: 'research',
+      tags: ['audio'],
+      color: '#A1B2C3',
+      group_id: null,
+      board_position: 2.5
+    })).toEqual([]);
+  });
+
+  it('rejects bodies that are not objects', () => {
+    for (const body of [null, [], 'text', 3]) {
+      expect(validateSchema(IdeaInputSchema, body)).toEqual(['Request body must be a JSON object']);
+    }
+  });
+
+  it('uses the messages from x-errors', () => {
+    expect(validateSchema(IdeaInputSchema, {})).toEqual(['Title is required and must be a non-empty string']);
+    expect(validateSchema(IdeaInputSchema, { title: '   ' })).toEqual(['Title is required and must be a non-empty string']);
+    expect(validateSchema(IdeaInputSchema, { title: 'x'.repeat(501) })).toEqual(['Title must be less than 500 characters']);
+    expect(validateSchema(IdeaInputSchema, { title: 'Idea', color: 'red' })).toEqual(['Color must be a valid hex color code']);
+  });
+
+  it('reports every failing property', () => {
+    expect(validateSchema(IdeaInputSchema, { title: 'Idea', status: 'done', tags: [1], board_position: Infinity })).toEqual([
+      'Status must be one of: idea, research, progress, launched, archived',
+      'Tags must be an array of strings',
+      'Board position must be a number or null'
+    ]);
+  });
+
+  it('checks integers, ranges and array items', () => {
+    expect(validateSchema(ApiKeyInputSchema, { name: 'CI', rate_limit_per_hour: 1.5 })).toHaveLength(1);
+    expect(validateSchema(ApiKeyInputSchema, { name: 'CI', rate_limit_per_hour: 0 })).toHaveLength(1);
+    expect(validateSchema(ApiKeyInputSchema, { name: 'CI', rate_limit_per_hour: 10000 })).toEqual([]);
+    expect(validateSchema(ApiKeyInputSchema, { name: 'CI', scopes: [] })).toHaveLength(1);
+    expect(validateSchema(ApiKeyInputSchema, { name: 'CI', scopes: ['ideas:read', 'ideas:destroy'] })).toHaveLength(1);
+    expect(validateSchema(ApiKeyInputSchema, { name: 'CI', allowed_tags: [''] })).toHaveLength(1);
+  });
+
+  it('skips required properties for partial validation', () => {
+    expect(validateSchema(GroupInputSchema, { color: '#000000' }, { partial: true })).toEqual([]);
+    expect(validateSchema(GroupInputSchema, { color: '#000000' })).toEqual(['Name is required and must be a non-empty string']);
+  });
+
+  it('requires at least one known field in an update', () => {
+    expect(validateSchema(IdeaUpdateSchema, { status: 'launched' })).toEqual([]);
+    expect(validateSchema(IdeaUpdateSchema, {})).toEqual(['Provide at least one field to update']);
+    expect(validateSchema(IdeaUpdateSchema, { unknown: true })).toEqual(['Provide at least one field to update']);
+  });
+});
+
+describe('publicSchema', () => {
+  it('strips x-errors at every level', () => {
+    const published = JSON.stringify(publicSchema(ApiKeyInputSchema));
+
+    expect(published).not.toContain('x-errors');
+    expect(publicSchema(ApiKeyInputSchema).properties?.scopes.items?.enum).toContain('ideas:read');
+  });
+
+  it('leaves the status default out of updates', () => {
+    expect(publicSchema(IdeaInputSchema).properties?.status.default).toBe('idea');
+    expect(publicSchema(IdeaUpdateSchema).properties?.status).not.toHaveProperty('default');
+    expect(publicSchema(IdeaUpdateSchema)).not.toHaveProperty('required');
+  });
+});
@@ -0,0 +1,274 @@
+import { API_SCOPES } from './scopes.ts';
+
+// Subset of JSON Schema (2020-12, as used by OpenAPI 3.1) that the API functions validate
+// request bodies with. The same objects are published through the api-spec function.
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  format?: string;
+  enum?: readonly (string | number)[];
+  default?: unknown;
+  deprecated?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minProperties?: number;
+  additionalProperties?: boolean | JsonSchema;
+  // Messages for failed checks, keyed by keyword ('required', 'type', 'maxLength', ...)
+  // with 'default' as the fallback. Stripped from the published spec.
+  'x-errors'?: Record<string, string>;
+}
+
+export const IDEA_STATUSES = ['idea', 'research', 'progress', 'launched', 'archived'] as const;
+export const IDEA_SORT_FIELDS = ['created_at', 'updated_at', 'title', 'status'];
+export const IDEA_COUNT_MODES = ['exact', 'estimated', 'none'];
+
+export const MIN_RATE_LIMIT = 1;
+export const MAX_RATE_LIMIT = 10000;
+
+const HEX_COLOR = '^#[0-9A-Fa-f]{6}$';
+
+const titleRequired = 'Title is required and must be a non-empty string';
+
+export const IdeaInputSchema: JsonSchema = {
+  type: 'object',
+  required: ['title'],
+  properties: {
+    title: {
+      type: 'string',
+      description: 'Markdown allowed; dangerous HTML is stripped',
+      minLength: 1,
+      maxLength: 500,
+      pattern: '\\S',
+      'x-errors': { default: titleRequired, maxLength: 'Title must be less than 500 characters' }
+    },
+    description: {
+      type: ['string', 'null'],
+      description: 'Markdown allowed; dangerous HTML is stripped',
+      'x-errors': { default: 'Description must be a string' }
+    },
+    status: {
+      type: 'string',
+      enum: IDEA_STATUSES,
+      default: 'idea',
+      'x-errors': { default: `Status must be one of: ${IDEA_STATUSES.join(', ')}` }
+    },
+    tags: {
+      type: ['array', 'null'],
+      items: { type: 'string' },
+      'x-errors': { default: 'Tags must be an array of strings' }
+    },
+    color: {
+      type: 'string',
+      pattern: HEX_COLOR,
+      'x-errors': { default: 'Color must be a valid hex color code' }
+    },
+    group_id: {
+      type: ['string', 'null'],
+      format: 'uuid',
+      'x-errors': { default: 'Group ID must be a string or null' }
+    },
+    image_url: {
+      type: ['string', 'null'],
+      format: 'uri',
+      'x-errors': { default: 'Image URL must be a string or null' }
+    },
+    board_position: {
+      type: ['number', 'null'],
+      description: 'Order within the status column of the board',
+      'x-errors': { default: 'Board position must be a number or null' }
+    }
+  }
+};
+
+// The same fields, all optional. Omitted fields keep their stored values, so the status
+// default does not apply.
+const { default: _statusDefault, ...updateStatus } = IdeaInputSchema.properties!.status;
+
+export const IdeaUpdateSchema: JsonSchema = {
+  type: 'object',
+  minProperties: 1,
+  properties: { ...IdeaInputSchema.properties, status: updateStatus },
+  'x-errors': { minProperties: 'Provide at least one field to update' }
+};
+
+export const GroupInputSchema: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+      pattern: '\\S',
+      'x-errors': { default: 'Name is required and must be a non-empty string', maxLength: 'Name must be less than 100 characters' }
+    },
+    description: {
+      type: ['string', 'null'],
+      'x-errors': { default: 'Description must be a string or null' }
+    },
+    color: {
+      type: 'string',
+      pattern: HEX_COLOR,
+      'x-errors': { default: 'Color must be a valid hex color code' }
+    },
+    icon: {
+      type: ['string', 'null'],
+      maxLength: 16,
+      description: 'Usually a single emoji',
+      'x-errors': { default: 'Icon must be a short string or null' }
+    }
+  }
+};
+
+export const ApiKeyInputSchema: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+      pattern: '\\S',
+      'x-errors': { default: 'Name is required and must be a non-empty string', maxLength: 'Name must be less than 100 characters' }
+    },
+    scopes: {
+      type: 'array',
+      items: { type: 'string', enum: API_SCOPES },
+      minItems: 1,
+      default: ['ideas:read'],
+      'x-errors': { default: `Scopes must be a non-empty array containing: ${API_SCOPES.join(', ')}` }
+    },
+    permissions: {
+      type: 'array',
+      items: { type: 'string', enum: ['read', 'write', 'admin'] },
+      deprecated: true,
+      description: 'Mapped to scopes when scopes is not given'
+    },
+    allowed_group_ids: {
+      type: ['array', 'null'],
+      items: { type: 'string', format: 'uuid' },
+      minItems: 1,
+      description: 'Limit the key to ideas in these groups',
+      'x-errors': { default: 'allowed_group_ids must be null or a non-empty array of group IDs' }
+    },
+    allowed_tags: {
+      type: ['array', 'null'],
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      description: 'Limit the key to ideas with at least one of these tags',
+      'x-errors': { default: 'allowed_tags must be null or a non-empty array of tags' }
+    },
+    rate_limit_per_hour: {
+      type: 'integer',
+      minimum: MIN_RATE_LIMIT,
+      maximum: MAX_RATE_LIMIT,
+      default: 1000,
+      'x-errors': { default: `Rate limit must be a number between ${MIN_RATE_LIMIT} and ${MAX_RATE_LIMIT}` }
+    },
+    expires_at: {
+      type: ['string', 'null'],
+      format: 'date-time',
+      'x-errors': { default: 'Expiry date must be a valid future date' }
+    },
+    workspace_id: {
+      type: 'string',
+      format: 'uuid',
+      description: 'Workspace the key works in; defaults to the personal workspace. Cannot be changed later',
+      'x-errors': { default: 'workspace_id must be the ID of a workspace you belong to' }
+    }
+  }
+};
+
+function matchesType(value: unknown, type: string) {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+// Return the first keyword the value fails, or null when it is valid
+function failedKeyword(schema: JsonSchema, value: unknown): string | null {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) return 'type';
+  }
+  if (value === null) return null;
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) return 'enum';
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) return 'minLength';
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) return 'maxLength';
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) return 'pattern';
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return 'minimum';
+    if (schema.maximum !== undefined && value > schema.maximum) return 'maximum';
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) return 'minItems';
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return 'maxItems';
+    if (schema.items && value.some(item => failedKeyword(schema.items!, item))) return 'items';
+  }
+
+  return null;
+}
+
+// Validate a request body against an object schema. Unknown properties are left to the
+// caller; partial validation skips required checks for updates.
+export function validateSchema(schema: JsonSchema, data: unknown, options: { partial?: boolean } = {}): string[] {
+  if (!matchesType(data, 'object')) {
+    return ['Request body must be a JSON object'];
+  }
+
+  const body = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (schema.minProperties !== undefined) {
+    const known = Object.keys(schema.properties ?? {}).filter(name => body[name] !== undefined);
+    if (known.length < schema.minProperties) {
+      errors.push(schema['x-errors']?.minProperties ?? `Request body must include at least ${schema.minProperties} known properties`);
+    }
+  }
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const message = (keyword: string) =>
+      property['x-errors']?.[keyword] ?? property['x-errors']?.default ?? `${name} is invalid (${keyword})`;
+
+    if (body[name] === undefined) {
+      if (!options.partial && schema.required?.includes(name)) errors.push(message('required'));
+      continue;
+    }
+
+    const keyword = failedKeyword(property, body[name]);
+    if (keyword) errors.push(message(keyword));
+  }
+
+  return errors;
+}
+
+// Copy of a schema without validation-only annotations, for publishing
+export function publicSchema(schema: JsonSchema): JsonSchema {
+  const { 'x-errors': _errors, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(items ? { items: publicSchema(items) } : {}),
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, publicSchema(property)])) }
+      : {})
+  };
+}
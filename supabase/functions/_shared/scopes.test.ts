@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { API_SCOPES, KeyAccess, isIdeaAllowed, isRestricted, isValidScopeList, missingScope, scopesFromPermissions } from './scopes.ts';
+
+const access = (overrides: Partial<KeyAccess> = {}): KeyAccess => ({
+  workspace_id: 'workspace',
+  role: 'owner',
+  scopes: ['ideas:read', 'ideas:create'],
+  allowed_group_ids: null,
+  allowed_tags: null,
+  ...overrides
+});
+
+describe('isValidScopeList', () => {
+  it('accepts non-empty lists of known scopes', () => {
+    expect(isValidScopeList(['ideas:read'])).toBe(true);
+    expect(isValidScopeList([...API_SCOPES])).toBe(true);
+  });
+
+  it('rejects empty lists, unknown scopes and other values', () => {
+    expect(isValidScopeList([])).toBe(false);
+    expect(isValidScopeList(['ideas:read', 'ideas:destroy'])).toBe(false);
+    expect(isValidScopeList('ideas:read')).toBe(false);
+  });
+});
+
+describe('scopesFromPermissions', () => {
+  it('maps the legacy permissions to scopes without duplicates', () => {
+    expect(scopesFromPermissions(['read'])).toEqual(['ideas:read', 'groups:read', 'profile:read', 'comments:read']);
+    expect(scopesFromPermissions(['read', 'write'])).toHaveLength(8);
+  });
+
+  it('gives admin what write gives, which never includes permanent deletes', () => {
+    expect(scopesFromPermissions(['admin'])).toEqual(scopesFromPermissions(['write']));
+    expect(scopesFromPermissions(['read', 'write', 'admin'])).not.toContain('ideas:delete');
+  });
+
+  it('returns null for anything it does not recognise', () => {
+    expect(scopesFromPermissions(['owner'])).toBeNull();
+    expect(scopesFromPermissions('read')).toBeNull();
+    expect(scopesFromPermissions(undefined)).toBeNull();
+  });
+});
+
+describe('missingScope', () => {
+  it('returns the first scope the key lacks', () => {
+    expect(missingScope(access(), ['ideas:read'])).toBeNull();
+    expect(missingScope(access(), ['ideas:read', 'ideas:update', 'ideas:delete'])).toBe('ideas:update');
+  });
+
+  it('drops write scopes while the owner is a viewer', () => {
+    const viewer = access({ role: 'viewer' });
+
+    expect(missingScope(viewer, ['ideas:read'])).toBeNull();
+    expect(missingScope(viewer, ['ideas:create'])).toBe('ideas:create');
+  });
+});
+
+describe('isIdeaAllowed', () => {
+  it('allows every idea for unrestricted keys', () => {
+    expect(isRestricted(access())).toBe(false);
+    expect(isIdeaAllowed(access(), { group_id: null, tags: null })).toBe(true);
+  });
+
+  it('limits keys to their groups', () => {
+    const key = access({ allowed_group_ids: ['g1'] });
+
+    expect(isRestricted(key)).toBe(true);
+    expect(isIdeaAllowed(key, { group_id: 'g1' })).toBe(true);
+    expect(isIdeaAllowed(key, { group_id: 'g2' })).toBe(false);
+    expect(isIdeaAllowed(key, { group_id: null })).toBe(false);
+  });
+
+  it('limits keys to ideas with one of their tags', () => {
+    const key = access({ allowed_tags: ['public', 'beta'] });
+
+    expect(isIdeaAllowed(key, { tags: ['beta', 'internal'] })).toBe(true);
+    expect(isIdeaAllowed(key, { tags: ['internal'] })).toBe(false);
+    expect(isIdeaAllowed(key, { tags: null })).toBe(false);
+  });
+
+  it('requires both the group and a tag when a key has both limits', () => {
+    const key = access({ allowed_group_ids: ['g1'], allowed_tags: ['public'] });
+
+    expect(isIdeaAllowed(key, { group_id: 'g1', tags: ['public'] })).toBe(true);
+    expect(isIdeaAllowed(key, { group_id: 'g1', tags: [] })).toBe(false);
+    expect(isIdeaAllowed(key, { group_id: 'g2', tags: ['public'] })).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiKeyError } from './errors.ts';
+
+// Scopes an API key can be granted, as resource:action pairs
+export const API_SCOPES = [
+  'ideas:read',
+  'ideas:create',
+  'ideas:update',
+  'ideas:archive',
+  'ideas:delete',
+  'groups:read',
+  'groups:write',
+  'profile:read',
+  'comments:read',
+] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+// Scopes that still apply when the key's owner is only a viewer of its workspace
+const READ_SCOPES: ApiScope[] = ['ideas:read', 'groups:read', 'profile:read', 'comments:read'];
+
+// What the old read/write/admin permissions granted, for clients that still send them. This is
+// the mapping migration 20261019101500 used for existing keys: admin never granted more than
+// write, so neither reaches ideas:delete. comments:read came later and belongs to read.
+const WRITE_PERMISSION_SCOPES: ApiScope[] = [...READ_SCOPES, 'ideas:create', 'ideas:update', 'ideas:archive', 'groups:write'];
+const LEGACY_PERMISSION_SCOPES: Record<string, ApiScope[]> = {
+  read: READ_SCOPES,
+  write: WRITE_PERMISSION_SCOPES,
+  admin: WRITE_PERMISSION_SCOPES,
+};
+
+export interface KeyAccess {
+  // The workspace the key works in and its owner's current role there
+  workspace_id: string;
+  role: 'owner' | 'editor' | 'viewer';
+  scopes: string[];
+  allowed_group_ids: string[] | null;
+  allowed_tags: string[] | null;
+}
+
+export function isValidScopeList(value: unknown): value is ApiScope[] {
+  return Array.isArray(value) && value.length > 0 && value.every(scope => (API_SCOPES as readonly string[]).includes(scope));
+}
+
+export function scopesFromPermissions(permissions: unknown): ApiScope[] | null {
+  if (!Array.isArray(permissions) || !permissions.every(p => typeof p === 'string' && p in LEGACY_PERMISSION_SCOPES)) {
+    return null;
+  }
+  return [...new Set(permissions.flatMap(p => LEGACY_PERMISSION_SCOPES[p]))];
+}
+
+// Load the workspace, scopes and restrictions of an API key that validate_api_key accepted.
+// A key stops working once its owner has left the key's workspace.
+export async function loadKeyAccess(supabase: SupabaseClient, apiKeyId: string): Promise<KeyAccess> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('user_id, workspace_id, scopes, allowed_group_ids, allowed_tags')
+    .eq('id', apiKeyId)
+    .single();
+
+  if (error || !data) {
+    console.error('API key scope lookup error:', error);
+    throw new Error('Authentication failed');
+  }
+
+  const { data: membership, error: membershipError } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', data.workspace_id)
+    .eq('user_id', data.user_id)
+    .maybeSingle();
+
+  if (membershipError) {
+    console.error('API key workspace lookup error:', membershipError);
+    throw new Error('Authentication failed');
+  }
+  if (!membership) {
+    throw new ApiKeyError('API key owner is no longer a member of its workspace');
+  }
+
+  return {
+    workspace_id: data.workspace_id,
+    role: membership.role,
+    scopes: data.scopes,
+    allowed_group_ids: data.allowed_group_ids,
+    allowed_tags: data.allowed_tags,
+  };
+}
+
+// Write scopes count as missing while the key's owner is a viewer of the workspace
+export function missingScope(access: KeyAccess, required: ApiScope[]): ApiScope | null {
+  return required.find(scope =>
+    !access.scopes.includes(scope) || (access.role === 'viewer' && !READ_SCOPES.includes(scope))
+  ) ?? null;
+}
+
+export function isRestricted(access: KeyAccess): boolean {
+  return !!access.allowed_group_ids || !!access.allowed_tags;
+}
+
+// Whether an idea falls inside the groups and tags a key is limited to
+export function isIdeaAllowed(
+  access: KeyAccess,
+  idea: { group_id?: string | null; tags?: string[] | null }
+): boolean {
+  if (access.allowed_group_ids && (!idea.group_id || !access.allowed_group_ids.includes(idea.group_id))) {
+    return false;
+  }
+  if (access.allowed_tags && !(idea.tags || []).some(tag => access.allowed_tags!.includes(tag))) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { withUsageTracking } from './usage.ts';
+
+function fakeSupabase(error: unknown = null) {
+  const calls: { name: string; args: Record<string, unknown> }[] = [];
+  const client = {
+    async rpc(name: string, args: Record<string, unknown>) {
+      calls.push({ name, args });
+      return { error };
+    }
+  };
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+const request = () => new Request('https://example.test/ai-ideas');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('withUsageTracking', () => {
+  it('records the status code of authenticated requests', async () => {
+    const { client, calls } = fakeSupabase();
+    const handler = withUsageTracking(client, 'ai-ideas', async (_req, usage) => {
+      usage.apiKeyId = 'key';
+      return new Response(null, { status: 404 });
+    });
+
+    const response = await handler(request());
+
+    expect(response.status).toBe(404);
+    expect(calls).toEqual([{
+      name: 'record_api_usage',
+      args: { p_api_key_id: 'key', p_endpoint: 'ai-ideas', p_status_code: 404 }
+    }]);
+  });
+
+  it('does not count requests rejected before the key was known', async () => {
+    const { client, calls } = fakeSupabase();
+    const handler = withUsageTracking(client, 'ai-ideas', async () => new Response(null, { status: 401 }));
+
+    await handler(request());
+
+    expect(calls).toEqual([]);
+  });
+
+  it('still answers when usage cannot be recorded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeSupabase({ message: 'down' });
+    const handler = withUsageTracking(client, 'ai-ideas', async (_req, usage) => {
+      usage.apiKeyId = 'key';
+      return new Response('{}', { status: 200 });
+    });
+
+    expect((await handler(request())).status).toBe(200);
+  });
+
+  it('adds the rate limit headers once the limit was checked', async () => {
+    const { client } = fakeSupabase();
+    const handler = withUsageTracking(client, 'ai-ideas', async (_req, usage) => {
+      usage.apiKeyId = 'key';
+      usage.rateLimit = { allowed: true, limit: 1000, remaining: 999, resetAt: new Date('2026-10-19T13:00:00Z') };
+      return new Response('{}', { headers: { 'Content-Type': 'application/json' } });
+    });
+
+    const response = await handler(request());
+
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('1000');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('999');
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+  });
+});
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { RateLimitStatus, rateLimitHeaders } from './rateLimit.ts';
+
+// Filled in by a handler once it knows which API key made the request
+export interface UsageContext {
+  apiKeyId?: string;
+  rateLimit?: RateLimitStatus;
+}
+
+// Wrap an API key authenticated handler so every response it gives is counted
+// per endpoint and status code, and carries the key's X-RateLimit-* headers.
+// Requests rejected before authentication are not counted.
+export function withUsageTracking(
+  supabase: SupabaseClient,
+  endpoint: string,
+  handler: (req: Request, usage: UsageContext) => Promise<Response>
+) {
+  return async (req: Request) => {
+    const usage: UsageContext = {};
+    const response = await handler(req, usage);
+
+    if (usage.apiKeyId) {
+      const { error } = await supabase.rpc('record_api_usage', {
+        p_api_key_id: usage.apiKeyId,
+        p_endpoint: endpoint,
+        p_status_code: response.status
+      });
+      if (error) {
+        console.error('Usage tracking error:', error);
+      }
+    }
+
+    if (usage.rateLimit) {
+      for (const [name, value] of Object.entries(rateLimitHeaders(usage.rateLimit))) {
+        response.headers.set(name, value);
+      }
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,276 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiScope, loadKeyAccess, missingScope } from '../_shared/scopes.ts';
+import { withUsageTracking } from '../_shared/usage.ts';
+import { checkRateLimit, retryAfterSeconds } from '../_shared/rateLimit.ts';
+import { ApiKeyError } from '../_shared/errors.ts';
+import { GroupInputSchema, validateSchema } from '../_shared/schemas.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const GROUP_COLUMNS = 'id, user_id, workspace_id, name, description, color, icon, created_at, updated_at';
+
+// Validate group data; partial updates skip the name requirement
+function validateGroupData(data: unknown, partial: boolean) {
+  return validateSchema(GroupInputSchema, data, { partial });
+}
+
+// Authenticate API key
+async function authenticateApiKey(apiKey: string) {
+  if (!apiKey || !apiKey.startsWith('iah_')) {
+    throw new ApiKeyError('Invalid API key format');
+  }
+
+  const { data, error } = await supabase
+    .rpc('validate_api_key', { key: apiKey });
+
+  if (error) {
+    console.error('API key validation error:', error);
+    throw new Error('Authentication failed');
+  }
+
+  if (!data || data.length === 0) {
+    throw new ApiKeyError('Invalid API key');
+  }
+
+  const keyData = data[0];
+  if (!keyData.is_valid) {
+    throw new ApiKeyError('API key is expired or inactive');
+  }
+
+  return { ...keyData, ...(await loadKeyAccess(supabase, keyData.api_key_id)) };
+}
+
+serve(withUsageTracking(supabase, 'ai-groups', async (req, usage) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const apiKey = req.headers.get('x-api-key');
+    if (!apiKey) {
+      return new Response(
+        JSON.stringify({ error: 'API key required in x-api-key header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Authenticate API key
+    const keyData = await authenticateApiKey(apiKey);
+    usage.apiKeyId = keyData.api_key_id;
+
+    // Check rate limit; the headers are added to every response from here on
+    const rateLimit = await checkRateLimit(supabase, keyData.api_key_id, 'ai-groups', keyData.rate_limit_per_hour);
+    usage.rateLimit = rateLimit;
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': retryAfterSeconds(rateLimit).toString() } }
+      );
+    }
+
+    // Check scopes
+    const requiredScope: ApiScope = req.method === 'GET' ? 'groups:read' : 'groups:write';
+    if (missingScope(keyData, [requiredScope])) {
+      return new Response(
+        JSON.stringify({ error: `Insufficient scope. Required: ${requiredScope}` }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const url = new URL(req.url);
+    const groupId = url.pathname.split('/').pop();
+    const hasGroupId = !!groupId && groupId !== 'ai-groups';
+
+    // Keys limited to certain groups only see those groups and cannot create new ones
+    const allowedGroupIds: string[] | null = keyData.allowed_group_ids;
+    if (hasGroupId && allowedGroupIds && !allowedGroupIds.includes(groupId)) {
+      return new Response(
+        JSON.stringify({ error: 'Group not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'GET') {
+      let query = supabase
+        .from('idea_groups')
+        .select(GROUP_COLUMNS)
+        .eq('workspace_id', keyData.workspace_id);
+
+      if (hasGroupId) {
+        const { data: group, error } = await query.eq('id', groupId).single();
+
+        if (error) {
+          return new Response(
+            JSON.stringify({ error: 'Group not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ data: group }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (allowedGroupIds) {
+        query = query.in('id', allowedGroupIds);
+      }
+
+      const { data: groups, error } = await query.order('name', { ascending: true });
+
+      if (error) {
+        console.error('Database error:', error);
+        return new Response(
+          JSON.stringify({ error: 'Failed to fetch groups' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: groups, meta: { count: groups.length } }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'POST') {
+      if (allowedGroupIds) {
+        return new Response(
+          JSON.stringify({ error: 'This API key is limited to existing groups' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const createData = await req.json();
+      const createErrors = validateGroupData(createData, false);
+      if (createErrors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: 'Validation failed', details: createErrors }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: newGroup, error: createError } = await supabase
+        .from('idea_groups')
+        .insert([{
+          user_id: keyData.user_id,
+          workspace_id: keyData.workspace_id,
+          name: createData.name.trim(),
+          description: createData.description ?? null,
+          color: createData.color,
+          icon: createData.icon ?? null
+        }])
+        .select(GROUP_COLUMNS)
+        .single();
+
+      if (createError) {
+        console.error('Database error:', createError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to create group' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: newGroup }),
+        { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if ((req.method === 'PUT' || req.method === 'DELETE') && !hasGroupId) {
+      return new Response(
+        JSON.stringify({ error: 'Group ID required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'PUT') {
+      const updateData = await req.json();
+      const updateErrors = validateGroupData(updateData, true);
+      if (updateErrors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: 'Validation failed', details: updateErrors }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const updates = {
+        name: typeof updateData.name === 'string' ? updateData.name.trim() : undefined,
+        description: updateData.description,
+        color: updateData.color,
+        icon: updateData.icon
+      };
+
+      // Remove undefined values
+      Object.keys(updates).forEach(key =>
+        updates[key] === undefined && delete updates[key]
+      );
+
+      const { data: updatedGroup, error: updateError } = await supabase
+        .from('idea_groups')
+        .update(updates)
+        .eq('id', groupId)
+        .eq('workspace_id', keyData.workspace_id)
+        .select(GROUP_COLUMNS)
+        .single();
+
+      if (updateError) {
+        console.error('Database error:', updateError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to update group or group not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: updatedGroup }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'DELETE') {
+      // Ideas in the group become ungrouped through the foreign key
+      const { data: deletedGroup, error: deleteError } = await supabase
+        .from('idea_groups')
+        .delete()
+        .eq('id', groupId)
+        .eq('workspace_id', keyData.workspace_id)
+        .select(GROUP_COLUMNS)
+        .single();
+
+      if (deleteError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to delete group or group not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: deletedGroup, message: 'Group deleted successfully' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: error instanceof ApiKeyError ? 401 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}));
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { ideaETag, parseIfMatch } from './conditional.ts';
+
+const version = '2026-10-19T12:00:00.123456+00:00';
+
+describe('parseIfMatch', () => {
+  it('reads back the version of an ETag', () => {
+    expect(parseIfMatch(ideaETag({ updated_at: version }))).toEqual([version]);
+  });
+
+  it('accepts weak and unquoted tags and lists of them', () => {
+    expect(parseIfMatch(`W/"${version}", "2026-10-18T08:00:00+00:00"`)).toEqual([version, '2026-10-18T08:00:00+00:00']);
+    expect(parseIfMatch(version)).toEqual([version]);
+  });
+
+  it('matches anything for a wildcard and nothing for foreign tags', () => {
+    expect(parseIfMatch(' * ')).toBe('*');
+    expect(parseIfMatch('"33a64df551425fcc55e4d42a148795d9f25f89d4"')).toEqual([]);
+  });
+
+  it('makes the update unconditional without the header', () => {
+    expect(parseIfMatch(null)).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+// ETags and If-Match for conditional idea updates
+
+// An idea's version is its updated_at, which the update trigger bumps on every write.
+// The ETag is that timestamp quoted, so ideas from list responses can be updated
+// conditionally too.
+export function ideaETag(idea: { updated_at: string }) {
+  return `"${idea.updated_at}"`;
+}
+
+// Versions listed in an If-Match header; '*' matches any version. Entity tags that are not
+// timestamps can never match and are dropped.
+export function parseIfMatch(header: string | null): string[] | '*' | null {
+  if (header === null) return null;
+  if (header.trim() === '*') return '*';
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'))
+    .filter(version => !Number.isNaN(Date.parse(version)));
+}
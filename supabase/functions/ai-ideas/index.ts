@@ -1,10 +1,21 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiScope, KeyAccess, isIdeaAllowed, isRestricted, loadKeyAccess, missingScope } from '../_shared/scopes.ts';
+import { withUsageTracking } from '../_shared/usage.ts';
+import { checkRateLimit, retryAfterSeconds } from '../_shared/rateLimit.ts';
+import { ApiKeyError } from '../_shared/errors.ts';
+import { withIdempotency } from '../_shared/idempotency.ts';
+import { IDEA_COUNT_MODES, IDEA_SORT_FIELDS } from '../_shared/schemas.ts';
+import { EXPORT_FORMATS, ExportFormat, loadExportData, renderExport } from '../_shared/export.ts';
+import { parseJsonBody, sanitizeIdeaFields, sanitizeMarkdown, validateIdeaData } from './input.ts';
+import { ideaETag, parseIfMatch } from './conditional.ts';
+import { ListCursor, ListFilters, decodeCursor, encodeCursor, keysetFilter, parseListFilters } from './listing.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key, idempotency-key, if-match',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, idempotent-replayed, etag, content-disposition',
 };
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -12,67 +23,273 @@ const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// Markdown sanitization - removes potentially dangerous HTML
-function sanitizeMarkdown(content: string): string {
-  if (!content) return '';
-  
-  // Remove script tags and their content
-  content = content.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
-  
-  // Remove dangerous HTML tags but preserve markdown formatting
-  const dangerousTags = ['script', 'iframe', 'object', 'embed', 'form', 'input', 'textarea', 'button'];
-  for (const tag of dangerousTags) {
-    const regex = new RegExp(`<\\/?${tag}[^>]*>`, 'gi');
-    content = content.replace(regex, '');
-  }
-  
-  // Remove javascript: and data: URLs
-  content = content.replace(/javascript:/gi, '');
-  content = content.replace(/data:/gi, '');
-  
-  // Limit content length (10MB max)
-  if (content.length > 10 * 1024 * 1024) {
-    throw new Error('Content too large (max 10MB)');
-  }
-  
-  return content.trim();
+// Public idea fields; keeps internal columns such as search_vector out of responses
+const IDEA_COLUMNS = 'id, user_id, workspace_id, group_id, title, description, original_description, enhancement_template_id, enhancement_template_name, status, tags, color, image_url, board_position, created_at, updated_at, deleted_at';
+
+// Make sure a group belongs to the API key's workspace before ideas are assigned to it
+async function isWorkspaceGroup(groupId: string | null | undefined, workspaceId: string) {
+  if (!groupId) return true;
+
+  const { data, error } = await supabase
+    .from('idea_groups')
+    .select('id')
+    .eq('id', groupId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  return !error && !!data;
 }
 
-// Validate idea data
-function validateIdeaData(data: any) {
-  const errors: string[] = [];
-  
-  if (!data.title || typeof data.title !== 'string' || data.title.trim().length === 0) {
-    errors.push('Title is required and must be a non-empty string');
-  }
-  
-  if (data.title && data.title.length > 500) {
-    errors.push('Title must be less than 500 characters');
+type IdeaQuery = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+// Scope a list query to the key workspace's ideas outside the trash, the key's group/tag restrictions
+// and the request filters
+function applyListFilters(query: IdeaQuery, keyData: KeyAccess & { user_id: string }, filters: ListFilters): IdeaQuery {
+  query = query.eq('workspace_id', keyData.workspace_id).is('deleted_at', null);
+
+  if (keyData.allowed_group_ids) query = query.in('group_id', keyData.allowed_group_ids);
+  if (keyData.allowed_tags) query = query.overlaps('tags', keyData.allowed_tags);
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.tags.length > 0) query = query.overlaps('tags', filters.tags);
+  if (filters.color) query = query.eq('color', filters.color);
+  if (filters.groupId === 'ungrouped') {
+    query = query.is('group_id', null);
+  } else if (filters.groupId) {
+    query = query.eq('group_id', filters.groupId);
   }
-  
-  if (data.description && typeof data.description !== 'string') {
-    errors.push('Description must be a string');
+  if (filters.createdAfter) query = query.gte('created_at', filters.createdAfter);
+  if (filters.createdBefore) query = query.lt('created_at', filters.createdBefore);
+  if (filters.updatedAfter) query = query.gte('updated_at', filters.updatedAfter);
+  if (filters.updatedBefore) query = query.lt('updated_at', filters.updatedBefore);
+
+  return query;
+}
+
+// Ask webhook-dispatch to send queued deliveries. Not awaited: deliveries are queued
+// by a database trigger, so a dropped request only delays them until the next run.
+function dispatchWebhooks() {
+  fetch(`${supabaseUrl}/functions/v1/webhook-dispatch`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${supabaseServiceKey}` }
+  }).catch(error => console.error('Webhook dispatch error:', error));
+}
+
+const BATCH_OPERATIONS = ['create', 'update', 'archive'];
+const BATCH_MODES = ['atomic', 'partial'];
+const MAX_BATCH_OPERATIONS = 100;
+
+interface BatchOperation {
+  op: string;
+  id?: string;
+  data?: Record<string, unknown>;
+}
+
+interface BatchResult {
+  index: number;
+  op: string;
+  status: number;
+  id?: string;
+  data?: unknown;
+  error?: string;
+  details?: string[];
+}
+
+// A batch costs as many requests as the operations it carries
+function batchWeight(body: { operations?: unknown } | null) {
+  const count = Array.isArray(body?.operations) ? body.operations.length : 0;
+  return Math.min(Math.max(count, 1), MAX_BATCH_OPERATIONS);
+}
+
+// Validate, authorize and apply a batch of create/update/archive operations.
+// Every operation is checked up front; atomic batches are rejected as a whole if any
+// check fails, partial batches apply whatever passed.
+async function handleBatch(body: { mode?: unknown; operations?: unknown } | null, keyData: KeyAccess & { user_id: string }) {
+  const mode = body?.mode ?? 'atomic';
+  const operations = body?.operations;
+
+  if (!BATCH_MODES.includes(mode as string)) {
+    return new Response(
+      JSON.stringify({ error: `Mode must be one of: ${BATCH_MODES.join(', ')}` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
-  
-  if (data.status && !['idea', 'research', 'progress', 'launched', 'archived'].includes(data.status)) {
-    errors.push('Status must be one of: idea, research, progress, launched, archived');
+
+  if (!Array.isArray(operations) || operations.length === 0 || operations.length > MAX_BATCH_OPERATIONS) {
+    return new Response(
+      JSON.stringify({ error: `Operations must be an array of 1 to ${MAX_BATCH_OPERATIONS} items` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
-  
-  if (data.tags && (!Array.isArray(data.tags) || !data.tags.every((tag: any) => typeof tag === 'string'))) {
-    errors.push('Tags must be an array of strings');
+
+  const ops: BatchOperation[] = operations.map(operation =>
+    operation && typeof operation === 'object' ? operation : { op: '' }
+  );
+
+  // Load the ideas and groups the batch refers to in two queries instead of one per operation
+  const ideaIds = [...new Set(ops.map(operation => operation.id).filter(id => typeof id === 'string' && /^[0-9a-f-]{36}$/i.test(id)))];
+  const groupIds = [...new Set(ops.map(operation => operation.data?.group_id).filter(id => typeof id === 'string'))] as string[];
+
+  const [{ data: existingIdeas }, { data: ownedGroups }] = await Promise.all([
+    ideaIds.length > 0
+      ? supabase.from('ideas').select('id, group_id, tags').eq('workspace_id', keyData.workspace_id).is('deleted_at', null).in('id', ideaIds)
+      : Promise.resolve({ data: [] }),
+    groupIds.length > 0
+      ? supabase.from('idea_groups').select('id').eq('workspace_id', keyData.workspace_id).in('id', groupIds)
+      : Promise.resolve({ data: [] })
+  ]);
+
+  const existingById = new Map((existingIdeas || []).map(idea => [idea.id, idea]));
+  const ownedGroupIds = new Set((ownedGroups || []).map(group => group.id));
+
+  const results: BatchResult[] = [];
+  const pending: { index: number; operation: BatchOperation }[] = [];
+
+  ops.forEach((operation, index) => {
+    const fail = (status: number, error: string, details?: string[]) =>
+      results.push({ index, op: operation.op, status, id: operation.id, error, details });
+
+    if (!BATCH_OPERATIONS.includes(operation.op)) {
+      return fail(400, `Operation must be one of: ${BATCH_OPERATIONS.join(', ')}`);
+    }
+
+    const data = operation.op === 'archive' ? { status: 'archived' } : (operation.data ?? {});
+    const requiredScopes: Record<string, ApiScope[]> = {
+      create: ['ideas:create'],
+      update: data.status === 'archived' ? ['ideas:update', 'ideas:archive'] : ['ideas:update'],
+      archive: ['ideas:archive']
+    };
+    const missing = missingScope(keyData, requiredScopes[operation.op]);
+    if (missing) {
+      return fail(403, `Insufficient scope. Required: ${missing}`);
+    }
+
+    if (operation.op !== 'archive') {
+      const errors = validateIdeaData(data, { update: operation.op === 'update' });
+      if (errors.length > 0) {
+        return fail(400, 'Validation failed', errors);
+      }
+      if (data.group_id && !ownedGroupIds.has(data.group_id as string)) {
+        return fail(400, 'Validation failed', ['Group not found']);
+      }
+    }
+
+    let target = data;
+    if (operation.op !== 'create') {
+      const existing = typeof operation.id === 'string' ? existingById.get(operation.id) : undefined;
+      if (!existing || !isIdeaAllowed(keyData, existing)) {
+        return fail(404, 'Idea not found');
+      }
+      target = { ...existing, ...data };
+    }
+
+    if (!isIdeaAllowed(keyData, target)) {
+      return fail(403, 'This API key is limited to other groups or tags');
+    }
+
+    pending.push({
+      index,
+      operation: {
+        op: operation.op,
+        id: operation.id,
+        data: operation.op === 'archive' ? undefined : sanitizeIdeaFields(data)
+      }
+    });
+  });
+
+  const notApplied = (index: number): BatchResult => ({
+    index,
+    op: ops[index].op,
+    status: 424,
+    id: ops[index].id,
+    error: 'Not applied because another operation in the batch failed'
+  });
+
+  if (mode === 'atomic' && results.length > 0) {
+    const failed = new Set(results.map(result => result.index));
+    const all = [...results, ...pending.filter(item => !failed.has(item.index)).map(item => notApplied(item.index))];
+    return new Response(
+      JSON.stringify({
+        error: 'Batch rejected; no operations were applied',
+        data: all.sort((a, b) => a.index - b.index)
+      }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
-  
-  if (data.color && (typeof data.color !== 'string' || !/^#[0-9A-F]{6}$/i.test(data.color))) {
-    errors.push('Color must be a valid hex color code');
+
+  if (pending.length > 0) {
+    const { data: applied, error: applyError } = await supabase.rpc('apply_idea_batch', {
+      p_user_id: keyData.user_id,
+      p_workspace_id: keyData.workspace_id,
+      p_operations: pending.map(item => item.operation),
+      p_atomic: mode === 'atomic'
+    });
+
+    if (applyError) {
+      // Only atomic batches fail as a whole; the detail holds the failing operation's position
+      console.error('Database error:', applyError);
+      const failedAt = pending[Number(applyError.details)]?.index;
+      return new Response(
+        JSON.stringify({
+          error: 'Batch failed; no operations were applied',
+          data: pending.map(item => item.index === failedAt
+            ? { index: item.index, op: item.operation.op, status: 409, id: item.operation.id, error: applyError.message }
+            : notApplied(item.index))
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const appliedIds = (applied as { id: string; error?: string }[])
+      .filter(item => !item.error)
+      .map(item => item.id);
+    const { data: ideas } = appliedIds.length > 0
+      ? await supabase.from('ideas').select(IDEA_COLUMNS).in('id', appliedIds)
+      : { data: [] };
+    const ideasById = new Map((ideas || []).map((idea: Record<string, unknown>): [string, Record<string, unknown>] => [idea.id as string, idea]));
+
+    (applied as { id: string; error?: string }[]).forEach((item, position) => {
+      const { index, operation } = pending[position];
+      if (item.error) {
+        console.error('Batch operation error:', item.error);
+        results.push({
+          index,
+          op: operation.op,
+          status: item.error === 'Idea not found' ? 404 : 500,
+          id: operation.id,
+          error: item.error === 'Idea not found' ? item.error : 'Failed to apply operation'
+        });
+      } else {
+        results.push({
+          index,
+          op: operation.op,
+          status: operation.op === 'create' ? 201 : 200,
+          id: item.id,
+          data: ideasById.get(item.id)
+        });
+      }
+    });
+
+    if (appliedIds.length > 0) {
+      dispatchWebhooks();
+    }
   }
-  
-  return errors;
+
+  const succeeded = results.filter(result => result.status < 300).length;
+
+  return new Response(
+    JSON.stringify({
+      data: results.sort((a, b) => a.index - b.index),
+      meta: { mode, total: results.length, succeeded, failed: results.length - succeeded }
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
 }
 
 // Authenticate API key
 async function authenticateApiKey(apiKey: string) {
   if (!apiKey || !apiKey.startsWith('iah_')) {
-    throw new Error('Invalid API key format');
+    throw new ApiKeyError('Invalid API key format');
   }
 
   const { data, error } = await supabase
@@ -84,39 +301,214 @@ async function authenticateApiKey(apiKey: string) {
   }
 
   if (!data || data.length === 0) {
-    throw new Error('Invalid API key');
+    throw new ApiKeyError('Invalid API key');
   }
 
   const keyData = data[0];
   if (!keyData.is_valid) {
-    throw new Error('API key is expired or inactive');
+    throw new ApiKeyError('API key is expired or inactive');
   }
 
-  return keyData;
+  return { ...keyData, ...(await loadKeyAccess(supabase, keyData.api_key_id)) };
+}
+
+function insufficientScope(scope: ApiScope) {
+  return new Response(
+    JSON.stringify({ error: `Insufficient scope. Required: ${scope}` }),
+    { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
 }
 
-// Check rate limit
-async function checkRateLimit(apiKeyId: string, endpoint: string, rateLimit: number) {
+// Load an idea for a write, treating ideas outside the key's groups/tags as missing
+async function findWritableIdea(ideaId: string, keyData: KeyAccess & { user_id: string }) {
   const { data, error } = await supabase
-    .rpc('check_rate_limit', { 
-      p_api_key_id: apiKeyId, 
-      p_endpoint: endpoint, 
-      p_rate_limit: rateLimit 
-    });
+    .from('ideas')
+    .select('id, group_id, tags')
+    .eq('id', ideaId)
+    .eq('workspace_id', keyData.workspace_id)
+    .maybeSingle();
+
+  if (error || !data || !isIdeaAllowed(keyData, data)) return null;
+  return data;
+}
+
+// Validate, authorize and insert a single idea
+async function handleCreate(createData: Record<string, unknown>, keyData: KeyAccess & { user_id: string }) {
+  // Validate input
+  const createErrors = validateIdeaData(createData);
+  if (createErrors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: createErrors }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (!(await isWorkspaceGroup(createData.group_id as string | null, keyData.workspace_id))) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: ['Group not found'] }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (!isIdeaAllowed(keyData, createData)) {
+    return new Response(
+      JSON.stringify({ error: 'This API key is limited to other groups or tags' }),
+      { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Sanitize markdown content
+  const sanitizedCreateData = {
+    ...createData,
+    title: sanitizeMarkdown(createData.title as string),
+    description: createData.description ? sanitizeMarkdown(createData.description as string) : null,
+    user_id: keyData.user_id,
+    workspace_id: keyData.workspace_id
+  };
+
+  const { data: newIdea, error: createError } = await supabase
+    .from('ideas')
+    .insert([sanitizedCreateData])
+    .select(IDEA_COLUMNS)
+    .single();
+
+  if (createError) {
+    console.error('Database error:', createError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create idea' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  dispatchWebhooks();
+
+  return new Response(
+    JSON.stringify({ data: newIdea }),
+    { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'ETag': ideaETag(newIdea) } }
+  );
+}
+
+// List the comments on an idea, oldest first, with their authors and @mentions resolved to
+// display names. Deleted comments keep their place in the thread without a body.
+async function handleListComments(ideaId: string, url: URL, keyData: KeyAccess & { user_id: string }) {
+  const { data: idea, error: ideaError } = await supabase
+    .from('ideas')
+    .select('id, group_id, tags')
+    .eq('id', ideaId)
+    .eq('workspace_id', keyData.workspace_id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (ideaError || !idea || !isIdeaAllowed(keyData, idea)) {
+    return new Response(
+      JSON.stringify({ error: 'Idea not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const includeHistory = url.searchParams.get('include_history') === 'true';
+  const { data: comments, error } = await supabase
+    .from('idea_comments')
+    .select(`id, parent_id, user_id, body, mentioned_user_ids, created_at, updated_at, edited_at, deleted_at${includeHistory ? ', idea_comment_revisions(body, action, created_at)' : ''}`)
+    .eq('idea_id', ideaId)
+    .order('created_at', { ascending: true });
 
   if (error) {
-    console.error('Rate limit check error:', error);
-    throw new Error('Rate limiting failed');
+    console.error('Database error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch comments' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
 
-  if (!data) {
-    throw new Error('Rate limit exceeded');
+  const userIds = [...new Set(comments.flatMap((comment: Record<string, unknown>) =>
+    [comment.user_id as string, ...(comment.mentioned_user_ids as string[])]
+  ))];
+  const { data: profiles } = userIds.length > 0
+    ? await supabase.from('profiles').select('user_id, display_name').in('user_id', userIds)
+    : { data: [] };
+  const person = (userId: string) => ({
+    user_id: userId,
+    display_name: (profiles || []).find((profile: { user_id: string }) => profile.user_id === userId)?.display_name ?? null
+  });
+
+  const data = comments.map(({ user_id, mentioned_user_ids, body, idea_comment_revisions, ...comment }: Record<string, unknown>) => ({
+    ...comment,
+    idea_id: ideaId,
+    author: person(user_id as string),
+    body: comment.deleted_at ? null : body,
+    mentions: (mentioned_user_ids as string[]).map(person),
+    ...(includeHistory
+      ? { history: [...(idea_comment_revisions as { created_at: string }[])].sort((a, b) => b.created_at.localeCompare(a.created_at)) }
+      : {})
+  }));
+
+  return new Response(
+    JSON.stringify({ data }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Export a workspace's ideas as a JSON archive, a CSV or a zip of Markdown files. API keys
+// only get groups with groups:read and settings with profile:read; signed-in users get everything.
+async function handleExport(url: URL, userId: string, workspaceId: string, access: KeyAccess | null) {
+  const format = url.searchParams.get('format') || 'json';
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: [`format must be one of: ${EXPORT_FORMATS.join(', ')}`] }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
 
-  return data;
+  const data = await loadExportData(supabase, userId, workspaceId, access, {
+    groups: !access || !missingScope(access, ['groups:read']),
+    settings: !access || !missingScope(access, ['profile:read'])
+  });
+  const file = renderExport(format as ExportFormat, data);
+
+  return new Response(file.body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`
+    }
+  });
 }
 
-serve(async (req) => {
+// The web app exports with the signed-in user's session token instead of an API key
+async function handleSessionExport(req: Request, url: URL) {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') || '';
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid or expired session' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Defaults to the personal workspace; other workspaces need a membership
+  const requestedWorkspace = url.searchParams.get('workspace_id');
+  const membershipQuery = supabase
+    .from('workspace_members')
+    .select('workspace_id, workspaces!inner(is_personal)')
+    .eq('user_id', user.id);
+  const { data: membership } = await (requestedWorkspace
+    ? membershipQuery.eq('workspace_id', requestedWorkspace)
+    : membershipQuery.eq('workspaces.is_personal', true)
+  ).maybeSingle();
+
+  if (!membership) {
+    return new Response(
+      JSON.stringify({ error: 'Workspace not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return handleExport(url, user.id, membership.workspace_id, null);
+}
+
+serve(withUsageTracking(supabase, 'ai-ideas', async (req, usage) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -124,6 +516,13 @@ serve(async (req) => {
 
   try {
     const apiKey = req.headers.get('x-api-key');
+    const url = new URL(req.url);
+    const ideaId = url.pathname.split('/').pop();
+
+    if (!apiKey && req.method === 'GET' && ideaId === 'export' && req.headers.has('Authorization')) {
+      return await handleSessionExport(req, url);
+    }
+
     if (!apiKey) {
       return new Response(
         JSON.stringify({ error: 'API key required in x-api-key header' }),
@@ -133,37 +532,68 @@ serve(async (req) => {
 
     // Authenticate API key
     const keyData = await authenticateApiKey(apiKey);
-    
-    // Check permissions
-    const method = req.method.toLowerCase();
-    const requiredPermission = method === 'get' ? 'read' : 'write';
-    
-    if (!keyData.permissions.includes(requiredPermission) && !keyData.permissions.includes('admin')) {
+    usage.apiKeyId = keyData.api_key_id;
+
+    // POST bodies are read up front: a batch's size sets its rate limit weight, and
+    // idempotency keys are matched against the raw body
+    const isBatch = req.method === 'POST' && ideaId === 'batch';
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    const isComments = req.method === 'GET' && ideaId === 'comments' && pathParts.length >= 3;
+    const postBody = req.method === 'POST' ? await req.text() : '';
+    const batchBody = isBatch ? parseJsonBody(postBody) : null;
+
+    // Check rate limit; the headers are added to every response from here on
+    const rateLimit = await checkRateLimit(supabase, keyData.api_key_id, 'ai-ideas', keyData.rate_limit_per_hour, isBatch ? batchWeight(batchBody) : 1);
+    usage.rateLimit = rateLimit;
+    if (!rateLimit.allowed) {
       return new Response(
-        JSON.stringify({ error: `Insufficient permissions. Required: ${requiredPermission}` }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Rate limit exceeded' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': retryAfterSeconds(rateLimit).toString() } }
       );
     }
 
-    // Check rate limit
-    const endpoint = 'ai-ideas';
-    await checkRateLimit(keyData.api_key_id, endpoint, keyData.rate_limit_per_hour);
+    // Check scopes
+    const requiredScopes: Record<string, ApiScope[]> = {
+      GET: ['ideas:read'],
+      POST: ['ideas:create'],
+      PUT: ['ideas:update'],
+      DELETE: ['ideas:archive']
+    };
+    const missing = isBatch
+      ? null
+      : missingScope(keyData, isComments ? ['ideas:read', 'comments:read'] : requiredScopes[req.method] ?? []);
+    if (missing) {
+      return insufficientScope(missing);
+    }
 
-    const url = new URL(req.url);
-    const ideaId = url.pathname.split('/').pop();
+    if (isComments) {
+      return await handleListComments(pathParts[pathParts.length - 2], url, keyData);
+    }
+
+    // Batches check scopes per operation
+    if (isBatch) {
+      return await withIdempotency(supabase, req, keyData.user_id, 'POST /ai-ideas/batch', postBody, corsHeaders, () =>
+        handleBatch(batchBody, keyData)
+      );
+    }
 
     switch (req.method) {
       case 'GET':
+        if (ideaId === 'export') {
+          return await handleExport(url, keyData.user_id, keyData.workspace_id, keyData);
+        }
+
         if (ideaId && ideaId !== 'ai-ideas') {
           // Get single idea
           const { data: idea, error } = await supabase
             .from('ideas')
-            .select('*')
+            .select(IDEA_COLUMNS)
             .eq('id', ideaId)
-            .eq('user_id', keyData.user_id)
+            .eq('workspace_id', keyData.workspace_id)
+            .is('deleted_at', null)
             .single();
 
-          if (error) {
+          if (error || !isIdeaAllowed(keyData, idea)) {
             return new Response(
               JSON.stringify({ error: 'Idea not found' }),
               { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -172,92 +602,183 @@ serve(async (req) => {
 
           return new Response(
             JSON.stringify({ data: idea }),
-            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json', 'ETag': ideaETag(idea) } }
           );
         } else {
           // Get all ideas with optional filtering
           const params = url.searchParams;
-          const status = params.get('status');
-          const limit = Math.min(parseInt(params.get('limit') || '50'), 100);
-          const offset = parseInt(params.get('offset') || '0');
+          const limit = Math.min(Math.max(parseInt(params.get('limit') || '50') || 50, 1), 100);
+          const offset = Math.max(parseInt(params.get('offset') || '0') || 0, 0);
           const search = params.get('search');
+          const sort = params.get('sort') || 'updated_at';
+          const order = params.get('order') || 'desc';
+          const countMode = params.get('count') || 'exact';
+          const cursorToken = params.get('cursor');
+          const cursor = cursorToken ? decodeCursor(cursorToken) : null;
+
+          const { filters, errors: paramErrors } = parseListFilters(params);
+          if (!IDEA_SORT_FIELDS.includes(sort)) {
+            paramErrors.push(`sort must be one of: ${IDEA_SORT_FIELDS.join(', ')}`);
+          }
+          if (!['asc', 'desc'].includes(order)) {
+            paramErrors.push('order must be asc or desc');
+          }
+          if (!IDEA_COUNT_MODES.includes(countMode)) {
+            paramErrors.push(`count must be one of: ${IDEA_COUNT_MODES.join(', ')}`);
+          }
+          if (cursorToken && (!cursor || cursor.sort !== sort || cursor.order !== order)) {
+            paramErrors.push('cursor is invalid or was issued for a different sort order');
+          }
 
-          let query = supabase
-            .from('ideas')
-            .select('*')
-            .eq('user_id', keyData.user_id)
-            .order('updated_at', { ascending: false })
-            .range(offset, offset + limit - 1);
+          if (paramErrors.length > 0) {
+            return new Response(
+              JSON.stringify({ error: 'Validation failed', details: paramErrors }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
 
-          if (status) {
-            query = query.eq('status', status);
+          // Drop ideas that have been in the trash longer than the workspace's retention period
+          const { error: purgeError } = await supabase.rpc('purge_trashed_ideas', { p_workspace_id: keyData.workspace_id });
+          if (purgeError) {
+            console.error('Trash purge error:', purgeError);
           }
 
           if (search) {
-            query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
+            // Ranked full-text search, same query syntax as the web app
+            const { data: hits, error: searchError } = await supabase.rpc('search_ideas', {
+              p_workspace_id: keyData.workspace_id,
+              p_query: search
+            });
+
+            if (searchError) {
+              console.error('Search error:', searchError);
+              return new Response(
+                JSON.stringify({ error: 'Failed to search ideas' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+
+            const matchQuery = applyListFilters(supabase.from('ideas').select(IDEA_COLUMNS), keyData, filters)
+              .in('id', hits.map((hit: { id: string }) => hit.id));
+
+            const { data: matches, error: matchError } = hits.length > 0
+              ? await matchQuery
+              : { data: [], error: null };
+
+            if (matchError) {
+              console.error('Database error:', matchError);
+              return new Response(
+                JSON.stringify({ error: 'Failed to fetch ideas' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+
+            const ideasById = new Map(
+              matches.map((idea: Record<string, unknown>): [string, Record<string, unknown>] => [idea.id as string, idea])
+            );
+            const ranked = hits
+              .filter((hit: { id: string }) => ideasById.has(hit.id))
+              .map((hit: { id: string; rank: number; title_highlight: string; description_highlight: string }) => ({
+                ...ideasById.get(hit.id),
+                rank: hit.rank,
+                highlight: {
+                  title: hit.title_highlight,
+                  description: hit.description_highlight
+                }
+              }));
+            const page = ranked.slice(offset, offset + limit);
+
+            return new Response(
+              JSON.stringify({
+                data: page,
+                meta: {
+                  limit,
+                  offset,
+                  count: page.length,
+                  total: ranked.length
+                }
+              }),
+              { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          // Keyset pagination: walk backwards from a prev cursor by flipping the order
+          const backward = cursor?.dir === 'prev';
+          const ascending = (order === 'asc') !== backward;
+
+          let query = applyListFilters(supabase.from('ideas').select(IDEA_COLUMNS), keyData, filters)
+            .order(sort, { ascending })
+            .order('id', { ascending });
+
+          if (cursor) {
+            query = query.or(keysetFilter(sort, cursor, ascending)).limit(limit + 1);
+          } else {
+            query = query.range(offset, offset + limit);
           }
 
-          const { data: ideas, error } = await query;
+          // Totals ignore the cursor so they stay stable while paging
+          const totalQuery = countMode === 'none'
+            ? null
+            : applyListFilters(
+                supabase.from('ideas').select('id', { count: countMode as 'exact' | 'estimated', head: true }),
+                keyData,
+                filters
+              );
 
-          if (error) {
-            console.error('Database error:', error);
+          const [{ data: rows, error }, totalResult] = await Promise.all([query, totalQuery]);
+
+          if (error || totalResult?.error) {
+            console.error('Database error:', error || totalResult?.error);
             return new Response(
               JSON.stringify({ error: 'Failed to fetch ideas' }),
               { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
           }
 
+          const hasMore = rows.length > limit;
+          const ideas = rows.slice(0, limit);
+          if (backward) ideas.reverse();
+
+          const toCursor = (idea: Record<string, unknown>, dir: ListCursor['dir']) =>
+            encodeCursor({ sort, order, value: String(idea[sort]), id: idea.id as string, dir });
+          const first = ideas[0] as Record<string, unknown> | undefined;
+          const last = ideas[ideas.length - 1] as Record<string, unknown> | undefined;
+          const hasNext = backward ? true : hasMore;
+          const hasPrev = backward ? hasMore : !!cursor || offset > 0;
+
           return new Response(
             JSON.stringify({ 
               data: ideas, 
               meta: { 
                 limit, 
-                offset, 
-                count: ideas.length 
+                offset: cursor ? null : offset, 
+                count: ideas.length,
+                total: totalResult?.count ?? null,
+                sort,
+                order,
+                next_cursor: hasNext && last ? toCursor(last, 'next') : null,
+                prev_cursor: hasPrev && first ? toCursor(first, 'prev') : null
               } 
             }),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-      case 'POST':
-        const createData = await req.json();
-        
-        // Validate input
-        const createErrors = validateIdeaData(createData);
-        if (createErrors.length > 0) {
+      case 'POST': {
+        let createData: Record<string, unknown>;
+        try {
+          createData = JSON.parse(postBody);
+        } catch {
           return new Response(
-            JSON.stringify({ error: 'Validation failed', details: createErrors }),
+            JSON.stringify({ error: 'invalid_json', details: ['Request body is not valid JSON'] }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Sanitize markdown content
-        const sanitizedCreateData = {
-          ...createData,
-          title: sanitizeMarkdown(createData.title),
-          description: createData.description ? sanitizeMarkdown(createData.description) : null,
-          user_id: keyData.user_id
-        };
-
-        const { data: newIdea, error: createError } = await supabase
-          .from('ideas')
-          .insert([sanitizedCreateData])
-          .select()
-          .single();
-
-        if (createError) {
-          console.error('Database error:', createError);
-          return new Response(
-            JSON.stringify({ error: 'Failed to create idea' }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-
-        return new Response(
-          JSON.stringify({ data: newIdea }),
-          { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        return await withIdempotency(supabase, req, keyData.user_id, 'POST /ai-ideas', postBody, corsHeaders, () =>
+          handleCreate(createData, keyData)
         );
+      }
 
       case 'PUT':
         if (!ideaId || ideaId === 'ai-ideas') {
@@ -267,10 +788,16 @@ serve(async (req) => {
           );
         }
 
-        const updateData = await req.json();
-        
+        const updateData = parseJsonBody(await req.text());
+        if (updateData === null) {
+          return new Response(
+            JSON.stringify({ error: 'invalid_json', details: ['Request body is not valid JSON'] }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         // Validate input
-        const updateErrors = validateIdeaData(updateData);
+        const updateErrors = validateIdeaData(updateData, { update: true });
         if (updateErrors.length > 0) {
           return new Response(
             JSON.stringify({ error: 'Validation failed', details: updateErrors }),
@@ -278,6 +805,34 @@ serve(async (req) => {
           );
         }
 
+        if (!(await isWorkspaceGroup(updateData.group_id, keyData.workspace_id))) {
+          return new Response(
+            JSON.stringify({ error: 'Validation failed', details: ['Group not found'] }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (updateData.status === 'archived' && missingScope(keyData, ['ideas:archive'])) {
+          return insufficientScope('ideas:archive');
+        }
+
+        // Restricted keys may only edit ideas inside their groups/tags, and not move them out
+        if (isRestricted(keyData)) {
+          const existing = await findWritableIdea(ideaId, keyData);
+          if (!existing) {
+            return new Response(
+              JSON.stringify({ error: 'Failed to update idea or idea not found' }),
+              { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          if (!isIdeaAllowed(keyData, { ...existing, ...updateData })) {
+            return new Response(
+              JSON.stringify({ error: 'This API key is limited to other groups or tags' }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+        }
+
         // Sanitize markdown content
         const sanitizedUpdateData = {
           ...updateData,
@@ -290,13 +845,21 @@ serve(async (req) => {
           sanitizedUpdateData[key] === undefined && delete sanitizedUpdateData[key]
         );
 
-        const { data: updatedIdea, error: updateError } = await supabase
+        // Optimistic concurrency: with If-Match, only the version the client last read is updated
+        const ifMatch = parseIfMatch(req.headers.get('If-Match'));
+        let updateQuery = supabase
           .from('ideas')
           .update(sanitizedUpdateData)
           .eq('id', ideaId)
-          .eq('user_id', keyData.user_id)
-          .select()
-          .single();
+          .eq('workspace_id', keyData.workspace_id)
+          .is('deleted_at', null);
+        if (Array.isArray(ifMatch)) {
+          updateQuery = updateQuery.in('updated_at', ifMatch);
+        }
+
+        const { data: updatedIdea, error: updateError } = Array.isArray(ifMatch) && ifMatch.length === 0
+          ? { data: null, error: null }
+          : await updateQuery.select(IDEA_COLUMNS).maybeSingle();
 
         if (updateError) {
           console.error('Database error:', updateError);
@@ -306,9 +869,30 @@ serve(async (req) => {
           );
         }
 
+        if (!updatedIdea) {
+          const { data: currentIdea } = Array.isArray(ifMatch)
+            ? await supabase.from('ideas').select(IDEA_COLUMNS).eq('id', ideaId).eq('workspace_id', keyData.workspace_id).is('deleted_at', null).maybeSingle()
+            : { data: null };
+
+          // The idea exists but changed since the client read it; send the current version to merge with
+          if (currentIdea && isIdeaAllowed(keyData, currentIdea)) {
+            return new Response(
+              JSON.stringify({ error: 'Idea was modified since it was read', data: currentIdea }),
+              { status: 412, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'ETag': ideaETag(currentIdea) } }
+            );
+          }
+
+          return new Response(
+            JSON.stringify({ error: 'Failed to update idea or idea not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        dispatchWebhooks();
+
         return new Response(
           JSON.stringify({ data: updatedIdea }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json', 'ETag': ideaETag(updatedIdea) } }
         );
 
       case 'DELETE':
@@ -319,13 +903,27 @@ serve(async (req) => {
           );
         }
 
-        // Soft delete by updating status to archived
-        const { data: deletedIdea, error: deleteError } = await supabase
-          .from('ideas')
-          .update({ status: 'archived' })
+        // Ideas are moved to the trash unless permanent=true; trashed ideas can be deleted for good too
+        const permanent = url.searchParams.get('permanent') === 'true';
+        if (permanent && missingScope(keyData, ['ideas:delete'])) {
+          return insufficientScope('ideas:delete');
+        }
+
+        if (isRestricted(keyData) && !(await findWritableIdea(ideaId, keyData))) {
+          return new Response(
+            JSON.stringify({ error: 'Failed to delete idea or idea not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const deleteQuery = permanent
+          ? supabase.from('ideas').delete()
+          : supabase.from('ideas').update({ deleted_at: new Date().toISOString() }).is('deleted_at', null);
+
+        const { data: deletedIdea, error: deleteError } = await deleteQuery
           .eq('id', ideaId)
-          .eq('user_id', keyData.user_id)
-          .select()
+          .eq('workspace_id', keyData.workspace_id)
+          .select(IDEA_COLUMNS)
           .single();
 
         if (deleteError) {
@@ -336,7 +934,10 @@ serve(async (req) => {
         }
 
         return new Response(
-          JSON.stringify({ data: deletedIdea, message: 'Idea archived successfully' }),
+          JSON.stringify({
+            data: deletedIdea,
+            message: permanent ? 'Idea deleted permanently' : 'Idea moved to trash'
+          }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
 
@@ -350,7 +951,7 @@ serve(async (req) => {
     console.error('Function error:', error);
     return new Response(
       JSON.stringify({ error: error.message || 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof ApiKeyError ? 401 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { IdeaHubClient, ValidationError } from '../../../src/sdk';
+import type { Idea, IdeaUpdate } from '../../../src/sdk';
+import { parseJsonBody, sanitizeIdeaFields, sanitizeMarkdown, validateIdeaData } from './input.ts';
+
+const stored = {
+  id: '6f1c0c7e-0000-4000-8000-000000000001',
+  title: 'Stored title',
+  description: 'Stored description',
+  status: 'idea',
+  updated_at: '2026-10-19T12:00:00.000000+00:00',
+} as Idea;
+
+// Answers PUT /ai-ideas/:id the way the handler does: validate, sanitize, then write
+// only the fields that were sent
+function putHandler(requests: { url: string; body: Record<string, unknown> }[]) {
+  return async (url: string | URL | Request, init?: RequestInit) => {
+    const body = parseJsonBody(String(init?.body));
+    if (body === null) {
+      return new Response(JSON.stringify({ error: 'invalid_json', details: ['Request body is not valid JSON'] }), { status: 400 });
+    }
+    requests.push({ url: String(url), body });
+
+    const errors = validateIdeaData(body, { update: true });
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Validation failed', details: errors }), { status: 400 });
+    }
+    return new Response(JSON.stringify({ data: { ...stored, ...sanitizeIdeaFields(body) } }), { status: 200 });
+  };
+}
+
+describe('parseJsonBody', () => {
+  it('returns null for a body that is not valid JSON', () => {
+    expect(parseJsonBody('{"title": "Voice notes"')).toBeNull();
+    expect(parseJsonBody('')).toBeNull();
+    expect(parseJsonBody('{"title": "Voice notes"}')).toEqual({ title: 'Voice notes' });
+  });
+});
+
+describe('validateIdeaData', () => {
+  it('requires a title when creating', () => {
+    expect(validateIdeaData({ status: 'idea' })).toEqual(['Title is required and must be a non-empty string']);
+    expect(validateIdeaData({ title: 'An idea' })).toEqual([]);
+  });
+
+  it('accepts updates without a title', () => {
+    expect(validateIdeaData({ status: 'archived' }, { update: true })).toEqual([]);
+    expect(validateIdeaData({ description: null }, { update: true })).toEqual([]);
+  });
+
+  it('still checks the fields an update sends', () => {
+    expect(validateIdeaData({ title: '   ' }, { update: true })).toEqual(['Title is required and must be a non-empty string']);
+    expect(validateIdeaData({ status: 'done' }, { update: true })).toEqual([
+      'Status must be one of: idea, research, progress, launched, archived'
+    ]);
+  });
+
+  it('rejects an update without any known field', () => {
+    expect(validateIdeaData({}, { update: true })).toEqual(['Provide at least one field to update']);
+    expect(validateIdeaData({ owner: 'someone' }, { update: true })).toEqual(['Provide at least one field to update']);
+  });
+});
+
+describe('sanitizeIdeaFields', () => {
+  it('leaves out fields the operation did not send', () => {
+    expect(sanitizeIdeaFields({ status: 'research' })).toEqual({ status: 'research' });
+    expect(sanitizeIdeaFields({ title: ' Renamed ' })).toEqual({ title: 'Renamed' });
+  });
+
+  it('clears the description when it is sent empty', () => {
+    expect(sanitizeIdeaFields({ description: '' })).toEqual({ description: null });
+    expect(sanitizeIdeaFields({ description: null })).toEqual({ description: null });
+  });
+
+  it('strips dangerous HTML from title and description', () => {
+    expect(sanitizeIdeaFields({
+      title: 'Hi <script>alert(1)</script>there',
+      description: '[link](javascript:alert(1)) <iframe src="x"></iframe>'
+    })).toEqual({ title: 'Hi there', description: '[link](alert(1))' });
+  });
+});
+
+describe('sanitizeMarkdown', () => {
+  it('keeps markdown formatting', () => {
+    expect(sanitizeMarkdown('# Heading\n\n- **bold** item')).toBe('# Heading\n\n- **bold** item');
+  });
+});
+
+describe('IdeaHubClient against the update handler', () => {
+  const client = (requests: { url: string; body: Record<string, unknown> }[]) =>
+    new IdeaHubClient({ apiKey: 'iah_test', baseUrl: 'https://api.test', fetch: putHandler(requests) as typeof fetch });
+
+  it('archives an idea with a status-only update', async () => {
+    const requests: { url: string; body: Record<string, unknown> }[] = [];
+    const idea = await client(requests).ideas.archive(stored.id);
+
+    expect(requests).toEqual([{ url: `https://api.test/ai-ideas/${stored.id}`, body: { status: 'archived' } }]);
+    expect(idea.status).toBe('archived');
+    expect(idea.description).toBe('Stored description');
+  });
+
+  it('sends partial updates as they are', async () => {
+    const requests: { url: string; body: Record<string, unknown> }[] = [];
+    const idea = await client(requests).ideas.update(stored.id, { tags: ['api'] });
+
+    expect(requests[0].body).toEqual({ tags: ['api'] });
+    expect(idea.title).toBe('Stored title');
+  });
+
+  it('surfaces validation failures as ValidationError', async () => {
+    const requests: { url: string; body: Record<string, unknown> }[] = [];
+    const update = client(requests).ideas.update(stored.id, {} as IdeaUpdate);
+
+    await expect(update).rejects.toBeInstanceOf(ValidationError);
+    await expect(update).rejects.toMatchObject({ messages: ['Provide at least one field to update'] });
+  });
+});
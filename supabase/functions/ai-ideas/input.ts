@@ -0,0 +1,56 @@
+import { IdeaInputSchema, IdeaUpdateSchema, validateSchema } from '../_shared/schemas.ts';
+
+// Validation and sanitization of idea request bodies, for the single and batch handlers
+
+// Parsed request body, or null when it is not valid JSON
+export function parseJsonBody(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// Markdown sanitization - removes potentially dangerous HTML
+export function sanitizeMarkdown(content: string): string {
+  if (!content) return '';
+  
+  // Remove script tags and their content
+  content = content.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
+  
+  // Remove dangerous HTML tags but preserve markdown formatting
+  const dangerousTags = ['script', 'iframe', 'object', 'embed', 'form', 'input', 'textarea', 'button'];
+  for (const tag of dangerousTags) {
+    const regex = new RegExp(`<\\/?${tag}[^>]*>`, 'gi');
+    content = content.replace(regex, '');
+  }
+  
+  // Remove javascript: and data: URLs
+  content = content.replace(/javascript:/gi, '');
+  content = content.replace(/data:/gi, '');
+  
+  // Limit content length (10MB max)
+  if (content.length > 10 * 1024 * 1024) {
+    throw new Error('Content too large (max 10MB)');
+  }
+  
+  return content.trim();
+}
+
+// Sanitize the text fields of a batch operation. Fields it leaves out stay out, since
+// apply_idea_batch writes every key it receives.
+export function sanitizeIdeaFields(data: Record<string, unknown>) {
+  const fields = { ...data };
+  if (typeof data.title === 'string') {
+    fields.title = sanitizeMarkdown(data.title);
+  }
+  if (data.description !== undefined) {
+    fields.description = data.description ? sanitizeMarkdown(data.description as string) : null;
+  }
+  return fields;
+}
+
+// Validate idea data against the published idea schemas; updates may leave out any field
+export function validateIdeaData(data: unknown, options: { update?: boolean } = {}) {
+  return validateSchema(options.update ? IdeaUpdateSchema : IdeaInputSchema, data);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ListCursor, decodeCursor, encodeCursor, keysetFilter, parseListFilters } from './listing.ts';
+
+const cursor: ListCursor = {
+  sort: 'title',
+  order: 'asc',
+  value: 'Café "Lists", (v2)',
+  id: '6f1c0c7e-0000-4000-8000-000000000001',
+  dir: 'next',
+};
+
+describe('parseListFilters', () => {
+  it('reads repeated and comma-separated tags and normalizes dates', () => {
+    const { filters, errors } = parseListFilters(new URLSearchParams(
+      'tag=audio, ai&tag=mobile&group_id=ungrouped&created_after=2026-10-01&updated_before=2026-10-19T12:00:00%2B02:00'
+    ));
+
+    expect(errors).toEqual([]);
+    expect(filters).toMatchObject({
+      tags: ['audio', 'ai', 'mobile'],
+      groupId: 'ungrouped',
+      createdAfter: '2026-10-01T00:00:00.000Z',
+      updatedBefore: '2026-10-19T10:00:00.000Z',
+      status: null,
+    });
+  });
+
+  it('reports dates it cannot parse', () => {
+    const { errors } = parseListFilters(new URLSearchParams('created_before=yesterday'));
+
+    expect(errors).toEqual(['created_before must be an ISO 8601 date']);
+  });
+});
+
+describe('list cursors', () => {
+  it('round-trip through a URL-safe token', () => {
+    const token = encodeCursor(cursor);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token)).toEqual(cursor);
+  });
+
+  it('reject tokens that were tampered with or are not cursors', () => {
+    const notACursor = encodeCursor({ ...cursor, id: '1 or 1=1' });
+
+    expect(decodeCursor(notACursor)).toBeNull();
+    expect(decodeCursor('not base64!')).toBeNull();
+    expect(decodeCursor(btoa('{"value":1}'))).toBeNull();
+  });
+
+  it('select the rows past the boundary row, using the id to break ties', () => {
+    expect(keysetFilter('title', cursor, true)).toBe(
+      'title.gt."Café \\"Lists\\", (v2)",and(title.eq."Café \\"Lists\\", (v2)",id.gt.6f1c0c7e-0000-4000-8000-000000000001)'
+    );
+    expect(keysetFilter('updated_at', { ...cursor, value: '2026-10-19T12:00:00+00:00' }, false)).toBe(
+      'updated_at.lt."2026-10-19T12:00:00+00:00",and(updated_at.eq."2026-10-19T12:00:00+00:00",id.lt.6f1c0c7e-0000-4000-8000-000000000001)'
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// Query string filters and keyset cursors for GET /ai-ideas
+
+export interface ListFilters {
+  status: string | null;
+  tags: string[];
+  color: string | null;
+  groupId: string | null;
+  createdAfter: string | null;
+  createdBefore: string | null;
+  updatedAfter: string | null;
+  updatedBefore: string | null;
+}
+
+export interface ListCursor {
+  sort: string;
+  order: string;
+  value: string;
+  id: string;
+  dir: 'next' | 'prev';
+}
+
+// Parse list filters from the query string, collecting validation errors
+export function parseListFilters(params: URLSearchParams) {
+  const errors: string[] = [];
+
+  const parseDate = (name: string) => {
+    const value = params.get(name);
+    if (!value) return null;
+    if (Number.isNaN(Date.parse(value))) {
+      errors.push(`${name} must be an ISO 8601 date`);
+      return null;
+    }
+    return new Date(value).toISOString();
+  };
+
+  const filters: ListFilters = {
+    status: params.get('status'),
+    tags: params.getAll('tag').flatMap(tag => tag.split(',')).map(tag => tag.trim()).filter(Boolean),
+    color: params.get('color'),
+    groupId: params.get('group_id'),
+    createdAfter: parseDate('created_after'),
+    createdBefore: parseDate('created_before'),
+    updatedAfter: parseDate('updated_after'),
+    updatedBefore: parseDate('updated_before'),
+  };
+
+  return { filters, errors };
+}
+
+// Cursors are opaque base64url tokens holding the sort key of the boundary row
+export function encodeCursor(cursor: ListCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(token: string): ListCursor | null {
+  try {
+    const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+    const cursor = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+    if (
+      typeof cursor?.value !== 'string' ||
+      !/^[0-9a-f-]{36}$/i.test(cursor?.id) ||
+      !['next', 'prev'].includes(cursor?.dir)
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Quote a value for use inside a PostgREST or() filter
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// PostgREST or() filter for the rows after the cursor in the given direction. The id breaks
+// ties between rows with the same sort value.
+export function keysetFilter(sort: string, cursor: ListCursor, ascending: boolean): string {
+  const op = ascending ? 'gt' : 'lt';
+  const value = quoteFilterValue(cursor.value);
+  return `${sort}.${op}.${value},and(${sort}.eq.${value},id.${op}.${cursor.id})`;
+}
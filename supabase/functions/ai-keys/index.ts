@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { API_SCOPES, isValidScopeList, scopesFromPermissions } from '../_shared/scopes.ts';
+import { ApiKeyInputSchema, MAX_RATE_LIMIT, MIN_RATE_LIMIT, validateSchema } from '../_shared/schemas.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,7 +13,186 @@ const corsHeaders = {
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
 
-const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Queries run as the signed-in user, so RLS limits them to their own keys and workspaces
+function createUserClient(authorization: string) {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } }
+  });
+}
+
+const KEY_COLUMNS = 'id, workspace_id, name, scopes, allowed_group_ids, allowed_tags, rate_limit_per_hour, usage_count, last_used_at, expires_at, is_active, previous_key_expires_at, rotated_at, created_at, updated_at';
+
+// How long a rotated-out secret may keep working, in hours
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+const MAX_GRACE_PERIOD_HOURS = 168;
+
+// Scopes win over the legacy read/write/admin permissions when both are sent
+function resolveScopes(data: Record<string, unknown>) {
+  if (data.scopes !== undefined) {
+    return isValidScopeList(data.scopes) ? data.scopes : null;
+  }
+  if (data.permissions !== undefined) {
+    return scopesFromPermissions(data.permissions);
+  }
+  return ['ideas:read'];
+}
+
+// A key works in one workspace its owner belongs to; without one it gets the personal workspace
+async function resolveKeyWorkspace(supabase: SupabaseClient, value: unknown, userId: string): Promise<string | null> {
+  let query = supabase
+    .from('workspace_members')
+    .select('workspace_id, workspaces!inner(is_personal)')
+    .eq('user_id', userId);
+  query = value === undefined
+    ? query.eq('workspaces.is_personal', true)
+    : query.eq('workspace_id', value as string);
+
+  const { data, error } = await query.maybeSingle();
+  return error || !data ? null : data.workspace_id;
+}
+
+// Restricting a key to groups requires them to belong to the key's workspace
+async function validateAllowedGroups(supabase: SupabaseClient, value: unknown, workspaceId: string): Promise<string | null> {
+  if (value === null || value === undefined) return null;
+
+  if (!Array.isArray(value) || value.length === 0 || !value.every(id => typeof id === 'string')) {
+    return 'allowed_group_ids must be null or a non-empty array of group IDs';
+  }
+
+  const { data, error } = await supabase
+    .from('idea_groups')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .in('id', value);
+
+  if (error || data.length !== new Set(value).size) {
+    return 'allowed_group_ids contains an unknown group';
+  }
+
+  return null;
+}
+
+function validateAllowedTags(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+
+  if (!Array.isArray(value) || value.length === 0 || !value.every(tag => typeof tag === 'string' && tag.trim().length > 0)) {
+    return 'allowed_tags must be null or a non-empty array of tags';
+  }
+
+  return null;
+}
+
+// Validate the workspace, scopes and group/tag restrictions of a new key
+async function parseKeyAccess(supabase: SupabaseClient, data: Record<string, unknown>, userId: string) {
+  const workspaceId = await resolveKeyWorkspace(supabase, data.workspace_id, userId);
+  if (!workspaceId) {
+    return { error: 'workspace_id must be the ID of a workspace you belong to' };
+  }
+
+  const scopes = resolveScopes(data);
+  if (!scopes) {
+    return { error: `Scopes must be a non-empty array containing: ${API_SCOPES.join(', ')}` };
+  }
+
+  const restrictionError = await validateAllowedGroups(supabase, data.allowed_group_ids, workspaceId) || validateAllowedTags(data.allowed_tags);
+  if (restrictionError) {
+    return { error: restrictionError };
+  }
+
+  return {
+    workspace_id: workspaceId,
+    scopes,
+    allowed_group_ids: (data.allowed_group_ids as string[] | undefined) ?? null,
+    allowed_tags: (data.allowed_tags as string[] | undefined)?.map(tag => tag.trim()) ?? null
+  };
+}
+
+// Issue a new secret for a key; the old one stays valid for the grace period.
+// Name, scopes, restrictions and rate limit belong to the key row and are kept.
+async function rotateApiKey(supabase: SupabaseClient, keyId: string, userId: string, body: Record<string, unknown>) {
+  const gracePeriodHours = body.grace_period_hours ?? DEFAULT_GRACE_PERIOD_HOURS;
+  if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_GRACE_PERIOD_HOURS) {
+    return new Response(
+      JSON.stringify({ error: `grace_period_hours must be a number between 0 and ${MAX_GRACE_PERIOD_HOURS}` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: existingKey, error: fetchError } = await supabase
+    .from('api_keys')
+    .select('key_hash')
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .single();
+
+  if (fetchError || !existingKey) {
+    return new Response(
+      JSON.stringify({ error: 'API key not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: generatedKey, error: keyGenError } = await supabase
+    .rpc('generate_api_key');
+
+  if (keyGenError || !generatedKey) {
+    console.error('Key generation error:', keyGenError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate API key' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: hashedKey, error: hashError } = await supabase
+    .rpc('hash_api_key', { key: generatedKey });
+
+  if (hashError || !hashedKey) {
+    console.error('Key hashing error:', hashError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process API key' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Only the secret being replaced gets a grace period; one rotated out earlier stops working now
+  const graceEndsAt = gracePeriodHours > 0
+    ? new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000).toISOString()
+    : null;
+
+  // Matching on the old hash makes concurrent rotations fail instead of losing a secret
+  const { data: rotatedKey, error: rotateError } = await supabase
+    .from('api_keys')
+    .update({
+      key_hash: hashedKey,
+      previous_key_hash: graceEndsAt ? existingKey.key_hash : null,
+      previous_key_expires_at: graceEndsAt,
+      rotated_at: new Date().toISOString()
+    })
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .eq('key_hash', existingKey.key_hash)
+    .select(KEY_COLUMNS)
+    .single();
+
+  if (rotateError) {
+    console.error('Database error:', rotateError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to rotate API key, it may have been rotated already' }),
+      { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      data: rotatedKey,
+      api_key: generatedKey, // Only returned once during rotation
+      message: graceEndsAt
+        ? `API key rotated. The previous key keeps working until ${graceEndsAt}.`
+        : 'API key rotated. The previous key no longer works.'
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -28,6 +210,7 @@ serve(async (req) => {
       );
     }
 
+    const supabase = createUserClient(authHeader);
     const token = authHeader.replace('Bearer ', '');
     const { data: { user }, error: authError } = await supabase.auth.getUser(token);
 
@@ -39,7 +222,9 @@ serve(async (req) => {
     }
 
     const url = new URL(req.url);
-    const keyId = url.pathname.split('/').pop();
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    const isRotate = pathParts[pathParts.length - 1] === 'rotate';
+    const keyId = isRotate ? pathParts[pathParts.length - 2] : pathParts[pathParts.length - 1];
 
     switch (req.method) {
       case 'GET':
@@ -47,7 +232,7 @@ serve(async (req) => {
           // Get single API key
           const { data: apiKey, error } = await supabase
             .from('api_keys')
-            .select('id, name, permissions, rate_limit_per_hour, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
+            .select(KEY_COLUMNS)
             .eq('id', keyId)
             .eq('user_id', user.id)
             .single();
@@ -67,7 +252,7 @@ serve(async (req) => {
           // Get all user's API keys
           const { data: apiKeys, error } = await supabase
             .from('api_keys')
-            .select('id, name, permissions, rate_limit_per_hour, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
+            .select(KEY_COLUMNS)
             .eq('user_id', user.id)
             .order('created_at', { ascending: false });
 
@@ -86,42 +271,38 @@ serve(async (req) => {
         }
 
       case 'POST':
+        if (isRotate) {
+          if (!keyId || keyId === 'ai-keys') {
+            return new Response(
+              JSON.stringify({ error: 'API key ID required for rotation' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          return await rotateApiKey(supabase, keyId, user.id, await req.json().catch(() => ({})));
+        }
+
         const createData = await req.json();
         
         // Validate input
-        if (!createData.name || typeof createData.name !== 'string' || createData.name.trim().length === 0) {
+        const createErrors = validateSchema(ApiKeyInputSchema, createData);
+        if (createErrors.length > 0) {
           return new Response(
-            JSON.stringify({ error: 'Name is required and must be a non-empty string' }),
+            JSON.stringify({ error: createErrors[0], details: createErrors }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        if (createData.name.length > 100) {
-          return new Response(
-            JSON.stringify({ error: 'Name must be less than 100 characters' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
+        // Validate workspace, scopes and restrictions
+        const access = await parseKeyAccess(supabase, createData, user.id);
 
-        // Validate permissions
-        const validPermissions = ['read', 'write', 'admin'];
-        const permissions = createData.permissions || ['read'];
-        
-        if (!Array.isArray(permissions) || !permissions.every(p => validPermissions.includes(p))) {
+        if ('error' in access) {
           return new Response(
-            JSON.stringify({ error: 'Permissions must be an array containing: read, write, admin' }),
+            JSON.stringify({ error: access.error }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Validate rate limit
         const rateLimit = createData.rate_limit_per_hour || 1000;
-        if (typeof rateLimit !== 'number' || rateLimit < 1 || rateLimit > 10000) {
-          return new Response(
-            JSON.stringify({ error: 'Rate limit must be a number between 1 and 10000' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
 
         // Validate expiry date
         let expiresAt = null;
@@ -166,11 +347,11 @@ serve(async (req) => {
             user_id: user.id,
             key_hash: hashedKey,
             name: createData.name.trim(),
-            permissions,
+            ...access,
             rate_limit_per_hour: rateLimit,
             expires_at: expiresAt?.toISOString()
           }])
-          .select('id, name, permissions, rate_limit_per_hour, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
+          .select(KEY_COLUMNS)
           .single();
 
         if (createError) {
@@ -199,7 +380,7 @@ serve(async (req) => {
         }
 
         const updateData = await req.json();
-        const allowedFields = ['name', 'permissions', 'rate_limit_per_hour', 'expires_at', 'is_active'];
+        const allowedFields = ['name', 'scopes', 'permissions', 'allowed_group_ids', 'allowed_tags', 'rate_limit_per_hour', 'expires_at', 'is_active'];
         const updates: any = {};
 
         // Validate and prepare updates
@@ -214,19 +395,50 @@ serve(async (req) => {
               );
             }
             updates.name = (value as string).trim();
-          } else if (key === 'permissions') {
-            const validPermissions = ['read', 'write', 'admin'];
-            if (!Array.isArray(value) || !(value as string[]).every(p => validPermissions.includes(p))) {
+          } else if (key === 'scopes' || (key === 'permissions' && updateData.scopes === undefined)) {
+            const scopes = resolveScopes({ [key]: value });
+            if (!scopes) {
+              return new Response(
+                JSON.stringify({ error: `Scopes must be a non-empty array containing: ${API_SCOPES.join(', ')}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+            updates.scopes = scopes;
+          } else if (key === 'allowed_group_ids') {
+            const { data: existingKey } = await supabase
+              .from('api_keys')
+              .select('workspace_id')
+              .eq('id', keyId)
+              .eq('user_id', user.id)
+              .maybeSingle();
+            if (!existingKey) {
+              return new Response(
+                JSON.stringify({ error: 'API key not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+
+            const groupError = await validateAllowedGroups(supabase, value, existingKey.workspace_id);
+            if (groupError) {
+              return new Response(
+                JSON.stringify({ error: groupError }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+            updates.allowed_group_ids = value ?? null;
+          } else if (key === 'allowed_tags') {
+            const tagError = validateAllowedTags(value);
+            if (tagError) {
               return new Response(
-                JSON.stringify({ error: 'Permissions must be an array containing: read, write, admin' }),
+                JSON.stringify({ error: tagError }),
                 { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
               );
             }
-            updates.permissions = value;
+            updates.allowed_tags = (value as string[] | null)?.map(tag => tag.trim()) ?? null;
           } else if (key === 'rate_limit_per_hour') {
-            if (typeof value !== 'number' || value < 1 || value > 10000) {
+            if (typeof value !== 'number' || value < MIN_RATE_LIMIT || value > MAX_RATE_LIMIT) {
               return new Response(
-                JSON.stringify({ error: 'Rate limit must be a number between 1 and 10000' }),
+                JSON.stringify({ error: `Rate limit must be a number between ${MIN_RATE_LIMIT} and ${MAX_RATE_LIMIT}` }),
                 { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
               );
             }
@@ -267,7 +479,7 @@ serve(async (req) => {
           .update(updates)
           .eq('id', keyId)
           .eq('user_id', user.id)
-          .select('id, name, permissions, rate_limit_per_hour, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
+          .select(KEY_COLUMNS)
           .single();
 
         if (updateError) {
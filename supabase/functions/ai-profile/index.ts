@@ -1,10 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadKeyAccess, missingScope } from '../_shared/scopes.ts';
+import { withUsageTracking } from '../_shared/usage.ts';
+import { checkRateLimit, retryAfterSeconds } from '../_shared/rateLimit.ts';
+import { ApiKeyError } from '../_shared/errors.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset',
 };
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -15,7 +20,7 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey);
 // Authenticate API key
 async function authenticateApiKey(apiKey: string) {
   if (!apiKey || !apiKey.startsWith('iah_')) {
-    throw new Error('Invalid API key format');
+    throw new ApiKeyError('Invalid API key format');
   }
 
   const { data, error } = await supabase
@@ -27,39 +32,18 @@ async function authenticateApiKey(apiKey: string) {
   }
 
   if (!data || data.length === 0) {
-    throw new Error('Invalid API key');
+    throw new ApiKeyError('Invalid API key');
   }
 
   const keyData = data[0];
   if (!keyData.is_valid) {
-    throw new Error('API key is expired or inactive');
+    throw new ApiKeyError('API key is expired or inactive');
   }
 
-  return keyData;
+  return { ...keyData, ...(await loadKeyAccess(supabase, keyData.api_key_id)) };
 }
 
-// Check rate limit
-async function checkRateLimit(apiKeyId: string, endpoint: string, rateLimit: number) {
-  const { data, error } = await supabase
-    .rpc('check_rate_limit', { 
-      p_api_key_id: apiKeyId, 
-      p_endpoint: endpoint, 
-      p_rate_limit: rateLimit 
-    });
-
-  if (error) {
-    console.error('Rate limit check error:', error);
-    throw new Error('Rate limiting failed');
-  }
-
-  if (!data) {
-    throw new Error('Rate limit exceeded');
-  }
-
-  return data;
-}
-
-serve(async (req) => {
+serve(withUsageTracking(supabase, 'ai-profile', async (req, usage) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -84,18 +68,25 @@ serve(async (req) => {
 
     // Authenticate API key
     const keyData = await authenticateApiKey(apiKey);
+    usage.apiKeyId = keyData.api_key_id;
     
-    // Check permissions (read permission required)
-    if (!keyData.permissions.includes('read') && !keyData.permissions.includes('admin')) {
+    // Check rate limit; the headers are added to every response from here on
+    const rateLimit = await checkRateLimit(supabase, keyData.api_key_id, 'ai-profile', keyData.rate_limit_per_hour);
+    usage.rateLimit = rateLimit;
+    if (!rateLimit.allowed) {
       return new Response(
-        JSON.stringify({ error: 'Insufficient permissions. Required: read' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Rate limit exceeded' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': retryAfterSeconds(rateLimit).toString() } }
       );
     }
 
-    // Check rate limit
-    const endpoint = 'ai-profile';
-    await checkRateLimit(keyData.api_key_id, endpoint, keyData.rate_limit_per_hour);
+    // Check scopes
+    if (missingScope(keyData, ['profile:read'])) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient scope. Required: profile:read' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     // Get user profile
     const { data: profile, error: profileError } = await supabase
@@ -123,11 +114,17 @@ serve(async (req) => {
       console.error('Settings fetch error:', settingsError);
     }
 
-    // Get idea statistics
-    const { data: ideaStats, error: statsError } = await supabase
+    // Get idea statistics for the key's workspace, counting only ideas the key may see
+    let statsQuery = supabase
       .from('ideas')
       .select('status')
-      .eq('user_id', keyData.user_id);
+      .eq('workspace_id', keyData.workspace_id)
+      .is('deleted_at', null);
+
+    if (keyData.allowed_group_ids) statsQuery = statsQuery.in('group_id', keyData.allowed_group_ids);
+    if (keyData.allowed_tags) statsQuery = statsQuery.overlaps('tags', keyData.allowed_tags);
+
+    const { data: ideaStats, error: statsError } = await statsQuery;
 
     let stats = {};
     if (!statsError && ideaStats) {
@@ -151,7 +148,11 @@ serve(async (req) => {
         ideas: stats
       },
       api_info: {
-        permissions: keyData.permissions,
+        workspace_id: keyData.workspace_id,
+        role: keyData.role,
+        scopes: keyData.scopes,
+        allowed_group_ids: keyData.allowed_group_ids,
+        allowed_tags: keyData.allowed_tags,
         rate_limit_per_hour: keyData.rate_limit_per_hour
       }
     };
@@ -165,7 +166,7 @@ serve(async (req) => {
     console.error('Function error:', error);
     return new Response(
       JSON.stringify({ error: error.message || 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: error instanceof ApiKeyError ? 401 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildOpenApiDocument } from '../_shared/openapi.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+// The spec only depends on the code, so build it once per instance
+const document = JSON.stringify(buildOpenApiDocument(`${supabaseUrl}/functions/v1`), null, 2);
+
+serve((req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(document, {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=300' }
+  });
+});
@@ -1,10 +1,98 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AiProviderError, createAiProvider } from '../_shared/ai.ts'
+import type { AiProvider, ChatMessage } from '../_shared/ai.ts'
+import { DEFAULT_TEMPLATE, enhanceDescriptionMessages } from './prompt.ts'
+import type { PromptTemplate } from './prompt.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Queries run as the signed-in user, so RLS applies
+function createUserClient(authorization: string) {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } }
+  })
+}
+
+// The signed-in user's provider choice; RLS limits the query to their own settings
+async function loadProviderSettings(authorization: string | null) {
+  if (!authorization) return null
+
+  const { data, error } = await createUserClient(authorization)
+    .from('user_settings')
+    .select('ai_provider, ai_model, ai_base_url')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading AI settings:', error)
+  }
+  return data
+}
+
+// A built-in preset or one of the user's own templates; without a templateId, the default prompt
+async function loadPromptTemplate(authorization: string | null, templateId: unknown): Promise<PromptTemplate> {
+  if (!templateId) return DEFAULT_TEMPLATE
+  if (typeof templateId !== 'string') {
+    throw new AiProviderError('templateId must be a string', 400)
+  }
+  if (!authorization) {
+    throw new AiProviderError('Sign in to use prompt templates', 401)
+  }
+
+  const { data, error } = await createUserClient(authorization)
+    .from('prompt_templates')
+    .select('id, name, system_prompt, user_prompt')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading prompt template:', error)
+  }
+  if (!data) {
+    throw new AiProviderError('Prompt template not found', 404)
+  }
+  return data
+}
+
+// Server-sent events: "delta" with each piece of text, then "done" with the template used or "error"
+function streamEnhancement(provider: AiProvider, messages: ChatMessage[], template: PromptTemplate) {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+
+      try {
+        for await (const text of provider.stream(messages, { temperature: 0.7, maxTokens: 2000, signal: abort.signal })) {
+          send('delta', { text })
+        }
+        send('done', { template: { id: template.id, name: template.name } })
+        console.log('Description enhancement completed')
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('Error streaming enhancement:', error)
+          send('error', { error: error.message })
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close()
+      }
+    },
+    // The client rejected the preview or went away
+    cancel() {
+      abort.abort()
+    }
+  })
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  })
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -12,74 +100,42 @@ serve(async (req) => {
   }
 
   try {
-    const { description, title, apiKey } = await req.json()
-    
-    // Use provided API key if in developer mode, otherwise use environment variable
-    const DEEPSEEK_API_KEY = apiKey || Deno.env.get('DEEPSEEK_API_KEY')
-    
-    if (!DEEPSEEK_API_KEY) {
-      throw new Error('Deepseek API key not configured')
-    }
+    const { description, title, tags, templateId, apiKey, stream } = await req.json()
 
-    console.log('Enhancing description for:', title)
-
-    const response = await fetch('https://api.deepseek.com/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'deepseek-chat',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert technical writer and app idea enhancer. Your job is to take basic app ideas and descriptions and enhance them with detailed features, technical considerations, market potential, and implementation suggestions. Make the description comprehensive, professional, and inspiring while keeping the core idea intact. Use markdown formatting for better readability.'
-          },
-          {
-            role: 'user',
-            content: `Please enhance this app idea description:
-
-Title: ${title}
-Current Description: ${description}
-
-Please provide an enhanced, detailed description that includes:
-- Detailed feature breakdown
-- Technical implementation considerations  
-- Market potential and target audience
-- Monetization strategies
-- Development roadmap suggestions
-- Competitive advantages
-
-Keep the writing engaging and professional. Use markdown formatting with headers, bullet points, and emphasis where appropriate.`
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
+    const authorization = req.headers.get('Authorization')
+    const settings = await loadProviderSettings(authorization)
+    // Use provided API key if in developer mode, otherwise the provider's environment variable
+    const provider = createAiProvider({
+      provider: settings?.ai_provider,
+      model: settings?.ai_model,
+      baseUrl: settings?.ai_base_url,
+      apiKey
     })
 
-    if (!response.ok) {
-      const errorData = await response.text()
-      console.error('Deepseek API error:', errorData)
-      throw new Error(`Deepseek API error: ${response.status}`)
+    const template = await loadPromptTemplate(authorization, templateId)
+    const messages = enhanceDescriptionMessages(template, {
+      title,
+      description,
+      tags: Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : []
+    })
+
+    console.log(`Enhancing description with ${provider.name} (${provider.model}) and template "${template.name}" for:`, title)
+
+    if (stream) {
+      return streamEnhancement(provider, messages, template)
     }
 
-    const data = await response.json()
+    const enhancedDescription = await provider.complete(messages, { temperature: 0.7, maxTokens: 2000 })
     console.log('Description enhancement completed')
 
-    if (data.choices && data.choices[0] && data.choices[0].message) {
-      const enhancedDescription = data.choices[0].message.content
-      return new Response(
-        JSON.stringify({ 
-          enhancedDescription,
-          success: true 
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    } else {
-      throw new Error('No enhanced description generated')
-    }
+    return new Response(
+      JSON.stringify({ 
+        enhancedDescription,
+        template: { id: template.id, name: template.name },
+        success: true 
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
   } catch (error) {
     console.error('Error enhancing description:', error)
     return new Response(
@@ -89,8 +145,8 @@ Keep the writing engaging and professional. Use markdown formatting with headers
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
+        status: error instanceof AiProviderError ? error.status : 500 
       }
     )
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEMPLATE, enhanceDescriptionMessages, renderPrompt } from './prompt.ts';
+
+const variables = { title: 'Voice notes', description: 'Record thoughts while walking', tags: ['audio', 'mobile'] };
+
+describe('renderPrompt', () => {
+  it('fills the title, description and tags', () => {
+    expect(renderPrompt('{{title}}: {{ description }} ({{tags}})', variables)).toBe(
+      'Voice notes: Record thoughts while walking (audio, mobile)'
+    );
+  });
+
+  it('writes "none" for missing tags and leaves unknown placeholders as written', () => {
+    expect(renderPrompt('Tags: {{tags}}, audience: {{audience}}', { ...variables, tags: [] })).toBe(
+      'Tags: none, audience: {{audience}}'
+    );
+  });
+
+  it('does not expand placeholders that come in through the variables', () => {
+    expect(renderPrompt('{{title}} / {{description}}', { ...variables, title: '{{description}}' })).toBe(
+      '{{description}} / Record thoughts while walking'
+    );
+  });
+});
+
+describe('enhanceDescriptionMessages', () => {
+  it('renders the system and user prompts of the template', () => {
+    const messages = enhanceDescriptionMessages(
+      { id: null, name: 'Spec', system_prompt: 'Write specs about {{tags}}.', user_prompt: 'Spec for {{title}}' },
+      variables
+    );
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'Write specs about audio, mobile.' },
+      { role: 'user', content: 'Spec for Voice notes' },
+    ]);
+  });
+
+  it('uses the product brief prompt without a template', () => {
+    const [, user] = enhanceDescriptionMessages(DEFAULT_TEMPLATE, variables);
+
+    expect(user.content).toContain('Title: Voice notes\nCurrent Description: Record thoughts while walking');
+    expect(user.content).not.toContain('{{');
+  });
+});
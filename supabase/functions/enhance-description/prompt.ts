@@ -0,0 +1,59 @@
+import type { ChatMessage } from '../_shared/ai.ts';
+
+export interface PromptTemplate {
+  // Null for the default below when no stored template was chosen
+  id: string | null;
+  name: string;
+  system_prompt: string;
+  user_prompt: string;
+}
+
+// Same text as the "Product brief" preset in prompt_templates
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: null,
+  name: 'Product brief',
+  system_prompt: 'You are an expert technical writer and app idea enhancer. Your job is to take basic app ideas and descriptions and enhance them with detailed features, technical considerations, market potential, and implementation suggestions. Make the description comprehensive, professional, and inspiring while keeping the core idea intact. Use markdown formatting for better readability.',
+  user_prompt: `Please enhance this app idea description:
+
+Title: {{title}}
+Current Description: {{description}}
+
+Please provide an enhanced, detailed description that includes:
+- Detailed feature breakdown
+- Technical implementation considerations  
+- Market potential and target audience
+- Monetization strategies
+- Development roadmap suggestions
+- Competitive advantages
+
+Keep the writing engaging and professional. Use markdown formatting with headers, bullet points, and emphasis where appropriate.`
+};
+
+export interface PromptVariables {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+// Fills {{title}}, {{description}} and {{tags}}; other placeholders are left as written
+export function renderPrompt(template: string, { title, description, tags }: PromptVariables) {
+  const values: Record<string, string> = {
+    title,
+    description,
+    tags: tags.length > 0 ? tags.join(', ') : 'none'
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+export function enhanceDescriptionMessages(template: PromptTemplate, variables: PromptVariables): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: renderPrompt(template.system_prompt, variables)
+    },
+    {
+      role: 'user',
+      content: renderPrompt(template.user_prompt, variables)
+    }
+  ];
+}
@@ -0,0 +1,265 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isPrivateHost } from '../_shared/hosts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 10000;
+// Delay before each retry, in seconds; a delivery fails for good after the last one
+const RETRY_DELAYS = [60, 300, 1800, 7200, 43200];
+
+interface Delivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", hex encoded
+async function sign(secret: string, timestamp: string, body: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Send one delivery and record the outcome, scheduling a retry on failure
+async function deliver(delivery: Delivery, webhook: Webhook | undefined) {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  if (!webhook || !webhook.is_active) {
+    await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', next_attempt_at: null, error: 'Webhook is disabled or was removed' })
+      .eq('id', delivery.id);
+    return false;
+  }
+
+  // Endpoints are user supplied, so like custom AI base URLs they may not point into the network
+  // the functions run in; redirects are refused for the same reason
+  if (isPrivateHost(new URL(webhook.url).hostname)) {
+    await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', attempts, next_attempt_at: null, error: 'Webhook URL points to a private address' })
+      .eq('id', delivery.id);
+    return false;
+  }
+
+  try {
+    const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = await sign(webhook.secret, timestamp, body);
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'IdeaHub-Webhooks/1.0',
+        'X-IdeaHub-Event': delivery.event,
+        'X-IdeaHub-Delivery': delivery.id,
+        'X-IdeaHub-Timestamp': timestamp,
+        'X-IdeaHub-Signature': `sha256=${signature}`,
+      },
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, 2000);
+    if (!response.ok) {
+      errorMessage = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error.name === 'TimeoutError' ? 'Request timed out' : error.message;
+  }
+
+  const succeeded = errorMessage === null;
+  const retryDelay = RETRY_DELAYS[attempts - 1];
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: succeeded ? 'success' : retryDelay ? 'pending' : 'failed',
+      attempts,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error: errorMessage,
+      delivered_at: succeeded ? new Date().toISOString() : null,
+      next_attempt_at: !succeeded && retryDelay ? new Date(Date.now() + retryDelay * 1000).toISOString() : null,
+    })
+    .eq('id', delivery.id);
+
+  if (updateError) {
+    console.error('Failed to record delivery result:', updateError);
+  }
+
+  return succeeded;
+}
+
+async function deliverAll(deliveries: Delivery[]) {
+  if (deliveries.length === 0) return { processed: 0, succeeded: 0, failed: 0 };
+
+  const webhookIds = [...new Set(deliveries.map(delivery => delivery.webhook_id))];
+  const { data: webhooks, error } = await supabase
+    .from('webhooks')
+    .select('id, url, secret, is_active')
+    .in('id', webhookIds);
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to load webhooks');
+  }
+
+  const webhooksById = new Map<string, Webhook>(
+    webhooks.map((webhook: Webhook): [string, Webhook] => [webhook.id, webhook])
+  );
+  const results = await Promise.all(
+    deliveries.map(delivery => deliver(delivery, webhooksById.get(delivery.webhook_id)))
+  );
+  const succeeded = results.filter(Boolean).length;
+
+  return { processed: results.length, succeeded, failed: results.length - succeeded };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The service role (ai-ideas, scheduled runs) may only drain the queue;
+    // signed-in users may also redeliver their own deliveries
+    const token = authHeader.replace('Bearer ', '');
+    let userId: string | null = null;
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid or expired token' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      userId = user.id;
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (body.delivery_id) {
+      if (!userId) {
+        return new Response(
+          JSON.stringify({ error: 'Redelivery requires a user session' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: original, error: findError } = await supabase
+        .from('webhook_deliveries')
+        .select('webhook_id, user_id, event, payload')
+        .eq('id', body.delivery_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (findError || !original) {
+        return new Response(
+          JSON.stringify({ error: 'Delivery not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Redeliveries get their own log entry so the original attempt stays visible
+      const { data: redelivery, error: insertError } = await supabase
+        .from('webhook_deliveries')
+        .insert([{ ...original, next_attempt_at: null }])
+        .select('id, webhook_id, event, payload, attempts')
+        .single();
+
+      if (insertError) {
+        console.error('Database error:', insertError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to queue redelivery' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      await deliverAll([redelivery]);
+
+      const { data: result } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('id', redelivery.id)
+        .single();
+
+      return new Response(
+        JSON.stringify({ data: result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: due, error: claimError } = await supabase
+      .rpc('claim_webhook_deliveries', { p_limit: BATCH_SIZE });
+
+    if (claimError) {
+      console.error('Database error:', claimError);
+      throw new Error('Failed to claim deliveries');
+    }
+
+    const summary = await deliverAll(due);
+
+    return new Response(
+      JSON.stringify({ data: summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
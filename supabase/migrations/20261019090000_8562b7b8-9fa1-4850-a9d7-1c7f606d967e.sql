@@ -0,0 +1,57 @@
+-- Create idea_groups table for organizing ideas
+CREATE TABLE IF NOT EXISTS public.idea_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  color TEXT NOT NULL DEFAULT '#3B82F6',
+  icon TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link ideas to groups; ideas fall back to ungrouped when a group is deleted
+ALTER TABLE public.ideas ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.idea_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_group_id ON public.ideas(group_id);
+CREATE INDEX IF NOT EXISTS idx_idea_groups_user_id ON public.idea_groups(user_id);
+
+-- Enable RLS
+ALTER TABLE public.idea_groups ENABLE ROW LEVEL SECURITY;
+
+-- Idea groups policies
+DROP POLICY IF EXISTS "Users can view their own idea groups" ON public.idea_groups;
+
+CREATE POLICY "Users can view their own idea groups"
+ON public.idea_groups
+FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own idea groups" ON public.idea_groups;
+
+CREATE POLICY "Users can create their own idea groups"
+ON public.idea_groups
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own idea groups" ON public.idea_groups;
+
+CREATE POLICY "Users can update their own idea groups"
+ON public.idea_groups
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own idea groups" ON public.idea_groups;
+
+CREATE POLICY "Users can delete their own idea groups"
+ON public.idea_groups
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for idea_groups timestamp
+DROP TRIGGER IF EXISTS update_idea_groups_updated_at ON public.idea_groups;
+
+CREATE TRIGGER update_idea_groups_updated_at
+BEFORE UPDATE ON public.idea_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Add board_position to ideas so the order of cards within a board column persists
+ALTER TABLE public.ideas ADD COLUMN IF NOT EXISTS board_position DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_status_board_position ON public.ideas(user_id, status, board_position);
@@ -0,0 +1,103 @@
+-- Create idea_revisions table holding every version of an idea's content
+CREATE TABLE IF NOT EXISTS public.idea_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL,
+  tags TEXT[] DEFAULT '{}',
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL DEFAULT 'app',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(idea_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idea_revisions_idea_id ON public.idea_revisions(idea_id, version DESC);
+
+-- Enable RLS; rows are only written by the trigger below
+ALTER TABLE public.idea_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own idea revisions"
+ON public.idea_revisions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Record a revision whenever an idea is created or its title, description, status or tags change.
+-- Covers the web app, the AI enhancement flows and the public API alike.
+CREATE OR REPLACE FUNCTION public.record_idea_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  changed TEXT[] := '{}';
+  next_version INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.title IS DISTINCT FROM OLD.title THEN
+      changed := array_append(changed, 'title');
+    END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+      changed := array_append(changed, 'description');
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      changed := array_append(changed, 'status');
+    END IF;
+    IF NEW.tags IS DISTINCT FROM OLD.tags THEN
+      changed := array_append(changed, 'tags');
+    END IF;
+
+    IF array_length(changed, 1) IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM public.idea_revisions
+  WHERE idea_id = NEW.id;
+
+  INSERT INTO public.idea_revisions (idea_id, user_id, version, title, description, status, tags, changed_fields, source)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    next_version,
+    NEW.title,
+    NEW.description,
+    NEW.status,
+    NEW.tags,
+    changed,
+    -- Edge functions use the service role, so there is no signed-in user
+    CASE WHEN auth.uid() IS NULL THEN 'api' ELSE 'app' END
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER record_idea_revision
+AFTER INSERT OR UPDATE ON public.ideas
+FOR EACH ROW
+EXECUTE FUNCTION public.record_idea_revision();
+
+-- Backfill history for existing ideas: the pre-enhancement text (if any) followed by the current content
+INSERT INTO public.idea_revisions (idea_id, user_id, version, title, description, status, tags, source, created_at)
+SELECT id, user_id, 1, title, original_description, status, tags, 'app', created_at
+FROM public.ideas
+WHERE original_description IS NOT NULL;
+
+INSERT INTO public.idea_revisions (idea_id, user_id, version, title, description, status, tags, changed_fields, source, created_at)
+SELECT
+  id,
+  user_id,
+  CASE WHEN original_description IS NOT NULL THEN 2 ELSE 1 END,
+  title,
+  description,
+  status,
+  tags,
+  CASE WHEN original_description IS NOT NULL THEN ARRAY['description'] ELSE '{}'::TEXT[] END,
+  'app',
+  updated_at
+FROM public.ideas;
@@ -0,0 +1,104 @@
+-- Full-text search over idea titles, tags and descriptions
+
+-- Immutable wrapper so the search vector can be a generated column
+CREATE OR REPLACE FUNCTION public.idea_search_vector(p_title TEXT, p_description TEXT, p_tags TEXT[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(p_tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$function$;
+
+ALTER TABLE public.ideas ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (public.idea_search_vector(title, description, tags)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_search_vector ON public.ideas USING GIN (search_vector);
+
+-- Turn a user query into a tsquery. Supports:
+--   "exact phrase"   words in sequence
+--   word*            prefix match
+--   -word, -"phrase" exclusion
+-- All remaining terms must match. Punctuation in the input is ignored rather than raising errors.
+CREATE OR REPLACE FUNCTION public.parse_idea_search_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+DECLARE
+  match TEXT[];
+  term TEXT;
+  negated BOOLEAN;
+  part tsquery;
+  result tsquery;
+BEGIN
+  IF p_query IS NULL OR btrim(p_query) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR match IN SELECT regexp_matches(p_query, '(-?)"([^"]*)"|(-?)([^\s"]+)', 'g') LOOP
+    IF match[2] IS NOT NULL THEN
+      negated := match[1] = '-';
+      part := phraseto_tsquery('english', match[2]);
+    ELSE
+      negated := match[3] = '-';
+      term := match[4];
+      IF right(term, 1) = '*' THEN
+        term := regexp_replace(lower(term), '[^[:alnum:]]+', '', 'g');
+        CONTINUE WHEN term = '';
+        part := to_tsquery('english', term || ':*');
+      ELSE
+        part := plainto_tsquery('english', term);
+      END IF;
+    END IF;
+
+    -- Stop words and bare punctuation produce empty queries
+    CONTINUE WHEN part IS NULL OR numnode(part) = 0;
+
+    IF negated THEN
+      part := !! part;
+    END IF;
+
+    result := CASE WHEN result IS NULL THEN part ELSE result && part END;
+  END LOOP;
+
+  RETURN result;
+END;
+$function$;
+
+-- Ranked, highlighted search shared by the web app (through RLS) and the public API (service role)
+CREATE OR REPLACE FUNCTION public.search_ideas(
+  p_user_id UUID,
+  p_query TEXT,
+  p_start_sel TEXT DEFAULT '<mark>',
+  p_stop_sel TEXT DEFAULT '</mark>',
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  description_highlight TEXT
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH q AS (
+    SELECT public.parse_idea_search_query(p_query) AS query
+  )
+  SELECT
+    i.id,
+    ts_rank_cd(i.search_vector, q.query) AS rank,
+    ts_headline('english', i.title, q.query,
+      format('HighlightAll=true, StartSel="%s", StopSel="%s"', p_start_sel, p_stop_sel)),
+    ts_headline('english', COALESCE(i.description, ''), q.query,
+      format('MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel="%s", StopSel="%s"', p_start_sel, p_stop_sel))
+  FROM public.ideas i, q
+  WHERE q.query IS NOT NULL
+    AND i.user_id = p_user_id
+    AND i.search_vector @@ q.query
+  ORDER BY rank DESC, i.updated_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$function$;
@@ -0,0 +1,156 @@
+-- Create webhooks table for outgoing idea lifecycle notifications
+CREATE TABLE IF NOT EXISTS public.webhooks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~* '^https://'),
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT ARRAY['idea.created', 'idea.updated', 'idea.status_changed', 'idea.archived'],
+  secret TEXT NOT NULL DEFAULT ('whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (events <@ ARRAY['idea.created', 'idea.updated', 'idea.status_changed', 'idea.archived'])
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_user_id ON public.webhooks(user_id);
+
+-- Create webhook_deliveries table, used both as the send queue and the delivery log
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  webhook_id UUID NOT NULL REFERENCES public.webhooks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON public.webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for webhooks
+CREATE POLICY "Users can view their own webhooks"
+ON public.webhooks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own webhooks"
+ON public.webhooks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own webhooks"
+ON public.webhooks
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own webhooks"
+ON public.webhooks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Deliveries are written by the trigger below and the webhook-dispatch function
+CREATE POLICY "Users can view their own webhook deliveries"
+ON public.webhook_deliveries
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_webhooks_updated_at
+BEFORE UPDATE ON public.webhooks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue deliveries for every matching webhook when an idea is created or changed.
+-- Covers the web app and the public API alike; webhook-dispatch does the sending.
+CREATE OR REPLACE FUNCTION public.enqueue_idea_webhooks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  fired_events TEXT[] := '{}';
+  idea JSONB := to_jsonb(NEW) - 'search_vector';
+  previous JSONB := NULL;
+  event_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    fired_events := ARRAY['idea.created'];
+  ELSE
+    -- Ignore writes that only touch bookkeeping such as board position
+    IF (to_jsonb(NEW) - 'updated_at' - 'board_position' - 'search_vector')
+       = (to_jsonb(OLD) - 'updated_at' - 'board_position' - 'search_vector') THEN
+      RETURN NEW;
+    END IF;
+
+    fired_events := ARRAY['idea.updated'];
+    previous := jsonb_build_object('status', OLD.status);
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      fired_events := array_append(fired_events, 'idea.status_changed');
+      IF NEW.status = 'archived' THEN
+        fired_events := array_append(fired_events, 'idea.archived');
+      END IF;
+    END IF;
+  END IF;
+
+  FOREACH event_name IN ARRAY fired_events LOOP
+    INSERT INTO public.webhook_deliveries (webhook_id, user_id, event, payload)
+    SELECT
+      w.id,
+      w.user_id,
+      event_name,
+      jsonb_build_object(
+        'event', event_name,
+        'created_at', now(),
+        'data', jsonb_strip_nulls(jsonb_build_object('idea', idea, 'previous', previous))
+      )
+    FROM public.webhooks w
+    WHERE w.user_id = NEW.user_id
+      AND w.is_active
+      AND event_name = ANY(w.events);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enqueue_idea_webhooks
+AFTER INSERT OR UPDATE ON public.ideas
+FOR EACH ROW
+EXECUTE FUNCTION public.enqueue_idea_webhooks();
+
+-- Lease due deliveries to a dispatcher run. Concurrent runs skip rows another run holds,
+-- and the lease expires so a crashed run's deliveries are picked up again later.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  UPDATE public.webhook_deliveries
+  SET next_attempt_at = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id
+    FROM public.webhook_deliveries
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,22 @@
+-- Replace the coarse read/write/admin permissions on API keys with resource:action scopes,
+-- and let keys be limited to specific groups or tags (NULL means no restriction)
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['ideas:read'],
+ADD COLUMN IF NOT EXISTS allowed_group_ids UUID[],
+ADD COLUMN IF NOT EXISTS allowed_tags TEXT[];
+
+-- Give existing keys the scopes their permissions used to grant
+UPDATE public.api_keys
+SET scopes = ARRAY(
+  SELECT DISTINCT scope
+  FROM unnest(permissions) AS p(permission)
+  CROSS JOIN LATERAL unnest(
+    CASE
+      WHEN permission = 'read' THEN ARRAY['ideas:read', 'groups:read', 'profile:read']
+      -- write always implied read, and admin never granted more than write
+      WHEN permission IN ('write', 'admin') THEN ARRAY['ideas:read', 'groups:read', 'profile:read', 'ideas:create', 'ideas:update', 'ideas:archive', 'groups:write']
+      ELSE ARRAY[]::TEXT[]
+    END
+  ) AS s(scope)
+  ORDER BY scope
+);
@@ -0,0 +1,45 @@
+-- Let an API key be rotated without breaking live integrations: the replaced secret
+-- keeps working until previous_key_expires_at, then only the new secret is accepted
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS previous_key_hash TEXT,
+ADD COLUMN IF NOT EXISTS previous_key_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_previous_key_hash
+ON public.api_keys(previous_key_hash)
+WHERE previous_key_hash IS NOT NULL;
+
+-- Accept either the current secret or a previous one that is still inside its grace window.
+-- Activation and expiry of the key apply to both secrets alike.
+DROP FUNCTION IF EXISTS public.validate_api_key(TEXT);
+
+CREATE FUNCTION public.validate_api_key(key TEXT)
+RETURNS TABLE (
+  api_key_id UUID,
+  user_id UUID,
+  permissions TEXT[],
+  rate_limit_per_hour INTEGER,
+  is_valid BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hashed TEXT := public.hash_api_key(key);
+BEGIN
+  RETURN QUERY
+  UPDATE public.api_keys ak
+  SET
+    usage_count = ak.usage_count + 1,
+    last_used_at = now()
+  WHERE ak.key_hash = hashed
+     OR (ak.previous_key_hash = hashed AND ak.previous_key_expires_at > now())
+  RETURNING
+    ak.id,
+    ak.user_id,
+    ak.permissions,
+    ak.rate_limit_per_hour,
+    ak.is_active AND (ak.expires_at IS NULL OR ak.expires_at > now());
+END;
+$$;
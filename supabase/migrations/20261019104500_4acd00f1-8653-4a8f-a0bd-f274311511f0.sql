@@ -0,0 +1,64 @@
+-- Hourly response counts per API key, endpoint and status code.
+-- api_rate_limits only counts requests, so error rates are tracked here.
+CREATE TABLE IF NOT EXISTS public.api_usage_stats (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  requests_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start, endpoint, status_code)
+);
+
+ALTER TABLE public.api_usage_stats ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the API functions through record_api_usage below
+CREATE POLICY "Users can view usage of their own API keys"
+ON public.api_usage_stats
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.api_keys ak
+  WHERE ak.id = api_usage_stats.api_key_id
+    AND ak.user_id = auth.uid()
+));
+
+CREATE OR REPLACE FUNCTION public.record_api_usage(p_api_key_id UUID, p_endpoint TEXT, p_status_code INTEGER)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  INSERT INTO public.api_usage_stats (api_key_id, endpoint, status_code, window_start, requests_count)
+  VALUES (p_api_key_id, p_endpoint, p_status_code, date_trunc('hour', now()), 1)
+  ON CONFLICT (api_key_id, window_start, endpoint, status_code)
+  DO UPDATE SET requests_count = api_usage_stats.requests_count + 1;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_api_usage(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Request volume from api_rate_limits for the caller's keys, rolled up per hour and endpoint.
+-- Pass a key to narrow it down; without one every key of the caller is included.
+CREATE OR REPLACE FUNCTION public.get_api_usage(p_since TIMESTAMP WITH TIME ZONE, p_api_key_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  api_key_id UUID,
+  endpoint TEXT,
+  window_start TIMESTAMP WITH TIME ZONE,
+  requests_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT
+    rl.api_key_id,
+    rl.endpoint,
+    date_trunc('hour', rl.window_start) AS window_start,
+    SUM(rl.requests_count) AS requests_count
+  FROM public.api_rate_limits rl
+  JOIN public.api_keys ak ON ak.id = rl.api_key_id
+  WHERE ak.user_id = auth.uid()
+    AND rl.window_start >= p_since
+    AND (p_api_key_id IS NULL OR rl.api_key_id = p_api_key_id)
+  GROUP BY rl.api_key_id, rl.endpoint, date_trunc('hour', rl.window_start)
+  ORDER BY 3;
+$function$;
@@ -0,0 +1,46 @@
+-- Count a request against its key's hourly limit and report where the key stands,
+-- so the API can answer 429 with Retry-After and send X-RateLimit-* headers.
+-- The limit applies per key across all endpoints, in fixed windows starting on the hour.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(p_api_key_id UUID, p_endpoint TEXT, p_rate_limit INTEGER)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  used_count INTEGER,
+  reset_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE := date_trunc('hour', now());
+  window_count INTEGER;
+BEGIN
+  -- Serialize requests of the same key so concurrent calls cannot both take the last slot
+  PERFORM 1 FROM public.api_keys WHERE id = p_api_key_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(rl.requests_count), 0)::INTEGER INTO window_count
+  FROM public.api_rate_limits rl
+  WHERE rl.api_key_id = p_api_key_id
+    AND rl.window_start >= current_window;
+
+  IF window_count >= p_rate_limit THEN
+    RETURN QUERY SELECT false, window_count, current_window + interval '1 hour';
+    RETURN;
+  END IF;
+
+  UPDATE public.api_rate_limits rl
+  SET requests_count = rl.requests_count + 1
+  WHERE rl.api_key_id = p_api_key_id
+    AND rl.endpoint = p_endpoint
+    AND rl.window_start = current_window;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.api_rate_limits (api_key_id, endpoint, window_start, requests_count)
+    VALUES (p_api_key_id, p_endpoint, current_window, 1);
+  END IF;
+
+  RETURN QUERY SELECT true, window_count + 1, current_window + interval '1 hour';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,113 @@
+-- Let a single request count as several against the hourly limit, so batch calls
+-- on the ideas API cost as much as the individual requests they replace
+DROP FUNCTION IF EXISTS public.consume_rate_limit(UUID, TEXT, INTEGER);
+
+CREATE FUNCTION public.consume_rate_limit(p_api_key_id UUID, p_endpoint TEXT, p_rate_limit INTEGER, p_weight INTEGER DEFAULT 1)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  used_count INTEGER,
+  reset_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE := date_trunc('hour', now());
+  window_count INTEGER;
+BEGIN
+  -- Serialize requests of the same key so concurrent calls cannot both take the last slot
+  PERFORM 1 FROM public.api_keys WHERE id = p_api_key_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(rl.requests_count), 0)::INTEGER INTO window_count
+  FROM public.api_rate_limits rl
+  WHERE rl.api_key_id = p_api_key_id
+    AND rl.window_start >= current_window;
+
+  IF window_count + p_weight > p_rate_limit THEN
+    RETURN QUERY SELECT false, window_count, current_window + interval '1 hour';
+    RETURN;
+  END IF;
+
+  UPDATE public.api_rate_limits rl
+  SET requests_count = rl.requests_count + p_weight
+  WHERE rl.api_key_id = p_api_key_id
+    AND rl.endpoint = p_endpoint
+    AND rl.window_start = current_window;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.api_rate_limits (api_key_id, endpoint, window_start, requests_count)
+    VALUES (p_api_key_id, p_endpoint, current_window, p_weight);
+  END IF;
+
+  RETURN QUERY SELECT true, window_count + p_weight, current_window + interval '1 hour';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Apply create/update/archive operations from POST /ai-ideas/batch in one transaction.
+-- The ai-ideas function validates and sanitizes every operation first; this only writes.
+-- Atomic batches stop at the first failing operation and roll everything back, with the
+-- operation's position in the error detail. Otherwise each operation succeeds or fails alone.
+CREATE OR REPLACE FUNCTION public.apply_idea_batch(p_user_id UUID, p_operations JSONB, p_atomic BOOLEAN DEFAULT true)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  operation JSONB;
+  position INTEGER := 0;
+  fields JSONB;
+  column_list TEXT;
+  idea_id UUID;
+  results JSONB := '[]';
+BEGIN
+  FOR operation IN SELECT value FROM jsonb_array_elements(p_operations) LOOP
+    BEGIN
+      fields := CASE
+        WHEN operation->>'op' = 'archive' THEN jsonb_build_object('status', 'archived')
+        ELSE COALESCE(operation->'data', '{}')
+      END;
+
+      SELECT string_agg(quote_ident(key), ', ') INTO column_list
+      FROM jsonb_object_keys(fields) AS key
+      WHERE key IN ('title', 'description', 'status', 'tags', 'color', 'group_id', 'image_url', 'board_position');
+
+      IF column_list IS NULL THEN
+        RAISE EXCEPTION 'No fields to write';
+      END IF;
+
+      IF operation->>'op' = 'create' THEN
+        EXECUTE format(
+          'INSERT INTO public.ideas (user_id, %1$s) SELECT $1, %1$s FROM jsonb_populate_record(NULL::public.ideas, $2) RETURNING id',
+          column_list
+        ) INTO idea_id USING p_user_id, fields;
+      ELSE
+        EXECUTE format(
+          'UPDATE public.ideas SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.ideas, $2)) WHERE id = $3 AND user_id = $1 RETURNING id',
+          column_list
+        ) INTO idea_id USING p_user_id, fields, (operation->>'id')::UUID;
+
+        IF idea_id IS NULL THEN
+          RAISE EXCEPTION 'Idea not found';
+        END IF;
+      END IF;
+
+      results := results || jsonb_build_object('id', idea_id);
+    EXCEPTION WHEN OTHERS THEN
+      IF p_atomic THEN
+        RAISE EXCEPTION '%', SQLERRM USING DETAIL = position::TEXT;
+      END IF;
+      results := results || jsonb_build_object('id', operation->'id', 'error', SQLERRM);
+    END;
+
+    position := position + 1;
+  END LOOP;
+
+  RETURN results;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_idea_batch(UUID, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
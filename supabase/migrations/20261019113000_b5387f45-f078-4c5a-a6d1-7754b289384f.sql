@@ -0,0 +1,69 @@
+-- Responses to POST requests on the ideas API that carried an Idempotency-Key header,
+-- kept for 24 hours so a retried request gets the original response instead of
+-- creating the idea twice. Only the API functions read and write this table.
+CREATE TABLE IF NOT EXISTS public.api_idempotency_keys (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  -- Both null while the first request is still being handled
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '24 hours',
+  PRIMARY KEY (user_id, endpoint, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_expires_at ON public.api_idempotency_keys(expires_at);
+
+ALTER TABLE public.api_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Claim an idempotency key for a request, or report what happened to the earlier one:
+-- 'claimed' (go ahead), 'replay' (with the stored response), 'mismatch' (different body)
+-- or 'in_progress'. A claim that never got a response is given up after a minute, so a
+-- crashed request does not block its retries for the rest of the day.
+CREATE OR REPLACE FUNCTION public.claim_idempotency_key(p_user_id UUID, p_endpoint TEXT, p_key TEXT, p_request_hash TEXT)
+RETURNS TABLE (
+  outcome TEXT,
+  response_status INTEGER,
+  response_body TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  existing public.api_idempotency_keys%ROWTYPE;
+BEGIN
+  DELETE FROM public.api_idempotency_keys ik
+  WHERE ik.user_id = p_user_id
+    AND (ik.expires_at <= now()
+      OR (ik.endpoint = p_endpoint AND ik.idempotency_key = p_key
+        AND ik.response_status IS NULL AND ik.created_at < now() - interval '1 minute'));
+
+  INSERT INTO public.api_idempotency_keys (user_id, endpoint, idempotency_key, request_hash)
+  VALUES (p_user_id, p_endpoint, p_key, p_request_hash)
+  ON CONFLICT DO NOTHING;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'claimed'::TEXT, NULL::INTEGER, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.api_idempotency_keys ik
+  WHERE ik.user_id = p_user_id
+    AND ik.endpoint = p_endpoint
+    AND ik.idempotency_key = p_key;
+
+  IF existing.request_hash <> p_request_hash THEN
+    RETURN QUERY SELECT 'mismatch'::TEXT, NULL::INTEGER, NULL::TEXT;
+  ELSIF existing.response_status IS NULL THEN
+    RETURN QUERY SELECT 'in_progress'::TEXT, NULL::INTEGER, NULL::TEXT;
+  ELSE
+    RETURN QUERY SELECT 'replay'::TEXT, existing.response_status, existing.response_body;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_idempotency_key(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
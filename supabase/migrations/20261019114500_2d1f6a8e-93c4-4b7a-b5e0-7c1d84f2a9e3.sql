@@ -0,0 +1,119 @@
+-- Deleting an idea from the web app or the API moves it to the trash by setting deleted_at.
+-- Trashed ideas can be restored until they are purged after the user's retention period.
+ALTER TABLE public.ideas ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_deleted_at ON public.ideas(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Permanently delete a user's ideas that have been in the trash longer than their retention period.
+-- Called when the web app loads ideas and when the API lists them, like the idempotency key cleanup.
+-- Runs with the caller's rights, so through RLS a signed-in user can only purge their own trash.
+CREATE OR REPLACE FUNCTION public.purge_trashed_ideas(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+AS $function$
+  WITH purged AS (
+    DELETE FROM public.ideas i
+    WHERE i.user_id = p_user_id
+      AND i.deleted_at IS NOT NULL
+      AND i.deleted_at < now() - make_interval(days => COALESCE(
+        (SELECT s.trash_retention_days FROM public.user_settings s WHERE s.user_id = p_user_id),
+        30
+      ))
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$function$;
+
+-- Trashed ideas no longer turn up in search
+CREATE OR REPLACE FUNCTION public.search_ideas(
+  p_user_id UUID,
+  p_query TEXT,
+  p_start_sel TEXT DEFAULT '<mark>',
+  p_stop_sel TEXT DEFAULT '</mark>',
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  description_highlight TEXT
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH q AS (
+    SELECT public.parse_idea_search_query(p_query) AS query
+  )
+  SELECT
+    i.id,
+    ts_rank_cd(i.search_vector, q.query) AS rank,
+    ts_headline('english', i.title, q.query,
+      format('HighlightAll=true, StartSel="%s", StopSel="%s"', p_start_sel, p_stop_sel)),
+    ts_headline('english', COALESCE(i.description, ''), q.query,
+      format('MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel="%s", StopSel="%s"', p_start_sel, p_stop_sel))
+  FROM public.ideas i, q
+  WHERE q.query IS NOT NULL
+    AND i.user_id = p_user_id
+    AND i.deleted_at IS NULL
+    AND i.search_vector @@ q.query
+  ORDER BY rank DESC, i.updated_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$function$;
+
+-- Moving an idea to the trash or restoring it is not a content change, so no webhooks fire
+CREATE OR REPLACE FUNCTION public.enqueue_idea_webhooks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  fired_events TEXT[] := '{}';
+  idea JSONB := to_jsonb(NEW) - 'search_vector';
+  previous JSONB := NULL;
+  event_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    fired_events := ARRAY['idea.created'];
+  ELSE
+    -- Ignore writes that only touch bookkeeping such as board position or the trash
+    IF (to_jsonb(NEW) - 'updated_at' - 'board_position' - 'deleted_at' - 'search_vector')
+       = (to_jsonb(OLD) - 'updated_at' - 'board_position' - 'deleted_at' - 'search_vector') THEN
+      RETURN NEW;
+    END IF;
+
+    fired_events := ARRAY['idea.updated'];
+    previous := jsonb_build_object('status', OLD.status);
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      fired_events := array_append(fired_events, 'idea.status_changed');
+      IF NEW.status = 'archived' THEN
+        fired_events := array_append(fired_events, 'idea.archived');
+      END IF;
+    END IF;
+  END IF;
+
+  FOREACH event_name IN ARRAY fired_events LOOP
+    INSERT INTO public.webhook_deliveries (webhook_id, user_id, event, payload)
+    SELECT
+      w.id,
+      w.user_id,
+      event_name,
+      jsonb_build_object(
+        'event', event_name,
+        'created_at', now(),
+        'data', jsonb_strip_nulls(jsonb_build_object('idea', idea, 'previous', previous))
+      )
+    FROM public.webhooks w
+    WHERE w.user_id = NEW.user_id
+      AND w.is_active
+      AND event_name = ANY(w.events);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,15 @@
+-- Stream changes to ideas over Supabase Realtime, so the web app picks up edits made in other
+-- tabs, on other devices and through the API. RLS still limits each user to their own ideas.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'ideas'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.ideas;
+  END IF;
+END
+$$;
+
+-- Send the whole old row with updates and deletes, so the user_id filter applies to them too
+ALTER TABLE public.ideas REPLICA IDENTITY FULL;
@@ -0,0 +1,523 @@
+-- Shared workspaces. Ideas, groups and API keys belong to a workspace, and RLS checks the
+-- signed-in user's role in it instead of ownership. Every user keeps a personal workspace.
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  -- Shared workspaces outlive their creator; personal ones are removed with the user below
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  is_personal BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspaces_personal ON public.workspaces(created_by) WHERE is_personal;
+
+-- Owners manage the workspace and its members, editors change ideas and groups, viewers only read
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+-- Invitations are addressed to an email; whoever signs in with it can accept them.
+-- Accepted invitations are deleted.
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(btrim(email)) AND email LIKE '%_@_%'),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '14 days',
+  UNIQUE (workspace_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email ON public.workspace_invitations(email);
+
+CREATE TRIGGER update_workspaces_updated_at
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_workspace_members_updated_at
+BEFORE UPDATE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The signed-in user's role in a workspace, or NULL when they are not a member.
+-- Runs with definer rights so policies on workspace_members can use it without recursing.
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT role FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$function$;
+
+-- Whoever creates a workspace becomes its first owner
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER add_workspace_owner
+AFTER INSERT ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.add_workspace_owner();
+
+-- A workspace always keeps at least one owner. Deleting the workspace or the user's account
+-- removes memberships regardless.
+CREATE OR REPLACE FUNCTION public.keep_workspace_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id)
+     OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER keep_workspace_owner
+BEFORE UPDATE OR DELETE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_workspace_owner();
+
+-- Personal workspaces for new users, next to the profile handle_new_user creates
+CREATE OR REPLACE FUNCTION public.create_personal_workspace()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO public.workspaces (name, created_by, is_personal)
+  VALUES ('Personal', NEW.id, true);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_created_workspace
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.create_personal_workspace();
+
+CREATE OR REPLACE FUNCTION public.delete_personal_workspace()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  DELETE FROM public.workspaces WHERE created_by = OLD.id AND is_personal;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_deleted_workspace
+BEFORE DELETE ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.delete_personal_workspace();
+
+INSERT INTO public.workspaces (name, created_by, is_personal)
+SELECT 'Personal', u.id, true
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.workspaces w WHERE w.created_by = u.id AND w.is_personal);
+
+-- Ideas, groups and API keys move into their owner's personal workspace
+ALTER TABLE public.ideas ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.idea_groups ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.api_keys ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+UPDATE public.ideas i SET workspace_id = w.id
+FROM public.workspaces w
+WHERE i.workspace_id IS NULL AND w.created_by = i.user_id AND w.is_personal;
+
+UPDATE public.idea_groups g SET workspace_id = w.id
+FROM public.workspaces w
+WHERE g.workspace_id IS NULL AND w.created_by = g.user_id AND w.is_personal;
+
+UPDATE public.api_keys k SET workspace_id = w.id
+FROM public.workspaces w
+WHERE k.workspace_id IS NULL AND w.created_by = k.user_id AND w.is_personal;
+
+ALTER TABLE public.ideas ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.idea_groups ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.api_keys ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_workspace_id ON public.ideas(workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_idea_groups_workspace_id ON public.idea_groups(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_workspace_id ON public.api_keys(workspace_id);
+
+-- Rows written without a workspace go to the personal workspace of their user
+CREATE OR REPLACE FUNCTION public.set_default_workspace()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    SELECT id INTO NEW.workspace_id
+    FROM public.workspaces
+    WHERE created_by = NEW.user_id AND is_personal;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_ideas_default_workspace
+BEFORE INSERT ON public.ideas
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_workspace();
+
+CREATE TRIGGER set_idea_groups_default_workspace
+BEFORE INSERT ON public.idea_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_workspace();
+
+CREATE TRIGGER set_api_keys_default_workspace
+BEFORE INSERT ON public.api_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_workspace();
+
+-- Enable RLS
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces policies
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces
+FOR SELECT
+USING (public.workspace_role(id) IS NOT NULL);
+
+-- Lets an invitation show which workspace it is for
+CREATE POLICY "Invitees can view workspaces they are invited to"
+ON public.workspaces
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.workspace_invitations wi
+  WHERE wi.workspace_id = id AND wi.email = lower(auth.jwt()->>'email')
+));
+
+CREATE POLICY "Users can create shared workspaces"
+ON public.workspaces
+FOR INSERT
+WITH CHECK (auth.uid() = created_by AND NOT is_personal);
+
+CREATE POLICY "Owners can update their workspaces"
+ON public.workspaces
+FOR UPDATE
+USING (public.workspace_role(id) = 'owner')
+WITH CHECK (public.workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete shared workspaces"
+ON public.workspaces
+FOR DELETE
+USING (public.workspace_role(id) = 'owner' AND NOT is_personal);
+
+-- Workspace members policies; members join by accepting an invitation
+CREATE POLICY "Members can view the members of their workspaces"
+ON public.workspace_members
+FOR SELECT
+USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles"
+ON public.workspace_members
+FOR UPDATE
+USING (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.workspace_members
+FOR DELETE
+USING (public.workspace_role(workspace_id) = 'owner' OR auth.uid() = user_id);
+
+-- Workspace invitations policies
+CREATE POLICY "Owners and invitees can view invitations"
+ON public.workspace_invitations
+FOR SELECT
+USING (public.workspace_role(workspace_id) = 'owner' OR email = lower(auth.jwt()->>'email'));
+
+CREATE POLICY "Owners can invite people"
+ON public.workspace_invitations
+FOR INSERT
+WITH CHECK (public.workspace_role(workspace_id) = 'owner' AND auth.uid() = invited_by);
+
+CREATE POLICY "Owners can revoke and invitees can decline invitations"
+ON public.workspace_invitations
+FOR DELETE
+USING (public.workspace_role(workspace_id) = 'owner' OR email = lower(auth.jwt()->>'email'));
+
+-- Join a workspace with an invitation sent to the signed-in user's email
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  invitation public.workspace_invitations;
+BEGIN
+  DELETE FROM public.workspace_invitations
+  WHERE id = p_invitation_id
+    AND email = lower(auth.jwt()->>'email')
+    AND expires_at > now()
+  RETURNING * INTO invitation;
+
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found or expired';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  RETURN invitation.workspace_id;
+END;
+$function$;
+
+-- Members with their names and emails, which profiles and auth.users do not expose to other users
+CREATE OR REPLACE FUNCTION public.get_workspace_members(p_workspace_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  role TEXT,
+  display_name TEXT,
+  email TEXT,
+  avatar_color TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT m.user_id, m.role, p.display_name, u.email::TEXT, COALESCE(p.avatar_color, '#3B82F6'), m.created_at
+  FROM public.workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.workspace_id = p_workspace_id
+    AND public.workspace_role(p_workspace_id) IS NOT NULL
+  ORDER BY m.created_at;
+$function$;
+
+-- Ideas policies check workspace membership; user_id records who created the idea
+DROP POLICY IF EXISTS "Users can view their own ideas" ON public.ideas;
+DROP POLICY IF EXISTS "Users can create their own ideas" ON public.ideas;
+DROP POLICY IF EXISTS "Users can update their own ideas" ON public.ideas;
+DROP POLICY IF EXISTS "Users can delete their own ideas" ON public.ideas;
+
+CREATE POLICY "Members can view workspace ideas"
+ON public.ideas
+FOR SELECT
+USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create workspace ideas"
+ON public.ideas
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update workspace ideas"
+ON public.ideas
+FOR UPDATE
+USING (public.workspace_role(workspace_id) IN ('owner', 'editor'))
+WITH CHECK (public.workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete workspace ideas"
+ON public.ideas
+FOR DELETE
+USING (public.workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- Idea groups policies
+DROP POLICY IF EXISTS "Users can view their own idea groups" ON public.idea_groups;
+DROP POLICY IF EXISTS "Users can create their own idea groups" ON public.idea_groups;
+DROP POLICY IF EXISTS "Users can update their own idea groups" ON public.idea_groups;
+DROP POLICY IF EXISTS "Users can delete their own idea groups" ON public.idea_groups;
+
+CREATE POLICY "Members can view workspace idea groups"
+ON public.idea_groups
+FOR SELECT
+USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create workspace idea groups"
+ON public.idea_groups
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update workspace idea groups"
+ON public.idea_groups
+FOR UPDATE
+USING (public.workspace_role(workspace_id) IN ('owner', 'editor'))
+WITH CHECK (public.workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete workspace idea groups"
+ON public.idea_groups
+FOR DELETE
+USING (public.workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- Everyone who can see an idea can see its history
+DROP POLICY IF EXISTS "Users can view their own idea revisions" ON public.idea_revisions;
+
+CREATE POLICY "Members can view workspace idea revisions"
+ON public.idea_revisions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.ideas i
+  WHERE i.id = idea_id AND public.workspace_role(i.workspace_id) IS NOT NULL
+));
+
+-- Purge and search work on a workspace instead of a user. The trash is kept for the
+-- retention period of whoever created the workspace.
+DROP FUNCTION IF EXISTS public.purge_trashed_ideas(UUID);
+
+CREATE FUNCTION public.purge_trashed_ideas(p_workspace_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+AS $function$
+  WITH purged AS (
+    DELETE FROM public.ideas i
+    WHERE i.workspace_id = p_workspace_id
+      AND i.deleted_at IS NOT NULL
+      AND i.deleted_at < now() - make_interval(days => COALESCE(
+        (SELECT s.trash_retention_days
+         FROM public.user_settings s
+         JOIN public.workspaces w ON w.created_by = s.user_id
+         WHERE w.id = p_workspace_id),
+        30
+      ))
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$function$;
+
+DROP FUNCTION IF EXISTS public.search_ideas(UUID, TEXT, TEXT, TEXT, INTEGER);
+
+CREATE FUNCTION public.search_ideas(
+  p_workspace_id UUID,
+  p_query TEXT,
+  p_start_sel TEXT DEFAULT '<mark>',
+  p_stop_sel TEXT DEFAULT '</mark>',
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  description_highlight TEXT
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH q AS (
+    SELECT public.parse_idea_search_query(p_query) AS query
+  )
+  SELECT
+    i.id,
+    ts_rank_cd(i.search_vector, q.query) AS rank,
+    ts_headline('english', i.title, q.query,
+      format('HighlightAll=true, StartSel="%s", StopSel="%s"', p_start_sel, p_stop_sel)),
+    ts_headline('english', COALESCE(i.description, ''), q.query,
+      format('MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel="%s", StopSel="%s"', p_start_sel, p_stop_sel))
+  FROM public.ideas i, q
+  WHERE q.query IS NOT NULL
+    AND i.workspace_id = p_workspace_id
+    AND i.deleted_at IS NULL
+    AND i.search_vector @@ q.query
+  ORDER BY rank DESC, i.updated_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$function$;
+
+-- Batches create ideas in the API key's workspace and only update ideas in it
+DROP FUNCTION IF EXISTS public.apply_idea_batch(UUID, JSONB, BOOLEAN);
+
+CREATE FUNCTION public.apply_idea_batch(p_user_id UUID, p_workspace_id UUID, p_operations JSONB, p_atomic BOOLEAN DEFAULT true)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  operation JSONB;
+  position INTEGER := 0;
+  fields JSONB;
+  column_list TEXT;
+  idea_id UUID;
+  results JSONB := '[]';
+BEGIN
+  FOR operation IN SELECT value FROM jsonb_array_elements(p_operations) LOOP
+    BEGIN
+      fields := CASE
+        WHEN operation->>'op' = 'archive' THEN jsonb_build_object('status', 'archived')
+        ELSE COALESCE(operation->'data', '{}')
+      END;
+
+      SELECT string_agg(quote_ident(key), ', ') INTO column_list
+      FROM jsonb_object_keys(fields) AS key
+      WHERE key IN ('title', 'description', 'status', 'tags', 'color', 'group_id', 'image_url', 'board_position');
+
+      IF column_list IS NULL THEN
+        RAISE EXCEPTION 'No fields to write';
+      END IF;
+
+      IF operation->>'op' = 'create' THEN
+        EXECUTE format(
+          'INSERT INTO public.ideas (user_id, workspace_id, %1$s) SELECT $1, $3, %1$s FROM jsonb_populate_record(NULL::public.ideas, $2) RETURNING id',
+          column_list
+        ) INTO idea_id USING p_user_id, fields, p_workspace_id;
+      ELSE
+        EXECUTE format(
+          'UPDATE public.ideas SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.ideas, $2)) WHERE id = $3 AND workspace_id = $4 RETURNING id',
+          column_list
+        ) INTO idea_id USING p_user_id, fields, (operation->>'id')::UUID, p_workspace_id;
+
+        IF idea_id IS NULL THEN
+          RAISE EXCEPTION 'Idea not found';
+        END IF;
+      END IF;
+
+      results := results || jsonb_build_object('id', idea_id);
+    EXCEPTION WHEN OTHERS THEN
+      IF p_atomic THEN
+        RAISE EXCEPTION '%', SQLERRM USING DETAIL = position::TEXT;
+      END IF;
+      results := results || jsonb_build_object('id', operation->'id', 'error', SQLERRM);
+    END;
+
+    position := position + 1;
+  END LOOP;
+
+  RETURN results;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_idea_batch(UUID, UUID, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
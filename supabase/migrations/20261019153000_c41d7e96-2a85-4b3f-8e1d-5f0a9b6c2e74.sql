@@ -0,0 +1,159 @@
+-- Threaded comments on ideas, visible to everyone in the idea's workspace
+CREATE TABLE IF NOT EXISTS public.idea_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.idea_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0 AND length(body) <= 10000),
+  mentioned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  edited_at TIMESTAMP WITH TIME ZONE,
+  -- Deleted comments stay in place so their replies keep a parent
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_idea_comments_idea_id ON public.idea_comments(idea_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_idea_comments_parent_id ON public.idea_comments(parent_id);
+
+-- Every earlier body of a comment, written when it is edited or deleted
+CREATE TABLE IF NOT EXISTS public.idea_comment_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.idea_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_idea_comment_revisions_comment_id ON public.idea_comment_revisions(comment_id, created_at DESC);
+
+CREATE TRIGGER update_idea_comments_updated_at
+BEFORE UPDATE ON public.idea_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolve @mentions to the workspace members whose display name follows the @, and keep the
+-- previous body whenever it changes. Runs for the web app and the API alike.
+CREATE OR REPLACE FUNCTION public.prepare_idea_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.idea_id IS DISTINCT FROM OLD.idea_id
+      OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+      OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'A comment cannot be moved';
+    END IF;
+
+    IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+      INSERT INTO public.idea_comment_revisions (comment_id, body, action)
+      VALUES (OLD.id, OLD.body, 'delete');
+      NEW.body := OLD.body;
+      RETURN NEW;
+    END IF;
+
+    IF OLD.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'A deleted comment cannot be edited';
+    END IF;
+
+    IF NEW.body IS NOT DISTINCT FROM OLD.body THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO public.idea_comment_revisions (comment_id, body, action)
+    VALUES (OLD.id, OLD.body, 'edit');
+    NEW.edited_at := now();
+  ELSIF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.idea_comments c
+    WHERE c.id = NEW.parent_id AND c.idea_id = NEW.idea_id
+  ) THEN
+    RAISE EXCEPTION 'A reply must belong to the same idea as its parent';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT p.user_id), '{}') INTO NEW.mentioned_user_ids
+  FROM public.ideas i
+  JOIN public.workspace_members m ON m.workspace_id = i.workspace_id
+  JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE i.id = NEW.idea_id
+    AND btrim(COALESCE(p.display_name, '')) <> ''
+    AND NEW.body ~* ('(^|[^[:alnum:]_])@'
+      || regexp_replace(btrim(p.display_name), '([.*+?^${}()|\[\]\\])', '\\\1', 'g')
+      || '($|[^[:alnum:]_])');
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prepare_idea_comment
+BEFORE INSERT OR UPDATE ON public.idea_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_idea_comment();
+
+ALTER TABLE public.idea_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.idea_comment_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Every member, viewers included, can read and write comments; only authors edit their own.
+-- Authors and workspace owners can delete, which the app does by setting deleted_at.
+CREATE POLICY "Members can view comments on workspace ideas"
+ON public.idea_comments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.ideas i
+  WHERE i.id = idea_id AND public.workspace_role(i.workspace_id) IS NOT NULL
+));
+
+CREATE POLICY "Members can comment on workspace ideas"
+ON public.idea_comments
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND EXISTS (
+  SELECT 1 FROM public.ideas i
+  WHERE i.id = idea_id AND public.workspace_role(i.workspace_id) IS NOT NULL
+));
+
+CREATE POLICY "Authors and owners can update comments"
+ON public.idea_comments
+FOR UPDATE
+USING (auth.uid() = user_id OR EXISTS (
+  SELECT 1 FROM public.ideas i
+  WHERE i.id = idea_id AND public.workspace_role(i.workspace_id) = 'owner'
+));
+
+CREATE POLICY "Members can view comment history"
+ON public.idea_comment_revisions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.idea_comments c
+  JOIN public.ideas i ON i.id = c.idea_id
+  WHERE c.id = comment_id AND public.workspace_role(i.workspace_id) IS NOT NULL
+));
+
+-- Owners may only delete, not rewrite, someone else's comment
+CREATE OR REPLACE FUNCTION public.guard_idea_comment_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.user_id AND NEW.body IS DISTINCT FROM OLD.body THEN
+    RAISE EXCEPTION 'Only the author can edit a comment';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER guard_idea_comment_edit
+BEFORE UPDATE ON public.idea_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_idea_comment_edit();
+
+ALTER TABLE public.idea_comments REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.idea_comments;
+  END IF;
+END;
+$$;
@@ -0,0 +1,194 @@
+-- Read-only links to one idea or group for people without an account. The token in the URL is
+-- the only credential; links can also ask for a password and stop working at expires_at.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  idea_id UUID REFERENCES public.ideas(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES public.idea_groups(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  -- bcrypt; the app only reads has_password
+  password_hash TEXT,
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((idea_id IS NULL) <> (group_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_idea_id ON public.share_links(idea_id) WHERE idea_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_share_links_group_id ON public.share_links(group_id) WHERE group_id IS NOT NULL;
+
+-- One row per successful view of a shared page
+CREATE TABLE IF NOT EXISTS public.share_link_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_link_id UUID NOT NULL REFERENCES public.share_links(id) ON DELETE CASCADE,
+  referrer TEXT,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_link_views_share_link_id ON public.share_link_views(share_link_id, viewed_at DESC);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.share_link_views ENABLE ROW LEVEL SECURITY;
+
+-- Owners see and revoke links; they are created with create_share_link so the password is hashed
+CREATE POLICY "Owners can view share links"
+ON public.share_links
+FOR SELECT
+USING (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can revoke share links"
+ON public.share_links
+FOR UPDATE
+USING (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can view share link views"
+ON public.share_link_views
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.share_links l
+  WHERE l.id = share_link_id AND public.workspace_role(l.workspace_id) = 'owner'
+));
+
+-- Share an idea or a group of the signed-in user's workspace; an empty password means none
+CREATE OR REPLACE FUNCTION public.create_share_link(
+  p_idea_id UUID DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_password TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.share_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  target_workspace_id UUID;
+  link public.share_links;
+BEGIN
+  IF (p_idea_id IS NULL) = (p_group_id IS NULL) THEN
+    RAISE EXCEPTION 'Share either an idea or a group';
+  END IF;
+
+  IF p_idea_id IS NOT NULL THEN
+    SELECT workspace_id INTO target_workspace_id
+    FROM public.ideas
+    WHERE id = p_idea_id AND deleted_at IS NULL;
+  ELSE
+    SELECT workspace_id INTO target_workspace_id
+    FROM public.idea_groups
+    WHERE id = p_group_id;
+  END IF;
+
+  IF target_workspace_id IS NULL OR public.workspace_role(target_workspace_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can share';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The expiry must be in the future';
+  END IF;
+
+  INSERT INTO public.share_links (workspace_id, idea_id, group_id, password_hash, expires_at, created_by)
+  VALUES (
+    target_workspace_id,
+    p_idea_id,
+    p_group_id,
+    CASE WHEN COALESCE(p_password, '') <> '' THEN extensions.crypt(p_password, extensions.gen_salt('bf')) END,
+    p_expires_at,
+    auth.uid()
+  )
+  RETURNING * INTO link;
+
+  RETURN link;
+END;
+$function$;
+
+-- The fields of an idea that a share link shows
+CREATE OR REPLACE FUNCTION public.shared_idea_json(i public.ideas)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT jsonb_build_object(
+    'id', i.id,
+    'title', i.title,
+    'description', COALESCE(i.description, ''),
+    'status', i.status,
+    'tags', COALESCE(i.tags, '{}'),
+    'color', i.color,
+    'image_url', i.image_url,
+    'created_at', i.created_at,
+    'updated_at', i.updated_at
+  );
+$function$;
+
+-- What a share link shows, for anyone holding its token. Returns null for unknown, revoked and
+-- expired links, and { password_required } until the right password is given. Views are logged.
+CREATE OR REPLACE FUNCTION public.get_shared_content(p_token TEXT, p_password TEXT DEFAULT NULL, p_referrer TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  link public.share_links;
+  content JSONB;
+BEGIN
+  SELECT * INTO link
+  FROM public.share_links
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now());
+
+  IF link.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF link.password_hash IS NOT NULL THEN
+    IF COALESCE(p_password, '') = '' THEN
+      RETURN jsonb_build_object('password_required', true);
+    END IF;
+    IF extensions.crypt(p_password, link.password_hash) <> link.password_hash THEN
+      RETURN jsonb_build_object('password_required', true, 'invalid_password', true);
+    END IF;
+  END IF;
+
+  IF link.idea_id IS NOT NULL THEN
+    SELECT jsonb_build_object('idea', public.shared_idea_json(i)) INTO content
+    FROM public.ideas i
+    WHERE i.id = link.idea_id AND i.deleted_at IS NULL;
+  ELSE
+    SELECT jsonb_build_object(
+      'group', jsonb_build_object('name', g.name, 'description', g.description, 'color', g.color, 'icon', g.icon),
+      'ideas', COALESCE((
+        SELECT jsonb_agg(public.shared_idea_json(i) ORDER BY i.created_at DESC)
+        FROM public.ideas i
+        WHERE i.group_id = g.id AND i.deleted_at IS NULL
+      ), '[]'::jsonb)
+    ) INTO content
+    FROM public.idea_groups g
+    WHERE g.id = link.group_id;
+  END IF;
+
+  -- The idea went to the trash after it was shared
+  IF content IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.share_link_views (share_link_id, referrer)
+  VALUES (link.id, NULLIF(left(p_referrer, 500), ''));
+
+  UPDATE public.share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = link.id;
+
+  RETURN content;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_content(TEXT, TEXT, TEXT) TO anon, authenticated;
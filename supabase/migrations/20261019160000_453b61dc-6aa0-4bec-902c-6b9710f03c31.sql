@@ -0,0 +1,7 @@
+-- Which AI provider enhances descriptions for the user. Null model and base URL use the
+-- provider's defaults; a base URL is required for OpenAI-compatible providers.
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS ai_provider TEXT NOT NULL DEFAULT 'deepseek'
+  CHECK (ai_provider IN ('deepseek', 'openai-compatible', 'ollama')),
+ADD COLUMN IF NOT EXISTS ai_model TEXT CHECK (char_length(ai_model) <= 200),
+ADD COLUMN IF NOT EXISTS ai_base_url TEXT CHECK (ai_base_url ~* '^https?://' AND char_length(ai_base_url) <= 500);
@@ -0,0 +1,77 @@
+-- Prompts for description enhancement. Built-in presets have no user_id and are visible to
+-- everyone; users add their own with {{title}}, {{description}} and {{tags}} placeholders.
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  description TEXT CHECK (char_length(description) <= 500),
+  system_prompt TEXT NOT NULL CHECK (char_length(btrim(system_prompt)) BETWEEN 1 AND 10000),
+  user_prompt TEXT NOT NULL CHECK (char_length(btrim(user_prompt)) BETWEEN 1 AND 10000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_id ON public.prompt_templates(user_id);
+
+CREATE TRIGGER update_prompt_templates_updated_at
+BEFORE UPDATE ON public.prompt_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view built-in and their own prompt templates"
+ON public.prompt_templates
+FOR SELECT
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own prompt templates"
+ON public.prompt_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prompt templates"
+ON public.prompt_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prompt templates"
+ON public.prompt_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- The first preset is the prompt enhance-description used before templates, and still its
+-- fallback when no template is chosen
+INSERT INTO public.prompt_templates (id, user_id, name, description, system_prompt, user_prompt)
+VALUES
+(
+  '00000000-0000-4000-8000-000000000001',
+  NULL,
+  'Product brief',
+  'Features, technical considerations, market, monetization, roadmap and competition',
+  'You are an expert technical writer and app idea enhancer. Your job is to take basic app ideas and descriptions and enhance them with detailed features, technical considerations, market potential, and implementation suggestions. Make the description comprehensive, professional, and inspiring while keeping the core idea intact. Use markdown formatting for better readability.',
+  E'Please enhance this app idea description:\n\nTitle: {{title}}\nCurrent Description: {{description}}\n\nPlease provide an enhanced, detailed description that includes:\n- Detailed feature breakdown\n- Technical implementation considerations  \n- Market potential and target audience\n- Monetization strategies\n- Development roadmap suggestions\n- Competitive advantages\n\nKeep the writing engaging and professional. Use markdown formatting with headers, bullet points, and emphasis where appropriate.'
+),
+(
+  '00000000-0000-4000-8000-000000000002',
+  NULL,
+  'Technical spec',
+  'Features, architecture, data model and implementation plan, without the business case',
+  'You are a senior software architect. Turn rough app ideas into clear technical specifications that an engineering team can plan from. Be concrete and pragmatic, keep the core idea intact, and leave out marketing and monetization. Use markdown formatting.',
+  E'Write a technical specification for this app idea:\n\nTitle: {{title}}\nTags: {{tags}}\nCurrent Description: {{description}}\n\nUse a markdown heading for each of these sections:\n- Features and user flows\n- Architecture and main components\n- Data model\n- APIs and integrations\n- Technical risks and open questions\n- Implementation roadmap with milestones\n\nPrefer bullet points and short paragraphs.'
+),
+(
+  '00000000-0000-4000-8000-000000000003',
+  NULL,
+  'Polish',
+  'Clearer, tighter wording without adding anything new',
+  'You are an editor. Rewrite app idea descriptions so they are clear, concise and well structured. Do not add features or claims that are not in the original. Use markdown formatting.',
+  E'Polish this app idea description:\n\nTitle: {{title}}\nCurrent Description: {{description}}\n\nKeep every point it makes, fix unclear wording, and organize it with short headers and bullet points where that helps.'
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Which template produced an idea's enhanced description. The name is kept so the record
+-- survives the template being deleted.
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS enhancement_template_id UUID REFERENCES public.prompt_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS enhancement_template_name TEXT;
@@ -0,0 +1,50 @@
+-- Run webhook-dispatch every minute, so queued deliveries and their retries go out even when
+-- nothing else calls it. The function URL and service role key are read from Vault:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Only calls the function when a delivery is due, so idle minutes cost one index lookup
+CREATE OR REPLACE FUNCTION public.dispatch_due_webhooks()
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.webhook_deliveries
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE WARNING 'Webhook deliveries are due but the project_url or service_role_key Vault secret is missing';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/webhook-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_due_webhooks() FROM PUBLIC, anon, authenticated;
+
+-- Scheduling under an existing name replaces that job
+SELECT cron.schedule('dispatch-webhooks', '* * * * *', 'SELECT public.dispatch_due_webhooks()');
@@ -0,0 +1,53 @@
+-- Keep the headers of the stored response as well, so a replay carries the same ETag and
+-- Content-Type as the original instead of only its body.
+ALTER TABLE public.api_idempotency_keys ADD COLUMN IF NOT EXISTS response_headers JSONB;
+
+-- The result gains a column, which CREATE OR REPLACE cannot change
+DROP FUNCTION IF EXISTS public.claim_idempotency_key(UUID, TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.claim_idempotency_key(p_user_id UUID, p_endpoint TEXT, p_key TEXT, p_request_hash TEXT)
+RETURNS TABLE (
+  outcome TEXT,
+  response_status INTEGER,
+  response_body TEXT,
+  response_headers JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  existing public.api_idempotency_keys%ROWTYPE;
+BEGIN
+  DELETE FROM public.api_idempotency_keys ik
+  WHERE ik.user_id = p_user_id
+    AND (ik.expires_at <= now()
+      OR (ik.endpoint = p_endpoint AND ik.idempotency_key = p_key
+        AND ik.response_status IS NULL AND ik.created_at < now() - interval '1 minute'));
+
+  INSERT INTO public.api_idempotency_keys (user_id, endpoint, idempotency_key, request_hash)
+  VALUES (p_user_id, p_endpoint, p_key, p_request_hash)
+  ON CONFLICT DO NOTHING;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'claimed'::TEXT, NULL::INTEGER, NULL::TEXT, NULL::JSONB;
+    RETURN;
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.api_idempotency_keys ik
+  WHERE ik.user_id = p_user_id
+    AND ik.endpoint = p_endpoint
+    AND ik.idempotency_key = p_key;
+
+  IF existing.request_hash <> p_request_hash THEN
+    RETURN QUERY SELECT 'mismatch'::TEXT, NULL::INTEGER, NULL::TEXT, NULL::JSONB;
+  ELSIF existing.response_status IS NULL THEN
+    RETURN QUERY SELECT 'in_progress'::TEXT, NULL::INTEGER, NULL::TEXT, NULL::JSONB;
+  ELSE
+    RETURN QUERY SELECT 'replay'::TEXT, existing.response_status, existing.response_body, existing.response_headers;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_idempotency_key(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
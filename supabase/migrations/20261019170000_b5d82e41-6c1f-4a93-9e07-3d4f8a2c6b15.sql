@@ -0,0 +1,67 @@
+-- Inside the policy, a bare "id" resolved to the invitation's own id rather than the
+-- workspace's, so invitees could not see the workspace they were invited to
+DROP POLICY IF EXISTS "Invitees can view workspaces they are invited to" ON public.workspaces;
+
+CREATE POLICY "Invitees can view workspaces they are invited to"
+ON public.workspaces
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.workspace_invitations wi
+  WHERE wi.workspace_id = workspaces.id AND wi.email = lower(auth.jwt()->>'email')
+));
+
+-- Webhooks fire for changes to any idea in a workspace their owner belongs to, not only
+-- for the ideas the owner created themselves
+CREATE OR REPLACE FUNCTION public.enqueue_idea_webhooks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  fired_events TEXT[] := '{}';
+  idea JSONB := to_jsonb(NEW) - 'search_vector';
+  previous JSONB := NULL;
+  event_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    fired_events := ARRAY['idea.created'];
+  ELSE
+    -- Ignore writes that only touch bookkeeping such as board position or the trash
+    IF (to_jsonb(NEW) - 'updated_at' - 'board_position' - 'deleted_at' - 'search_vector')
+       = (to_jsonb(OLD) - 'updated_at' - 'board_position' - 'deleted_at' - 'search_vector') THEN
+      RETURN NEW;
+    END IF;
+
+    fired_events := ARRAY['idea.updated'];
+    previous := jsonb_build_object('status', OLD.status);
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      fired_events := array_append(fired_events, 'idea.status_changed');
+      IF NEW.status = 'archived' THEN
+        fired_events := array_append(fired_events, 'idea.archived');
+      END IF;
+    END IF;
+  END IF;
+
+  FOREACH event_name IN ARRAY fired_events LOOP
+    INSERT INTO public.webhook_deliveries (webhook_id, user_id, event, payload)
+    SELECT
+      w.id,
+      w.user_id,
+      event_name,
+      jsonb_build_object(
+        'event', event_name,
+        'created_at', now(),
+        'data', jsonb_strip_nulls(jsonb_build_object('idea', idea, 'previous', previous))
+      )
+    FROM public.webhooks w
+    JOIN public.workspace_members m ON m.user_id = w.user_id
+    WHERE m.workspace_id = NEW.workspace_id
+      AND w.is_active
+      AND event_name = ANY(w.events);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
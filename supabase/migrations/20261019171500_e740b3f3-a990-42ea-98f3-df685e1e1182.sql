@@ -0,0 +1,167 @@
+-- Share links: owners could update any column of a link (its target, token or password) and
+-- read the password hash. Links are now only revoked through revoke_share_link, the hash
+-- stays in the database, and wrong passwords lock a link for a while.
+ALTER TABLE public.share_links
+  ADD COLUMN IF NOT EXISTS failed_password_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS password_locked_until TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY IF EXISTS "Owners can revoke share links" ON public.share_links;
+
+REVOKE INSERT, UPDATE, DELETE ON public.share_links FROM anon, authenticated;
+REVOKE SELECT ON public.share_links FROM anon, authenticated;
+GRANT SELECT (
+  id, workspace_id, idea_id, group_id, token, has_password, expires_at, revoked_at,
+  view_count, last_viewed_at, created_by, created_at
+) ON public.share_links TO authenticated;
+
+-- Create a link; the returned row leaves out the password hash
+CREATE OR REPLACE FUNCTION public.create_share_link(
+  p_idea_id UUID DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_password TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.share_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  target_workspace_id UUID;
+  link public.share_links;
+BEGIN
+  IF (p_idea_id IS NULL) = (p_group_id IS NULL) THEN
+    RAISE EXCEPTION 'Share either an idea or a group';
+  END IF;
+
+  IF p_idea_id IS NOT NULL THEN
+    SELECT workspace_id INTO target_workspace_id
+    FROM public.ideas
+    WHERE id = p_idea_id AND deleted_at IS NULL;
+  ELSE
+    SELECT workspace_id INTO target_workspace_id
+    FROM public.idea_groups
+    WHERE id = p_group_id;
+  END IF;
+
+  IF target_workspace_id IS NULL OR public.workspace_role(target_workspace_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can share';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The expiry must be in the future';
+  END IF;
+
+  INSERT INTO public.share_links (workspace_id, idea_id, group_id, password_hash, expires_at, created_by)
+  VALUES (
+    target_workspace_id,
+    p_idea_id,
+    p_group_id,
+    CASE WHEN COALESCE(p_password, '') <> '' THEN extensions.crypt(p_password, extensions.gen_salt('bf')) END,
+    p_expires_at,
+    auth.uid()
+  )
+  RETURNING * INTO link;
+
+  link.password_hash := NULL;
+  RETURN link;
+END;
+$function$;
+
+-- Revoke a link of a workspace the signed-in user owns. Revoking twice keeps the first time.
+CREATE OR REPLACE FUNCTION public.revoke_share_link(p_id UUID)
+RETURNS public.share_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  link public.share_links;
+BEGIN
+  UPDATE public.share_links
+  SET revoked_at = COALESCE(revoked_at, now())
+  WHERE id = p_id AND public.workspace_role(workspace_id) = 'owner'
+  RETURNING * INTO link;
+
+  IF link.id IS NULL THEN
+    RAISE EXCEPTION 'Share link not found';
+  END IF;
+
+  link.password_hash := NULL;
+  RETURN link;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_share_link(UUID) FROM PUBLIC, anon;
+
+-- Five wrong passwords in a row lock the link for 15 minutes, for everyone holding it; that
+-- keeps the bcrypt check from being guessed against without limit.
+CREATE OR REPLACE FUNCTION public.get_shared_content(p_token TEXT, p_password TEXT DEFAULT NULL, p_referrer TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  link public.share_links;
+  content JSONB;
+BEGIN
+  SELECT * INTO link
+  FROM public.share_links
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now());
+
+  IF link.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF link.password_hash IS NOT NULL THEN
+    IF link.password_locked_until > now() THEN
+      RETURN jsonb_build_object('password_required', true, 'too_many_attempts', true);
+    END IF;
+    IF COALESCE(p_password, '') = '' THEN
+      RETURN jsonb_build_object('password_required', true);
+    END IF;
+    IF extensions.crypt(p_password, link.password_hash) <> link.password_hash THEN
+      UPDATE public.share_links
+      SET failed_password_attempts = CASE WHEN failed_password_attempts >= 4 THEN 0 ELSE failed_password_attempts + 1 END,
+          password_locked_until = CASE WHEN failed_password_attempts >= 4 THEN now() + interval '15 minutes' END
+      WHERE id = link.id;
+      RETURN jsonb_build_object('password_required', true, 'invalid_password', true);
+    END IF;
+  END IF;
+
+  -- Ideas and groups are only shown while they still belong to the link's workspace
+  IF link.idea_id IS NOT NULL THEN
+    SELECT jsonb_build_object('idea', public.shared_idea_json(i)) INTO content
+    FROM public.ideas i
+    WHERE i.id = link.idea_id AND i.workspace_id = link.workspace_id AND i.deleted_at IS NULL;
+  ELSE
+    SELECT jsonb_build_object(
+      'group', jsonb_build_object('name', g.name, 'description', g.description, 'color', g.color, 'icon', g.icon),
+      'ideas', COALESCE((
+        SELECT jsonb_agg(public.shared_idea_json(i) ORDER BY i.created_at DESC)
+        FROM public.ideas i
+        WHERE i.group_id = g.id AND i.workspace_id = link.workspace_id AND i.deleted_at IS NULL
+      ), '[]'::jsonb)
+    ) INTO content
+    FROM public.idea_groups g
+    WHERE g.id = link.group_id AND g.workspace_id = link.workspace_id;
+  END IF;
+
+  -- The idea went to the trash or another workspace after it was shared
+  IF content IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.share_link_views (share_link_id, referrer)
+  VALUES (link.id, NULLIF(left(p_referrer, 500), ''));
+
+  UPDATE public.share_links
+  SET view_count = view_count + 1, last_viewed_at = now(), failed_password_attempts = 0
+  WHERE id = link.id;
+
+  RETURN content;
+END;
+$function$;
@@ -0,0 +1,27 @@
+-- ai-keys now queries as the signed-in user, so API keys need policies that no longer rely on
+-- whatever the dashboard set up. Users manage the keys they created, in workspaces they belong to.
+DROP POLICY IF EXISTS "Users can view their own API keys" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can create API keys in their workspaces" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can update their own API keys" ON public.api_keys;
+DROP POLICY IF EXISTS "Users can delete their own API keys" ON public.api_keys;
+
+CREATE POLICY "Users can view their own API keys"
+ON public.api_keys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create API keys in their workspaces"
+ON public.api_keys
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Users can update their own API keys"
+ON public.api_keys
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Users can delete their own API keys"
+ON public.api_keys
+FOR DELETE
+USING (auth.uid() = user_id);
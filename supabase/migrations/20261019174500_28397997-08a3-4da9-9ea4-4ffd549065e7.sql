@@ -0,0 +1,24 @@
+-- Inserting a workspace and reading it back failed: the SELECT policy only admits members,
+-- and the creator becomes one in an AFTER INSERT trigger, after RETURNING is checked
+CREATE OR REPLACE FUNCTION public.create_workspace(p_name TEXT)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  workspace public.workspaces;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a workspace';
+  END IF;
+
+  INSERT INTO public.workspaces (name, created_by, is_personal)
+  VALUES (btrim(p_name), auth.uid(), false)
+  RETURNING * INTO workspace;
+
+  RETURN workspace;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_workspace(TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,68 @@
+-- Email confirmations are off, so the email claim in a JWT only says what address someone
+-- signed up with, not that they own it. Invitations now go by the signed-in user's email
+-- only once it is confirmed.
+CREATE OR REPLACE FUNCTION public.confirmed_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT lower(email) FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+$function$;
+
+DROP POLICY IF EXISTS "Invitees can view workspaces they are invited to" ON public.workspaces;
+
+CREATE POLICY "Invitees can view workspaces they are invited to"
+ON public.workspaces
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.workspace_invitations wi
+  WHERE wi.workspace_id = workspaces.id AND wi.email = public.confirmed_email()
+));
+
+DROP POLICY IF EXISTS "Owners and invitees can view invitations" ON public.workspace_invitations;
+
+CREATE POLICY "Owners and invitees can view invitations"
+ON public.workspace_invitations
+FOR SELECT
+USING (public.workspace_role(workspace_id) = 'owner' OR email = public.confirmed_email());
+
+DROP POLICY IF EXISTS "Owners can revoke and invitees can decline invitations" ON public.workspace_invitations;
+
+CREATE POLICY "Owners can revoke and invitees can decline invitations"
+ON public.workspace_invitations
+FOR DELETE
+USING (public.workspace_role(workspace_id) = 'owner' OR email = public.confirmed_email());
+
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  invitation public.workspace_invitations;
+BEGIN
+  IF public.confirmed_email() IS NULL THEN
+    RAISE EXCEPTION 'Confirm your email address to accept invitations';
+  END IF;
+
+  DELETE FROM public.workspace_invitations
+  WHERE id = p_invitation_id
+    AND email = public.confirmed_email()
+    AND expires_at > now()
+  RETURNING * INTO invitation;
+
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found or expired';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  RETURN invitation.workspace_id;
+END;
+$function$;
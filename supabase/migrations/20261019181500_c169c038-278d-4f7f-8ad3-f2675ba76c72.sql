@@ -0,0 +1,65 @@
+-- Moving an idea to the trash (which is what DELETE /ai-ideas does) and restoring it fire
+-- idea.trashed and idea.restored. Webhooks registered before only get them if they opt in.
+ALTER TABLE public.webhooks DROP CONSTRAINT IF EXISTS webhooks_events_check;
+ALTER TABLE public.webhooks ADD CONSTRAINT webhooks_events_check
+  CHECK (events <@ ARRAY['idea.created', 'idea.updated', 'idea.status_changed', 'idea.archived', 'idea.trashed', 'idea.restored']);
+ALTER TABLE public.webhooks ALTER COLUMN events
+  SET DEFAULT ARRAY['idea.created', 'idea.updated', 'idea.status_changed', 'idea.archived', 'idea.trashed', 'idea.restored'];
+
+CREATE OR REPLACE FUNCTION public.enqueue_idea_webhooks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  fired_events TEXT[] := '{}';
+  idea JSONB := to_jsonb(NEW) - 'search_vector';
+  previous JSONB := NULL;
+  event_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    fired_events := ARRAY['idea.created'];
+  ELSE
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      fired_events := ARRAY['idea.trashed'];
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      fired_events := ARRAY['idea.restored'];
+    END IF;
+
+    -- Writes that only touch bookkeeping such as board position are not updates
+    IF (to_jsonb(NEW) - 'updated_at' - 'board_position' - 'deleted_at' - 'search_vector')
+       <> (to_jsonb(OLD) - 'updated_at' - 'board_position' - 'deleted_at' - 'search_vector') THEN
+      fired_events := array_append(fired_events, 'idea.updated');
+      previous := jsonb_build_object('status', OLD.status);
+
+      IF NEW.status IS DISTINCT FROM OLD.status THEN
+        fired_events := array_append(fired_events, 'idea.status_changed');
+        IF NEW.status = 'archived' THEN
+          fired_events := array_append(fired_events, 'idea.archived');
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  FOREACH event_name IN ARRAY fired_events LOOP
+    INSERT INTO public.webhook_deliveries (webhook_id, user_id, event, payload)
+    SELECT
+      w.id,
+      w.user_id,
+      event_name,
+      jsonb_build_object(
+        'event', event_name,
+        'created_at', now(),
+        'data', jsonb_strip_nulls(jsonb_build_object('idea', idea, 'previous', previous))
+      )
+    FROM public.webhooks w
+    JOIN public.workspace_members m ON m.user_id = w.user_id
+    WHERE m.workspace_id = NEW.workspace_id
+      AND w.is_active
+      AND event_name = ANY(w.events);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
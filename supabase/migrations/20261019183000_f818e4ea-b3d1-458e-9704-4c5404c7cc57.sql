@@ -0,0 +1,60 @@
+-- A workspace's trash is kept for the retention period of whoever created it. Other members
+-- could not read that setting through RLS, so their purges fell back to 30 days and the app
+-- showed them their own setting. trash_retention_days reads it for any member, and a daily
+-- job purges trash that nobody opens.
+CREATE OR REPLACE FUNCTION public.trash_retention_days(p_workspace_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(
+    (SELECT s.trash_retention_days
+     FROM public.user_settings s
+     JOIN public.workspaces w ON w.created_by = s.user_id
+     WHERE w.id = p_workspace_id),
+    30
+  )
+  -- Members only; scheduled jobs have no user
+  WHERE auth.uid() IS NULL OR public.workspace_role(p_workspace_id) IS NOT NULL;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.trash_retention_days(UUID) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION public.purge_trashed_ideas(p_workspace_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+AS $function$
+  WITH purged AS (
+    DELETE FROM public.ideas i
+    WHERE i.workspace_id = p_workspace_id
+      AND i.deleted_at IS NOT NULL
+      AND i.deleted_at < now() - make_interval(days => public.trash_retention_days(p_workspace_id))
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$function$;
+
+-- Purge every workspace's expired trash, for the scheduled job
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH purged AS (
+    DELETE FROM public.ideas i
+    WHERE i.deleted_at IS NOT NULL
+      AND i.deleted_at < now() - make_interval(days => public.trash_retention_days(i.workspace_id))
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Scheduling under an existing name replaces that job
+SELECT cron.schedule('purge-trash', '30 3 * * *', 'SELECT public.purge_expired_trash()');
@@ -0,0 +1,56 @@
+-- Take the idea's row lock before numbering its next revision, so two writes to the same
+-- idea cannot both read the same latest version. UNIQUE(idea_id, version) still backs this up.
+CREATE OR REPLACE FUNCTION public.record_idea_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  changed TEXT[] := '{}';
+  next_version INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.title IS DISTINCT FROM OLD.title THEN
+      changed := array_append(changed, 'title');
+    END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+      changed := array_append(changed, 'description');
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      changed := array_append(changed, 'status');
+    END IF;
+    IF NEW.tags IS DISTINCT FROM OLD.tags THEN
+      changed := array_append(changed, 'tags');
+    END IF;
+
+    IF array_length(changed, 1) IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Versions are numbered per idea. Holding the idea's row lock until commit makes concurrent
+  -- writes to one idea take turns, so each reads the version the previous one added.
+  PERFORM 1 FROM public.ideas WHERE id = NEW.id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM public.idea_revisions
+  WHERE idea_id = NEW.id;
+
+  INSERT INTO public.idea_revisions (idea_id, user_id, version, title, description, status, tags, changed_fields, source)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    next_version,
+    NEW.title,
+    NEW.description,
+    NEW.status,
+    NEW.tags,
+    changed,
+    -- Edge functions use the service role, so there is no signed-in user
+    CASE WHEN auth.uid() IS NULL THEN 'api' ELSE 'app' END
+  );
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,123 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let alice: User;
+let bob: User;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  alice = await createUser(db, 'alice@example.com');
+  bob = await createUser(db, 'bob@example.com');
+}, 120_000);
+
+function createKey(user: User, workspaceId: string, name: string) {
+  return asUser(db, user, tx => tx.query(
+    'INSERT INTO public.api_keys (user_id, workspace_id, name, key_hash) VALUES ($1, $2, $3, public.hash_api_key(public.generate_api_key()))',
+    [user.id, workspaceId, name]
+  ));
+}
+
+describe('API keys as the signed-in user', () => {
+  it('finds the personal workspace a new key goes into', async () => {
+    const { rows } = await asUser(db, alice, tx => tx.query(
+      `SELECT m.workspace_id FROM public.workspace_members m
+       JOIN public.workspaces w ON w.id = m.workspace_id AND w.is_personal
+       WHERE m.user_id = $1`,
+      [alice.id]
+    ));
+
+    expect(rows).toEqual([{ workspace_id: alice.workspaceId }]);
+  });
+
+  it('creates keys only in workspaces the user belongs to', async () => {
+    await createKey(alice, alice.workspaceId, 'CI');
+
+    await expect(createKey(alice, bob.workspaceId, 'Sneaky')).rejects.toThrow('row-level security');
+  });
+
+  it('lists only the user\'s own keys', async () => {
+    await createKey(bob, bob.workspaceId, 'Zapier');
+
+    const { rows } = await asUser(db, bob, tx => tx.query('SELECT name FROM public.api_keys'));
+
+    expect(rows).toEqual([{ name: 'Zapier' }]);
+  });
+});
+
+describe('rotated API keys', () => {
+  async function issue(name: string) {
+    const secret = (await db.query<{ key: string }>('SELECT public.generate_api_key() AS key')).rows[0].key;
+    const { id } = (await db.query<{ id: string }>(
+      'INSERT INTO public.api_keys (user_id, workspace_id, name, key_hash) VALUES ($1, $2, $3, public.hash_api_key($4)) RETURNING id',
+      [alice.id, alice.workspaceId, name, secret]
+    )).rows[0];
+    return { id, secret };
+  }
+
+  // What POST /ai-keys/:id/rotate writes
+  async function rotate(id: string, graceEndsAt: string | null) {
+    const secret = (await db.query<{ key: string }>('SELECT public.generate_api_key() AS key')).rows[0].key;
+    await db.query(
+      `UPDATE public.api_keys
+       SET key_hash = public.hash_api_key($2),
+           previous_key_hash = CASE WHEN $3::timestamptz IS NULL THEN NULL ELSE key_hash END,
+           previous_key_expires_at = $3::timestamptz,
+           rotated_at = now()
+       WHERE id = $1`,
+      [id, secret, graceEndsAt]
+    );
+    return secret;
+  }
+
+  async function validate(secret: string) {
+    return (await db.query<{ api_key_id: string; is_valid: boolean }>(
+      'SELECT api_key_id, is_valid FROM public.validate_api_key($1)',
+      [secret]
+    )).rows;
+  }
+
+  it('accepts the old and the new secret during the grace period, then only the new one', async () => {
+    const key = await issue('Rotated');
+    const next = await rotate(key.id, new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+    expect(await validate(key.secret)).toEqual([{ api_key_id: key.id, is_valid: true }]);
+    expect(await validate(next)).toEqual([{ api_key_id: key.id, is_valid: true }]);
+
+    await db.query("UPDATE public.api_keys SET previous_key_expires_at = now() - interval '1 second' WHERE id = $1", [key.id]);
+
+    expect(await validate(key.secret)).toEqual([]);
+    expect(await validate(next)).toEqual([{ api_key_id: key.id, is_valid: true }]);
+  });
+
+  it('drops the old secret at once without a grace period', async () => {
+    const key = await issue('Leaked');
+    const next = await rotate(key.id, null);
+
+    expect(await validate(key.secret)).toEqual([]);
+    expect(await validate(next)).toEqual([{ api_key_id: key.id, is_valid: true }]);
+  });
+
+  it('stops a secret rotated out earlier when the key is rotated again', async () => {
+    const key = await issue('Twice');
+    const grace = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const second = await rotate(key.id, grace);
+    const third = await rotate(key.id, grace);
+
+    expect(await validate(key.secret)).toEqual([]);
+    expect(await validate(second)).toEqual([{ api_key_id: key.id, is_valid: true }]);
+    expect(await validate(third)).toEqual([{ api_key_id: key.id, is_valid: true }]);
+  });
+
+  it('applies deactivation to both secrets', async () => {
+    const key = await issue('Disabled');
+    const next = await rotate(key.id, new Date(Date.now() + 60 * 60 * 1000).toISOString());
+    await db.query('UPDATE public.api_keys SET is_active = false WHERE id = $1', [key.id]);
+
+    expect(await validate(key.secret)).toEqual([{ api_key_id: key.id, is_valid: false }]);
+    expect(await validate(next)).toEqual([{ api_key_id: key.id, is_valid: false }]);
+  });
+});
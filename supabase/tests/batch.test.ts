@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let other: User;
+let ideaId: string;
+let otherIdeaId: string;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  other = await createUser(db, 'other@example.com');
+  const insert = 'INSERT INTO public.ideas (user_id, workspace_id, title) VALUES ($1, $2, $3) RETURNING id';
+  ideaId = (await db.query<{ id: string }>(insert, [owner.id, owner.workspaceId, 'Voice notes'])).rows[0].id;
+  otherIdeaId = (await db.query<{ id: string }>(insert, [other.id, other.workspaceId, 'Not yours'])).rows[0].id;
+}, 120_000);
+
+// What POST /ai-ideas/batch hands to the database once every operation passed validation
+async function applyBatch(operations: object[], atomic: boolean) {
+  return (await db.query<{ results: { id: string; error?: string }[] }>(
+    'SELECT public.apply_idea_batch($1, $2, $3, $4) AS results',
+    [owner.id, owner.workspaceId, JSON.stringify(operations), atomic]
+  )).rows[0].results;
+}
+
+async function ideaTitles() {
+  return (await db.query<{ title: string; status: string }>(
+    'SELECT title, status FROM public.ideas WHERE workspace_id = $1 ORDER BY title',
+    [owner.workspaceId]
+  )).rows;
+}
+
+describe('apply_idea_batch', () => {
+  it('creates, updates and archives ideas in the workspace', async () => {
+    const results = await applyBatch([
+      { op: 'create', data: { title: 'Meal planner', tags: ['food'] } },
+      { op: 'update', id: ideaId, data: { title: 'Voice memos' } },
+    ], true);
+
+    expect(results).toHaveLength(2);
+    expect(results[1]).toEqual({ id: ideaId });
+    expect(await ideaTitles()).toEqual([
+      { title: 'Meal planner', status: 'idea' },
+      { title: 'Voice memos', status: 'idea' },
+    ]);
+
+    await applyBatch([{ op: 'archive', id: ideaId }], true);
+    expect((await ideaTitles())[1]).toEqual({ title: 'Voice memos', status: 'archived' });
+  });
+
+  it('rolls an atomic batch back and reports the position that failed', async () => {
+    const before = await ideaTitles();
+
+    const error = await applyBatch([
+      { op: 'create', data: { title: 'Never saved' } },
+      { op: 'update', id: otherIdeaId, data: { title: 'Taken over' } },
+    ], true).catch(caught => caught);
+
+    expect(error).toMatchObject({ message: 'Idea not found', detail: '1' });
+    expect(await ideaTitles()).toEqual(before);
+    const { rows } = await db.query('SELECT title FROM public.ideas WHERE id = $1', [otherIdeaId]);
+    expect(rows).toEqual([{ title: 'Not yours' }]);
+  });
+
+  it('applies what it can of a partial batch and reports the rest', async () => {
+    const results = await applyBatch([
+      { op: 'update', id: otherIdeaId, data: { title: 'Taken over' } },
+      { op: 'create', data: { title: 'Podcast search' } },
+    ], false);
+
+    expect(results[0]).toEqual({ id: otherIdeaId, error: 'Idea not found' });
+    expect(results[1].error).toBeUndefined();
+    expect((await ideaTitles()).map(idea => idea.title)).toContain('Podcast search');
+  });
+
+  it('can only be called by the service role', async () => {
+    await expect(asUser(db, owner, tx => tx.query(
+      'SELECT public.apply_idea_batch($1, $2, $3, true)',
+      [owner.id, owner.workspaceId, JSON.stringify([{ op: 'create', data: { title: 'Direct' } }])]
+    ))).rejects.toThrow('permission denied');
+  });
+});
+
+describe('consume_rate_limit', () => {
+  it('counts a batch by its weight and refuses one that does not fit', async () => {
+    const { id: keyId } = (await db.query<{ id: string }>(
+      "INSERT INTO public.api_keys (user_id, workspace_id, name, key_hash) VALUES ($1, $2, 'Import', 'hash') RETURNING id",
+      [owner.id, owner.workspaceId]
+    )).rows[0];
+    const consume = async (weight: number) => (await db.query<{ allowed: boolean; used_count: number }>(
+      "SELECT allowed, used_count FROM public.consume_rate_limit($1, 'ai-ideas', 100, $2)",
+      [keyId, weight]
+    )).rows[0];
+
+    expect(await consume(60)).toEqual({ allowed: true, used_count: 60 });
+    expect(await consume(50)).toEqual({ allowed: false, used_count: 60 });
+    expect(await consume(40)).toEqual({ allowed: true, used_count: 100 });
+  });
+});
@@ -0,0 +1,57 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser, migrationFiles, readMigration } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let other: User;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  other = await createUser(db, 'other@example.com');
+}, 120_000);
+
+async function createGroup(name: string) {
+  return (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    'INSERT INTO public.idea_groups (user_id, workspace_id, name) VALUES ($1, $2, $3) RETURNING id',
+    [owner.id, owner.workspaceId, name]
+  ))).rows[0].id;
+}
+
+async function createIdea(title: string, groupId: string | null) {
+  return (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    'INSERT INTO public.ideas (user_id, workspace_id, title, group_id) VALUES ($1, $2, $3, $4) RETURNING id',
+    [owner.id, owner.workspaceId, title, groupId]
+  ))).rows[0].id;
+}
+
+describe('idea groups', () => {
+  it('hold their ideas, and are only visible in their workspace', async () => {
+    const groupId = await createGroup('Side projects');
+    await createIdea('Voice notes', groupId);
+
+    const grouped = await asUser(db, owner, tx => tx.query('SELECT title FROM public.ideas WHERE group_id = $1', [groupId]));
+    expect(grouped.rows).toEqual([{ title: 'Voice notes' }]);
+    const seenByOther = await asUser(db, other, tx => tx.query('SELECT id FROM public.idea_groups WHERE id = $1', [groupId]));
+    expect(seenByOther.rows).toEqual([]);
+  });
+
+  it('leave their ideas ungrouped when deleted', async () => {
+    const groupId = await createGroup('Someday');
+    const ideaId = await createIdea('Reading list', groupId);
+
+    await asUser(db, owner, tx => tx.query('DELETE FROM public.idea_groups WHERE id = $1', [groupId]));
+
+    const { rows } = await asUser(db, owner, tx => tx.query('SELECT group_id FROM public.ideas WHERE id = $1', [ideaId]));
+    expect(rows).toEqual([{ group_id: null }]);
+  });
+
+  it('have a migration that can be applied again', async () => {
+    const file = migrationFiles().find(name => name.startsWith('20261019090000'))!;
+
+    await expect(db.exec(readMigration(file))).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+import { DEFAULT_TEMPLATE } from '../functions/enhance-description/prompt.ts';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+const PRODUCT_BRIEF_ID = '00000000-0000-4000-8000-000000000001';
+
+let db: PGlite;
+let alice: User;
+let bob: User;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  alice = await createUser(db, 'alice@example.com');
+  bob = await createUser(db, 'bob@example.com');
+}, 120_000);
+
+function createTemplate(user: User, name: string, userId = user.id) {
+  return asUser(db, user, async tx => (await tx.query<{ id: string }>(
+    "INSERT INTO public.prompt_templates (user_id, name, system_prompt, user_prompt) VALUES ($1, $2, 'You write specs.', 'Spec for {{title}}') RETURNING id",
+    [userId, name]
+  )).rows[0].id);
+}
+
+function templateNames(user: User) {
+  return asUser(db, user, async tx => (await tx.query<{ name: string }>(
+    'SELECT name FROM public.prompt_templates ORDER BY user_id NULLS FIRST, name'
+  )).rows.map(row => row.name));
+}
+
+describe('prompt templates', () => {
+  it('ship the built-in presets, the first matching the default prompt', async () => {
+    const { rows } = await db.query<{ name: string; system_prompt: string; user_prompt: string }>(
+      'SELECT name, system_prompt, user_prompt FROM public.prompt_templates WHERE id = $1',
+      [PRODUCT_BRIEF_ID]
+    );
+
+    expect(rows).toEqual([{
+      name: DEFAULT_TEMPLATE.name,
+      system_prompt: DEFAULT_TEMPLATE.system_prompt,
+      user_prompt: DEFAULT_TEMPLATE.user_prompt,
+    }]);
+  });
+
+  it('show everyone the presets and each user only their own templates', async () => {
+    await createTemplate(alice, 'Alice spec');
+    await createTemplate(bob, 'Bob spec');
+
+    expect(await templateNames(alice)).toEqual(['Polish', 'Product brief', 'Technical spec', 'Alice spec']);
+    expect(await templateNames(bob)).toEqual(['Polish', 'Product brief', 'Technical spec', 'Bob spec']);
+  });
+
+  it('cannot be created for someone else, and presets cannot be changed', async () => {
+    await expect(createTemplate(alice, 'Planted', bob.id)).rejects.toThrow('row-level security');
+
+    const changed = await asUser(db, alice, async tx => (await tx.query(
+      "UPDATE public.prompt_templates SET name = 'Mine now' WHERE id = $1 RETURNING id",
+      [PRODUCT_BRIEF_ID]
+    )).rows);
+    expect(changed).toEqual([]);
+  });
+
+  it('leave the template name on ideas after they are deleted', async () => {
+    const templateId = await createTemplate(alice, 'Short-lived');
+    const { id: ideaId } = (await db.query<{ id: string }>(
+      "INSERT INTO public.ideas (user_id, workspace_id, title, enhancement_template_id, enhancement_template_name) VALUES ($1, $2, 'Voice notes', $3, 'Short-lived') RETURNING id",
+      [alice.id, alice.workspaceId, templateId]
+    )).rows[0];
+
+    await asUser(db, alice, tx => tx.query('DELETE FROM public.prompt_templates WHERE id = $1', [templateId]));
+
+    const { rows } = await db.query('SELECT enhancement_template_id, enhancement_template_name FROM public.ideas WHERE id = $1', [ideaId]);
+    expect(rows).toEqual([{ enhancement_template_id: null, enhancement_template_name: 'Short-lived' }]);
+  });
+});
@@ -0,0 +1,26 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createDatabase } from './database';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createDatabase();
+}, 120_000);
+
+describe('realtime', () => {
+  it('publishes changes to ideas', async () => {
+    const { rows } = await db.query(
+      "SELECT tablename FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'ideas'"
+    );
+
+    expect(rows).toEqual([{ tablename: 'ideas' }]);
+  });
+
+  // Deletes are filtered by workspace_id, which the old row only carries with full replica identity
+  it('sends the whole old row with deletes', async () => {
+    const { rows } = await db.query("SELECT relreplident FROM pg_class WHERE oid = 'public.ideas'::regclass");
+
+    expect(rows).toEqual([{ relreplident: 'f' }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+}, 120_000);
+
+async function createIdea(title: string) {
+  return (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    'INSERT INTO public.ideas (user_id, workspace_id, title) VALUES ($1, $2, $3) RETURNING id',
+    [owner.id, owner.workspaceId, title]
+  ))).rows[0].id;
+}
+
+async function revisions(ideaId: string) {
+  return (await asUser(db, owner, tx => tx.query<{ version: number; title: string; changed_fields: string[]; source: string }>(
+    'SELECT version, title, changed_fields, source FROM public.idea_revisions WHERE idea_id = $1 ORDER BY version',
+    [ideaId]
+  ))).rows;
+}
+
+describe('idea revisions', () => {
+  it('number each content change of an idea in turn', async () => {
+    const ideaId = await createIdea('Voice notes');
+
+    await asUser(db, owner, async tx => {
+      await tx.query("UPDATE public.ideas SET title = 'Voice memos' WHERE id = $1", [ideaId]);
+      await tx.query("UPDATE public.ideas SET status = 'research', tags = ARRAY['audio'] WHERE id = $1", [ideaId]);
+    });
+
+    expect(await revisions(ideaId)).toEqual([
+      { version: 1, title: 'Voice notes', changed_fields: [], source: 'app' },
+      { version: 2, title: 'Voice memos', changed_fields: ['title'], source: 'app' },
+      { version: 3, title: 'Voice memos', changed_fields: ['status', 'tags'], source: 'app' },
+    ]);
+  });
+
+  it('skip changes that leave the content alone', async () => {
+    const ideaId = await createIdea('Reading list');
+
+    await asUser(db, owner, tx => tx.query("UPDATE public.ideas SET color = 'blue', board_position = 2048 WHERE id = $1", [ideaId]));
+
+    expect((await revisions(ideaId)).map(revision => revision.version)).toEqual([1]);
+  });
+
+  it('are counted separately for every idea, and never twice with the same number', async () => {
+    const first = await createIdea('First');
+    const second = await createIdea('Second');
+    await db.query("UPDATE public.ideas SET title = 'First, renamed' WHERE id = $1", [first]);
+
+    // Written without a signed-in user, as the edge functions do
+    expect((await revisions(first)).map(({ version, source }) => [version, source])).toEqual([[1, 'app'], [2, 'api']]);
+    expect((await revisions(second)).map(revision => revision.version)).toEqual([1]);
+    await expect(db.query(
+      "INSERT INTO public.idea_revisions (idea_id, user_id, version, title, status) VALUES ($1, $2, 2, 'Duplicate', 'idea')",
+      [first, owner.id]
+    )).rejects.toThrow('duplicate key');
+  });
+});
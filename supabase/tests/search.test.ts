@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let stranger: User;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  stranger = await createUser(db, 'stranger@example.com');
+
+  const ideas: [string, string, string[], boolean?][] = [
+    ['Voice notes', 'Record thoughts while walking', ['audio']],
+    ['Meal planner', 'Plan the week and share voice reminders', ['food']],
+    ['Podcast search', 'Find episodes by what was said, not the title', ['audio', 'search']],
+    ['Voice diary', 'A private journal you speak into', ['audio'], true],
+  ];
+  for (const [title, description, tags, trashed] of ideas) {
+    await db.query(
+      'INSERT INTO public.ideas (user_id, workspace_id, title, description, tags, deleted_at) VALUES ($1, $2, $3, $4, $5, $6)',
+      [owner.id, owner.workspaceId, title, description, tags, trashed ? new Date() : null]
+    );
+  }
+}, 120_000);
+
+function search(user: User, query: string, workspaceId = user.workspaceId) {
+  return asUser(db, user, async tx => (await tx.query<{ title: string; title_highlight: string; description_highlight: string }>(
+    `SELECT i.title, s.title_highlight, s.description_highlight
+     FROM public.search_ideas($1, $2, '[', ']') s JOIN public.ideas i ON i.id = s.id`,
+    [workspaceId, query]
+  )).rows);
+}
+
+async function titles(query: string) {
+  return (await search(owner, query)).map(row => row.title);
+}
+
+describe('search_ideas', () => {
+  it('ranks title matches above description matches and highlights them', async () => {
+    const rows = await search(owner, 'voice');
+
+    expect(rows.map(row => row.title)).toEqual(['Voice notes', 'Meal planner']);
+    expect(rows[0].title_highlight).toBe('[Voice] notes');
+    expect(rows[1].description_highlight).toContain('[voice] reminders');
+  });
+
+  it('matches tags, phrases, prefixes and leaves out negated terms', async () => {
+    expect((await titles('audio')).sort()).toEqual(['Podcast search', 'Voice notes']);
+    expect(await titles('"share voice"')).toEqual(['Meal planner']);
+    expect(await titles('"voice share"')).toEqual([]);
+    expect(await titles('pod*')).toEqual(['Podcast search']);
+    expect(await titles('audio -podcast')).toEqual(['Voice notes']);
+  });
+
+  it('ignores punctuation instead of failing', async () => {
+    expect(await titles('voice, (notes)')).toEqual(['Voice notes']);
+    expect(await titles('"" - * ,')).toEqual([]);
+  });
+
+  it('leaves out trashed ideas and other workspaces', async () => {
+    expect(await titles('diary')).toEqual([]);
+    expect(await search(stranger, 'voice', owner.workspaceId)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let other: User;
+let ideaId: string;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  other = await createUser(db, 'other@example.com');
+  ({ ideaId } = (await db.query<{ ideaId: string }>(
+    `INSERT INTO public.ideas (user_id, workspace_id, title) VALUES ($1, $2, 'Voice notes') RETURNING id AS "ideaId"`,
+    [owner.id, owner.workspaceId]
+  )).rows[0]);
+}, 120_000);
+
+async function share(password?: string) {
+  return asUser(db, owner, async tx => (await tx.query<{ id: string; token: string; password_hash: string | null; has_password: boolean }>(
+    'SELECT * FROM public.create_share_link(p_idea_id => $1, p_password => $2)',
+    [ideaId, password ?? null]
+  )).rows[0]);
+}
+
+async function open(token: string, password?: string) {
+  return asUser(db, null, async tx => (await tx.query<{ content: Record<string, unknown> | null }>(
+    'SELECT public.get_shared_content($1, $2) AS content',
+    [token, password ?? null]
+  )).rows[0].content);
+}
+
+describe('share links', () => {
+  it('shows the shared idea to anyone with the token', async () => {
+    const link = await share();
+
+    expect(await open(link.token)).toMatchObject({ idea: { id: ideaId, title: 'Voice notes' } });
+  });
+
+  it('never returns the password hash to the owner', async () => {
+    const link = await share('secret');
+
+    expect(link.password_hash).toBeNull();
+    expect(link.has_password).toBe(true);
+    await expect(asUser(db, owner, tx => tx.query('SELECT password_hash FROM public.share_links')))
+      .rejects.toThrow('permission denied');
+    const listed = await asUser(db, owner, tx => tx.query('SELECT id, has_password FROM public.share_links WHERE id = $1', [link.id]));
+    expect(listed.rows).toEqual([{ id: link.id, has_password: true }]);
+  });
+
+  it('only lets owners revoke, and nothing else', async () => {
+    const link = await share();
+
+    await expect(asUser(db, owner, tx => tx.query('UPDATE public.share_links SET revoked_at = NULL, token = $2 WHERE id = $1', [link.id, 'guessable'])))
+      .rejects.toThrow('permission denied');
+    await expect(asUser(db, other, tx => tx.query('SELECT public.revoke_share_link($1)', [link.id])))
+      .rejects.toThrow('Share link not found');
+
+    await asUser(db, owner, tx => tx.query('SELECT public.revoke_share_link($1)', [link.id]));
+
+    expect(await open(link.token)).toBeNull();
+  });
+
+  it('asks for the password and locks the link after five wrong ones', async () => {
+    const link = await share('secret');
+
+    expect(await open(link.token)).toEqual({ password_required: true });
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await open(link.token, 'wrong')).toEqual({ password_required: true, invalid_password: true });
+    }
+
+    expect(await open(link.token, 'secret')).toEqual({ password_required: true, too_many_attempts: true });
+
+    await db.query("UPDATE public.share_links SET password_locked_until = now() - interval '1 second' WHERE id = $1", [link.id]);
+    expect(await open(link.token, 'secret')).toMatchObject({ idea: { id: ideaId } });
+  });
+
+  it('hides an idea that no longer belongs to the link workspace', async () => {
+    const link = await share();
+    await db.query('UPDATE public.ideas SET workspace_id = $2 WHERE id = $1', [ideaId, other.workspaceId]);
+
+    try {
+      expect(await open(link.token)).toBeNull();
+    } finally {
+      await db.query('UPDATE public.ideas SET workspace_id = $2 WHERE id = $1', [ideaId, owner.workspaceId]);
+    }
+  });
+});
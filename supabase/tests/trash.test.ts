@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let editor: User;
+let workspaceId: string;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  editor = await createUser(db, 'editor@example.com');
+  workspaceId = (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    "SELECT id FROM public.create_workspace('Team')"
+  ))).rows[0].id;
+  await db.query("INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'editor')", [workspaceId, editor.id]);
+  await db.query('UPDATE public.user_settings SET trash_retention_days = 90 WHERE user_id = $1', [owner.id]);
+  await db.query('UPDATE public.user_settings SET trash_retention_days = 7 WHERE user_id = $1', [editor.id]);
+}, 120_000);
+
+// An idea of the given workspace that went to the trash the given number of days ago
+async function trashedIdea(user: User, inWorkspace: string, daysAgo: number) {
+  return (await db.query<{ id: string }>(
+    `INSERT INTO public.ideas (user_id, workspace_id, title, deleted_at)
+     VALUES ($1, $2, 'Trashed', now() - make_interval(days => $3)) RETURNING id`,
+    [user.id, inWorkspace, daysAgo]
+  )).rows[0].id;
+}
+
+async function exists(id: string) {
+  return (await db.query('SELECT 1 FROM public.ideas WHERE id = $1', [id])).rows.length === 1;
+}
+
+describe('trash retention', () => {
+  it('is the workspace creator\'s setting for every member, and hidden from everyone else', async () => {
+    const stranger = await createUser(db, 'stranger@example.com');
+    const retention = (user: User) => asUser(db, user, async tx => (await tx.query<{ days: number | null }>(
+      'SELECT public.trash_retention_days($1) AS days',
+      [workspaceId]
+    )).rows[0].days);
+
+    expect(await retention(owner)).toBe(90);
+    expect(await retention(editor)).toBe(90);
+    expect(await retention(stranger)).toBeNull();
+  });
+
+  it('decides what a member\'s purge removes', async () => {
+    const expired = await trashedIdea(owner, workspaceId, 100);
+    const kept = await trashedIdea(owner, workspaceId, 40);
+
+    await asUser(db, editor, tx => tx.query('SELECT public.purge_trashed_ideas($1)', [workspaceId]));
+
+    expect(await exists(expired)).toBe(false);
+    expect(await exists(kept)).toBe(true);
+  });
+
+  it('is applied to every workspace by the scheduled purge', async () => {
+    const expiredPersonal = await trashedIdea(editor, editor.workspaceId, 8);
+    const keptShared = await trashedIdea(owner, workspaceId, 8);
+
+    await db.query('SELECT public.purge_expired_trash()');
+
+    expect(await exists(expiredPersonal)).toBe(false);
+    expect(await exists(keptShared)).toBe(true);
+    const { rows } = await db.query("SELECT schedule FROM cron.job WHERE jobname = 'purge-trash'");
+    expect(rows).toEqual([{ schedule: '30 3 * * *' }]);
+  });
+
+  it('cannot be purged on demand by users', async () => {
+    await expect(asUser(db, owner, tx => tx.query('SELECT public.purge_expired_trash()')))
+      .rejects.toThrow('permission denied');
+  });
+});
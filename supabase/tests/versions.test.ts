@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let viewer: User;
+let ideaId: string;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  viewer = await createUser(db, 'viewer@example.com');
+  await db.query("INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'viewer')", [owner.workspaceId, viewer.id]);
+  ideaId = (await db.query<{ id: string }>(
+    "INSERT INTO public.ideas (user_id, workspace_id, title) VALUES ($1, $2, 'Voice notes') RETURNING id",
+    [owner.id, owner.workspaceId]
+  )).rows[0].id;
+}, 120_000);
+
+// The version clients read, as text so the microseconds survive
+async function readVersion() {
+  return (await db.query<{ version: string }>('SELECT updated_at::text AS version FROM public.ideas WHERE id = $1', [ideaId])).rows[0].version;
+}
+
+// An update that only applies if the idea is still at the expected version
+function saveIfUnchanged(user: User, title: string, version: string) {
+  return asUser(db, user, async tx => (await tx.query<{ version: string }>(
+    'UPDATE public.ideas SET title = $2 WHERE id = $1 AND updated_at = $3::timestamptz RETURNING updated_at::text AS version',
+    [ideaId, title, version]
+  )).rows);
+}
+
+describe('idea versions', () => {
+  it('change on every save, so a stale version no longer matches', async () => {
+    const read = await readVersion();
+
+    const [saved] = await saveIfUnchanged(owner, 'Voice memos', read);
+    expect(saved.version).not.toBe(read);
+    expect(saved.version).toBe(await readVersion());
+
+    expect(await saveIfUnchanged(owner, 'Overwritten', read)).toEqual([]);
+    const { rows } = await db.query('SELECT title FROM public.ideas WHERE id = $1', [ideaId]);
+    expect(rows).toEqual([{ title: 'Voice memos' }]);
+  });
+
+  it('stay the same when row-level security refuses the write', async () => {
+    const read = await readVersion();
+
+    expect(await saveIfUnchanged(viewer, 'Renamed by a viewer', read)).toEqual([]);
+    expect(await readVersion()).toBe(read);
+  });
+});
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let ideaId: string;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  await db.query(
+    "INSERT INTO public.webhooks (user_id, url, events) VALUES ($1, 'https://example.com/hooks', DEFAULT)",
+    [owner.id]
+  );
+  ideaId = (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    "INSERT INTO public.ideas (user_id, workspace_id, title) VALUES ($1, $2, 'Voice notes') RETURNING id",
+    [owner.id, owner.workspaceId]
+  ))).rows[0].id;
+}, 120_000);
+
+async function change(sql: string) {
+  await db.query('DELETE FROM public.webhook_deliveries');
+  await asUser(db, owner, tx => tx.query(`UPDATE public.ideas SET ${sql} WHERE id = $1`, [ideaId]));
+  const { rows } = await db.query<{ event: string }>('SELECT event FROM public.webhook_deliveries');
+  return rows.map(row => row.event).sort();
+}
+
+describe('idea webhook events', () => {
+  it('fire idea.updated when a field changes', async () => {
+    expect(await change("title = 'Voice memos'")).toEqual(['idea.updated']);
+  });
+
+  it('ignore board reordering', async () => {
+    expect(await change('board_position = 2048')).toEqual([]);
+  });
+
+  it('fire the status events when an idea is archived', async () => {
+    expect(await change("status = 'archived'")).toEqual(['idea.archived', 'idea.status_changed', 'idea.updated']);
+  });
+
+  it('fire idea.trashed and idea.restored when the idea leaves and returns from the trash', async () => {
+    expect(await change('deleted_at = now()')).toEqual(['idea.trashed']);
+    expect(await change('deleted_at = NULL')).toEqual(['idea.restored']);
+  });
+
+  it('only fire events a webhook subscribed to', async () => {
+    await db.query("UPDATE public.webhooks SET events = ARRAY['idea.created']");
+
+    try {
+      expect(await change('deleted_at = now()')).toEqual([]);
+    } finally {
+      await db.query('UPDATE public.webhooks SET events = DEFAULT');
+      await db.query('UPDATE public.ideas SET deleted_at = NULL WHERE id = $1', [ideaId]);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createDatabase, createUser } from './database';
+
+type User = Awaited<ReturnType<typeof createUser>>;
+
+let db: PGlite;
+let owner: User;
+let workspaceId: string;
+let ideaId: string;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  owner = await createUser(db, 'owner@example.com');
+  workspaceId = (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    "SELECT id FROM public.create_workspace('Team')"
+  ))).rows[0].id;
+  ideaId = (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    "INSERT INTO public.ideas (user_id, workspace_id, title) VALUES ($1, $2, 'Voice notes') RETURNING id",
+    [owner.id, workspaceId]
+  ))).rows[0].id;
+}, 120_000);
+
+async function addMember(email: string, role: string) {
+  const member = await createUser(db, email);
+  await db.query('INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES ($1, $2, $3)', [workspaceId, member.id, role]);
+  return member;
+}
+
+async function invite(email: string, role: string) {
+  return (await asUser(db, owner, tx => tx.query<{ id: string }>(
+    'INSERT INTO public.workspace_invitations (workspace_id, email, role, invited_by) VALUES ($1, $2, $3, $4) RETURNING id',
+    [workspaceId, email, role, owner.id]
+  ))).rows[0].id;
+}
+
+function accept(user: User, invitationId: string) {
+  return asUser(db, user, tx => tx.query('SELECT public.accept_workspace_invitation($1)', [invitationId]));
+}
+
+function renameIdea(user: User, title: string) {
+  return asUser(db, user, async tx => (await tx.query(
+    'UPDATE public.ideas SET title = $2 WHERE id = $1 RETURNING id',
+    [ideaId, title]
+  )).rows.length);
+}
+
+describe('create_workspace', () => {
+  it('makes the creator the owner of a shared workspace', async () => {
+    const { rows } = await asUser(db, owner, tx => tx.query(
+      'SELECT w.is_personal, public.workspace_role(w.id) AS role FROM public.workspaces w WHERE w.id = $1',
+      [workspaceId]
+    ));
+
+    expect(rows).toEqual([{ is_personal: false, role: 'owner' }]);
+  });
+});
+
+describe('workspace invitations', () => {
+  it('are hidden from and cannot be accepted with an unconfirmed email', async () => {
+    const impostor = await createUser(db, 'invitee@example.com', { confirmed: false });
+    const invitationId = await invite('invitee@example.com', 'editor');
+
+    const visible = await asUser(db, impostor, tx => tx.query('SELECT id FROM public.workspace_invitations'));
+    expect(visible.rows).toEqual([]);
+    await expect(accept(impostor, invitationId)).rejects.toThrow('Confirm your email address');
+  });
+
+  it('add the invitee with the invited role once their email is confirmed', async () => {
+    const invitee = await createUser(db, 'confirmed@example.com');
+    const invitationId = await invite('confirmed@example.com', 'viewer');
+
+    await accept(invitee, invitationId);
+
+    const { rows } = await asUser(db, invitee, tx => tx.query('SELECT public.workspace_role($1) AS role', [workspaceId]));
+    expect(rows).toEqual([{ role: 'viewer' }]);
+  });
+});
+
+describe('workspace roles', () => {
+  it('let viewers read ideas but not change them', async () => {
+    const viewer = await addMember('viewer@example.com', 'viewer');
+
+    const { rows } = await asUser(db, viewer, tx => tx.query('SELECT title FROM public.ideas WHERE id = $1', [ideaId]));
+    expect(rows).toEqual([{ title: 'Voice notes' }]);
+    expect(await renameIdea(viewer, 'Renamed by a viewer')).toBe(0);
+  });
+
+  it('let editors change ideas', async () => {
+    const editor = await addMember('editor@example.com', 'editor');
+
+    expect(await renameIdea(editor, 'Voice memos')).toBe(1);
+  });
+
+  it('keep everyone else out', async () => {
+    const stranger = await createUser(db, 'stranger@example.com');
+
+    const { rows } = await asUser(db, stranger, tx => tx.query('SELECT id FROM public.ideas WHERE id = $1', [ideaId]));
+    expect(rows).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { defineConfig } from "vite";
+import type { Plugin } from "vite";
+
+// Builds src/sdk into a standalone package in dist/sdk, as ES module and CommonJS; the
+// declarations come from tsconfig.sdk.json. Publish with `npm run build:sdk && npm publish dist/sdk`.
+const manifest = {
+  name: "@ideahub/sdk",
+  version: "0.1.0",
+  description: "Typed client for the IdeaHub API",
+  license: "Apache-2.0",
+  main: "./index.cjs",
+  module: "./index.mjs",
+  types: "./types/sdk/index.d.ts",
+  exports: {
+    ".": {
+      types: "./types/sdk/index.d.ts",
+      import: "./index.mjs",
+      require: "./index.cjs",
+    },
+  },
+  sideEffects: false,
+};
+
+const writeManifest = (): Plugin => ({
+  name: "sdk-manifest",
+  generateBundle(options) {
+    if (options.format !== "es") return;
+    this.emitFile({ type: "asset", fileName: "package.json", source: `${JSON.stringify(manifest, null, 2)}\n` });
+  },
+});
+
+export default defineConfig({
+  publicDir: false,
+  plugins: [writeManifest()],
+  build: {
+    outDir: "dist/sdk",
+    emptyOutDir: true,
+    lib: {
+      entry: "src/sdk/index.ts",
+      formats: ["es", "cjs"],
+      fileName: (format) => (format === "es" ? "index.mjs" : "index.cjs"),
+    },
+    // Consumers minify; readable output makes the package easier to debug
+    minify: false,
+  },
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // The edge functions import npm packages through esm.sh; tests use the installed copies
+      "https://esm.sh/fflate@0.8.2": "fflate",
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts", "supabase/tests/**/*.test.ts"],
+    environment: "node",
+  },
+});